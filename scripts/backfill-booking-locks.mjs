@@ -0,0 +1,45 @@
+// One-off migration: writes the night locks of active bookings made before bookings
+// took them, so new bookings can't overlap them. Run before rebuild-booked-nights;
+// safe to run again. Nights two active bookings already share are listed as conflicts.
+//
+// Loads the app's own bookingService through Vite so the job runs the same code as
+// the app. Points at the local Firestore emulator by default:
+//
+//   firebase emulators:start --only firestore
+//   npm run backfill-booking-locks
+//
+// Set FIRESTORE_EMULATOR_HOST to use a different emulator address.
+// Nights are keyed by local calendar day, so run it with TZ set to the listings' time
+// zone, e.g. TZ=Asia/Singapore.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { backfillBookingLocks } = await server.ssrLoadModule('/src/services/bookingService.ts');
+    const { locked, conflicts } = await backfillBookingLocks();
+
+    console.log(`Locked the nights of ${locked.length} booking(s)`);
+    locked.forEach((id) => console.log(`  ${id}`));
+    if (conflicts.length > 0) {
+        console.warn(`${conflicts.length} night(s) are held by two active bookings:`);
+        conflicts.forEach((conflict) => console.warn(`  ${conflict}`));
+    }
+} catch (error) {
+    console.error('Booking lock backfill failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
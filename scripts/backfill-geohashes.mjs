@@ -0,0 +1,40 @@
+// One-off migration: stores a geohash on every listing's location, and an active status
+// and zero rating and review count on listings saved without them, so search can find
+// and sort them. Listings saved from now on get all of these automatically; safe to run
+// again.
+//
+// Loads the app's own propertyService through Vite so the job runs the same code as
+// the app. Points at the local Firestore emulator by default:
+//
+//   firebase emulators:start --only firestore
+//   npm run backfill-geohashes
+//
+// Set FIRESTORE_EMULATOR_HOST to use a different emulator address.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { backfillGeohashes } = await server.ssrLoadModule('/src/services/propertyService.ts');
+    const updated = await backfillGeohashes();
+
+    console.log(`Updated ${updated.length} listing(s) for search`);
+    updated.forEach((id) => console.log(`  ${id}`));
+} catch (error) {
+    console.error('Geohash backfill failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
@@ -0,0 +1,59 @@
+// Scheduled booking sweep: expires unanswered requests, completes past stays,
+// creates host payouts that have come due, holds security deposits for upcoming
+// stays, releases unclaimed ones, settles damage disputes support left too long and
+// retries refunds the payment provider refused.
+//
+// Loads the app's own bookingLifecycleService through Vite so the job runs the same
+// code as the app. Points at the local Firestore emulator by default:
+//
+//   firebase emulators:start --only firestore
+//   npm run booking-sweep
+//
+// Set FIRESTORE_EMULATOR_HOST to use a different emulator address.
+// Nights are keyed by local calendar day, so run it with TZ set to the listings' time
+// zone, e.g. TZ=Asia/Singapore.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { runBookingSweep } = await server.ssrLoadModule('/src/services/bookingLifecycleService.ts');
+    const { expired, completed, failed, payouts, depositHolds, deposits, disputes, refunds } = await runBookingSweep();
+
+    console.log(`Expired ${expired.length} booking request(s)`);
+    expired.forEach((id) => console.log(`  ${id}`));
+    console.log(`Completed ${completed.length} booking(s)`);
+    completed.forEach((id) => console.log(`  ${id}`));
+    if (failed.length > 0) {
+        console.error(`Failed to update ${failed.length} booking(s); the next sweep retries them`);
+        failed.forEach((id) => console.error(`  ${id}`));
+        exitCode = 1;
+    }
+    console.log(`Created ${payouts.length} payout(s)`);
+    payouts.forEach((id) => console.log(`  ${id}`));
+    console.log(`Held ${depositHolds.length} security deposit(s)`);
+    depositHolds.forEach((id) => console.log(`  ${id}`));
+    console.log(`Released ${deposits.length} security deposit(s)`);
+    deposits.forEach((id) => console.log(`  ${id}`));
+    console.log(`Settled ${disputes.length} stale damage dispute(s) for the guest`);
+    disputes.forEach((id) => console.log(`  ${id}`));
+    console.log(`Retried ${refunds.length} failed refund(s)`);
+    refunds.forEach((id) => console.log(`  ${id}`));
+} catch (error) {
+    console.error('Booking sweep failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
@@ -0,0 +1,52 @@
+// Scheduled calendar sync: re-fetches every external iCal calendar hosts subscribed to
+// and republishes every property's iCal feed.
+//
+// Runs outside the browser, so it can read calendars that don't allow cross-origin
+// requests. Loads the app's own calendarSyncService through Vite. Points at the local
+// Firestore and Storage emulators by default:
+//
+//   firebase emulators:start --only firestore,storage
+//   npm run calendar-sync
+//
+// Set FIRESTORE_EMULATOR_HOST and STORAGE_EMULATOR_HOST to use different emulator addresses.
+// Nights are keyed by local calendar day, so run it with TZ set to the listings' time
+// zone, e.g. TZ=Asia/Singapore.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+process.env.VITE_STORAGE_EMULATOR_HOST =
+    process.env.STORAGE_EMULATOR_HOST || process.env.VITE_STORAGE_EMULATOR_HOST || '127.0.0.1:9199';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { publishAllCalendarFeeds, syncAllExternalCalendars } =
+        await server.ssrLoadModule('/src/services/calendarSyncService.ts');
+
+    const { synced, failed } = await syncAllExternalCalendars();
+    console.log(`Synced ${synced.length} external calendar(s)`);
+    synced.forEach((id) => console.log(`  ${id}`));
+    if (failed.length > 0) {
+        console.log(`Failed to sync ${failed.length} external calendar(s)`);
+        failed.forEach(({ id, error }) => console.log(`  ${id}: ${error}`));
+    }
+
+    const published = await publishAllCalendarFeeds();
+    console.log(`Published ${published.length} calendar feed(s)`);
+    published.forEach((id) => console.log(`  ${id}`));
+} catch (error) {
+    console.error('Calendar sync failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
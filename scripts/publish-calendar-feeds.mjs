@@ -0,0 +1,43 @@
+// Publishes the iCal feeds of properties whose bookings or blocked dates changed since
+// their feed was last written. Bookings and calendar edits don't publish feeds from the
+// browser, so run it every few minutes to keep feeds current.
+//
+// Loads the app's own calendarSyncService through Vite. Points at the local Firestore
+// and Storage emulators by default:
+//
+//   firebase emulators:start --only firestore,storage
+//   npm run publish-calendar-feeds
+//
+// Set FIRESTORE_EMULATOR_HOST and STORAGE_EMULATOR_HOST to use different emulator addresses.
+// Nights are keyed by local calendar day, so run it with TZ set to the listings' time
+// zone, e.g. TZ=Asia/Singapore.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+process.env.VITE_STORAGE_EMULATOR_HOST =
+    process.env.STORAGE_EMULATOR_HOST || process.env.VITE_STORAGE_EMULATOR_HOST || '127.0.0.1:9199';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { publishChangedCalendarFeeds } = await server.ssrLoadModule('/src/services/calendarSyncService.ts');
+
+    const published = await publishChangedCalendarFeeds();
+    console.log(`Published ${published.length} changed calendar feed(s)`);
+    published.forEach((id) => console.log(`  ${id}`));
+} catch (error) {
+    console.error('Calendar feed publishing failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
@@ -0,0 +1,41 @@
+// Rebuilds the booked nights stored on each listing, which search uses to leave out
+// listings taken for the guest's dates. Run once to backfill listings booked before
+// search read them; safe to run again, e.g. after the booking sweep.
+//
+// Loads the app's own bookingService through Vite so the job runs the same code as
+// the app. Points at the local Firestore emulator by default:
+//
+//   firebase emulators:start --only firestore
+//   npm run rebuild-booked-nights
+//
+// Set FIRESTORE_EMULATOR_HOST to use a different emulator address.
+// Nights are keyed by local calendar day, so run it with TZ set to the listings' time
+// zone, e.g. TZ=Asia/Singapore.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { rebuildBookedNights } = await server.ssrLoadModule('/src/services/bookingService.ts');
+    const updated = await rebuildBookedNights();
+
+    console.log(`Rebuilt booked nights on ${updated.length} listing(s)`);
+    updated.forEach((id) => console.log(`  ${id}`));
+} catch (error) {
+    console.error('Booked nights rebuild failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
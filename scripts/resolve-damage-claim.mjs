@@ -0,0 +1,44 @@
+// Settles a disputed damage claim for support: pays the host the awarded amount and
+// returns the rest of what was charged from the guest's deposit.
+//
+//   npm run resolve-damage-claim -- <bookingId> <awardedAmount> ["note for both parties"]
+//
+// Loads the app's own securityDepositService through Vite so the job runs the same code
+// as the app. Points at the local Firestore emulator by default:
+//
+//   firebase emulators:start --only firestore
+//
+// Set FIRESTORE_EMULATOR_HOST to use a different emulator address.
+import { createServer } from 'vite';
+
+const [bookingId, awardedAmount, note = ''] = process.argv.slice(2);
+if (!bookingId || awardedAmount === undefined || Number.isNaN(Number(awardedAmount))) {
+    console.error('Usage: npm run resolve-damage-claim -- <bookingId> <awardedAmount> ["note"]');
+    process.exit(1);
+}
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { resolveDamageClaim } = await server.ssrLoadModule('/src/services/securityDepositService.ts');
+    const { damageClaim } = await resolveDamageClaim(bookingId, Number(awardedAmount), note);
+
+    console.log(`Awarded ${damageClaim.awardedAmount} of the ${damageClaim.amount} claimed on booking ${bookingId}`);
+} catch (error) {
+    console.error('Damage claim resolution failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
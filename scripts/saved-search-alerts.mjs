@@ -0,0 +1,39 @@
+// Scheduled saved-search alerts: checks saved searches that are due and notifies their
+// owners of new matching listings and of matching listings that dropped below their
+// price alert. Run it at least hourly so "as they happen" alerts stay timely.
+//
+// Loads the app's own savedSearchService through Vite so the job runs the same code as
+// the app. Points at the local Firestore emulator by default:
+//
+//   firebase emulators:start --only firestore
+//   npm run saved-search-alerts
+//
+// Set FIRESTORE_EMULATOR_HOST to use a different emulator address.
+import { createServer } from 'vite';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { runSavedSearchAlerts } = await server.ssrLoadModule('/src/services/savedSearchService.ts');
+    const notified = await runSavedSearchAlerts();
+
+    console.log(`Sent alerts for ${notified.length} saved search(es)`);
+    notified.forEach((id) => console.log(`  ${id}`));
+} catch (error) {
+    console.error('Saved search alerts failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
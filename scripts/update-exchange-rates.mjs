@@ -0,0 +1,66 @@
+// Refresh the exchange-rate table used to show prices in each guest's display currency.
+//
+// Fetches the latest rates (or reads them from a JSON file) and stores them through
+// the app's own currencyService, loaded through Vite. Points at the local Firestore
+// emulator by default:
+//
+//   firebase emulators:start --only firestore
+//   npm run update-exchange-rates
+//   npm run update-exchange-rates -- --file rates.json
+//
+// The file, like the default source, looks like { "base_code": "PHP", "rates": { "USD": 0.017, ... } };
+// "base" is accepted in place of "base_code". Set EXCHANGE_RATES_URL to fetch from a
+// different source and FIRESTORE_EMULATOR_HOST to use a different emulator address.
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'vite';
+
+const DEFAULT_RATES_URL = 'https://open.er-api.com/v6/latest/PHP';
+
+process.env.VITE_FIRESTORE_EMULATOR_HOST =
+    process.env.FIRESTORE_EMULATOR_HOST || process.env.VITE_FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+
+const fileIndex = process.argv.indexOf('--file');
+const file = fileIndex !== -1 ? process.argv[fileIndex + 1] : null;
+
+async function loadRates() {
+    if (file) {
+        return { source: file, data: JSON.parse(await readFile(file, 'utf8')) };
+    }
+
+    const url = process.env.EXCHANGE_RATES_URL || DEFAULT_RATES_URL;
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`${url} responded with ${response.status}`);
+    }
+    return { source: new URL(url).host, data: await response.json() };
+}
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+
+try {
+    const { source, data } = await loadRates();
+    const base = data.base_code || data.base;
+    if (!base || !data.rates) {
+        throw new Error('Expected a base currency and a rates object');
+    }
+
+    const { saveExchangeRates } = await server.ssrLoadModule('/src/services/currencyService.ts');
+    const table = await saveExchangeRates(base, data.rates, source);
+
+    console.log(`Saved ${Object.keys(table.rates).length} rate(s) against ${table.base} from ${source}`);
+    Object.entries(table.rates).forEach(([code, rate]) => console.log(`  ${code} ${rate}`));
+} catch (error) {
+    console.error('Updating exchange rates failed:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+
+// Firestore keeps its connection open, so exit explicitly
+process.exit(exitCode);
@@ -19,6 +19,8 @@ import BecomeHostPage from './pages/BecomeHostPage';
 import WishlistsPage from './pages/WishlistsPage';
 import BookingSuccessPage from './pages/BookingSuccessPage';
 import NotificationsPage from './pages/NotificationsPage';
+import ListingCalendarPage from './pages/ListingCalendarPage';
+import HostCalendarPage from './pages/HostCalendarPage';
 
 // Import date picker styles
 import 'react-datepicker/dist/react-datepicker.css';
@@ -54,6 +56,8 @@ function App() {
                         {/* Protected host routes */}
                         <Route element={<ProtectedRoute requireHost />}>
                             <Route path="/host" element={<HostDashboardPage />} />
+                            <Route path="/host/calendar" element={<HostCalendarPage />} />
+                            <Route path="/host/listings/:id/calendar" element={<ListingCalendarPage />} />
                         </Route>
                     </Route>
 
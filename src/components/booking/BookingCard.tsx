@@ -2,6 +2,11 @@ import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import type { Booking, Property } from '../../types';
 import { Badge, Avatar } from '../ui';
+import { getBookingExpiry } from '../../services/bookingService';
+import { canDownloadInvoice, canDownloadReceipt } from '../../services/receiptService';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
+import { canFileDamageClaim, getDamageClaimDeadline } from '../../services/securityDepositService';
+import { useNow } from '../../hooks/useCustomHooks';
 
 interface BookingCardProps {
     booking: Booking;
@@ -16,6 +21,8 @@ export default function BookingCard({
     variant = 'guest',
     onAction,
 }: BookingCardProps) {
+    const now = useNow();
+
     const getStatusColor = (status: Booking['status']): 'success' | 'warning' | 'error' | 'info' | 'default' => {
         switch (status) {
             case 'confirmed':
@@ -25,19 +32,14 @@ export default function BookingCard({
             case 'cancelled':
                 return 'error';
             case 'completed':
+            case 'expired':
                 return 'default';
             default:
                 return 'default';
         }
     };
 
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
-    };
+    const formatPrice = (price: number) => formatMoney(price, getPricingCurrency(booking.pricing));
 
     // Safely convert dates (handle both Timestamp and Date objects)
     const toDate = (date: Date | { toDate: () => Date } | { seconds: number } | string | number): Date => {
@@ -49,11 +51,24 @@ export default function BookingCard({
 
     const checkInDate = toDate(booking.checkIn);
     const checkOutDate = toDate(booking.checkOut);
-    const now = new Date();
     const isUpcoming = checkOutDate > now; // Can cancel if checkout hasn't passed
     const isOngoing = checkInDate <= now && checkOutDate >= now;
     const canCancel = isUpcoming && (booking.status === 'confirmed' || booking.status === 'pending');
+    const pendingModification = booking.modification?.status === 'pending' ? booking.modification : null;
+    const canModify = canCancel && !isOngoing && !pendingModification;
     const totalPrice = booking.pricing.total;
+    const deposit = booking.securityDeposit;
+    const damageClaim = booking.damageClaim;
+    const canReportDamage = canFileDamageClaim(booking, now);
+
+    // Countdown until an unanswered request expires
+    const expiry = getBookingExpiry(booking);
+    const minutesToExpiry = expiry ? Math.max(0, Math.ceil((expiry.getTime() - now.getTime()) / 60000)) : null;
+    const expiryCountdown = minutesToExpiry === null
+        ? null
+        : minutesToExpiry >= 60
+            ? `${Math.floor(minutesToExpiry / 60)}h ${minutesToExpiry % 60}m`
+            : `${minutesToExpiry}m`;
 
     return (
         <div className="bg-white border border-secondary-200 rounded-xl overflow-hidden hover:shadow-lg transition-shadow">
@@ -126,6 +141,14 @@ export default function BookingCard({
                         <div className="flex items-center space-x-3">
                             {variant === 'guest' && (
                                 <>
+                                    {canModify && (
+                                        <button
+                                            onClick={() => onAction?.('modify', booking.id)}
+                                            className="px-3 py-1 text-sm bg-secondary-100 text-secondary-700 hover:bg-secondary-200 rounded-lg font-medium"
+                                        >
+                                            Change
+                                        </button>
+                                    )}
                                     {canCancel && (
                                         <button
                                             onClick={() => onAction?.('cancel', booking.id)}
@@ -134,6 +157,22 @@ export default function BookingCard({
                                             Cancel
                                         </button>
                                     )}
+                                    {damageClaim?.status === 'pending' && (
+                                        <>
+                                            <button
+                                                onClick={() => onAction?.('accept_claim', booking.id)}
+                                                className="px-3 py-1 text-sm bg-secondary-100 text-secondary-700 hover:bg-secondary-200 rounded-lg font-medium"
+                                            >
+                                                Accept claim
+                                            </button>
+                                            <button
+                                                onClick={() => onAction?.('dispute_claim', booking.id)}
+                                                className="px-3 py-1 text-sm bg-red-100 text-red-600 hover:bg-red-200 rounded-lg font-medium"
+                                            >
+                                                Dispute
+                                            </button>
+                                        </>
+                                    )}
                                     {booking.status === 'completed' && !booking.hasReview && (
                                         <button
                                             onClick={() => onAction?.('review', booking.id)}
@@ -142,6 +181,14 @@ export default function BookingCard({
                                             Leave a review
                                         </button>
                                     )}
+                                    {canDownloadReceipt(booking) && (
+                                        <button
+                                            onClick={() => onAction?.('receipt', booking.id)}
+                                            className="text-sm text-secondary-600 hover:text-secondary-900 underline"
+                                        >
+                                            Receipt
+                                        </button>
+                                    )}
                                     <Link
                                         to={`/messages?bookingId=${booking.id}`}
                                         className="text-sm text-secondary-600 hover:text-secondary-900 underline"
@@ -153,7 +200,7 @@ export default function BookingCard({
 
                             {variant === 'host' && (
                                 <>
-                                    {booking.status === 'pending' && (
+                                    {booking.status === 'pending' && minutesToExpiry !== 0 && (
                                         <>
                                             <button
                                                 onClick={() => onAction?.('accept', booking.id)}
@@ -169,6 +216,38 @@ export default function BookingCard({
                                             </button>
                                         </>
                                     )}
+                                    {pendingModification && (
+                                        <>
+                                            <button
+                                                onClick={() => onAction?.('accept_modification', booking.id)}
+                                                className="px-3 py-1 text-sm bg-green-500 text-white rounded-lg hover:bg-green-600"
+                                            >
+                                                Accept change
+                                            </button>
+                                            <button
+                                                onClick={() => onAction?.('decline_modification', booking.id)}
+                                                className="px-3 py-1 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600"
+                                            >
+                                                Decline change
+                                            </button>
+                                        </>
+                                    )}
+                                    {canReportDamage && (
+                                        <button
+                                            onClick={() => onAction?.('damage_claim', booking.id)}
+                                            className="px-3 py-1 text-sm bg-secondary-100 text-secondary-700 hover:bg-secondary-200 rounded-lg font-medium"
+                                        >
+                                            Report damage
+                                        </button>
+                                    )}
+                                    {canDownloadInvoice(booking) && (
+                                        <button
+                                            onClick={() => onAction?.('invoice', booking.id)}
+                                            className="text-sm text-secondary-600 hover:text-secondary-900 underline"
+                                        >
+                                            Invoice
+                                        </button>
+                                    )}
                                     <Link
                                         to={`/messages?bookingId=${booking.id}`}
                                         className="text-sm text-secondary-600 hover:text-secondary-900 underline"
@@ -182,6 +261,85 @@ export default function BookingCard({
                 </div>
             </div>
 
+            {/* Expiry Countdown */}
+            {expiryCountdown && (
+                <div className="px-4 py-2 text-sm bg-yellow-50 text-yellow-800">
+                    {minutesToExpiry === 0
+                        ? 'This request has expired'
+                        : variant === 'host'
+                            ? `Respond within ${expiryCountdown} or this request will expire`
+                            : `Waiting for the host – request expires in ${expiryCountdown}`}
+                </div>
+            )}
+
+            {/* Change Request Banner */}
+            {pendingModification && (
+                <div className="px-4 py-2 text-sm bg-yellow-50 text-yellow-800">
+                    <span>
+                        {variant === 'guest' ? 'Change requested' : 'Guest requested a change'}:{' '}
+                        {format(toDate(pendingModification.checkIn), 'MMM d')} – {format(toDate(pendingModification.checkOut), 'MMM d, yyyy')},{' '}
+                        {pendingModification.guests.adults + pendingModification.guests.children} guest
+                        {pendingModification.guests.adults + pendingModification.guests.children !== 1 ? 's' : ''}{' '}
+                        ({pendingModification.priceDifference >= 0 ? '+' : '−'}
+                        {formatPrice(Math.abs(pendingModification.priceDifference))})
+                    </span>
+                    {pendingModification.message && (
+                        <p className="mt-1 text-yellow-700">"{pendingModification.message}"</p>
+                    )}
+                </div>
+            )}
+            {variant === 'guest' && booking.modification?.status === 'declined' && (
+                <div className="px-4 py-2 text-sm bg-secondary-50 text-secondary-600">
+                    The host declined your change request. Your original reservation still stands.
+                </div>
+            )}
+
+            {/* Security Deposit Banner */}
+            {deposit && damageClaim && (
+                <div className={`px-4 py-2 text-sm ${damageClaim.status === 'accepted' || damageClaim.status === 'resolved'
+                    ? 'bg-secondary-50 text-secondary-600'
+                    : 'bg-yellow-50 text-yellow-800'
+                    }`}>
+                    <span>
+                        {damageClaim.status === 'pending' && (variant === 'guest'
+                            ? 'The host has claimed'
+                            : 'You claimed')}
+                        {damageClaim.status === 'accepted' && 'Damage claim accepted:'}
+                        {damageClaim.status === 'disputed' && 'Damage claim disputed:'}
+                        {damageClaim.status === 'resolved' && 'Damage claim settled by support:'}
+                        {' '}{formatMoney(damageClaim.awardedAmount ?? damageClaim.amount, deposit.currency)}
+                        {damageClaim.status === 'pending' && ` of the ${formatMoney(deposit.amount, deposit.currency)} security deposit`}
+                        {damageClaim.status === 'resolved' && ` of the ${formatMoney(damageClaim.amount, deposit.currency)} claimed`}
+                    </span>
+                    <p className="mt-1">"{damageClaim.description}"</p>
+                    {damageClaim.guestResponse && (
+                        <p className="mt-1">Guest's response: "{damageClaim.guestResponse}"</p>
+                    )}
+                    {damageClaim.resolutionNote && (
+                        <p className="mt-1">Support's decision: "{damageClaim.resolutionNote}"</p>
+                    )}
+                    {damageClaim.photos.length > 0 && (
+                        <div className="flex gap-2 mt-2">
+                            {damageClaim.photos.map((url, index) => (
+                                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                    <img
+                                        src={url}
+                                        alt={`Damage ${index + 1}`}
+                                        className="w-14 h-14 object-cover rounded"
+                                    />
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            {deposit?.status === 'held' && !damageClaim && checkOutDate <= now && (
+                <div className="px-4 py-2 text-sm bg-secondary-50 text-secondary-600">
+                    {formatMoney(deposit.amount, deposit.currency)} security deposit held until{' '}
+                    {format(getDamageClaimDeadline(booking), 'MMM d, h:mm a')}
+                </div>
+            )}
+
             {/* Status Banner */}
             {(isUpcoming || isOngoing) && booking.status === 'confirmed' && (
                 <div className={`px-4 py-2 text-sm ${isOngoing
@@ -2,20 +2,30 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
-import type { Property, User } from '../../types';
+import type { BookingPricing, Property, SecurityDeposit, User } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
 import { useBookingStore } from '../../store';
-import { createBooking } from '../../services/bookingService';
+import { createBooking, BookingConflictError } from '../../services/bookingService';
+import { AvailabilityRuleError } from '../../services/availabilityRulesService';
+import { getPaymentProvider, PaymentError } from '../../services/paymentService';
+import type { PaymentResult } from '../../services/paymentService';
+import { holdSecurityDeposit } from '../../services/securityDepositService';
+import { PromoCodeError, validatePromoCode } from '../../services/promoCodeService';
 import { getPropertyById } from '../../services/propertyService';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
+import { useMoney } from '../../hooks/useCustomHooks';
 import { getUserById } from '../../services/propertyService';
-import { CANCELLATION_POLICIES } from '../../config/constants';
+import { APP_CONFIG, CANCELLATION_POLICIES } from '../../config/constants';
 import { Button, Spinner } from '../ui';
+import PriceBreakdown from './PriceBreakdown';
+import PaymentForm from './PaymentForm';
 import toast from 'react-hot-toast';
 
 export default function BookingConfirmation() {
     const navigate = useNavigate();
     const { currentUser } = useAuth();
     const { currentBooking, clearCurrentBooking } = useBookingStore();
+    const { displayCurrency, formatDisplay } = useMoney();
 
     const [property, setProperty] = useState<Property | null>(null);
     const [host, setHost] = useState<User | null>(null);
@@ -23,6 +33,13 @@ export default function BookingConfirmation() {
     const [submitting, setSubmitting] = useState(false);
     const [message, setMessage] = useState('');
     const [agreedToRules, setAgreedToRules] = useState(false);
+    const [paymentReady, setPaymentReady] = useState(false);
+
+    // Promo code state
+    const [promoInput, setPromoInput] = useState('');
+    const [promoPricing, setPromoPricing] = useState<BookingPricing | null>(null);
+    const [promoError, setPromoError] = useState<string | null>(null);
+    const [applyingPromo, setApplyingPromo] = useState(false);
 
     useEffect(() => {
         if (!currentBooking?.propertyId || !currentBooking?.hostId) {
@@ -56,6 +73,28 @@ export default function BookingConfirmation() {
         fetchData();
     }, [currentBooking, navigate]);
 
+    const handleApplyPromo = async () => {
+        if (!currentUser || !currentBooking?.pricing || !property || !promoInput.trim()) return;
+
+        setApplyingPromo(true);
+        setPromoError(null);
+        try {
+            const { pricing } = await validatePromoCode(promoInput, currentUser.uid, property, currentBooking.pricing);
+            setPromoPricing(pricing);
+            setPromoInput('');
+            toast.success(`Promo code ${pricing.promoCode} applied`);
+        } catch (error) {
+            if (error instanceof PromoCodeError) {
+                setPromoError(error.message);
+            } else {
+                console.error('Error applying promo code:', error);
+                setPromoError('Failed to apply promo code. Please try again.');
+            }
+        } finally {
+            setApplyingPromo(false);
+        }
+    };
+
     const handleConfirmBooking = async () => {
         if (!currentUser || !currentBooking || !property) return;
 
@@ -64,8 +103,22 @@ export default function BookingConfirmation() {
             return;
         }
 
+        if (!currentBooking.pricing || !currentBooking.propertyId || !currentBooking.checkIn || !currentBooking.checkOut) return;
+        const bookingPricing = promoPricing ?? currentBooking.pricing;
+
         setSubmitting(true);
+        let payment: PaymentResult | null = null;
+        let deposit: SecurityDeposit | null = null;
         try {
+            // Instant book charges now; request-to-book only holds the funds until the host accepts
+            payment = await getPaymentProvider().authorize({
+                amount: bookingPricing.total,
+                currency: getPricingCurrency(bookingPricing),
+                capture: property.instantBook,
+                description: `${APP_CONFIG.APP_NAME} booking – ${property.title}`,
+                metadata: { propertyId: currentBooking.propertyId, guestId: currentUser.uid },
+            });
+
             // Convert dates to Timestamps if they're Date objects
             const checkInTimestamp = currentBooking.checkIn instanceof Date
                 ? Timestamp.fromDate(currentBooking.checkIn)
@@ -74,6 +127,14 @@ export default function BookingConfirmation() {
                 ? Timestamp.fromDate(currentBooking.checkOut)
                 : currentBooking.checkOut;
 
+            // The deposit is a separate hold, placed shortly before the stay and released
+            // after checkout unless the host claims it
+            deposit = await holdSecurityDeposit(
+                property,
+                { checkIn: checkInTimestamp.toDate(), checkOut: checkOutTimestamp.toDate() },
+                { propertyId: currentBooking.propertyId, guestId: currentUser.uid }
+            );
+
             const bookingData = {
                 propertyId: currentBooking.propertyId,
                 hostId: currentBooking.hostId,
@@ -83,10 +144,12 @@ export default function BookingConfirmation() {
                 checkIn: checkInTimestamp,
                 checkOut: checkOutTimestamp,
                 guests: currentBooking.guests,
-                pricing: currentBooking.pricing,
+                pricing: bookingPricing,
                 specialRequests: message || '',
                 status: property.instantBook ? 'confirmed' : 'pending',
-                paymentStatus: 'pending',
+                paymentStatus: payment.status === 'captured' ? 'paid' : 'authorized',
+                paymentIntentId: payment.paymentIntentId,
+                ...(deposit ? { securityDeposit: deposit } : {}),
             };
 
             console.log('Creating booking with data:', bookingData);
@@ -100,6 +163,52 @@ export default function BookingConfirmation() {
                     : 'Booking request sent to host'
             );
         } catch (error: unknown) {
+            // The booking wasn't created, so give the money back
+            if (payment) {
+                try {
+                    await getPaymentProvider().refund(payment.paymentIntentId, payment.amount, getPricingCurrency(bookingPricing));
+                } catch (refundError) {
+                    console.error('Error releasing payment:', refundError);
+                }
+            }
+            if (deposit?.paymentIntentId) {
+                try {
+                    await getPaymentProvider().refund(deposit.paymentIntentId, deposit.amount, deposit.currency);
+                } catch (refundError) {
+                    console.error('Error releasing security deposit:', refundError);
+                }
+            }
+
+            if (error instanceof PaymentError) {
+                toast.error(error.message);
+                return;
+            }
+
+            if (error instanceof PromoCodeError) {
+                // The code ran out or changed while the guest was checking out
+                setPromoPricing(null);
+                setPromoError(error.message);
+                toast.error(error.message);
+                return;
+            }
+
+            if (error instanceof AvailabilityRuleError) {
+                // The host changed the listing's rules while the guest was checking out
+                toast.error(error.message);
+                clearCurrentBooking();
+                navigate(`/property/${property.id}`);
+                return;
+            }
+
+            if (error instanceof BookingConflictError) {
+                toast.error(error.message);
+                clearCurrentBooking();
+                navigate(`/property/${property.id}`, {
+                    state: { bookingConflict: error.conflictingDates },
+                });
+                return;
+            }
+
             const err = error as { code?: string; message?: string };
             console.error('Error creating booking:', error);
             console.error('Error code:', err?.code);
@@ -110,14 +219,6 @@ export default function BookingConfirmation() {
         }
     };
 
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
-    };
-
     if (loading) {
         return (
             <div className="min-h-screen flex items-center justify-center">
@@ -130,7 +231,7 @@ export default function BookingConfirmation() {
         return null;
     }
 
-    const pricing = currentBooking.pricing;
+    const pricing = promoPricing ?? currentBooking.pricing;
     const checkIn = currentBooking.checkIn;
     const checkOut = currentBooking.checkOut;
     const guests = currentBooking.guests;
@@ -139,6 +240,9 @@ export default function BookingConfirmation() {
         return null;
     }
 
+    // Guests always see what they'll actually be charged in, whatever they browse in
+    const chargeCurrency = getPricingCurrency(pricing);
+
     const cancellationPolicy = CANCELLATION_POLICIES.find(
         (p) => p.id === property.cancellationPolicy
     );
@@ -243,6 +347,17 @@ export default function BookingConfirmation() {
                         </ul>
                     </section>
 
+                    {/* Payment */}
+                    <section className="pb-6 border-b border-secondary-200">
+                        <h2 className="text-xl font-semibold mb-4">Pay with</h2>
+                        <PaymentForm onReadyChange={setPaymentReady} />
+                        {!property.instantBook && (
+                            <p className="mt-3 text-sm text-secondary-500">
+                                You won't be charged until {hostName} accepts your request.
+                            </p>
+                        )}
+                    </section>
+
                     {/* Agreement */}
                     <section>
                         <label className="flex items-start space-x-3 cursor-pointer">
@@ -263,7 +378,7 @@ export default function BookingConfirmation() {
                     <Button
                         onClick={handleConfirmBooking}
                         loading={submitting}
-                        disabled={!agreedToRules}
+                        disabled={!agreedToRules || !paymentReady}
                         fullWidth
                         size="lg"
                     >
@@ -298,36 +413,69 @@ export default function BookingConfirmation() {
                         </div>
 
                         {/* Price Details */}
-                        <div className="py-6 border-b border-secondary-200">
+                        <div className="pt-6">
                             <h3 className="text-xl font-semibold mb-4">Price details</h3>
-
-                            <div className="space-y-3">
-                                <div className="flex justify-between">
-                                    <span>
-                                        {formatPrice(pricing.nightlyRate)} x {pricing.nights} night
-                                        {pricing.nights !== 1 ? 's' : ''}
-                                    </span>
-                                    <span>{formatPrice(pricing.subtotal)}</span>
-                                </div>
-                                <div className="flex justify-between">
-                                    <span>Cleaning fee</span>
-                                    <span>{formatPrice(pricing.cleaningFee)}</span>
-                                </div>
-                                <div className="flex justify-between">
-                                    <span>Service fee</span>
-                                    <span>{formatPrice(pricing.serviceFee)}</span>
-                                </div>
-                                <div className="flex justify-between">
-                                    <span>Taxes</span>
-                                    <span>{formatPrice(pricing.taxes)}</span>
-                                </div>
-                            </div>
+                            <PriceBreakdown pricing={pricing} totalLabel={`Total (${chargeCurrency})`} />
+                            <p className="text-sm text-secondary-500 mt-3">
+                                You'll be charged in {chargeCurrency}
+                                {displayCurrency !== chargeCurrency &&
+                                    ` (about ${formatDisplay(pricing.total, chargeCurrency)})`}
+                                .
+                            </p>
+                            {property.pricing.securityDeposit ? (
+                                <p className="text-sm text-secondary-500 mt-2">
+                                    A refundable security deposit of{' '}
+                                    <span className="font-medium text-secondary-900">
+                                        {formatMoney(property.pricing.securityDeposit, chargeCurrency)}
+                                    </span>{' '}
+                                    will be held on your card shortly before check-in and released{' '}
+                                    {APP_CONFIG.DAMAGE_CLAIM_WINDOW_HOURS} hours after checkout unless the host reports damage.
+                                </p>
+                            ) : null}
                         </div>
 
-                        {/* Total */}
-                        <div className="flex justify-between pt-6 text-lg font-semibold">
-                            <span>Total (PHP)</span>
-                            <span>{formatPrice(pricing.total)}</span>
+                        {/* Promo Code */}
+                        <div className="pt-6 mt-6 border-t border-secondary-200">
+                            {promoPricing ? (
+                                <div className="flex items-center justify-between">
+                                    <p className="text-sm">
+                                        Promo code <span className="font-medium">{promoPricing.promoCode}</span> applied
+                                    </p>
+                                    <button
+                                        onClick={() => setPromoPricing(null)}
+                                        className="text-sm font-medium underline"
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="flex space-x-2">
+                                        <input
+                                            type="text"
+                                            value={promoInput}
+                                            onChange={(e) => {
+                                                setPromoInput(e.target.value);
+                                                setPromoError(null);
+                                            }}
+                                            onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                                            placeholder="Promo code"
+                                            className="flex-1 px-4 py-2 border border-secondary-300 rounded-lg uppercase focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                        />
+                                        <Button
+                                            variant="outline"
+                                            onClick={handleApplyPromo}
+                                            loading={applyingPromo}
+                                            disabled={!promoInput.trim()}
+                                        >
+                                            Apply
+                                        </Button>
+                                    </div>
+                                    {promoError && (
+                                        <p className="mt-2 text-sm text-red-500">{promoError}</p>
+                                    )}
+                                </>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { format } from 'date-fns';
+import type { Booking } from '../../types';
+import { fileDamageClaim, getDamageClaimDeadline } from '../../services/securityDepositService';
+import { formatMoney, getCurrencySymbol } from '../../services/currencyService';
+import { Modal, Button, Textarea } from '../ui';
+import toast from 'react-hot-toast';
+
+interface DamageClaimModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    booking: Booking;
+    propertyName: string;
+    onFiled: (update: Partial<Booking>) => void;
+}
+
+export default function DamageClaimModal({
+    isOpen,
+    onClose,
+    booking,
+    propertyName,
+    onFiled,
+}: DamageClaimModalProps) {
+    const deposit = booking.securityDeposit;
+    const [amount, setAmount] = useState(deposit?.amount ?? 0);
+    const [description, setDescription] = useState('');
+    const [photos, setPhotos] = useState<{ file: File; preview: string }[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+
+    const { getRootProps, getInputProps, isDragActive } = useDropzone({
+        accept: { 'image/*': ['.jpeg', '.jpg', '.png', '.webp'] },
+        maxFiles: 10,
+        onDrop: (acceptedFiles) => {
+            const newPhotos = acceptedFiles.map((file) => ({
+                file,
+                preview: URL.createObjectURL(file),
+            }));
+            setPhotos((prev) => [...prev, ...newPhotos]);
+        },
+    });
+
+    // Free the previews when the modal goes away
+    useEffect(() => {
+        return () => photos.forEach((photo) => URL.revokeObjectURL(photo.preview));
+    }, [photos]);
+
+    if (!deposit) return null;
+
+    const removePhoto = (index: number) => {
+        setPhotos((prev) => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSubmit = async () => {
+        setSubmitting(true);
+        try {
+            const update = await fileDamageClaim(
+                booking,
+                { amount, description, photos: photos.map((photo) => photo.file) },
+                propertyName
+            );
+            toast.success('Damage claim sent to the guest');
+            onFiled(update);
+            onClose();
+        } catch (error) {
+            console.error('Error filing damage claim:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to file damage claim');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const currencySymbol = getCurrencySymbol(deposit.currency);
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Report damage" size="md">
+            <div className="space-y-6">
+                <p className="text-sm text-secondary-600">
+                    {booking.guestName || 'The guest'} paid a {formatMoney(deposit.amount, deposit.currency)} security
+                    deposit. You can claim up to that amount until{' '}
+                    {format(getDamageClaimDeadline(booking), 'MMM d, h:mm a')}. The guest can accept or dispute your claim.
+                </p>
+
+                <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                        Amount to claim
+                    </label>
+                    <div className="relative">
+                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
+                        <input
+                            type="number"
+                            value={Number.isNaN(amount) ? '' : amount}
+                            onChange={(e) => setAmount(e.target.valueAsNumber)}
+                            className={`w-full ${currencySymbol.length > 1 ? 'pl-14' : 'pl-8'} pr-4 py-3 border border-secondary-300 rounded-lg`}
+                            min={0}
+                            max={deposit.amount}
+                        />
+                    </div>
+                </div>
+
+                <Textarea
+                    label="What was damaged?"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={4}
+                />
+
+                {/* Photos */}
+                <div>
+                    <div
+                        {...getRootProps()}
+                        className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors ${isDragActive
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-secondary-300 hover:border-secondary-400'
+                            }`}
+                    >
+                        <input {...getInputProps()} />
+                        <p className="text-sm font-medium">Add photos of the damage</p>
+                        <p className="text-xs text-secondary-500 mt-1">Drag and drop or click to browse</p>
+                    </div>
+
+                    {photos.length > 0 && (
+                        <div className="grid grid-cols-4 gap-2 mt-3">
+                            {photos.map((photo, index) => (
+                                <div key={photo.preview} className="relative aspect-square">
+                                    <img
+                                        src={photo.preview}
+                                        alt={`Damage ${index + 1}`}
+                                        className="w-full h-full object-cover rounded-lg"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => removePhoto(index)}
+                                        className="absolute top-1 right-1 w-6 h-6 bg-white rounded-full shadow text-xs"
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={onClose} disabled={submitting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} loading={submitting}>
+                        Send claim
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
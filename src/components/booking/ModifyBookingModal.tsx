@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import DatePicker from 'react-datepicker';
+import { isSameDay, min } from 'date-fns';
+import type { Booking, BookingModification, Property } from '../../types';
+import {
+    BookingConflictError,
+    calculateModifiedBookingPrice,
+    getPropertyBookings,
+    requestBookingModification,
+} from '../../services/bookingService';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
+import { getAllBlockedDates } from '../../services/calendarSyncService';
+import {
+    getBookedNights,
+    getEarliestCheckIn,
+    isCheckInAvailable,
+    isCheckOutAvailable,
+} from '../../services/availabilityRulesService';
+import { Modal, Button, Textarea } from '../ui';
+import PriceBreakdown from './PriceBreakdown';
+import toast from 'react-hot-toast';
+
+interface ModifyBookingModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    booking: Booking;
+    property: Property;
+    onRequested: (modification: BookingModification) => void;
+}
+
+export default function ModifyBookingModal({
+    isOpen,
+    onClose,
+    booking,
+    property,
+    onRequested,
+}: ModifyBookingModalProps) {
+    const [checkIn, setCheckIn] = useState<Date | null>(booking.checkIn.toDate());
+    const [checkOut, setCheckOut] = useState<Date | null>(booking.checkOut.toDate());
+    const [guests, setGuests] = useState(booking.guests);
+    const [message, setMessage] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [bookedNights, setBookedNights] = useState<string[]>([]);
+
+    // Nights other guests hold; this booking's own nights are free to move into
+    useEffect(() => {
+        const fetchBookedNights = async () => {
+            try {
+                const bookings = await getPropertyBookings(property.id);
+                setBookedNights(getBookedNights(bookings.filter((b) => b.id !== booking.id)));
+            } catch (error) {
+                console.error('Error fetching booked nights:', error);
+            }
+        };
+
+        fetchBookedNights();
+    }, [property.id, booking.id]);
+
+    const takenNights = { blocked: getAllBlockedDates(property), booked: bookedNights };
+    const originalCheckIn = booking.checkIn.toDate();
+
+    // Keeping the original check-in is always allowed, even once it's past
+    const isCheckInSelectable = (date: Date) =>
+        isSameDay(date, originalCheckIn) || isCheckInAvailable(property, date, takenNights);
+
+    const pricing = checkIn && checkOut && checkOut > checkIn
+        ? calculateModifiedBookingPrice(booking, property, checkIn, checkOut, guests)
+        : null;
+    const priceDifference = pricing ? pricing.total - booking.pricing.total : 0;
+
+    const formatPrice = (price: number) => formatMoney(price, getPricingCurrency(booking.pricing));
+
+    const updateGuestCount = (type: 'adults' | 'children' | 'infants', delta: number) => {
+        setGuests((prev) => {
+            const newCount = prev[type] + delta;
+            if (type === 'adults' && newCount < 1) return prev;
+            if (newCount < 0) return prev;
+            const newTotal = (type === 'adults' ? newCount : prev.adults) +
+                (type === 'children' ? newCount : prev.children);
+            if (newTotal > property.maxGuests) {
+                toast.error(`Maximum ${property.maxGuests} guests allowed`);
+                return prev;
+            }
+            return { ...prev, [type]: newCount };
+        });
+    };
+
+    const handleSubmit = async () => {
+        if (!checkIn || !checkOut || !pricing) {
+            toast.error('Please select valid dates');
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const modification = await requestBookingModification(
+                booking,
+                property,
+                { checkIn, checkOut, guests },
+                message.trim() || undefined
+            );
+            toast.success('Change request sent to the host');
+            onRequested(modification);
+            onClose();
+        } catch (error) {
+            console.error('Error requesting booking change:', error);
+            if (error instanceof BookingConflictError) {
+                toast.error('Some of those nights are not available. Please choose different dates.');
+            } else {
+                toast.error(error instanceof Error ? error.message : 'Failed to request change');
+            }
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const guestTypes: { type: 'adults' | 'children' | 'infants'; label: string }[] = [
+        { type: 'adults', label: 'Adults' },
+        { type: 'children', label: 'Children' },
+        { type: 'infants', label: 'Infants' },
+    ];
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Change reservation" size="md">
+            <div className="space-y-6">
+                {/* Dates */}
+                <div className="grid grid-cols-2 border border-secondary-300 rounded-xl">
+                    <div className="p-3 border-r border-secondary-300">
+                        <label className="block text-xs font-semibold text-secondary-800 uppercase">
+                            Check-in
+                        </label>
+                        <DatePicker
+                            selected={checkIn}
+                            onChange={(date) => setCheckIn(date)}
+                            selectsStart
+                            startDate={checkIn}
+                            endDate={checkOut}
+                            minDate={min([originalCheckIn, getEarliestCheckIn(property)])}
+                            filterDate={isCheckInSelectable}
+                            placeholderText="Add date"
+                            className="w-full text-sm mt-1 outline-none"
+                        />
+                    </div>
+                    <div className="p-3">
+                        <label className="block text-xs font-semibold text-secondary-800 uppercase">
+                            Checkout
+                        </label>
+                        <DatePicker
+                            selected={checkOut}
+                            onChange={(date) => setCheckOut(date)}
+                            selectsEnd
+                            startDate={checkIn}
+                            endDate={checkOut}
+                            minDate={checkIn || new Date()}
+                            filterDate={(date) => !checkIn || isCheckOutAvailable(property, checkIn, date, takenNights)}
+                            placeholderText="Add date"
+                            className="w-full text-sm mt-1 outline-none"
+                        />
+                    </div>
+                </div>
+
+                {/* Guests */}
+                <div className="space-y-3">
+                    {guestTypes.map(({ type, label }) => (
+                        <div key={type} className="flex items-center justify-between">
+                            <p className="font-medium">{label}</p>
+                            <div className="flex items-center space-x-3">
+                                <button
+                                    type="button"
+                                    onClick={() => updateGuestCount(type, -1)}
+                                    disabled={type === 'adults' ? guests.adults <= 1 : guests[type] <= 0}
+                                    className="w-8 h-8 rounded-full border border-secondary-300 flex items-center justify-center disabled:opacity-50 hover:border-secondary-500"
+                                >
+                                    -
+                                </button>
+                                <span className="w-8 text-center">{guests[type]}</span>
+                                <button
+                                    type="button"
+                                    onClick={() => updateGuestCount(type, 1)}
+                                    className="w-8 h-8 rounded-full border border-secondary-300 flex items-center justify-center hover:border-secondary-500"
+                                >
+                                    +
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <Textarea
+                    label="Message to host (optional)"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    rows={3}
+                />
+
+                {/* New price */}
+                {pricing && (
+                    <div>
+                        <PriceBreakdown pricing={pricing} totalLabel="New total" />
+                        <div className="flex justify-between mt-3 text-sm">
+                            <span className="text-secondary-600">
+                                {priceDifference >= 0 ? 'Additional charge' : 'Amount refunded'}
+                            </span>
+                            <span className={priceDifference >= 0 ? 'text-secondary-900' : 'text-green-600'}>
+                                {formatPrice(Math.abs(priceDifference))}
+                            </span>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={onClose} disabled={submitting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} loading={submitting} disabled={!pricing}>
+                        Request change
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { getPaymentProvider } from '../../services/paymentService';
+
+interface PaymentFormProps {
+    onReadyChange?: (ready: boolean) => void;
+}
+
+// Card entry rendered by the active payment provider
+export default function PaymentForm({ onReadyChange }: PaymentFormProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        let cleanup: (() => void) | null = null;
+        let cancelled = false;
+
+        getPaymentProvider()
+            .mountCardForm(container)
+            .then((unmount) => {
+                if (cancelled) {
+                    unmount();
+                    return;
+                }
+                cleanup = unmount;
+                onReadyChange?.(true);
+            })
+            .catch((error: Error) => {
+                console.error('Error loading payment form:', error);
+                setLoadError(error.message);
+                onReadyChange?.(false);
+            });
+
+        return () => {
+            cancelled = true;
+            cleanup?.();
+            onReadyChange?.(false);
+        };
+    }, [onReadyChange]);
+
+    return (
+        <div>
+            <div
+                ref={containerRef}
+                className={getPaymentProvider().name === 'stripe'
+                    ? 'px-4 py-3 border border-secondary-300 rounded-lg'
+                    : ''}
+            />
+            {loadError && (
+                <p className="mt-2 text-sm text-red-500">
+                    Couldn't load the payment form. Please refresh and try again.
+                </p>
+            )}
+        </div>
+    );
+}
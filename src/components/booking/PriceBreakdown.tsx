@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { BookingPricing } from '../../types';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
+import { getTaxLineItems } from '../../services/taxService';
+
+interface PriceBreakdownProps {
+    pricing: BookingPricing;
+    totalLabel?: string;
+    className?: string;
+}
+
+export default function PriceBreakdown({
+    pricing,
+    totalLabel = 'Total',
+    className = '',
+}: PriceBreakdownProps) {
+    const [showNights, setShowNights] = useState(false);
+
+    const formatPrice = (price: number) => formatMoney(price, getPricingCurrency(pricing));
+
+    const nightlyBreakdown = pricing.nightlyBreakdown ?? [];
+
+    return (
+        <div className={`space-y-3 ${className}`}>
+            <div>
+                <div className="flex justify-between">
+                    {nightlyBreakdown.length > 0 ? (
+                        <button
+                            type="button"
+                            onClick={() => setShowNights(!showNights)}
+                            className="underline text-left"
+                        >
+                            {formatPrice(pricing.nightlyRate)} x {pricing.nights} night
+                            {pricing.nights !== 1 ? 's' : ''}
+                        </button>
+                    ) : (
+                        <span>
+                            {formatPrice(pricing.nightlyRate)} x {pricing.nights} night
+                            {pricing.nights !== 1 ? 's' : ''}
+                        </span>
+                    )}
+                    <span>{formatPrice(pricing.subtotal)}</span>
+                </div>
+
+                {/* Itemised nightly prices */}
+                {showNights && (
+                    <div className="mt-2 p-3 bg-secondary-50 rounded-lg space-y-2 text-sm">
+                        {nightlyBreakdown.map((night) => (
+                            <div key={night.date}>
+                                <div className="flex justify-between">
+                                    <span>{format(parseISO(night.date), 'EEE, MMM d')}</span>
+                                    <span>{formatPrice(night.price)}</span>
+                                </div>
+                                {night.adjustments.map((adjustment) => (
+                                    <div
+                                        key={adjustment.label}
+                                        className="flex justify-between text-xs text-secondary-500 pl-3"
+                                    >
+                                        <span>{adjustment.label}</span>
+                                        <span>
+                                            {adjustment.amount > 0 ? '+' : '−'}
+                                            {formatPrice(Math.abs(adjustment.amount))}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {!!pricing.discount && (
+                <div className="flex justify-between text-green-700">
+                    <span>{pricing.promoCode ? `Promo code ${pricing.promoCode}` : 'Discount'}</span>
+                    <span>−{formatPrice(pricing.discount)}</span>
+                </div>
+            )}
+            <div className="flex justify-between">
+                <span>Cleaning fee</span>
+                <span>{formatPrice(pricing.cleaningFee)}</span>
+            </div>
+            <div className="flex justify-between">
+                <span>Service fee</span>
+                <span>{formatPrice(pricing.serviceFee)}</span>
+            </div>
+            {getTaxLineItems(pricing).map((line) => (
+                <div key={line.label} className="flex justify-between">
+                    <span>{line.label}</span>
+                    <span>{formatPrice(line.amount)}</span>
+                </div>
+            ))}
+            <div className="flex justify-between pt-3 border-t border-secondary-200 font-semibold">
+                <span>{totalLabel}</span>
+                <span>{formatPrice(pricing.total)}</span>
+            </div>
+        </div>
+    );
+}
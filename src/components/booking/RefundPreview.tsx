@@ -0,0 +1,40 @@
+import { format } from 'date-fns';
+import type { RefundQuote } from '../../services/refundService';
+import { formatMoney } from '../../services/currencyService';
+
+interface RefundPreviewProps {
+    quote: RefundQuote;
+}
+
+export default function RefundPreview({ quote }: RefundPreviewProps) {
+    const formatPrice = (price: number) => formatMoney(price, quote.currency);
+
+    const { breakdown } = quote;
+    const lines = [
+        { label: `Nights (${quote.nightlyRefundPercentage}%)`, amount: breakdown.nightly },
+        { label: 'Cleaning fee', amount: breakdown.cleaningFee },
+        { label: 'Service fee', amount: breakdown.serviceFee },
+        { label: 'Taxes', amount: breakdown.taxes },
+    ];
+
+    return (
+        <div className="p-4 bg-secondary-50 rounded-lg text-sm text-left space-y-2">
+            <p className="font-medium text-secondary-900">Refund preview</p>
+            {lines.map((line) => (
+                <div key={line.label} className="flex justify-between text-secondary-600">
+                    <span>{line.label}</span>
+                    <span>{formatPrice(line.amount)}</span>
+                </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t border-secondary-200 font-semibold text-secondary-900">
+                <span>You'll get back</span>
+                <span>{formatPrice(breakdown.total)}</span>
+            </div>
+            <p className="text-xs text-secondary-500">
+                {quote.beforeCutoff
+                    ? `Cancel before ${format(quote.cutoff, 'MMM d, h:mm a')} to keep this refund.`
+                    : 'The free cancellation window for this booking has passed.'}
+            </p>
+        </div>
+    );
+}
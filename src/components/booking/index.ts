@@ -1,2 +1,7 @@
 export { default as BookingConfirmation } from './BookingConfirmation';
 export { default as BookingCard } from './BookingCard';
+export { default as PriceBreakdown } from './PriceBreakdown';
+export { default as RefundPreview } from './RefundPreview';
+export { default as ModifyBookingModal } from './ModifyBookingModal';
+export { default as PaymentForm } from './PaymentForm';
+export { default as DamageClaimModal } from './DamageClaimModal';
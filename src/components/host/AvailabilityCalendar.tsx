@@ -1,8 +1,7 @@
 import { useState, useEffect } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths, isWithinInterval } from 'date-fns';
 import type { Booking } from '../../types';
-import { getHostBookings } from '../../services/bookingService';
-import { useAuth } from '../../contexts/AuthContext';
+import { getPropertyBookings } from '../../services/bookingService';
 import { Spinner } from '../ui';
 
 interface AvailabilityCalendarProps {
@@ -18,7 +17,6 @@ export default function AvailabilityCalendar({
     onDateSelect,
     onBlockDates,
 }: AvailabilityCalendarProps) {
-    const { currentUser } = useAuth();
     const [currentMonth, setCurrentMonth] = useState(new Date());
     const [bookings, setBookings] = useState<Booking[]>([]);
     const [loading, setLoading] = useState(true);
@@ -27,13 +25,8 @@ export default function AvailabilityCalendar({
 
     useEffect(() => {
         const fetchBookings = async () => {
-            if (!currentUser) return;
             try {
-                const allBookings = await getHostBookings(currentUser.uid);
-                const propertyBookings = allBookings.filter(
-                    (b) => b.propertyId === propertyId && ['confirmed', 'pending'].includes(b.status)
-                );
-                setBookings(propertyBookings);
+                setBookings(await getPropertyBookings(propertyId));
             } catch (error) {
                 console.error('Error fetching bookings:', error);
             } finally {
@@ -42,7 +35,7 @@ export default function AvailabilityCalendar({
         };
 
         fetchBookings();
-    }, [currentUser, propertyId]);
+    }, [propertyId]);
 
     const monthStart = startOfMonth(currentMonth);
     const monthEnd = endOfMonth(currentMonth);
@@ -0,0 +1,357 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import type { CalendarFeed, ExternalCalendar, Property } from '../../types';
+import {
+    addExternalCalendar,
+    createCalendarFeed,
+    getCalendarFeed,
+    getExternalCalendars,
+    importCalendarFile,
+    removeExternalCalendar,
+    syncExternalCalendar,
+} from '../../services/calendarSyncService';
+import { Badge, Button, Input, Radio, Spinner } from '../ui';
+import { ConfirmDialog, Modal } from '../ui/Modal';
+import toast from 'react-hot-toast';
+
+interface CalendarSyncSectionProps {
+    property: Property;
+    // Called with the property's merged external nights whenever they change
+    onExternalDatesChange: (dates: string[]) => void;
+}
+
+// Keeps a listing's calendar in step with the host's other platforms through iCal
+export default function CalendarSyncSection({ property, onExternalDatesChange }: CalendarSyncSectionProps) {
+    const [feed, setFeed] = useState<CalendarFeed | null>(null);
+    const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actionId, setActionId] = useState<string | null>(null);
+
+    // Import modal state
+    const [showImportModal, setShowImportModal] = useState(false);
+    const [importSource, setImportSource] = useState<ExternalCalendar['source']>('url');
+    const [calendarName, setCalendarName] = useState('');
+    const [calendarUrl, setCalendarUrl] = useState('');
+    const [calendarFile, setCalendarFile] = useState<File | null>(null);
+    const [importing, setImporting] = useState(false);
+
+    const [resetFeedOpen, setResetFeedOpen] = useState(false);
+    const [removeTarget, setRemoveTarget] = useState<ExternalCalendar | null>(null);
+
+    const loadCalendars = useCallback(async () => {
+        try {
+            const [feedData, calendarData] = await Promise.all([
+                getCalendarFeed(property.id),
+                getExternalCalendars(property.id),
+            ]);
+            setFeed(feedData);
+            setCalendars(calendarData);
+        } catch (error) {
+            console.error('Error loading calendar sync:', error);
+            toast.error('Failed to load calendar sync');
+        } finally {
+            setLoading(false);
+        }
+    }, [property.id]);
+
+    useEffect(() => {
+        loadCalendars();
+    }, [loadCalendars]);
+
+    // The property's external nights are the union of every calendar's
+    const updateCalendars = (updated: ExternalCalendar[]) => {
+        setCalendars(updated);
+        onExternalDatesChange([...new Set(updated.flatMap((c) => c.blockedDates))].sort());
+    };
+
+    const closeImportModal = () => {
+        setShowImportModal(false);
+        setImportSource('url');
+        setCalendarName('');
+        setCalendarUrl('');
+        setCalendarFile(null);
+    };
+
+    const handleCreateFeed = async () => {
+        setActionId('feed');
+        try {
+            setFeed(await createCalendarFeed(property));
+            toast.success(feed ? 'New calendar link created' : 'Calendar link created');
+        } catch (error) {
+            console.error('Error creating calendar feed:', error);
+            toast.error('Failed to create calendar link');
+        } finally {
+            setActionId(null);
+            setResetFeedOpen(false);
+        }
+    };
+
+    const handleCopyFeed = async () => {
+        if (!feed) return;
+        try {
+            await navigator.clipboard.writeText(feed.url);
+            toast.success('Link copied');
+        } catch {
+            toast.error('Failed to copy link');
+        }
+    };
+
+    const handleImport = async () => {
+        setImporting(true);
+        try {
+            let calendar: ExternalCalendar;
+            if (importSource === 'url') {
+                calendar = await addExternalCalendar(property, calendarName, calendarUrl);
+            } else {
+                if (!calendarFile) {
+                    toast.error('Please choose an .ics file');
+                    return;
+                }
+                calendar = await importCalendarFile(property, calendarName, calendarFile);
+            }
+
+            updateCalendars([...calendars, calendar]);
+            closeImportModal();
+            if (calendar.lastError) {
+                toast.error(`Calendar added, but the first sync failed: ${calendar.lastError}`);
+            } else {
+                toast.success(`Calendar imported – ${calendar.blockedDates.length} night${calendar.blockedDates.length !== 1 ? 's' : ''} blocked`);
+            }
+        } catch (error) {
+            console.error('Error importing calendar:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to import calendar');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const handleSync = async (calendar: ExternalCalendar) => {
+        setActionId(calendar.id);
+        try {
+            const synced = await syncExternalCalendar(calendar);
+            updateCalendars(calendars.map((c) => (c.id === synced.id ? synced : c)));
+            if (synced.lastError) {
+                toast.error(synced.lastError);
+            } else {
+                toast.success('Calendar synced');
+            }
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!removeTarget) return;
+
+        setActionId(removeTarget.id);
+        try {
+            await removeExternalCalendar(removeTarget);
+            updateCalendars(calendars.filter((c) => c.id !== removeTarget.id));
+            toast.success('Calendar removed');
+        } catch (error) {
+            console.error('Error removing calendar:', error);
+            toast.error('Failed to remove calendar');
+        } finally {
+            setActionId(null);
+            setRemoveTarget(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-6">
+                <Spinner />
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white rounded-xl border border-secondary-200 p-6 space-y-8">
+            {/* Export */}
+            <div>
+                <h3 className="text-lg font-semibold">Export calendar</h3>
+                <p className="text-sm text-secondary-500 mb-4">
+                    Add this link to your other platforms so they block the nights booked or blocked here.
+                    Keep it private – anyone with the link can see when your place is taken.
+                </p>
+                {feed ? (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            readOnly
+                            value={feed.url}
+                            onFocus={(e) => e.target.select()}
+                            className="flex-1 px-4 py-2 border border-secondary-300 rounded-lg text-sm bg-secondary-50"
+                        />
+                        <Button variant="outline" size="sm" onClick={handleCopyFeed}>
+                            Copy
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setResetFeedOpen(true)}
+                            disabled={actionId === 'feed'}
+                        >
+                            New link
+                        </Button>
+                    </div>
+                ) : (
+                    <Button size="sm" onClick={handleCreateFeed} loading={actionId === 'feed'}>
+                        Create calendar link
+                    </Button>
+                )}
+            </div>
+
+            {/* Import */}
+            <div>
+                <div className="flex items-center justify-between mb-4">
+                    <div>
+                        <h3 className="text-lg font-semibold">Import calendars</h3>
+                        <p className="text-sm text-secondary-500">
+                            Nights booked on other platforms are blocked here
+                        </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setShowImportModal(true)}>
+                        Add
+                    </Button>
+                </div>
+
+                {calendars.length === 0 ? (
+                    <p className="text-sm text-secondary-500 py-3">You haven't imported any calendars yet.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {calendars.map((calendar) => (
+                            <div
+                                key={calendar.id}
+                                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-secondary-50 rounded-lg"
+                            >
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <p className="font-medium truncate">{calendar.name}</p>
+                                        {calendar.source === 'file' && <Badge size="sm">File</Badge>}
+                                        {calendar.lastError && <Badge variant="error" size="sm">Sync failed</Badge>}
+                                    </div>
+                                    <p className="text-sm text-secondary-500">
+                                        {calendar.blockedDates.length} night{calendar.blockedDates.length !== 1 ? 's' : ''} blocked
+                                        {calendar.lastSyncedAt && ` · ${calendar.source === 'file' ? 'Imported' : 'Synced'} ${format(calendar.lastSyncedAt.toDate(), 'MMM d, h:mm a')}`}
+                                    </p>
+                                    {calendar.lastError && (
+                                        <p className="text-sm text-red-600">{calendar.lastError}</p>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {calendar.source === 'url' && (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleSync(calendar)}
+                                            loading={actionId === calendar.id}
+                                        >
+                                            Sync now
+                                        </Button>
+                                    )}
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-red-600 hover:bg-red-50"
+                                        onClick={() => setRemoveTarget(calendar)}
+                                        disabled={actionId === calendar.id}
+                                    >
+                                        Remove
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Import Calendar Modal */}
+            <Modal isOpen={showImportModal} onClose={closeImportModal} title="Import a calendar" size="sm">
+                <div className="space-y-4 mb-6">
+                    <div className="flex space-x-6">
+                        <Radio
+                            label="Calendar link"
+                            name="calendarSource"
+                            checked={importSource === 'url'}
+                            onChange={() => setImportSource('url')}
+                        />
+                        <Radio
+                            label=".ics file"
+                            name="calendarSource"
+                            checked={importSource === 'file'}
+                            onChange={() => setImportSource('file')}
+                        />
+                    </div>
+
+                    <Input
+                        label="Name"
+                        placeholder="e.g. Airbnb"
+                        value={calendarName}
+                        onChange={(e) => setCalendarName(e.target.value)}
+                    />
+
+                    {importSource === 'url' ? (
+                        <Input
+                            label="iCal link"
+                            type="url"
+                            placeholder="https://…/calendar.ics"
+                            value={calendarUrl}
+                            onChange={(e) => setCalendarUrl(e.target.value)}
+                        />
+                    ) : (
+                        <div>
+                            <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                Calendar file
+                            </label>
+                            <input
+                                type="file"
+                                accept=".ics,text/calendar"
+                                onChange={(e) => setCalendarFile(e.target.files?.[0] ?? null)}
+                                className="w-full text-sm"
+                            />
+                            <p className="mt-1 text-xs text-secondary-500">
+                                A file is imported once. Upload it again when it changes.
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={closeImportModal} disabled={importing}>
+                        Cancel
+                    </Button>
+                    <Button
+                        fullWidth
+                        onClick={handleImport}
+                        loading={importing}
+                        disabled={importSource === 'url' ? !calendarUrl.trim() : !calendarFile}
+                    >
+                        Import
+                    </Button>
+                </div>
+            </Modal>
+
+            <ConfirmDialog
+                isOpen={resetFeedOpen}
+                onClose={() => setResetFeedOpen(false)}
+                onConfirm={handleCreateFeed}
+                title="Create a new link"
+                message="The current link will stop working. You'll need to add the new one to your other platforms."
+                confirmText="Create new link"
+                variant="danger"
+                loading={actionId === 'feed'}
+            />
+
+            <ConfirmDialog
+                isOpen={!!removeTarget}
+                onClose={() => setRemoveTarget(null)}
+                onConfirm={handleRemove}
+                title="Remove calendar"
+                message={`Nights blocked only by "${removeTarget?.name}" will become available again.`}
+                confirmText="Remove"
+                variant="danger"
+                loading={!!removeTarget && actionId === removeTarget.id}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { addDays, differenceInCalendarDays, format, isSameDay, startOfDay } from 'date-fns';
+import type { Booking, Property } from '../../types';
+import { getNightRate } from '../../services/hostCalendarService';
+import { toDateKey } from '../../services/pricingService';
+import { getCurrencySymbol, getPricingCurrency } from '../../services/currencyService';
+
+// Width of one day column in pixels; booking bars are positioned in these units
+const DAY_WIDTH = 56;
+
+// Listings and nights picked by dragging across the timeline
+export interface TimelineSelection {
+    propertyIds: string[];
+    dates: string[];
+}
+
+interface CalendarTimelineProps {
+    properties: Property[];
+    bookings: Booking[];
+    startDate: Date;
+    days: number;
+    selection: TimelineSelection | null;
+    onSelectionChange: (selection: TimelineSelection | null) => void;
+    onBookingClick: (booking: Booking) => void;
+}
+
+interface DragState {
+    anchorRow: number;
+    anchorColumn: number;
+    row: number;
+    column: number;
+}
+
+// One row per listing and one column per night, with bookings drawn as bars
+export default function CalendarTimeline({
+    properties,
+    bookings,
+    startDate,
+    days,
+    selection,
+    onSelectionChange,
+    onBookingClick,
+}: CalendarTimelineProps) {
+    const [drag, setDrag] = useState<DragState | null>(null);
+
+    const columns = Array.from({ length: days }, (_, i) => addDays(startDate, i));
+    const dateKeys = columns.map(toDateKey);
+    const today = startOfDay(new Date());
+
+    // A drag ends wherever the mouse is released, even outside the grid
+    useEffect(() => {
+        if (!drag) return;
+        const endDrag = () => setDrag(null);
+        window.addEventListener('mouseup', endDrag);
+        return () => window.removeEventListener('mouseup', endDrag);
+    }, [drag]);
+
+    const selectRange = (next: DragState) => {
+        setDrag(next);
+        const [firstRow, lastRow] = [next.anchorRow, next.row].sort((a, b) => a - b);
+        const [firstColumn, lastColumn] = [next.anchorColumn, next.column].sort((a, b) => a - b);
+        onSelectionChange({
+            propertyIds: properties.slice(firstRow, lastRow + 1).map((p) => p.id),
+            dates: dateKeys.slice(firstColumn, lastColumn + 1),
+        });
+    };
+
+    const handleMouseDown = (row: number, column: number) => {
+        selectRange({ anchorRow: row, anchorColumn: column, row, column });
+    };
+
+    const handleMouseEnter = (row: number, column: number) => {
+        if (!drag || columns[column] < today) return;
+        selectRange({ ...drag, row, column });
+    };
+
+    const isSelected = (propertyId: string, dateKey: string) =>
+        !!selection && selection.propertyIds.includes(propertyId) && selection.dates.includes(dateKey);
+
+    // Bars run from midday on check-in to midday on checkout, clipped to the visible range
+    const getBookingBars = (propertyId: string) =>
+        bookings
+            .filter((booking) => booking.propertyId === propertyId)
+            .map((booking) => {
+                const start = differenceInCalendarDays(booking.checkIn.toDate(), startDate) + 0.5;
+                const end = differenceInCalendarDays(booking.checkOut.toDate(), startDate) + 0.5;
+                return { booking, start: Math.max(start, 0), end: Math.min(end, days) };
+            })
+            .filter(({ start, end }) => end > start);
+
+    return (
+        <div className="bg-white rounded-xl border border-secondary-200 overflow-x-auto select-none">
+            <div style={{ minWidth: `calc(12rem + ${days * DAY_WIDTH}px)` }}>
+                {/* Day Headers */}
+                <div className="flex border-b border-secondary-200">
+                    <div className="w-48 flex-shrink-0 sticky left-0 z-20 bg-white border-r border-secondary-200" />
+                    {columns.map((date, column) => (
+                        <div
+                            key={dateKeys[column]}
+                            style={{ width: DAY_WIDTH }}
+                            className={`flex-shrink-0 py-2 text-center text-xs ${isSameDay(date, today) ? 'text-primary-600 font-semibold' : 'text-secondary-500'}`}
+                        >
+                            <div className="h-4 font-medium text-secondary-700">
+                                {(column === 0 || date.getDate() === 1) && format(date, 'MMM')}
+                            </div>
+                            <div>{format(date, 'EEEEE')}</div>
+                            <div className="text-sm">{format(date, 'd')}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Listing Rows */}
+                {properties.map((property, row) => {
+                    const currencySymbol = getCurrencySymbol(getPricingCurrency(property.pricing));
+                    const externalDates = property.externalBlockedDates || [];
+
+                    return (
+                        <div key={property.id} className="flex border-b border-secondary-100 last:border-b-0">
+                            <div className="w-48 flex-shrink-0 sticky left-0 z-20 bg-white border-r border-secondary-200 px-3 py-2">
+                                <p className="text-sm font-medium truncate" title={property.title}>
+                                    {property.title}
+                                </p>
+                                <p className="text-xs text-secondary-500">
+                                    {property.minimumStay}-night minimum
+                                </p>
+                            </div>
+
+                            <div className="relative flex">
+                                {columns.map((date, column) => {
+                                    const dateKey = dateKeys[column];
+                                    const isPast = date < today;
+                                    const isBlocked = property.blockedDates?.includes(dateKey);
+                                    const isExternal = externalDates.includes(dateKey);
+                                    const hasCustomPrice = property.pricing.customPricing?.some((cp) => cp.date === dateKey);
+
+                                    return (
+                                        <div
+                                            key={dateKey}
+                                            style={{ width: DAY_WIDTH }}
+                                            onMouseDown={() => !isPast && handleMouseDown(row, column)}
+                                            onMouseEnter={() => handleMouseEnter(row, column)}
+                                            title={isExternal ? 'Booked on another platform' : undefined}
+                                            className={`
+                h-14 flex-shrink-0 border-l border-secondary-100 flex items-end justify-center pb-1 text-xs
+                ${isPast ? 'bg-secondary-50 text-secondary-300' : 'cursor-pointer'}
+                ${!isPast && (isBlocked || isExternal) ? 'bg-secondary-200 text-secondary-500 line-through' : ''}
+                ${!isPast && !isBlocked && !isExternal ? 'hover:bg-secondary-100' : ''}
+                ${isSelected(property.id, dateKey) ? '!bg-primary-100 ring-1 ring-inset ring-primary-500' : ''}
+                ${hasCustomPrice && !isPast ? 'font-semibold text-primary-600' : ''}
+              `}
+                                        >
+                                            {currencySymbol}{Math.round(getNightRate(property, dateKey))}
+                                        </div>
+                                    );
+                                })}
+
+                                {/* Bookings */}
+                                {getBookingBars(property.id).map(({ booking, start, end }) => (
+                                    <button
+                                        key={booking.id}
+                                        type="button"
+                                        onMouseDown={(e) => e.stopPropagation()}
+                                        onClick={() => onBookingClick(booking)}
+                                        style={{ left: start * DAY_WIDTH + 2, width: (end - start) * DAY_WIDTH - 4 }}
+                                        className={`absolute top-1 h-7 z-10 rounded-full px-3 text-xs font-medium text-left truncate shadow-sm ${booking.status === 'confirmed'
+                                            ? 'bg-blue-500 text-white hover:bg-blue-600'
+                                            : 'bg-yellow-200 text-yellow-900 hover:bg-yellow-300'
+                                            }`}
+                                        title={`${booking.guestName ?? 'Guest'} - ${format(booking.checkIn.toDate(), 'MMM d')} to ${format(booking.checkOut.toDate(), 'MMM d')}`}
+                                    >
+                                        {booking.guestName ?? 'Guest'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { format, subDays, startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
-import type { Booking } from '../../types';
+import type { Booking, Payout } from '../../types';
 import { getHostBookings } from '../../services/bookingService';
+import { calculateHostPayout, getHostPayouts } from '../../services/payoutService';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
 import { useAuth } from '../../contexts/AuthContext';
-import { Spinner } from '../ui';
+import { Badge, Spinner } from '../ui';
 
 interface EarningsSummaryProps {
     period?: 'week' | 'month' | 'year' | 'all';
@@ -12,6 +14,7 @@ interface EarningsSummaryProps {
 export default function EarningsSummary({ period = 'month' }: EarningsSummaryProps) {
     const { currentUser } = useAuth();
     const [bookings, setBookings] = useState<Booking[]>([]);
+    const [payouts, setPayouts] = useState<Payout[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedPeriod, setSelectedPeriod] = useState(period);
 
@@ -19,8 +22,12 @@ export default function EarningsSummary({ period = 'month' }: EarningsSummaryPro
         const fetchBookings = async () => {
             if (!currentUser) return;
             try {
-                const allBookings = await getHostBookings(currentUser.uid);
+                const [allBookings, hostPayouts] = await Promise.all([
+                    getHostBookings(currentUser.uid),
+                    getHostPayouts(currentUser.uid),
+                ]);
                 setBookings(allBookings.filter((b) => b.status === 'completed' || b.status === 'confirmed'));
+                setPayouts(hostPayouts);
             } catch (error) {
                 console.error('Error fetching bookings:', error);
             } finally {
@@ -54,13 +61,46 @@ export default function EarningsSummary({ period = 'month' }: EarningsSummaryPro
         return bookingDate >= start && bookingDate <= end;
     });
 
+    // What the host receives for a booking, after the host service fee
+    const getHostEarnings = (booking: Booking) =>
+        calculateHostPayout(booking.pricing, booking.refundBreakdown).amount;
+
     const calculateEarnings = () => {
-        return filteredBookings.reduce((total, booking) => total + booking.pricing.total, 0);
+        return filteredBookings.reduce((total, booking) => total + getHostEarnings(booking), 0);
+    };
+
+    const filteredPayouts = payouts.filter((payout) => {
+        if (selectedPeriod === 'all') return true;
+
+        const { start, end } = getDateRange();
+        const payoutDate = payout.scheduledDate.toDate();
+        return payoutDate >= start && payoutDate <= end;
+    });
+
+    const sumPayouts = (statuses: Payout['status'][]) => {
+        return filteredPayouts
+            .filter((payout) => statuses.includes(payout.status))
+            .reduce((total, payout) => total + payout.amount, 0);
+    };
+
+    // Confirmed stays that haven't reached their payout date yet
+    const calculateUpcoming = () => {
+        return bookings
+            .filter((booking) => booking.status === 'confirmed' && !booking.payoutId)
+            .reduce((total, booking) => total + getHostEarnings(booking), 0);
     };
 
-    const calculatePayout = () => {
-        // Assuming 97% payout after 3% service fee
-        return calculateEarnings() * 0.97;
+    const getPayoutStatusColor = (status: Payout['status']): 'success' | 'warning' | 'error' | 'info' => {
+        switch (status) {
+            case 'completed':
+                return 'success';
+            case 'processing':
+                return 'info';
+            case 'failed':
+                return 'error';
+            default:
+                return 'warning';
+        }
     };
 
     const calculateAverageNightlyRate = () => {
@@ -69,13 +109,9 @@ export default function EarningsSummary({ period = 'month' }: EarningsSummaryPro
         return totalNightlyRates / filteredBookings.length;
     };
 
-    const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(amount);
-    };
+    // Hosts are paid in their listings' currency
+    const earningsCurrency = payouts[0]?.currency ?? getPricingCurrency(bookings[0]?.pricing);
+    const formatCurrency = (amount: number, currency = earningsCurrency) => formatMoney(amount, currency);
 
     // Generate chart data for the last 30 days
     const generateChartData = () => {
@@ -89,7 +125,7 @@ export default function EarningsSummary({ period = 'month' }: EarningsSummaryPro
                 const bookingDate = b.createdAt?.toDate?.() || b.checkIn?.toDate?.() || new Date();
                 return format(bookingDate, 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd');
             });
-            const earnings = dayBookings.reduce((sum, b) => sum + b.pricing.total, 0);
+            const earnings = dayBookings.reduce((sum, b) => sum + getHostEarnings(b), 0);
             return { date: day, earnings };
         });
     }; const chartData = generateChartData();
@@ -121,14 +157,22 @@ export default function EarningsSummary({ period = 'month' }: EarningsSummaryPro
             </div>
 
             {/* Stats Grid */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-6 mb-8">
                 <div>
                     <p className="text-sm text-secondary-500">Total Earnings</p>
                     <p className="text-2xl font-bold">{formatCurrency(calculateEarnings())}</p>
                 </div>
                 <div>
-                    <p className="text-sm text-secondary-500">Net Payout</p>
-                    <p className="text-2xl font-bold text-green-600">{formatCurrency(calculatePayout())}</p>
+                    <p className="text-sm text-secondary-500">Paid Out</p>
+                    <p className="text-2xl font-bold text-green-600">{formatCurrency(sumPayouts(['completed']))}</p>
+                </div>
+                <div>
+                    <p className="text-sm text-secondary-500">Pending Payouts</p>
+                    <p className="text-2xl font-bold">{formatCurrency(sumPayouts(['pending', 'processing']))}</p>
+                </div>
+                <div>
+                    <p className="text-sm text-secondary-500">Upcoming</p>
+                    <p className="text-2xl font-bold">{formatCurrency(calculateUpcoming())}</p>
                 </div>
                 <div>
                     <p className="text-sm text-secondary-500">Bookings</p>
@@ -164,26 +208,36 @@ export default function EarningsSummary({ period = 'month' }: EarningsSummaryPro
             </div>
 
             {/* Recent Payouts */}
-            {filteredBookings.length > 0 && (
+            {filteredPayouts.length > 0 && (
                 <div className="mt-8">
-                    <h4 className="text-sm font-medium text-secondary-600 mb-4">Recent Transactions</h4>
+                    <h4 className="text-sm font-medium text-secondary-600 mb-4">Recent Payouts</h4>
                     <div className="space-y-3">
-                        {filteredBookings.slice(0, 5).map((booking) => (
-                            <div
-                                key={booking.id}
-                                className="flex items-center justify-between p-3 bg-secondary-50 rounded-lg"
-                            >
-                                <div>
-                                    <p className="font-medium">{booking.guestName ?? 'Guest'}</p>
-                                    <p className="text-sm text-secondary-500">
-                                        {format(booking.checkIn.toDate(), 'MMM d')} – {format(booking.checkOut.toDate(), 'MMM d')}
-                                    </p>
+                        {filteredPayouts.slice(0, 5).map((payout) => {
+                            const booking = bookings.find((b) => b.id === payout.bookingId);
+                            return (
+                                <div
+                                    key={payout.id}
+                                    className="flex items-center justify-between p-3 bg-secondary-50 rounded-lg"
+                                >
+                                    <div>
+                                        <p className="font-medium">{booking?.guestName ?? 'Guest'}</p>
+                                        <p className="text-sm text-secondary-500">
+                                            {payout.status === 'completed' && payout.paidDate
+                                                ? `Paid ${format(payout.paidDate.toDate(), 'MMM d')}`
+                                                : `Scheduled ${format(payout.scheduledDate.toDate(), 'MMM d')}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center space-x-3">
+                                        <Badge variant={getPayoutStatusColor(payout.status)}>
+                                            {payout.status.charAt(0).toUpperCase() + payout.status.slice(1)}
+                                        </Badge>
+                                        <span className="font-semibold text-green-600">
+                                            +{formatCurrency(payout.amount, payout.currency)}
+                                        </span>
+                                    </div>
                                 </div>
-                                <span className="font-semibold text-green-600">
-                                    +{formatCurrency(booking.pricing.total * 0.97)}
-                                </span>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 </div>
             )}
@@ -1,12 +1,14 @@
 import { Link } from 'react-router-dom';
 import { subDays, differenceInDays } from 'date-fns';
 import type { Property, Booking } from '../../types';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
 import { Badge, Button } from '../ui';
 
 interface ListingCardProps {
     property: Property;
     bookings?: Booking[];
     onEdit?: () => void;
+    onCalendar?: () => void;
     onDelete?: () => void;
     onToggleStatus?: () => void;
 }
@@ -24,6 +26,7 @@ export default function ListingCard({
     property,
     bookings = [],
     onEdit,
+    onCalendar,
     onDelete,
     onToggleStatus,
 }: ListingCardProps) {
@@ -42,13 +45,7 @@ export default function ListingCard({
         }
     };
 
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
-    };
+    const formatPrice = (price: number) => formatMoney(price, getPricingCurrency(property.pricing));
 
     const propertyRating = property.averageRating ?? 0;
     const propertyReviewCount = property.reviewCount ?? 0;
@@ -172,6 +169,13 @@ export default function ListingCard({
                             >
                                 {property.status === 'active' ? 'Deactivate' : 'Activate'}
                             </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={onCalendar}
+                            >
+                                Calendar
+                            </Button>
                             <Button
                                 variant="outline"
                                 size="sm"
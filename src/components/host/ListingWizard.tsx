@@ -4,14 +4,20 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useDropzone } from 'react-dropzone';
+import { addDays, format, nextFriday, startOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
 import { GeoPoint } from 'firebase/firestore';
-import { PROPERTY_TYPES, AMENITY_CATEGORIES, CANCELLATION_POLICIES } from '../../config/constants';
+import { PROPERTY_TYPES, AMENITY_CATEGORIES, CANCELLATION_POLICIES, CURRENCIES, APP_CONFIG } from '../../config/constants';
 import { createProperty, getProperty, updateProperty } from '../../services/propertyService';
+import { hasDefaultPayoutMethod } from '../../services/payoutMethodService';
 import { uploadPropertyPhoto } from '../../services/storageService';
+import { calculateStayPrice } from '../../services/pricingService';
+import { formatMoney, getCurrencySymbol, getPricingCurrency } from '../../services/currencyService';
 import { useAuth } from '../../contexts/AuthContext';
 import { LocationPicker } from '../map/PropertyMap';
 import { Button, Input, Spinner } from '../ui';
-import type { PropertyType, CancellationPolicy } from '../../types';
+import { PriceBreakdown } from '../booking';
+import type { PropertyType, CancellationPolicy, PricingRules, AvailabilityRules } from '../../types';
 import toast from 'react-hot-toast';
 
 const propertySchema = z.object({
@@ -39,10 +45,28 @@ const propertySchema = z.object({
     amenities: z.array(z.string()),
     photos: z.array(z.any()).min(1, 'Please upload at least 1 photo'),
     pricing: z.object({
+        currency: z.string().length(3),
         basePrice: z.number().min(10, 'Minimum price is $10'),
+        weekendPrice: z.number().min(0),
         cleaningFee: z.number().min(0),
         weeklyDiscount: z.number().min(0).max(100),
         monthlyDiscount: z.number().min(0).max(100),
+        earlyBirdDays: z.number().min(0),
+        earlyBirdPercent: z.number().min(0).max(100),
+        lastMinuteDays: z.number().min(0),
+        lastMinutePercent: z.number().min(0).max(100),
+        baseOccupancy: z.number().min(0),
+        extraGuestFee: z.number().min(0),
+        minimumNightlyPrice: z.number().min(0),
+        securityDeposit: z.number().min(0),
+        seasons: z.array(z.object({
+            id: z.string(),
+            name: z.string().min(1, 'Please name the season'),
+            startDate: z.string().min(1, 'Please set a start date'),
+            endDate: z.string().min(1, 'Please set an end date'),
+            nightlyPrice: z.number().min(10, 'Minimum price is $10'),
+            weekendPrice: z.number().min(0),
+        })),
     }),
     houseRules: z.object({
         checkInTime: z.string(),
@@ -55,11 +79,101 @@ const propertySchema = z.object({
     cancellationPolicy: z.string(),
     minimumStay: z.number().min(1),
     maximumStay: z.number().optional(),
+    advanceNotice: z.number().min(0),
+    preparationTime: z.number().min(0),
+    availabilityRules: z.object({
+        // 24 keeps same-day check-ins open all day
+        sameDayCutoffHour: z.number().min(0).max(24),
+        checkInDays: z.array(z.number()).min(1, 'Pick at least one check-in day'),
+        checkOutDays: z.array(z.number()).min(1, 'Pick at least one checkout day'),
+        seasonalMinimumStays: z.array(z.object({
+            id: z.string(),
+            name: z.string().min(1, 'Please name the season'),
+            startDate: z.string().min(1, 'Please set a start date'),
+            endDate: z.string().min(1, 'Please set an end date'),
+            minimumStay: z.number().min(1, 'Minimum stay is at least 1 night'),
+        })),
+    }),
     instantBook: z.boolean(),
 });
 
 type PropertyFormData = z.infer<typeof propertySchema>;
 
+// Map the pricing step's form values to stored PricingRules (zero means "not set")
+function toPricingRules(pricing: PropertyFormData['pricing']): PricingRules {
+    const rules: PricingRules = {
+        currency: pricing.currency,
+        basePrice: pricing.basePrice,
+        cleaningFee: pricing.cleaningFee,
+        weeklyDiscount: pricing.weeklyDiscount,
+        monthlyDiscount: pricing.monthlyDiscount,
+    };
+
+    if (pricing.weekendPrice > 0) {
+        rules.weekendPrice = pricing.weekendPrice;
+    }
+    if (pricing.seasons.length > 0) {
+        rules.seasons = pricing.seasons.map((season) => ({
+            id: season.id,
+            name: season.name,
+            startDate: season.startDate,
+            endDate: season.endDate,
+            nightlyPrice: season.nightlyPrice,
+            ...(season.weekendPrice > 0 ? { weekendPrice: season.weekendPrice } : {}),
+        }));
+    }
+    if (pricing.earlyBirdPercent > 0) {
+        rules.earlyBirdDiscount = {
+            minDaysInAdvance: pricing.earlyBirdDays,
+            percent: pricing.earlyBirdPercent,
+        };
+    }
+    if (pricing.lastMinutePercent > 0) {
+        rules.lastMinuteDiscount = {
+            maxDaysInAdvance: pricing.lastMinuteDays,
+            percent: pricing.lastMinutePercent,
+        };
+    }
+    if (pricing.extraGuestFee > 0) {
+        rules.extraGuestFee = {
+            baseOccupancy: pricing.baseOccupancy,
+            feePerGuest: pricing.extraGuestFee,
+        };
+    }
+    if (pricing.minimumNightlyPrice > 0) {
+        rules.minimumNightlyPrice = pricing.minimumNightlyPrice;
+    }
+    if (pricing.securityDeposit > 0) {
+        rules.securityDeposit = pricing.securityDeposit;
+    }
+
+    return rules;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// Map the availability form values to stored AvailabilityRules (every weekday means "any day")
+function toAvailabilityRules(data: PropertyFormData): AvailabilityRules {
+    const { availabilityRules: values } = data;
+    const rules: AvailabilityRules = {};
+
+    if (values.seasonalMinimumStays.length > 0) {
+        rules.seasonalMinimumStays = values.seasonalMinimumStays;
+    }
+    if (values.checkInDays.length < ALL_WEEKDAYS.length) {
+        rules.checkInDays = [...values.checkInDays].sort((a, b) => a - b);
+    }
+    if (values.checkOutDays.length < ALL_WEEKDAYS.length) {
+        rules.checkOutDays = [...values.checkOutDays].sort((a, b) => a - b);
+    }
+    if (data.advanceNotice === 0 && values.sameDayCutoffHour < 24) {
+        rules.sameDayCutoffHour = values.sameDayCutoffHour;
+    }
+
+    return rules;
+}
+
 const STEPS = [
     { id: 'type', title: 'Property Type' },
     { id: 'location', title: 'Location' },
@@ -81,6 +195,7 @@ export default function ListingWizard() {
     const [loading, setLoading] = useState(isEditMode);
     const [uploadedPhotos, setUploadedPhotos] = useState<{ file: File; preview: string }[]>([]);
     const [existingPhotos, setExistingPhotos] = useState<{ id: string; url: string; caption?: string; order: number }[]>([]);
+    const [existingCustomPricing, setExistingCustomPricing] = useState<NonNullable<PricingRules['customPricing']>>([]);
 
     const {
         register,
@@ -111,10 +226,21 @@ export default function ListingWizard() {
             amenities: [],
             photos: [],
             pricing: {
+                currency: APP_CONFIG.DEFAULT_CURRENCY,
                 basePrice: 50,
+                weekendPrice: 0,
                 cleaningFee: 25,
                 weeklyDiscount: 0,
                 monthlyDiscount: 0,
+                earlyBirdDays: 60,
+                earlyBirdPercent: 0,
+                lastMinuteDays: 3,
+                lastMinutePercent: 0,
+                baseOccupancy: 2,
+                extraGuestFee: 0,
+                minimumNightlyPrice: 0,
+                securityDeposit: 0,
+                seasons: [],
             },
             houseRules: {
                 checkInTime: '15:00',
@@ -127,6 +253,14 @@ export default function ListingWizard() {
             cancellationPolicy: 'moderate',
             minimumStay: 1,
             maximumStay: undefined,
+            advanceNotice: 1,
+            preparationTime: 0,
+            availabilityRules: {
+                sameDayCutoffHour: 24,
+                checkInDays: ALL_WEEKDAYS,
+                checkOutDays: ALL_WEEKDAYS,
+                seasonalMinimumStays: [],
+            },
             instantBook: true,
         },
     });
@@ -188,10 +322,24 @@ export default function ListingWizard() {
                     amenities: property.amenities,
                     photos: property.photos || [],
                     pricing: {
+                        currency: getPricingCurrency(property.pricing),
                         basePrice: property.pricing.basePrice,
+                        weekendPrice: property.pricing.weekendPrice || 0,
                         cleaningFee: property.pricing.cleaningFee,
                         weeklyDiscount: property.pricing.weeklyDiscount || 0,
                         monthlyDiscount: property.pricing.monthlyDiscount || 0,
+                        earlyBirdDays: property.pricing.earlyBirdDiscount?.minDaysInAdvance ?? 60,
+                        earlyBirdPercent: property.pricing.earlyBirdDiscount?.percent || 0,
+                        lastMinuteDays: property.pricing.lastMinuteDiscount?.maxDaysInAdvance ?? 3,
+                        lastMinutePercent: property.pricing.lastMinuteDiscount?.percent || 0,
+                        baseOccupancy: property.pricing.extraGuestFee?.baseOccupancy ?? property.maxGuests,
+                        extraGuestFee: property.pricing.extraGuestFee?.feePerGuest || 0,
+                        minimumNightlyPrice: property.pricing.minimumNightlyPrice || 0,
+                        securityDeposit: property.pricing.securityDeposit || 0,
+                        seasons: (property.pricing.seasons || []).map((season) => ({
+                            ...season,
+                            weekendPrice: season.weekendPrice || 0,
+                        })),
                     },
                     houseRules: {
                         checkInTime: property.checkInTime || '15:00',
@@ -204,11 +352,24 @@ export default function ListingWizard() {
                     cancellationPolicy: property.cancellationPolicy,
                     minimumStay: property.minimumStay,
                     maximumStay: property.maximumStay,
+                    advanceNotice: property.advanceNotice ?? 1,
+                    preparationTime: property.preparationTime ?? 0,
+                    availabilityRules: {
+                        sameDayCutoffHour: property.availabilityRules?.sameDayCutoffHour ?? 24,
+                        checkInDays: property.availabilityRules?.checkInDays?.length
+                            ? property.availabilityRules.checkInDays
+                            : ALL_WEEKDAYS,
+                        checkOutDays: property.availabilityRules?.checkOutDays?.length
+                            ? property.availabilityRules.checkOutDays
+                            : ALL_WEEKDAYS,
+                        seasonalMinimumStays: property.availabilityRules?.seasonalMinimumStays || [],
+                    },
                     instantBook: property.instantBook,
                 });
 
                 // Store existing photos
                 setExistingPhotos(property.photos || []);
+                setExistingCustomPricing(property.pricing.customPricing || []);
             } catch (error) {
                 console.error('Error loading property:', error);
                 toast.error('Failed to load property');
@@ -232,6 +393,21 @@ export default function ListingWizard() {
 
 
     const watchedValues = watch();
+    const currencySymbol = getCurrencySymbol(watchedValues.pricing.currency);
+    // Room for symbols wider than one character, such as "CA$"
+    const symbolPadding = currencySymbol.length > 1 ? 'pl-14' : 'pl-8';
+
+    // Sample stay for the pricing step preview
+    const previewCheckIn = nextFriday(startOfDay(new Date()));
+    const previewPricing = watchedValues.pricing.basePrice > 0
+        ? calculateStayPrice(
+            toPricingRules(watchedValues.pricing),
+            previewCheckIn,
+            addDays(previewCheckIn, 3),
+            { adults: watchedValues.maxGuests || 1, children: 0, infants: 0 },
+            { location: watchedValues.location }
+        )
+        : null;
 
     // Photo upload handling
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -273,6 +449,12 @@ export default function ListingWizard() {
 
         setSubmitting(true);
         try {
+            // New listings go live straight away, so the host needs somewhere to be paid first
+            if (!isEditMode && !(await hasDefaultPayoutMethod(currentUser.uid))) {
+                toast.error('Add a payout method in your profile before publishing a listing');
+                return;
+            }
+
             // Upload new photos first
             const uploadedUrls: { id: string; url: string; caption?: string; order: number }[] = [];
 
@@ -328,10 +510,9 @@ export default function ListingWizard() {
                     ),
                 },
                 pricing: {
-                    basePrice: data.pricing.basePrice,
-                    cleaningFee: data.pricing.cleaningFee,
-                    weeklyDiscount: data.pricing.weeklyDiscount,
-                    monthlyDiscount: data.pricing.monthlyDiscount,
+                    // Keep per-date prices set from the calendar, which this form doesn't edit
+                    ...(existingCustomPricing.length > 0 ? { customPricing: existingCustomPricing } : {}),
+                    ...toPricingRules(data.pricing),
                 },
                 maxGuests: data.maxGuests,
                 bedrooms: data.bedrooms,
@@ -346,8 +527,9 @@ export default function ListingWizard() {
                 instantBook: data.instantBook,
                 minimumStay: data.minimumStay,
                 maximumStay: data.maximumStay,
-                advanceNotice: 1,
-                preparationTime: 0,
+                advanceNotice: data.advanceNotice,
+                preparationTime: data.preparationTime,
+                availabilityRules: toAvailabilityRules(data),
                 blockedDates: [],
             };
 
@@ -736,17 +918,36 @@ export default function ListingWizard() {
                     <div className="space-y-6">
                         <h2 className="text-2xl font-semibold">Set your pricing</h2>
 
+                        <div>
+                            <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                Currency
+                            </label>
+                            <select
+                                {...register('pricing.currency')}
+                                className="w-full md:w-1/2 px-4 py-3 border border-secondary-300 rounded-lg"
+                            >
+                                {CURRENCIES.map((currency) => (
+                                    <option key={currency.code} value={currency.code}>
+                                        {currency.code} – {currency.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <p className="mt-1 text-sm text-secondary-500">
+                                Guests are charged and you're paid out in this currency
+                            </p>
+                        </div>
+
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                             <div>
                                 <label className="block text-sm font-medium text-secondary-700 mb-1">
                                     Base Price (per night)
                                 </label>
                                 <div className="relative">
-                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">₱</span>
+                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
                                     <input
                                         type="number"
                                         {...register('pricing.basePrice', { valueAsNumber: true })}
-                                        className="w-full pl-8 pr-4 py-3 border border-secondary-300 rounded-lg"
+                                        className={`w-full ${symbolPadding} pr-4 py-3 border border-secondary-300 rounded-lg`}
                                         min={10}
                                     />
                                 </div>
@@ -760,11 +961,11 @@ export default function ListingWizard() {
                                     Cleaning Fee
                                 </label>
                                 <div className="relative">
-                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">₱</span>
+                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
                                     <input
                                         type="number"
                                         {...register('pricing.cleaningFee', { valueAsNumber: true })}
-                                        className="w-full pl-8 pr-4 py-3 border border-secondary-300 rounded-lg"
+                                        className={`w-full ${symbolPadding} pr-4 py-3 border border-secondary-300 rounded-lg`}
                                         min={0}
                                     />
                                 </div>
@@ -797,6 +998,267 @@ export default function ListingWizard() {
                             </div>
                         </div>
 
+                        <div>
+                            <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                Weekend Price (optional)
+                            </label>
+                            <div className="relative">
+                                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
+                                <input
+                                    type="number"
+                                    {...register('pricing.weekendPrice', { valueAsNumber: true })}
+                                    className={`w-full ${symbolPadding} pr-4 py-3 border border-secondary-300 rounded-lg`}
+                                    min={0}
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                Security Deposit (optional)
+                            </label>
+                            <div className="relative">
+                                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
+                                <input
+                                    type="number"
+                                    {...register('pricing.securityDeposit', { valueAsNumber: true })}
+                                    className={`w-full ${symbolPadding} pr-4 py-3 border border-secondary-300 rounded-lg`}
+                                    min={0}
+                                />
+                            </div>
+                            <p className="mt-1 text-xs text-secondary-500">
+                                Held on the guest's card and released {APP_CONFIG.DAMAGE_CLAIM_WINDOW_HOURS} hours after checkout unless you report damage
+                            </p>
+                        </div>
+
+                        {/* Pricing Rules */}
+                        <div className="border-t border-secondary-200 pt-6 mt-6 space-y-6">
+                            <div>
+                                <h3 className="text-lg font-medium">Pricing rules</h3>
+                                <p className="text-sm text-secondary-600">
+                                    Leave a percentage or fee at 0 to turn that rule off.
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Early-bird Discount (%)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        {...register('pricing.earlyBirdPercent', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                        min={0}
+                                        max={100}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Booked at least (days ahead)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        {...register('pricing.earlyBirdDays', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                        min={0}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Last-minute Discount (%)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        {...register('pricing.lastMinutePercent', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                        min={0}
+                                        max={100}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Booked at most (days ahead)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        {...register('pricing.lastMinuteDays', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                        min={0}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Extra Guest Fee (per guest, per night)
+                                    </label>
+                                    <div className="relative">
+                                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
+                                        <input
+                                            type="number"
+                                            {...register('pricing.extraGuestFee', { valueAsNumber: true })}
+                                            className={`w-full ${symbolPadding} pr-4 py-3 border border-secondary-300 rounded-lg`}
+                                            min={0}
+                                        />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Guests Included in Price
+                                    </label>
+                                    <input
+                                        type="number"
+                                        {...register('pricing.baseOccupancy', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                        min={1}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Minimum Nightly Price
+                                    </label>
+                                    <div className="relative">
+                                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-500">{currencySymbol}</span>
+                                        <input
+                                            type="number"
+                                            {...register('pricing.minimumNightlyPrice', { valueAsNumber: true })}
+                                            className={`w-full ${symbolPadding} pr-4 py-3 border border-secondary-300 rounded-lg`}
+                                            min={0}
+                                        />
+                                    </div>
+                                    <p className="mt-1 text-xs text-secondary-500">
+                                        Discounts never take a night below this price
+                                    </p>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Seasons */}
+                        <div className="border-t border-secondary-200 pt-6 mt-6">
+                            <Controller
+                                name="pricing.seasons"
+                                control={control}
+                                render={({ field }) => (
+                                    <div className="space-y-4">
+                                        <div className="flex items-center justify-between">
+                                            <div>
+                                                <h3 className="text-lg font-medium">Seasonal prices</h3>
+                                                <p className="text-sm text-secondary-600">
+                                                    Replace your base and weekend price for a date range
+                                                </p>
+                                            </div>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => field.onChange([
+                                                    ...field.value,
+                                                    {
+                                                        id: uuidv4(),
+                                                        name: '',
+                                                        startDate: '',
+                                                        endDate: '',
+                                                        nightlyPrice: watchedValues.pricing.basePrice,
+                                                        weekendPrice: 0,
+                                                    },
+                                                ])}
+                                            >
+                                                Add season
+                                            </Button>
+                                        </div>
+
+                                        {field.value.map((season, index) => {
+                                            const updateSeason = (changes: Partial<typeof season>) => {
+                                                field.onChange(field.value.map((s, i) => (
+                                                    i === index ? { ...s, ...changes } : s
+                                                )));
+                                            };
+
+                                            return (
+                                                <div key={season.id} className="p-4 border border-secondary-200 rounded-lg space-y-3">
+                                                    <div className="flex items-center gap-3">
+                                                        <input
+                                                            type="text"
+                                                            value={season.name}
+                                                            onChange={(e) => updateSeason({ name: e.target.value })}
+                                                            placeholder="e.g. Holiday season"
+                                                            className="flex-1 px-4 py-2 border border-secondary-300 rounded-lg"
+                                                        />
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => field.onChange(field.value.filter((_, i) => i !== index))}
+                                                            className="text-sm text-red-600 hover:underline"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">From</label>
+                                                            <input
+                                                                type="date"
+                                                                value={season.startDate}
+                                                                onChange={(e) => updateSeason({ startDate: e.target.value })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">To</label>
+                                                            <input
+                                                                type="date"
+                                                                value={season.endDate}
+                                                                min={season.startDate || undefined}
+                                                                onChange={(e) => updateSeason({ endDate: e.target.value })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">Nightly ({currencySymbol})</label>
+                                                            <input
+                                                                type="number"
+                                                                value={season.nightlyPrice}
+                                                                onChange={(e) => updateSeason({ nightlyPrice: e.target.valueAsNumber || 0 })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                                min={10}
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">Weekend ({currencySymbol})</label>
+                                                            <input
+                                                                type="number"
+                                                                value={season.weekendPrice}
+                                                                onChange={(e) => updateSeason({ weekendPrice: e.target.valueAsNumber || 0 })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                                min={0}
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                    {errors.pricing?.seasons?.[index] && (
+                                                        <p className="text-sm text-red-500">
+                                                            {errors.pricing.seasons[index]?.name?.message
+                                                                || errors.pricing.seasons[index]?.startDate?.message
+                                                                || errors.pricing.seasons[index]?.endDate?.message
+                                                                || errors.pricing.seasons[index]?.nightlyPrice?.message}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            />
+                        </div>
+
+                        {/* Preview using the same pricing engine guests see */}
+                        {previewPricing && (
+                            <div className="border-t border-secondary-200 pt-6 mt-6">
+                                <h3 className="text-lg font-medium mb-1">Guest price preview</h3>
+                                <p className="text-sm text-secondary-600 mb-4">
+                                    A 3-night weekend stay starting {format(previewCheckIn, 'MMM d')} for {watchedValues.maxGuests} guest{watchedValues.maxGuests !== 1 ? 's' : ''}
+                                </p>
+                                <PriceBreakdown pricing={previewPricing} />
+                            </div>
+                        )}
+
                         <div className="border-t border-secondary-200 pt-6 mt-6">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div>
@@ -824,6 +1286,208 @@ export default function ListingWizard() {
                             </div>
                         </div>
 
+                        {/* Availability rules */}
+                        <div className="border-t border-secondary-200 pt-6 mt-6 space-y-6">
+                            <div>
+                                <h3 className="text-lg font-medium">Availability</h3>
+                                <p className="text-sm text-secondary-600">
+                                    Control how soon guests can arrive and which days stays start and end
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Advance notice
+                                    </label>
+                                    <select
+                                        {...register('advanceNotice', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                    >
+                                        <option value={0}>Same day</option>
+                                        <option value={1}>At least 1 day</option>
+                                        <option value={2}>At least 2 days</option>
+                                        <option value={3}>At least 3 days</option>
+                                        <option value={7}>At least 7 days</option>
+                                    </select>
+                                </div>
+                                {watchedValues.advanceNotice === 0 && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                            Same-day bookings until
+                                        </label>
+                                        <select
+                                            {...register('availabilityRules.sameDayCutoffHour', { valueAsNumber: true })}
+                                            className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                        >
+                                            <option value={24}>Any time</option>
+                                            {Array.from({ length: 18 }, (_, i) => i + 6).map((hour) => (
+                                                <option key={hour} value={hour}>
+                                                    {format(new Date(2000, 0, 1, hour), 'h a')}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                                        Preparation time
+                                    </label>
+                                    <select
+                                        {...register('preparationTime', { valueAsNumber: true })}
+                                        className="w-full px-4 py-3 border border-secondary-300 rounded-lg"
+                                    >
+                                        <option value={0}>None</option>
+                                        <option value={1}>1 night before and after each booking</option>
+                                        <option value={2}>2 nights before and after each booking</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            {(['checkInDays', 'checkOutDays'] as const).map((name) => (
+                                <Controller
+                                    key={name}
+                                    name={`availabilityRules.${name}`}
+                                    control={control}
+                                    render={({ field }) => (
+                                        <div>
+                                            <label className="block text-sm font-medium text-secondary-700 mb-2">
+                                                {name === 'checkInDays' ? 'Guests can check in on' : 'Guests can check out on'}
+                                            </label>
+                                            <div className="flex flex-wrap gap-2">
+                                                {WEEKDAYS.map((label, day) => {
+                                                    const selected = field.value.includes(day);
+                                                    return (
+                                                        <button
+                                                            key={label}
+                                                            type="button"
+                                                            onClick={() => field.onChange(selected
+                                                                ? field.value.filter((d) => d !== day)
+                                                                : [...field.value, day])}
+                                                            className={`px-3 py-2 rounded-lg border text-sm transition-colors ${selected
+                                                                ? 'border-secondary-900 bg-secondary-900 text-white'
+                                                                : 'border-secondary-300 hover:border-secondary-500'
+                                                                }`}
+                                                        >
+                                                            {label}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                            {errors.availabilityRules?.[name] && (
+                                                <p className="mt-1 text-sm text-red-500">
+                                                    {errors.availabilityRules[name]?.message}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+                                />
+                            ))}
+
+                            <Controller
+                                name="availabilityRules.seasonalMinimumStays"
+                                control={control}
+                                render={({ field }) => (
+                                    <div className="space-y-4">
+                                        <div className="flex items-center justify-between">
+                                            <div>
+                                                <p className="font-medium">Seasonal minimum stays</p>
+                                                <p className="text-sm text-secondary-600">
+                                                    Replace your minimum stay for check-ins during a date range
+                                                </p>
+                                            </div>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => field.onChange([
+                                                    ...field.value,
+                                                    {
+                                                        id: uuidv4(),
+                                                        name: '',
+                                                        startDate: '',
+                                                        endDate: '',
+                                                        minimumStay: watchedValues.minimumStay || 1,
+                                                    },
+                                                ])}
+                                            >
+                                                Add season
+                                            </Button>
+                                        </div>
+
+                                        {field.value.map((season, index) => {
+                                            const updateSeason = (changes: Partial<typeof season>) => {
+                                                field.onChange(field.value.map((s, i) => (
+                                                    i === index ? { ...s, ...changes } : s
+                                                )));
+                                            };
+                                            const seasonErrors = errors.availabilityRules?.seasonalMinimumStays?.[index];
+
+                                            return (
+                                                <div key={season.id} className="p-4 border border-secondary-200 rounded-lg space-y-3">
+                                                    <div className="flex items-center gap-3">
+                                                        <input
+                                                            type="text"
+                                                            value={season.name}
+                                                            onChange={(e) => updateSeason({ name: e.target.value })}
+                                                            placeholder="e.g. Summer weeks"
+                                                            className="flex-1 px-4 py-2 border border-secondary-300 rounded-lg"
+                                                        />
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => field.onChange(field.value.filter((_, i) => i !== index))}
+                                                            className="text-sm text-red-600 hover:underline"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">From</label>
+                                                            <input
+                                                                type="date"
+                                                                value={season.startDate}
+                                                                onChange={(e) => updateSeason({ startDate: e.target.value })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">To</label>
+                                                            <input
+                                                                type="date"
+                                                                value={season.endDate}
+                                                                min={season.startDate || undefined}
+                                                                onChange={(e) => updateSeason({ endDate: e.target.value })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="block text-xs text-secondary-500 mb-1">Minimum nights</label>
+                                                            <input
+                                                                type="number"
+                                                                value={season.minimumStay}
+                                                                onChange={(e) => updateSeason({ minimumStay: e.target.valueAsNumber || 0 })}
+                                                                className="w-full px-3 py-2 border border-secondary-300 rounded-lg"
+                                                                min={1}
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                    {seasonErrors && (
+                                                        <p className="text-sm text-red-500">
+                                                            {seasonErrors.name?.message
+                                                                || seasonErrors.startDate?.message
+                                                                || seasonErrors.endDate?.message
+                                                                || seasonErrors.minimumStay?.message}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            />
+                        </div>
+
                         <div className="flex items-center justify-between p-4 bg-secondary-50 rounded-lg">
                             <div>
                                 <p className="font-medium">Instant Book</p>
@@ -976,7 +1640,9 @@ export default function ListingWizard() {
                                 </div>
                                 <div>
                                     <p className="text-sm text-secondary-500">Price per night</p>
-                                    <p className="font-medium">₱{watchedValues.pricing.basePrice}</p>
+                                    <p className="font-medium">
+                                        {formatMoney(watchedValues.pricing.basePrice, watchedValues.pricing.currency)}
+                                    </p>
                                 </div>
                                 <div>
                                     <p className="text-sm text-secondary-500">Photos</p>
@@ -0,0 +1,358 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PayoutMethod } from '../../types';
+import {
+    addPayoutMethod,
+    getUserPayoutMethods,
+    maskPayoutMethod,
+    payoutMethodSchema,
+    removePayoutMethod,
+    setDefaultPayoutMethod,
+    verifyPayoutMethod,
+} from '../../services/payoutMethodService';
+import { Badge, Button, Input, Radio, Spinner } from '../ui';
+import { ConfirmDialog, Modal } from '../ui/Modal';
+import toast from 'react-hot-toast';
+
+interface PayoutMethodsSectionProps {
+    userId: string;
+}
+
+const EMPTY_FORM = {
+    accountName: '',
+    bankName: '',
+    accountNumber: '',
+    routingNumber: '',
+    paypalEmail: '',
+};
+
+// Where a host's earnings are paid out, managed from the profile page
+export default function PayoutMethodsSection({ userId }: PayoutMethodsSectionProps) {
+    const [methods, setMethods] = useState<PayoutMethod[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actionId, setActionId] = useState<string | null>(null);
+
+    // Add method modal state
+    const [showAddModal, setShowAddModal] = useState(false);
+    const [methodType, setMethodType] = useState<PayoutMethod['type']>('bank_transfer');
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    // Verify modal state
+    const [verifyTarget, setVerifyTarget] = useState<PayoutMethod | null>(null);
+    const [deposits, setDeposits] = useState(['', '']);
+    const [verifying, setVerifying] = useState(false);
+
+    const [removeTarget, setRemoveTarget] = useState<PayoutMethod | null>(null);
+
+    const loadMethods = useCallback(async () => {
+        try {
+            setMethods(await getUserPayoutMethods(userId));
+        } catch (error) {
+            console.error('Error loading payout methods:', error);
+            toast.error('Failed to load payout methods');
+        } finally {
+            setLoading(false);
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        loadMethods();
+    }, [loadMethods]);
+
+    const closeAddModal = () => {
+        setShowAddModal(false);
+        setMethodType('bank_transfer');
+        setForm(EMPTY_FORM);
+        setFormErrors({});
+    };
+
+    const closeVerifyModal = () => {
+        setVerifyTarget(null);
+        setDeposits(['', '']);
+    };
+
+    const updateField = (field: keyof typeof EMPTY_FORM, value: string) => {
+        setForm((prev) => ({ ...prev, [field]: value }));
+        setFormErrors((prev) => ({ ...prev, [field]: '' }));
+    };
+
+    const handleAdd = async () => {
+        const input = methodType === 'paypal'
+            ? { type: 'paypal' as const, paypalEmail: form.paypalEmail }
+            : {
+                type: 'bank_transfer' as const,
+                accountName: form.accountName,
+                bankName: form.bankName,
+                accountNumber: form.accountNumber,
+                routingNumber: form.routingNumber,
+            };
+
+        const result = payoutMethodSchema.safeParse(input);
+        if (!result.success) {
+            const errors: Record<string, string> = {};
+            result.error.issues.forEach((issue) => {
+                const field = String(issue.path[0]);
+                errors[field] = errors[field] || issue.message;
+            });
+            setFormErrors(errors);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const methodId = await addPayoutMethod(input);
+            const updated = await getUserPayoutMethods(userId);
+            setMethods(updated);
+            closeAddModal();
+            toast.success('Payout method added. We sent two small deposits to verify it.');
+            setVerifyTarget(updated.find((m) => m.id === methodId) ?? null);
+        } catch (error) {
+            console.error('Error adding payout method:', error);
+            toast.error('Failed to add payout method');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleVerify = async () => {
+        if (!verifyTarget) return;
+
+        setVerifying(true);
+        try {
+            await verifyPayoutMethod(verifyTarget, deposits.map(Number));
+            await loadMethods();
+            closeVerifyModal();
+            toast.success('Payout method verified');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to verify payout method';
+            toast.error(errorMessage);
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const handleSetDefault = async (method: PayoutMethod) => {
+        setActionId(method.id);
+        try {
+            await setDefaultPayoutMethod(userId, method.id);
+            await loadMethods();
+            toast.success('Default payout method updated');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to update payout method';
+            toast.error(errorMessage);
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!removeTarget) return;
+
+        setActionId(removeTarget.id);
+        try {
+            await removePayoutMethod(userId, removeTarget.id);
+            await loadMethods();
+            toast.success('Payout method removed');
+        } catch (error) {
+            console.error('Error removing payout method:', error);
+            toast.error('Failed to remove payout method');
+        } finally {
+            setActionId(null);
+            setRemoveTarget(null);
+        }
+    };
+
+    const depositsEntered = deposits.every((value) => value !== '' && Number(value) > 0);
+
+    return (
+        <div className="bg-white border border-secondary-200 rounded-xl p-4 sm:p-6 mb-4 sm:mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-xl font-semibold">Payout Methods</h2>
+                    <p className="text-sm text-secondary-500">Where we send your earnings from hosting</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setShowAddModal(true)}>
+                    Add
+                </Button>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-6">
+                    <Spinner />
+                </div>
+            ) : methods.length === 0 ? (
+                <p className="text-sm text-secondary-500 py-3">
+                    You haven't added a payout method yet. You'll need one to publish listings and accept paid bookings.
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    {methods.map((method) => (
+                        <div
+                            key={method.id}
+                            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-secondary-50 rounded-lg"
+                        >
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <p className="font-medium">{maskPayoutMethod(method)}</p>
+                                    {method.isDefault && <Badge variant="success" size="sm">Default</Badge>}
+                                    {method.status === 'pending_verification' && (
+                                        <Badge variant="warning" size="sm">Unverified</Badge>
+                                    )}
+                                </div>
+                                <p className="text-sm text-secondary-500">
+                                    {method.type === 'paypal' ? 'PayPal' : method.details.accountName}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                {method.status === 'pending_verification' && (
+                                    <Button size="sm" onClick={() => setVerifyTarget(method)}>
+                                        Verify
+                                    </Button>
+                                )}
+                                {method.status === 'verified' && !method.isDefault && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleSetDefault(method)}
+                                        loading={actionId === method.id}
+                                    >
+                                        Make default
+                                    </Button>
+                                )}
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-red-600 hover:bg-red-50"
+                                    onClick={() => setRemoveTarget(method)}
+                                    disabled={actionId === method.id}
+                                >
+                                    Remove
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Add Payout Method Modal */}
+            <Modal isOpen={showAddModal} onClose={closeAddModal} title="Add payout method" size="sm">
+                <div className="space-y-4 mb-6">
+                    <div className="flex space-x-6">
+                        <Radio
+                            label="Bank transfer"
+                            name="payoutMethodType"
+                            checked={methodType === 'bank_transfer'}
+                            onChange={() => setMethodType('bank_transfer')}
+                        />
+                        <Radio
+                            label="PayPal"
+                            name="payoutMethodType"
+                            checked={methodType === 'paypal'}
+                            onChange={() => setMethodType('paypal')}
+                        />
+                    </div>
+
+                    {methodType === 'bank_transfer' ? (
+                        <>
+                            <Input
+                                label="Name on account"
+                                value={form.accountName}
+                                onChange={(e) => updateField('accountName', e.target.value)}
+                                error={formErrors.accountName}
+                            />
+                            <Input
+                                label="Bank name"
+                                value={form.bankName}
+                                onChange={(e) => updateField('bankName', e.target.value)}
+                                error={formErrors.bankName}
+                            />
+                            <Input
+                                label="Account number"
+                                inputMode="numeric"
+                                autoComplete="off"
+                                value={form.accountNumber}
+                                onChange={(e) => updateField('accountNumber', e.target.value)}
+                                error={formErrors.accountNumber}
+                            />
+                            <Input
+                                label="Routing number"
+                                inputMode="numeric"
+                                autoComplete="off"
+                                value={form.routingNumber}
+                                onChange={(e) => updateField('routingNumber', e.target.value)}
+                                error={formErrors.routingNumber}
+                            />
+                        </>
+                    ) : (
+                        <Input
+                            label="PayPal email"
+                            type="email"
+                            value={form.paypalEmail}
+                            onChange={(e) => updateField('paypalEmail', e.target.value)}
+                            error={formErrors.paypalEmail}
+                        />
+                    )}
+                </div>
+
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={closeAddModal} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button fullWidth onClick={handleAdd} loading={saving}>
+                        Add method
+                    </Button>
+                </div>
+            </Modal>
+
+            {/* Verify Payout Method Modal */}
+            <Modal isOpen={!!verifyTarget} onClose={closeVerifyModal} title="Verify payout method" size="sm">
+                <p className="text-secondary-500 mb-4">
+                    We sent two small deposits to {verifyTarget ? maskPayoutMethod(verifyTarget) : 'your account'}.
+                    Enter the amounts once they arrive.
+                </p>
+
+                <div className="grid grid-cols-2 gap-3 mb-6">
+                    {deposits.map((value, index) => (
+                        <Input
+                            key={index}
+                            label={`Deposit ${index + 1}`}
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            max="0.99"
+                            placeholder="0.00"
+                            value={value}
+                            onChange={(e) => setDeposits((prev) =>
+                                prev.map((v, i) => (i === index ? e.target.value : v))
+                            )}
+                        />
+                    ))}
+                </div>
+
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={closeVerifyModal} disabled={verifying}>
+                        Later
+                    </Button>
+                    <Button fullWidth onClick={handleVerify} loading={verifying} disabled={!depositsEntered}>
+                        Verify
+                    </Button>
+                </div>
+            </Modal>
+
+            <ConfirmDialog
+                isOpen={!!removeTarget}
+                onClose={() => setRemoveTarget(null)}
+                onConfirm={handleRemove}
+                title="Remove Payout Method"
+                message={
+                    removeTarget?.isDefault
+                        ? `Remove ${maskPayoutMethod(removeTarget)}? Payouts will go to your next verified method, if you have one.`
+                        : `Remove ${removeTarget ? maskPayoutMethod(removeTarget) : 'this payout method'}?`
+                }
+                confirmText="Remove"
+                loading={!!removeTarget && actionId === removeTarget.id}
+            />
+        </div>
+    );
+}
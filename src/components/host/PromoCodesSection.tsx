@@ -0,0 +1,334 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import type { PromoCode, Property } from '../../types';
+import {
+    createHostPromoCode,
+    getHostPromoCodes,
+    hostPromoCodeSchema,
+    setPromoCodeActive,
+} from '../../services/promoCodeService';
+import { formatMoney, getPricingCurrency } from '../../services/currencyService';
+import { Badge, Button, Checkbox, Input, Radio, Spinner } from '../ui';
+import { Modal } from '../ui/Modal';
+import toast from 'react-hot-toast';
+
+interface PromoCodesSectionProps {
+    hostId: string;
+    properties: Property[];
+}
+
+const EMPTY_FORM = {
+    code: '',
+    description: '',
+    amount: '',
+    maxDiscount: '',
+    validFrom: '',
+    validUntil: '',
+    minNights: '',
+    maxUses: '',
+    maxUsesPerUser: '',
+};
+
+// Promo codes a host offers on their listings, managed from the host dashboard
+export default function PromoCodesSection({ hostId, properties }: PromoCodesSectionProps) {
+    const [codes, setCodes] = useState<PromoCode[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actionId, setActionId] = useState<string | null>(null);
+
+    // Create code modal state
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [discountType, setDiscountType] = useState<PromoCode['discountType']>('percentage');
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [propertyIds, setPropertyIds] = useState<string[]>([]);
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    // Fixed discounts are in the listings' currency
+    const currency = getPricingCurrency(properties[0]?.pricing);
+
+    const loadCodes = useCallback(async () => {
+        try {
+            setCodes(await getHostPromoCodes(hostId));
+        } catch (error) {
+            console.error('Error loading promo codes:', error);
+            toast.error('Failed to load promo codes');
+        } finally {
+            setLoading(false);
+        }
+    }, [hostId]);
+
+    useEffect(() => {
+        loadCodes();
+    }, [loadCodes]);
+
+    const closeCreateModal = () => {
+        setShowCreateModal(false);
+        setDiscountType('percentage');
+        setForm(EMPTY_FORM);
+        setPropertyIds([]);
+        setFormErrors({});
+    };
+
+    const updateField = (field: keyof typeof EMPTY_FORM, value: string) => {
+        setForm((prev) => ({ ...prev, [field]: value }));
+        setFormErrors((prev) => ({ ...prev, [field]: '' }));
+    };
+
+    const toggleProperty = (propertyId: string) => {
+        setPropertyIds((prev) =>
+            prev.includes(propertyId) ? prev.filter((id) => id !== propertyId) : [...prev, propertyId]
+        );
+    };
+
+    const handleCreate = async () => {
+        const input = { ...form, discountType, propertyIds };
+
+        const result = hostPromoCodeSchema.safeParse(input);
+        if (!result.success) {
+            const errors: Record<string, string> = {};
+            result.error.issues.forEach((issue) => {
+                const field = String(issue.path[0]);
+                errors[field] = errors[field] || issue.message;
+            });
+            setFormErrors(errors);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const code = await createHostPromoCode(hostId, input);
+            await loadCodes();
+            closeCreateModal();
+            toast.success(`Promo code ${code} created`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to create promo code';
+            toast.error(errorMessage);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (promo: PromoCode) => {
+        setActionId(promo.id);
+        try {
+            await setPromoCodeActive(promo.id, !promo.isActive);
+            setCodes((prev) => prev.map((c) => (c.id === promo.id ? { ...c, isActive: !promo.isActive } : c)));
+            toast.success(promo.isActive ? 'Promo code paused' : 'Promo code active again');
+        } catch (error) {
+            console.error('Error updating promo code:', error);
+            toast.error('Failed to update promo code');
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const describeDiscount = (promo: PromoCode) => {
+        const discount = promo.discountType === 'percentage'
+            ? `${promo.amount}% off`
+            : `${formatMoney(promo.amount, currency)} off`;
+        return promo.maxDiscount !== undefined
+            ? `${discount} (up to ${formatMoney(promo.maxDiscount, currency)})`
+            : discount;
+    };
+
+    const describeLimits = (promo: PromoCode) => {
+        const limits = [`Used ${promo.usedCount}${promo.maxUses !== undefined ? ` of ${promo.maxUses}` : ''} times`];
+        if (promo.validFrom || promo.validUntil) {
+            const from = promo.validFrom ? format(promo.validFrom.toDate(), 'MMM d, yyyy') : 'now';
+            const until = promo.validUntil ? format(promo.validUntil.toDate(), 'MMM d, yyyy') : 'no end date';
+            limits.push(`${from} – ${until}`);
+        }
+        if (promo.minNights) limits.push(`${promo.minNights}+ nights`);
+        if (promo.maxUsesPerUser) limits.push(`${promo.maxUsesPerUser} per guest`);
+        if (promo.propertyIds?.length) {
+            limits.push(`${promo.propertyIds.length} listing${promo.propertyIds.length === 1 ? '' : 's'}`);
+        }
+        return limits.join(' · ');
+    };
+
+    const isExpired = (promo: PromoCode) => !!promo.validUntil && promo.validUntil.toDate() < new Date();
+
+    return (
+        <div className="bg-white border border-secondary-200 rounded-xl p-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-xl font-semibold">Promo Codes</h2>
+                    <p className="text-sm text-secondary-500">Discounts guests can enter at checkout on your listings</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setShowCreateModal(true)}>
+                    Create
+                </Button>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-6">
+                    <Spinner />
+                </div>
+            ) : codes.length === 0 ? (
+                <p className="text-sm text-secondary-500 py-3">
+                    You haven't created any promo codes yet.
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    {codes.map((promo) => (
+                        <div
+                            key={promo.id}
+                            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-secondary-50 rounded-lg"
+                        >
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <p className="font-mono font-medium">{promo.code}</p>
+                                    {isExpired(promo) ? (
+                                        <Badge size="sm">Expired</Badge>
+                                    ) : promo.isActive ? (
+                                        <Badge variant="success" size="sm">Active</Badge>
+                                    ) : (
+                                        <Badge variant="warning" size="sm">Paused</Badge>
+                                    )}
+                                </div>
+                                <p className="text-sm text-secondary-700">
+                                    {describeDiscount(promo)}
+                                    {promo.description && ` · ${promo.description}`}
+                                </p>
+                                <p className="text-xs text-secondary-500">{describeLimits(promo)}</p>
+                            </div>
+                            {!isExpired(promo) && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleToggleActive(promo)}
+                                    loading={actionId === promo.id}
+                                >
+                                    {promo.isActive ? 'Pause' : 'Resume'}
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Create Promo Code Modal */}
+            <Modal isOpen={showCreateModal} onClose={closeCreateModal} title="Create promo code" size="md">
+                <div className="space-y-4 mb-6">
+                    <Input
+                        label="Code"
+                        placeholder="SUMMER25"
+                        value={form.code}
+                        onChange={(e) => updateField('code', e.target.value.toUpperCase())}
+                        error={formErrors.code}
+                    />
+                    <Input
+                        label="Description (optional)"
+                        value={form.description}
+                        onChange={(e) => updateField('description', e.target.value)}
+                        error={formErrors.description}
+                    />
+
+                    <div className="flex space-x-6">
+                        <Radio
+                            label="Percentage"
+                            name="promoDiscountType"
+                            checked={discountType === 'percentage'}
+                            onChange={() => setDiscountType('percentage')}
+                        />
+                        <Radio
+                            label={`Fixed amount (${currency})`}
+                            name="promoDiscountType"
+                            checked={discountType === 'fixed'}
+                            onChange={() => setDiscountType('fixed')}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <Input
+                            label={discountType === 'percentage' ? 'Percent off' : 'Amount off'}
+                            type="number"
+                            min="0"
+                            value={form.amount}
+                            onChange={(e) => updateField('amount', e.target.value)}
+                            error={formErrors.amount}
+                        />
+                        <Input
+                            label="Maximum discount"
+                            type="number"
+                            min="0"
+                            placeholder="No cap"
+                            value={form.maxDiscount}
+                            onChange={(e) => updateField('maxDiscount', e.target.value)}
+                            error={formErrors.maxDiscount}
+                        />
+                        <Input
+                            label="Valid from"
+                            type="date"
+                            value={form.validFrom}
+                            onChange={(e) => updateField('validFrom', e.target.value)}
+                            error={formErrors.validFrom}
+                        />
+                        <Input
+                            label="Valid until"
+                            type="date"
+                            value={form.validUntil}
+                            onChange={(e) => updateField('validUntil', e.target.value)}
+                            error={formErrors.validUntil}
+                        />
+                        <Input
+                            label="Minimum nights"
+                            type="number"
+                            min="1"
+                            placeholder="Any stay"
+                            value={form.minNights}
+                            onChange={(e) => updateField('minNights', e.target.value)}
+                            error={formErrors.minNights}
+                        />
+                        <Input
+                            label="Total uses"
+                            type="number"
+                            min="1"
+                            placeholder="Unlimited"
+                            value={form.maxUses}
+                            onChange={(e) => updateField('maxUses', e.target.value)}
+                            error={formErrors.maxUses}
+                        />
+                        <Input
+                            label="Uses per guest"
+                            type="number"
+                            min="1"
+                            placeholder="Unlimited"
+                            value={form.maxUsesPerUser}
+                            onChange={(e) => updateField('maxUsesPerUser', e.target.value)}
+                            error={formErrors.maxUsesPerUser}
+                        />
+                    </div>
+
+                    {properties.length > 1 && (
+                        <div>
+                            <p className="text-sm font-medium text-secondary-700 mb-2">
+                                Listings <span className="font-normal text-secondary-500">(leave all unticked for every listing)</span>
+                            </p>
+                            <div className="space-y-2 max-h-40 overflow-y-auto">
+                                {properties.map((property) => (
+                                    <div key={property.id}>
+                                        <Checkbox
+                                            label={property.title}
+                                            checked={propertyIds.includes(property.id)}
+                                            onChange={() => toggleProperty(property.id)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={closeCreateModal} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button fullWidth onClick={handleCreate} loading={saving}>
+                        Create code
+                    </Button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
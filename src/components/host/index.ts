@@ -2,3 +2,7 @@ export { default as ListingWizard } from './ListingWizard';
 export { default as ListingCard } from './ListingCard';
 export { default as AvailabilityCalendar } from './AvailabilityCalendar';
 export { default as EarningsSummary } from './EarningsSummary';
+export { default as PayoutMethodsSection } from './PayoutMethodsSection';
+export { default as PromoCodesSection } from './PromoCodesSection';
+export { default as CalendarSyncSection } from './CalendarSyncSection';
+export { default as CalendarTimeline } from './CalendarTimeline';
@@ -1,7 +1,23 @@
 import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrencyStore } from '../../store';
+import { getCurrencySymbol } from '../../services/currencyService';
+import { CURRENCIES } from '../../config/constants';
+import { Dropdown, DropdownItem } from '../ui';
 
 export default function Footer() {
     const currentYear = new Date().getFullYear();
+    const { currentUser, updateUserProfile } = useAuth();
+    const { displayCurrency, setDisplayCurrency } = useCurrencyStore();
+
+    const handleCurrencyChange = (currency: string) => {
+        setDisplayCurrency(currency);
+        if (currentUser) {
+            updateUserProfile({ preferredCurrency: currency }).catch((error) =>
+                console.error('Error saving preferred currency:', error)
+            );
+        }
+    };
 
     const footerLinks = {
         support: [
@@ -119,9 +135,19 @@ export default function Footer() {
                                 </svg>
                                 <span>English (US)</span>
                             </button>
-                            <button className="text-sm text-secondary-600 hover:text-secondary-900">
-                                ₱ PHP
-                            </button>
+                            <Dropdown
+                                trigger={
+                                    <button className="text-sm text-secondary-600 hover:text-secondary-900">
+                                        {getCurrencySymbol(displayCurrency)} {displayCurrency}
+                                    </button>
+                                }
+                            >
+                                {CURRENCIES.map((currency) => (
+                                    <DropdownItem key={currency.code} onClick={() => handleCurrencyChange(currency.code)}>
+                                        {currency.code} – {currency.name}
+                                    </DropdownItem>
+                                ))}
+                            </Dropdown>
                             <div className="flex items-center space-x-3">
                                 <a
                                     href="https://facebook.com"
@@ -143,6 +143,9 @@ export default function Header() {
                                             <DropdownItem onClick={() => navigate(ROUTES.HOST.RESERVATIONS)}>
                                                 Reservations
                                             </DropdownItem>
+                                            <DropdownItem onClick={() => navigate(ROUTES.HOST.CALENDAR)}>
+                                                Calendar
+                                            </DropdownItem>
                                             <DropdownItem onClick={() => navigate(ROUTES.HOST.EARNINGS)}>
                                                 Earnings
                                             </DropdownItem>
@@ -1,13 +1,27 @@
+import { useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import Header from './Header';
 import Footer from './Footer';
 import { LoginModal, SignupModal } from '../auth';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrencyStore } from '../../store';
 
 interface LayoutProps {
     hideFooter?: boolean;
 }
 
 export default function Layout({ hideFooter = false }: LayoutProps) {
+    const { userProfile } = useAuth();
+    const setDisplayCurrency = useCurrencyStore((state) => state.setDisplayCurrency);
+
+    // Signed-in users browse in the currency saved on their profile
+    const preferredCurrency = userProfile?.preferredCurrency;
+    useEffect(() => {
+        if (preferredCurrency) {
+            setDisplayCurrency(preferredCurrency);
+        }
+    }, [preferredCurrency, setDisplayCurrency]);
+
     return (
         <div className="min-h-screen min-h-[100dvh] flex flex-col w-full max-w-full overflow-x-hidden bg-white">
             <Header />
@@ -81,6 +81,13 @@ export default function NotificationDropdown() {
             case 'review':
                 navigate('/host');
                 break;
+            case 'search':
+                if (notification.data?.propertyId) {
+                    navigate(`/property/${notification.data.propertyId}`);
+                } else if (notification.data?.searchQuery !== undefined) {
+                    navigate(`/search?${notification.data.searchQuery}`);
+                }
+                break;
             default:
                 break;
         }
@@ -125,6 +132,14 @@ export default function NotificationDropdown() {
                         </svg>
                     </div>
                 );
+            case 'search':
+                return (
+                    <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center">
+                        <svg className="w-5 h-5 text-primary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                        </svg>
+                    </div>
+                );
             case 'payout':
                 return (
                     <div className="w-10 h-10 rounded-full bg-purple-100 flex items-center justify-center">
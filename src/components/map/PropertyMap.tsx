@@ -1,10 +1,14 @@
-import { useMemo, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import { Icon, LatLngBounds, DivIcon } from 'leaflet';
+import { useMemo, useEffect, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polygon, Polyline, CircleMarker, useMap, useMapEvents } from 'react-leaflet';
+import { Icon, LatLngBounds, DivIcon, DomEvent } from 'leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
 import { Link } from 'react-router-dom';
-import type { Property } from '../../types';
+import type { MapPoint, Property } from '../../types';
 import { MAP_CONFIG } from '../../config/constants';
+import { getPricingCurrency } from '../../services/currencyService';
+import type { GeoBounds } from '../../services/geohashService';
+import { MAX_POLYGON_POINTS, MIN_POLYGON_POINTS } from '../../services/mapSearchService';
+import { useMoney } from '../../hooks/useCustomHooks';
 import 'leaflet/dist/leaflet.css';
 
 // Fix for default marker icons in Leaflet
@@ -19,19 +23,12 @@ const defaultIcon = new Icon({
 });
 
 // Create price marker icon (Airbnb style)
-function createPriceIcon(price: number, isActive: boolean = false) {
-    const formatPrice = (price: number) => {
-        if (price >= 1000) {
-            return `₱${(price / 1000).toFixed(0)}k`;
-        }
-        return `₱${price}`;
-    };
-
+function createPriceIcon(label: string, isActive: boolean = false) {
     return new DivIcon({
         className: 'custom-price-marker',
         html: `
             <div class="price-marker ${isActive ? 'active' : ''}">
-                ${formatPrice(price)}
+                ${label}
             </div>
         `,
         iconSize: [60, 30],
@@ -41,13 +38,7 @@ function createPriceIcon(price: number, isActive: boolean = false) {
 
 // Simple preview card for map popups
 function MapPropertyPreview({ property }: { property: Property }) {
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
-    };
+    const { formatDisplay } = useMoney();
 
     return (
         <div className="w-64">
@@ -88,7 +79,7 @@ function MapPropertyPreview({ property }: { property: Property }) {
                     {property.bedrooms} bed{property.bedrooms !== 1 ? 's' : ''} · {property.bathrooms} bath{property.bathrooms !== 1 ? 's' : ''}
                 </p>
                 <p className="mt-1 text-sm">
-                    <span className="font-semibold text-gray-900">{formatPrice(property.pricing.basePrice)}</span>
+                    <span className="font-semibold text-gray-900">{formatDisplay(property.pricing.basePrice, getPricingCurrency(property.pricing))}</span>
                     <span className="text-gray-600"> night</span>
                 </p>
 
@@ -113,13 +104,144 @@ interface PropertyMapProps {
     activePropertyId?: string;
     showClusters?: boolean;
     className?: string;
+    // When set, the map fits its markers only when this changes, not as more are added
+    fitBoundsKey?: string;
+    // Off to leave the view to the guest, e.g. while searching as the map moves
+    fitToMarkers?: boolean;
+    // View to open on instead of center and zoom
+    initialBounds?: GeoBounds;
+    // Called with the view after the map is moved
+    onBoundsChange?: (bounds: GeoBounds) => void;
+    // Drawn search area; the draw tool shows when onPolygonChange is set
+    polygon?: MapPoint[];
+    onPolygonChange?: (polygon: MapPoint[] | null) => void;
+}
+
+// Reports the view whenever the map stops moving
+function MapMoveEvents({ onBoundsChange }: { onBoundsChange: (bounds: GeoBounds) => void }) {
+    const map = useMapEvents({
+        moveend: () => {
+            const bounds = map.getBounds();
+            onBoundsChange({
+                north: bounds.getNorth(),
+                south: bounds.getSouth(),
+                east: bounds.getEast(),
+                west: bounds.getWest(),
+            });
+        },
+    });
+
+    return null;
+}
+
+// Draw a search area by clicking its corners, and show the one drawn
+function DrawAreaControl({
+    polygon,
+    onChange,
+}: {
+    polygon?: MapPoint[];
+    onChange: (polygon: MapPoint[] | null) => void;
+}) {
+    const map = useMap();
+    const controlsRef = useRef<HTMLDivElement>(null);
+    const [drawing, setDrawing] = useState(false);
+    const [points, setPoints] = useState<MapPoint[]>([]);
+
+    useMapEvents({
+        click: (e) => {
+            if (!drawing || points.length >= MAX_POLYGON_POINTS) return;
+            setPoints((prev) => [...prev, { lat: e.latlng.lat, lng: e.latlng.lng }]);
+        },
+    });
+
+    // Clicks on the buttons shouldn't reach the map as corners
+    useEffect(() => {
+        if (controlsRef.current) {
+            DomEvent.disableClickPropagation(controlsRef.current);
+        }
+    }, []);
+
+    // While drawing, clicks place corners instead of panning or zooming
+    useEffect(() => {
+        if (!drawing) return;
+        map.dragging.disable();
+        map.doubleClickZoom.disable();
+        map.getContainer().classList.add('leaflet-crosshair');
+        return () => {
+            map.dragging.enable();
+            map.doubleClickZoom.enable();
+            map.getContainer().classList.remove('leaflet-crosshair');
+        };
+    }, [drawing, map]);
+
+    const handleStart = () => {
+        setPoints([]);
+        setDrawing(true);
+    };
+
+    const handleFinish = () => {
+        onChange(points);
+        setPoints([]);
+        setDrawing(false);
+    };
+
+    const handleCancel = () => {
+        setPoints([]);
+        setDrawing(false);
+    };
+
+    const buttonClass = 'px-3 py-2 bg-white rounded-lg shadow-md text-sm font-medium hover:bg-secondary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+    return (
+        <>
+            {drawing ? (
+                <>
+                    <Polyline positions={points.map((p) => [p.lat, p.lng])} pathOptions={{ color: '#222222', dashArray: '6 6' }} />
+                    {points.map((p, i) => (
+                        <CircleMarker key={i} center={[p.lat, p.lng]} radius={5} pathOptions={{ color: '#222222', fillOpacity: 1 }} />
+                    ))}
+                </>
+            ) : polygon && polygon.length >= MIN_POLYGON_POINTS && (
+                <Polygon positions={polygon.map((p) => [p.lat, p.lng])} pathOptions={{ color: '#222222', fillOpacity: 0.08 }} />
+            )}
+
+            <div ref={controlsRef} className="absolute left-4 bottom-20 lg:bottom-6 z-[1000] flex gap-2">
+                {drawing ? (
+                    <>
+                        <button onClick={handleFinish} disabled={points.length < MIN_POLYGON_POINTS} className={buttonClass}>
+                            {points.length < MIN_POLYGON_POINTS
+                                ? `Click ${MIN_POLYGON_POINTS - points.length} more point${MIN_POLYGON_POINTS - points.length !== 1 ? 's' : ''}`
+                                : 'Search this area'}
+                        </button>
+                        <button onClick={handleCancel} className={buttonClass}>
+                            Cancel
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button onClick={handleStart} className={buttonClass}>
+                            {polygon ? 'Redraw area' : 'Draw an area'}
+                        </button>
+                        {polygon && (
+                            <button onClick={() => onChange(null)} className={buttonClass}>
+                                Remove area
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+        </>
+    );
 }
 
 // Component to fit bounds to markers
-function FitBounds({ properties }: { properties: Property[] }) {
+function FitBounds({ properties, fitKey }: { properties: Property[]; fitKey?: string }) {
     const map = useMap();
+    const fittedKey = useRef<string | null>(null);
 
     useEffect(() => {
+        if (fitKey !== undefined && fittedKey.current === fitKey) return;
+
         // Filter properties with valid coordinates
         const validProperties = properties.filter(hasValidCoordinates);
 
@@ -128,8 +250,9 @@ function FitBounds({ properties }: { properties: Property[] }) {
                 validProperties.map((p) => getCoordinates(p))
             );
             map.fitBounds(bounds, { padding: [50, 50], maxZoom: 15 });
+            fittedKey.current = fitKey ?? null;
         }
-    }, [properties, map]);
+    }, [properties, fitKey, map]);
 
     return null;
 }
@@ -164,6 +287,12 @@ export default function PropertyMap({
     activePropertyId,
     showClusters = true,
     className = 'h-full w-full min-h-[400px]',
+    fitBoundsKey,
+    fitToMarkers = true,
+    initialBounds,
+    onBoundsChange,
+    polygon,
+    onPolygonChange,
 }: PropertyMapProps) {
     // Filter properties with valid coordinates
     const validProperties = useMemo(() => {
@@ -175,6 +304,8 @@ export default function PropertyMap({
         return valid;
     }, [properties]);
 
+    const { formatDisplay } = useMoney();
+
     const markers = useMemo(() => {
         return validProperties.map((property) => {
             const position = getCoordinates(property);
@@ -184,7 +315,10 @@ export default function PropertyMap({
                 <Marker
                     key={property.id}
                     position={position}
-                    icon={createPriceIcon(property.pricing.basePrice, isActive)}
+                    icon={createPriceIcon(
+                        formatDisplay(property.pricing.basePrice, getPricingCurrency(property.pricing), { compact: true }),
+                        isActive
+                    )}
                     eventHandlers={{
                         click: () => onPropertyClick?.(property),
                     }}
@@ -195,12 +329,15 @@ export default function PropertyMap({
                 </Marker>
             );
         });
-    }, [validProperties, activePropertyId, onPropertyClick]);
+    }, [validProperties, activePropertyId, onPropertyClick, formatDisplay]);
 
     return (
         <MapContainer
             center={center}
             zoom={zoom}
+            bounds={initialBounds
+                ? new LatLngBounds([initialBounds.south, initialBounds.west], [initialBounds.north, initialBounds.east])
+                : undefined}
             className={className}
             scrollWheelZoom={true}
             zoomControl={false}
@@ -210,7 +347,11 @@ export default function PropertyMap({
                 url={MAP_CONFIG.TILE_URL}
             />
 
-            {validProperties.length > 0 && <FitBounds properties={validProperties} />}
+            {fitToMarkers && validProperties.length > 0 && (
+                <FitBounds properties={validProperties} fitKey={fitBoundsKey} />
+            )}
+            {onBoundsChange && <MapMoveEvents onBoundsChange={onBoundsChange} />}
+            {onPolygonChange && <DrawAreaControl polygon={polygon} onChange={onPolygonChange} />}
 
             {showClusters ? (
                 <MarkerClusterGroup
@@ -1,14 +1,30 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import DatePicker from 'react-datepicker';
 import { differenceInDays, format } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
 import type { Property, Booking } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
 import { useUIStore, useBookingStore } from '../../store';
-import { calculateBookingPrice, getUserActiveBookingForProperty } from '../../services/bookingService';
+import {
+    calculateBookingPrice,
+    getPropertyBookings,
+    getUserActiveBookingForProperty,
+} from '../../services/bookingService';
 import { checkPropertyAvailability } from '../../services/propertyService';
+import { getAllBlockedDates } from '../../services/calendarSyncService';
+import {
+    getBookedNights,
+    getEarliestCheckIn,
+    getMinimumStay,
+    getStayRuleViolation,
+    isCheckInAvailable,
+    isCheckOutAvailable,
+} from '../../services/availabilityRulesService';
+import { getPricingCurrency } from '../../services/currencyService';
+import { useMoney } from '../../hooks/useCustomHooks';
 import { Button } from '../ui';
+import { PriceBreakdown } from '../booking';
 import toast from 'react-hot-toast';
 
 interface BookingWidgetProps {
@@ -17,6 +33,7 @@ interface BookingWidgetProps {
 
 export default function BookingWidget({ property }: BookingWidgetProps) {
     const navigate = useNavigate();
+    const location = useLocation();
     const { currentUser } = useAuth();
     const { openLoginModal } = useUIStore();
     const { setCurrentBooking } = useBookingStore();
@@ -32,6 +49,7 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
     const [loading, setLoading] = useState(false);
     const [existingBooking, setExistingBooking] = useState<Booking | null>(null);
     const [checkingBooking, setCheckingBooking] = useState(false);
+    const [bookedNights, setBookedNights] = useState<string[]>([]);
 
     // Check if user already has an active booking for this property
     useEffect(() => {
@@ -55,6 +73,22 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
         checkExistingBooking();
     }, [currentUser, property.id]);
 
+    // Nights other guests hold, so the datepicker can keep preparation time around them
+    useEffect(() => {
+        const fetchBookedNights = async () => {
+            try {
+                setBookedNights(getBookedNights(await getPropertyBookings(property.id)));
+            } catch (error) {
+                console.error('Error fetching booked nights:', error);
+            }
+        };
+
+        fetchBookedNights();
+    }, [property.id]);
+
+    // Set by BookingConfirmation when the dates were taken while the guest was checking out
+    const bookingConflict = (location.state as { bookingConflict?: string[] } | null)?.bookingConflict;
+
     const totalGuests = guests.adults + guests.children;
     const nights = checkIn && checkOut ? differenceInDays(checkOut, checkIn) : 0;
 
@@ -88,13 +122,9 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
             return;
         }
 
-        if (nights < property.minimumStay) {
-            toast.error(`Minimum stay is ${property.minimumStay} nights`);
-            return;
-        }
-
-        if (property.maximumStay && nights > property.maximumStay) {
-            toast.error(`Maximum stay is ${property.maximumStay} nights`);
+        const ruleViolation = getStayRuleViolation(property, checkIn, checkOut);
+        if (ruleViolation) {
+            toast.error(ruleViolation.message);
             return;
         }
 
@@ -129,16 +159,18 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
         }
     };
 
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
-    };
+    const { formatDisplay } = useMoney();
+    const formatPrice = (price: number) => formatDisplay(price, getPricingCurrency(property.pricing));
+
+    // The date pickers only offer days the listing's availability rules allow
+    const takenNights = { blocked: getAllBlockedDates(property), booked: bookedNights };
 
-    // Generate blocked dates for the date picker
-    const blockedDates = (property.blockedDates || []).map((date) => new Date(date));
+    const handleCheckInChange = (date: Date | null) => {
+        setCheckIn(date);
+        if (date && checkOut && !isCheckOutAvailable(property, date, checkOut, takenNights)) {
+            setCheckOut(null);
+        }
+    };
 
     return (
         <div className="sticky top-24 border border-secondary-200 rounded-xl shadow-card p-6">
@@ -150,6 +182,12 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
                 <span className="text-secondary-600"> night</span>
             </div>
 
+            {bookingConflict && bookingConflict.length > 0 && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    Those dates were just taken by another guest. Please choose different dates.
+                </div>
+            )}
+
             {/* Date Selection */}
             <div className="border border-secondary-300 rounded-xl mb-4">
                 <div className="grid grid-cols-2">
@@ -159,12 +197,12 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
                         </label>
                         <DatePicker
                             selected={checkIn}
-                            onChange={(date) => setCheckIn(date)}
+                            onChange={handleCheckInChange}
                             selectsStart
                             startDate={checkIn}
                             endDate={checkOut}
-                            minDate={new Date()}
-                            excludeDates={blockedDates}
+                            minDate={getEarliestCheckIn(property)}
+                            filterDate={(date) => isCheckInAvailable(property, date, takenNights)}
                             placeholderText="Add date"
                             className="w-full text-sm mt-1 outline-none"
                         />
@@ -179,8 +217,8 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
                             selectsEnd
                             startDate={checkIn}
                             endDate={checkOut}
-                            minDate={checkIn || new Date()}
-                            excludeDates={blockedDates}
+                            minDate={checkIn || getEarliestCheckIn(property)}
+                            filterDate={(date) => !checkIn || isCheckOutAvailable(property, checkIn, date, takenNights)}
                             placeholderText="Add date"
                             className="w-full text-sm mt-1 outline-none"
                         />
@@ -297,6 +335,12 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
                 </div>
             )}
 
+            {checkIn && !checkOut && (
+                <p className="text-sm text-secondary-500 mb-4">
+                    {getMinimumStay(property, checkIn)}-night minimum for stays from {format(checkIn, 'MMM d')}
+                </p>
+            )}
+
             {/* Reserve Button */}
             {existingBooking ? (
                 <div>
@@ -340,30 +384,7 @@ export default function BookingWidget({ property }: BookingWidgetProps) {
 
             {/* Price Breakdown */}
             {pricing && nights > 0 && (
-                <div className="mt-6 space-y-3">
-                    <div className="flex justify-between">
-                        <span className="underline">
-                            {formatPrice(pricing.nightlyRate)} x {nights} night{nights !== 1 ? 's' : ''}
-                        </span>
-                        <span>{formatPrice(pricing.subtotal)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span className="underline">Cleaning fee</span>
-                        <span>{formatPrice(pricing.cleaningFee)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span className="underline">Service fee</span>
-                        <span>{formatPrice(pricing.serviceFee)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span className="underline">Taxes</span>
-                        <span>{formatPrice(pricing.taxes)}</span>
-                    </div>
-                    <div className="flex justify-between pt-3 border-t border-secondary-200 font-semibold">
-                        <span>Total</span>
-                        <span>{formatPrice(pricing.total)}</span>
-                    </div>
-                </div>
+                <PriceBreakdown pricing={pricing} className="mt-6" />
             )}
         </div>
     );
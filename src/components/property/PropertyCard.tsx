@@ -1,16 +1,26 @@
 import { useState, useEffect } from 'react';
 import type { MouseEvent } from 'react';
 import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
 import type { Property } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
 import { togglePropertyInWishlist, isPropertyInAnyWishlist } from '../../services/wishlistService';
+import { getPricingCurrency } from '../../services/currencyService';
+import { calculateBookingPrice } from '../../services/bookingService';
+import { useMoney } from '../../hooks/useCustomHooks';
 import toast from 'react-hot-toast';
 
 interface PropertyCardProps {
     property: Property;
+    // Stay matched to the searched dates; the card then shows its dates and total price
+    stay?: {
+        checkIn: Date;
+        checkOut: Date;
+        guests?: { adults: number; children: number; infants: number };
+    };
 }
 
-export default function PropertyCard({ property }: PropertyCardProps) {
+export default function PropertyCard({ property, stay }: PropertyCardProps) {
     const { currentUser } = useAuth();
     const [currentImageIndex, setCurrentImageIndex] = useState(0);
     const [isWishlisted, setIsWishlisted] = useState(false);
@@ -76,13 +86,17 @@ export default function PropertyCard({ property }: PropertyCardProps) {
         }
     };
 
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
-    };
+    const { formatDisplay } = useMoney();
+    const formatPrice = (price: number) => formatDisplay(price, getPricingCurrency(property.pricing));
+
+    const stayPricing = stay
+        ? calculateBookingPrice(
+            property,
+            stay.checkIn,
+            stay.checkOut,
+            stay.guests ?? { adults: 1, children: 0, infants: 0 }
+        )
+        : null;
 
     return (
         <Link to={`/property/${property.id}`} className="group">
@@ -204,10 +218,24 @@ export default function PropertyCard({ property }: PropertyCardProps) {
                 <p className="text-secondary-500 text-sm">
                     {property.bedrooms} bedroom{property.bedrooms !== 1 ? 's' : ''} · {property.beds} bed{property.beds !== 1 ? 's' : ''}
                 </p>
-                <p className="mt-1">
-                    <span className="font-semibold">{formatPrice(property.pricing.basePrice)}</span>
-                    <span className="text-secondary-600"> night</span>
-                </p>
+                {stay && (
+                    <p className="text-secondary-500 text-sm">
+                        {format(stay.checkIn, 'MMM d')} – {format(stay.checkOut, 'MMM d')}
+                    </p>
+                )}
+                {stayPricing ? (
+                    <p className="mt-1">
+                        <span className="font-semibold">{formatPrice(stayPricing.total)}</span>
+                        <span className="text-secondary-600">
+                            {' '}total for {stayPricing.nights} night{stayPricing.nights !== 1 ? 's' : ''}
+                        </span>
+                    </p>
+                ) : (
+                    <p className="mt-1">
+                        <span className="font-semibold">{formatPrice(property.pricing.basePrice)}</span>
+                        <span className="text-secondary-600"> night</span>
+                    </p>
+                )}
             </div>
         </Link>
     );
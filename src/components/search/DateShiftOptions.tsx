@@ -0,0 +1,46 @@
+import type { MouseEvent } from 'react';
+
+// "Give or take" choices offered under the exact-dates calendar
+const DATE_SHIFTS = [0, 1, 2, 3, 7];
+
+interface DateShiftOptionsProps {
+    value: number;
+    onChange: (days: number) => void;
+    onFlexible: () => void;
+}
+
+// Footer for the search bar's date pickers: how far the dates may move, or switch to flexible dates
+export default function DateShiftOptions({ value, onChange, onFlexible }: DateShiftOptionsProps) {
+    const handle = (action: () => void) => (e: MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        action();
+    };
+
+    return (
+        <div className="clear-both border-t border-secondary-100 px-3 py-2 bg-white">
+            <div className="flex flex-wrap gap-1.5">
+                {DATE_SHIFTS.map((days) => (
+                    <button
+                        key={days}
+                        type="button"
+                        onClick={handle(() => onChange(days))}
+                        className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${value === days
+                            ? 'border-secondary-900 bg-secondary-900 text-white'
+                            : 'border-secondary-300 hover:border-secondary-500'
+                            }`}
+                    >
+                        {days === 0 ? 'Exact dates' : `± ${days} day${days !== 1 ? 's' : ''}`}
+                    </button>
+                ))}
+            </div>
+            <button
+                type="button"
+                onClick={handle(onFlexible)}
+                className="mt-2 text-xs font-medium underline hover:text-secondary-600"
+            >
+                I'm flexible
+            </button>
+        </div>
+    );
+}
@@ -1,19 +1,23 @@
 import { useState } from 'react';
-import { usePropertyStore } from '../../store';
-import type { PropertyType } from '../../types';
-import { PROPERTY_TYPE_LABELS, AMENITY_CATEGORIES } from '../../config/constants';
+import type { Property, PropertyType, SearchFilters } from '../../types';
+import { APP_CONFIG, PROPERTY_TYPE_LABELS, AMENITY_CATEGORIES } from '../../config/constants';
+import { getCurrencySymbol } from '../../services/currencyService';
+import { getSearchFacets, matchesRefinements, ROOM_COUNT_OPTIONS } from '../../services/searchFacetsService';
 import { Button, Checkbox } from '../ui';
+import PriceHistogram from './PriceHistogram';
 
 interface FilterSidebarProps {
+    filters: SearchFilters;
+    // The search's matches before refinements; counts are hidden until they load
+    candidates: Property[] | null;
+    onApply: (refinements: Partial<SearchFilters>) => void;
     onClose?: () => void;
 }
 
-export default function FilterSidebar({ onClose }: FilterSidebarProps) {
-    const { filters, setFilters, clearFilters } = usePropertyStore();
-
+export default function FilterSidebar({ filters, candidates, onApply, onClose }: FilterSidebarProps) {
     const [priceRange, setPriceRange] = useState({
         min: filters.priceRange?.min || 0,
-        max: filters.priceRange?.max || 50000,
+        max: filters.priceRange?.max || APP_CONFIG.SEARCH_MAX_PRICE,
     });
     const [selectedTypes, setSelectedTypes] = useState<PropertyType[]>(
         filters.propertyType || []
@@ -43,26 +47,36 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
         );
     };
 
+    const refinements: Partial<SearchFilters> = {
+        priceRange,
+        propertyType: selectedTypes.length > 0 ? selectedTypes : undefined,
+        bedrooms: bedrooms > 0 ? bedrooms : undefined,
+        bathrooms: bathrooms > 0 ? bathrooms : undefined,
+        amenities: selectedAmenities.length > 0 ? selectedAmenities : undefined,
+        instantBook: instantBook || undefined,
+    };
+
+    // Counts for the choices made so far, before they're applied
+    const draftFilters = { ...filters, ...refinements };
+    const facets = candidates ? getSearchFacets(candidates, draftFilters) : null;
+    const matchCount = candidates?.filter((p) => matchesRefinements(p, draftFilters)).length;
+
+    // Options that would leave nothing are disabled, unless already picked
+    const isEmpty = (count: number | undefined, selected: boolean) => !selected && count === 0;
+
     const handleApply = () => {
-        setFilters({
-            priceRange,
-            propertyType: selectedTypes.length > 0 ? selectedTypes : undefined,
-            bedrooms: bedrooms > 0 ? bedrooms : undefined,
-            bathrooms: bathrooms > 0 ? bathrooms : undefined,
-            amenities: selectedAmenities.length > 0 ? selectedAmenities : undefined,
-            instantBook: instantBook || undefined,
-        });
+        onApply(refinements);
         onClose?.();
     };
 
     const handleClear = () => {
-        setPriceRange({ min: 0, max: 50000 });
+        setPriceRange({ min: 0, max: APP_CONFIG.SEARCH_MAX_PRICE });
         setSelectedTypes([]);
         setBedrooms(0);
         setBathrooms(0);
         setSelectedAmenities([]);
         setInstantBook(false);
-        clearFilters();
+        onApply({ priceRange: { min: 0, max: APP_CONFIG.SEARCH_MAX_PRICE } });
     };
 
     return (
@@ -73,12 +87,20 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                     <h3 className="text-base sm:text-lg font-semibold text-secondary-900 mb-3 sm:mb-4">
                         Price range
                     </h3>
+                    {facets && facets.priceHistogram.length > 0 && (
+                        <PriceHistogram
+                            buckets={facets.priceHistogram}
+                            min={priceRange.min}
+                            max={priceRange.max}
+                            className="mb-3"
+                        />
+                    )}
                     <div className="flex items-center space-x-3 sm:space-x-4">
                         <div className="flex-1">
                             <label className="text-xs sm:text-sm text-secondary-600">Minimum</label>
                             <div className="relative mt-1">
                                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-secondary-500 text-sm">
-                                    ₱
+                                    {getCurrencySymbol()}
                                 </span>
                                 <input
                                     type="number"
@@ -95,7 +117,7 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                             <label className="text-xs sm:text-sm text-secondary-600">Maximum</label>
                             <div className="relative mt-1">
                                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-secondary-500 text-sm">
-                                    ₱
+                                    {getCurrencySymbol()}
                                 </span>
                                 <input
                                     type="number"
@@ -120,8 +142,10 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                             <button
                                 key={type}
                                 onClick={() => togglePropertyType(type)}
+                                disabled={isEmpty(facets?.propertyTypes[type], selectedTypes.includes(type))}
                                 className={`
                   w-full flex items-center justify-between p-4 rounded-xl border-2 transition-colors
+                  disabled:opacity-40 disabled:cursor-not-allowed
                   ${selectedTypes.includes(type)
                                         ? 'border-secondary-800 bg-secondary-50'
                                         : 'border-secondary-200 hover:border-secondary-300'
@@ -131,6 +155,11 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                                 <div className="text-left">
                                     <p className="font-medium text-secondary-900">
                                         {PROPERTY_TYPE_LABELS[type]}
+                                        {facets && (
+                                            <span className="ml-1 font-normal text-secondary-500">
+                                                ({facets.propertyTypes[type]})
+                                            </span>
+                                        )}
                                     </p>
                                     <p className="text-sm text-secondary-500">
                                         {type === 'entire_place' && 'A place all to yourself'}
@@ -168,12 +197,15 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                     <div className="mb-4">
                         <p className="text-sm text-secondary-700 mb-2">Bedrooms</p>
                         <div className="flex flex-wrap gap-2">
-                            {[0, 1, 2, 3, 4, 5, 6, 7, 8].map((num) => (
+                            {[0, ...ROOM_COUNT_OPTIONS].map((num) => (
                                 <button
                                     key={num}
                                     onClick={() => setBedrooms(num)}
+                                    disabled={num > 0 && isEmpty(facets?.bedrooms[num], bedrooms === num)}
+                                    title={facets && num > 0 ? `${facets.bedrooms[num]} places` : undefined}
                                     className={`
                     px-4 py-2 rounded-full text-sm font-medium transition-colors
+                    disabled:opacity-40 disabled:cursor-not-allowed
                     ${bedrooms === num
                                             ? 'bg-secondary-800 text-white'
                                             : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
@@ -190,12 +222,15 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                     <div>
                         <p className="text-sm text-secondary-700 mb-2">Bathrooms</p>
                         <div className="flex flex-wrap gap-2">
-                            {[0, 1, 2, 3, 4, 5, 6, 7, 8].map((num) => (
+                            {[0, ...ROOM_COUNT_OPTIONS].map((num) => (
                                 <button
                                     key={num}
                                     onClick={() => setBathrooms(num)}
+                                    disabled={num > 0 && isEmpty(facets?.bathrooms[num], bathrooms === num)}
+                                    title={facets && num > 0 ? `${facets.bathrooms[num]} places` : undefined}
                                     className={`
                     px-4 py-2 rounded-full text-sm font-medium transition-colors
+                    disabled:opacity-40 disabled:cursor-not-allowed
                     ${bathrooms === num
                                             ? 'bg-secondary-800 text-white'
                                             : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
@@ -224,9 +259,11 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                                 {category.amenities.map((amenity) => (
                                     <Checkbox
                                         key={amenity.id}
-                                        label={amenity.label}
+                                        label={facets ? `${amenity.label} (${facets.amenities[amenity.id]})` : amenity.label}
                                         checked={selectedAmenities.includes(amenity.id)}
                                         onChange={() => toggleAmenity(amenity.id)}
+                                        disabled={isEmpty(facets?.amenities[amenity.id], selectedAmenities.includes(amenity.id))}
+                                        className="disabled:opacity-40 disabled:cursor-not-allowed"
                                     />
                                 ))}
                             </div>
@@ -240,9 +277,11 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                         Booking options
                     </h3>
                     <Checkbox
-                        label="Instant Book"
+                        label={facets ? `Instant Book (${facets.instantBook})` : 'Instant Book'}
                         checked={instantBook}
                         onChange={() => setInstantBook(!instantBook)}
+                        disabled={isEmpty(facets?.instantBook, instantBook)}
+                        className="disabled:opacity-40 disabled:cursor-not-allowed"
                     />
                     <p className="text-sm text-secondary-500 mt-1 ml-7">
                         Listings you can book without waiting for Host approval
@@ -258,7 +297,9 @@ export default function FilterSidebar({ onClose }: FilterSidebarProps) {
                 >
                     Clear all
                 </button>
-                <Button onClick={handleApply}>Show places</Button>
+                <Button onClick={handleApply}>
+                    {matchCount === undefined ? 'Show places' : `Show ${matchCount} place${matchCount !== 1 ? 's' : ''}`}
+                </Button>
             </div>
         </div>
     );
@@ -0,0 +1,123 @@
+import { addMonths, format, startOfMonth } from 'date-fns';
+import type { FlexibleDates, FlexibleTripLength } from '../../types';
+import { MAX_FLEXIBLE_MONTHS, MAX_TRIP_NIGHTS, getTripNights } from '../../services/flexibleDatesService';
+
+const TRIP_LENGTHS: { value: FlexibleTripLength; label: string }[] = [
+    { value: 'weekend', label: 'Weekend' },
+    { value: 'week', label: 'Week' },
+    { value: 'nights', label: 'Nights' },
+];
+
+interface FlexibleDatesPanelProps {
+    value: FlexibleDates;
+    onChange: (value: FlexibleDates) => void;
+    onExactDates: () => void;
+    className?: string;
+}
+
+// Dropdown for "a weekend in December" searches: a trip length and the months it can fall in
+export default function FlexibleDatesPanel({ value, onChange, onExactDates, className = '' }: FlexibleDatesPanelProps) {
+    // Months guests can pick from, starting with this one
+    const months = Array.from({ length: MAX_FLEXIBLE_MONTHS }, (_, i) => addMonths(startOfMonth(new Date()), i));
+    const nights = getTripNights(value);
+
+    const toggleMonth = (month: string) => {
+        const selected = value.months.includes(month)
+            ? value.months.filter((m) => m !== month)
+            : [...value.months, month].sort();
+        // At least one month stays picked
+        if (selected.length > 0) {
+            onChange({ ...value, months: selected });
+        }
+    };
+
+    return (
+        <div
+            className={`absolute top-full mt-2 w-80 bg-white rounded-xl shadow-dropdown z-50 p-4 cursor-default ${className}`}
+            // Clicks inside the panel shouldn't toggle the section it opens from
+            onClick={(e) => e.stopPropagation()}
+        >
+            <p className="font-medium text-secondary-800 mb-2">How long would you like to stay?</p>
+            <div className="flex gap-2">
+                {TRIP_LENGTHS.map((trip) => (
+                    <button
+                        key={trip.value}
+                        type="button"
+                        onClick={() => onChange({
+                            ...value,
+                            tripLength: trip.value,
+                            ...(trip.value === 'nights' ? { nights } : {}),
+                        })}
+                        className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${value.tripLength === trip.value
+                            ? 'border-secondary-900 bg-secondary-900 text-white'
+                            : 'border-secondary-300 hover:border-secondary-500'
+                            }`}
+                    >
+                        {trip.label}
+                    </button>
+                ))}
+            </div>
+
+            {value.tripLength === 'nights' && (
+                <div className="flex items-center justify-between mt-3">
+                    <span className="text-sm text-secondary-600">Number of nights</span>
+                    <div className="flex items-center space-x-3">
+                        <button
+                            type="button"
+                            onClick={() => onChange({ ...value, nights: nights - 1 })}
+                            disabled={nights <= 1}
+                            className="w-8 h-8 rounded-full border border-secondary-300 flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed hover:border-secondary-500 transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                            </svg>
+                        </button>
+                        <span className="w-8 text-center font-medium">{nights}</span>
+                        <button
+                            type="button"
+                            onClick={() => onChange({ ...value, nights: nights + 1 })}
+                            disabled={nights >= MAX_TRIP_NIGHTS}
+                            className="w-8 h-8 rounded-full border border-secondary-300 flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed hover:border-secondary-500 transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <p className="font-medium text-secondary-800 mt-4 mb-2">When do you want to go?</p>
+            <div className="grid grid-cols-4 gap-2">
+                {months.map((month) => {
+                    const key = format(month, 'yyyy-MM');
+                    const isSelected = value.months.includes(key);
+                    return (
+                        <button
+                            key={key}
+                            type="button"
+                            onClick={() => toggleMonth(key)}
+                            className={`py-2 rounded-lg border text-center transition-colors ${isSelected
+                                ? 'border-secondary-900 bg-secondary-50'
+                                : 'border-secondary-200 hover:border-secondary-400'
+                                }`}
+                        >
+                            <span className="block text-sm font-medium">{format(month, 'MMM')}</span>
+                            <span className="block text-xs text-secondary-500">{format(month, 'yyyy')}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="border-t border-secondary-100 mt-4 pt-3">
+                <button
+                    type="button"
+                    onClick={onExactDates}
+                    className="text-sm font-medium underline hover:text-secondary-600"
+                >
+                    Choose exact dates
+                </button>
+            </div>
+        </div>
+    );
+}
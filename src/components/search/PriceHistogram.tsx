@@ -0,0 +1,30 @@
+import type { PriceHistogramBucket } from '../../types';
+
+interface PriceHistogramProps {
+    buckets: PriceHistogramBucket[];
+    // The price range picked; bars outside it are dimmed
+    min: number;
+    max: number;
+    className?: string;
+}
+
+// Bar chart of how many listings fall at each price
+export default function PriceHistogram({ buckets, min, max, className = '' }: PriceHistogramProps) {
+    const tallest = Math.max(...buckets.map((bucket) => bucket.count), 1);
+
+    return (
+        <div className={`flex items-end gap-px h-16 ${className}`} aria-hidden="true">
+            {buckets.map((bucket, i) => {
+                const inRange = bucket.max >= min && bucket.min <= max;
+                return (
+                    <div
+                        key={i}
+                        title={`${bucket.count} place${bucket.count !== 1 ? 's' : ''}`}
+                        className={`flex-1 rounded-t-sm ${inRange ? 'bg-secondary-700' : 'bg-secondary-200'}`}
+                        style={{ height: bucket.count > 0 ? `${Math.max((bucket.count / tallest) * 100, 4)}%` : 0 }}
+                    />
+                );
+            })}
+        </div>
+    );
+}
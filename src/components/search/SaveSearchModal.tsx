@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import type { SavedSearchAlertFrequency, SearchFilters } from '../../types';
+import { saveSearch } from '../../services/savedSearchService';
+import type { GeoBounds } from '../../services/geohashService';
+import { getCurrencySymbol } from '../../services/currencyService';
+import { SAVED_SEARCH_ALERT_FREQUENCIES } from '../../config/constants';
+import { useCurrencyStore } from '../../store';
+import { Button, Input, Modal, Select } from '../ui';
+import toast from 'react-hot-toast';
+
+interface SaveSearchModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    userId: string;
+    filters: SearchFilters;
+    bounds?: GeoBounds;
+}
+
+// Save the current search under a name, with alerts for new listings and price drops
+export default function SaveSearchModal({ isOpen, onClose, userId, filters, bounds }: SaveSearchModalProps) {
+    const { displayCurrency } = useCurrencyStore();
+    const [name, setName] = useState(filters.location || '');
+    const [alertFrequency, setAlertFrequency] = useState<SavedSearchAlertFrequency>('daily');
+    const [priceThreshold, setPriceThreshold] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await saveSearch(userId, name, filters, {
+                bounds,
+                alertFrequency,
+                priceThreshold: priceThreshold ? Number(priceThreshold) : undefined,
+                currency: displayCurrency,
+            });
+            toast.success('Search saved');
+            onClose();
+        } catch (error) {
+            console.error('Error saving search:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to save search');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Save this search" size="sm">
+            <div className="space-y-4 mb-6">
+                <Input
+                    label="Name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Beach weekend in Cebu"
+                />
+                <Select
+                    label="Alerts"
+                    value={alertFrequency}
+                    onChange={(e) => setAlertFrequency(e.target.value as SavedSearchAlertFrequency)}
+                    options={SAVED_SEARCH_ALERT_FREQUENCIES.map((f) => ({ value: f.id, label: f.name }))}
+                />
+                <Input
+                    label={`Price alert (${getCurrencySymbol(displayCurrency)} per night, optional)`}
+                    type="number"
+                    min={1}
+                    value={priceThreshold}
+                    onChange={(e) => setPriceThreshold(e.target.value)}
+                    placeholder="Tell me when a listing drops below this"
+                />
+                <p className="text-sm text-secondary-500">
+                    We'll let you know when a new listing matches this search
+                    {priceThreshold ? ', or when a matching listing drops below your price' : ''}.
+                </p>
+            </div>
+            <div className="flex space-x-3">
+                <Button variant="outline" fullWidth onClick={onClose} disabled={saving}>
+                    Cancel
+                </Button>
+                <Button fullWidth onClick={handleSave} loading={saving} disabled={!name.trim()}>
+                    Save
+                </Button>
+            </div>
+        </Modal>
+    );
+}
@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import type { SavedSearch, SavedSearchAlertFrequency } from '../../types';
+import {
+    deleteSavedSearch,
+    getSavedSearchFilters,
+    getSearchQuery,
+    getUserSavedSearches,
+    updateSavedSearch,
+} from '../../services/savedSearchService';
+import { formatFlexibleDates } from '../../services/flexibleDatesService';
+import { formatMoney, getCurrencySymbol } from '../../services/currencyService';
+import { SAVED_SEARCH_ALERT_FREQUENCIES } from '../../config/constants';
+import { Button, Input, Select, Spinner } from '../ui';
+import { ConfirmDialog, Modal } from '../ui/Modal';
+import toast from 'react-hot-toast';
+
+interface SavedSearchesSectionProps {
+    userId: string;
+}
+
+// "Cebu City · Dec 4 – Dec 6 · 2 guests"
+function describeSearch(search: SavedSearch): string {
+    const filters = getSavedSearchFilters(search);
+    const parts = [filters.location || 'Anywhere'];
+
+    if (filters.flexibleDates) {
+        parts.push(formatFlexibleDates(filters.flexibleDates));
+    } else if (filters.checkIn && filters.checkOut) {
+        const shift = filters.dateShift ? ` (±${filters.dateShift})` : '';
+        parts.push(`${format(filters.checkIn, 'MMM d')} – ${format(filters.checkOut, 'MMM d')}${shift}`);
+    }
+
+    const guests = filters.guests ? filters.guests.adults + filters.guests.children : 0;
+    if (guests > 0) {
+        parts.push(`${guests} guest${guests !== 1 ? 's' : ''}`);
+    }
+
+    return parts.join(' · ');
+}
+
+// A guest's saved searches and their alerts, managed from the profile page
+export default function SavedSearchesSection({ userId }: SavedSearchesSectionProps) {
+    const [searches, setSearches] = useState<SavedSearch[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actionId, setActionId] = useState<string | null>(null);
+
+    // Edit modal state
+    const [editTarget, setEditTarget] = useState<SavedSearch | null>(null);
+    const [editName, setEditName] = useState('');
+    const [editThreshold, setEditThreshold] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const [removeTarget, setRemoveTarget] = useState<SavedSearch | null>(null);
+
+    const loadSearches = useCallback(async () => {
+        try {
+            setSearches(await getUserSavedSearches(userId));
+        } catch (error) {
+            console.error('Error loading saved searches:', error);
+            toast.error('Failed to load saved searches');
+        } finally {
+            setLoading(false);
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        loadSearches();
+    }, [loadSearches]);
+
+    const openEdit = (search: SavedSearch) => {
+        setEditTarget(search);
+        setEditName(search.name);
+        setEditThreshold(search.priceThreshold ? String(search.priceThreshold) : '');
+    };
+
+    const handleFrequencyChange = async (search: SavedSearch, alertFrequency: SavedSearchAlertFrequency) => {
+        setActionId(search.id);
+        try {
+            await updateSavedSearch(search.id, { alertFrequency });
+            setSearches((prev) => prev.map((s) => (s.id === search.id ? { ...s, alertFrequency } : s)));
+        } catch (error) {
+            console.error('Error updating saved search:', error);
+            toast.error('Failed to update alerts');
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editTarget) return;
+
+        setSaving(true);
+        try {
+            const priceThreshold = editThreshold ? Number(editThreshold) : null;
+            await updateSavedSearch(editTarget.id, { name: editName, priceThreshold });
+            setSearches((prev) => prev.map((s) => (s.id === editTarget.id
+                ? { ...s, name: editName.trim(), priceThreshold: priceThreshold ?? undefined }
+                : s)));
+            setEditTarget(null);
+            toast.success('Search updated');
+        } catch (error) {
+            console.error('Error updating saved search:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to update search');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!removeTarget) return;
+
+        setActionId(removeTarget.id);
+        try {
+            await deleteSavedSearch(removeTarget.id);
+            setSearches((prev) => prev.filter((s) => s.id !== removeTarget.id));
+            toast.success('Search removed');
+        } catch (error) {
+            console.error('Error removing saved search:', error);
+            toast.error('Failed to remove search');
+        } finally {
+            setActionId(null);
+            setRemoveTarget(null);
+        }
+    };
+
+    return (
+        <div className="bg-white border border-secondary-200 rounded-xl p-4 sm:p-6 mb-4 sm:mb-6">
+            <div className="mb-4">
+                <h2 className="text-xl font-semibold">Saved Searches</h2>
+                <p className="text-sm text-secondary-500">Get alerts for new listings and price drops</p>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-6">
+                    <Spinner />
+                </div>
+            ) : searches.length === 0 ? (
+                <p className="text-sm text-secondary-500 py-3">
+                    You haven't saved any searches yet. Use "Save search" on the search page to keep one here.
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    {searches.map((search) => (
+                        <div
+                            key={search.id}
+                            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-secondary-50 rounded-lg"
+                        >
+                            <div className="min-w-0">
+                                <Link
+                                    to={`/search?${getSearchQuery(getSavedSearchFilters(search))}`}
+                                    className="font-medium hover:underline"
+                                >
+                                    {search.name}
+                                </Link>
+                                <p className="text-sm text-secondary-500 truncate">{describeSearch(search)}</p>
+                                {search.priceThreshold !== undefined && (
+                                    <p className="text-sm text-secondary-500">
+                                        Price alert below {formatMoney(search.priceThreshold, search.currency)} a night
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Select
+                                    aria-label="Alert frequency"
+                                    value={search.alertFrequency}
+                                    onChange={(e) => handleFrequencyChange(search, e.target.value as SavedSearchAlertFrequency)}
+                                    disabled={actionId === search.id}
+                                    className="py-2 text-sm"
+                                    options={SAVED_SEARCH_ALERT_FREQUENCIES.map((f) => ({ value: f.id, label: f.name }))}
+                                />
+                                <Button variant="outline" size="sm" onClick={() => openEdit(search)}>
+                                    Edit
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-red-600 hover:bg-red-50"
+                                    onClick={() => setRemoveTarget(search)}
+                                    disabled={actionId === search.id}
+                                >
+                                    Remove
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Edit Saved Search Modal */}
+            <Modal isOpen={!!editTarget} onClose={() => setEditTarget(null)} title="Edit saved search" size="sm">
+                <div className="space-y-4 mb-6">
+                    <Input
+                        label="Name"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                    />
+                    <Input
+                        label={`Price alert (${getCurrencySymbol(editTarget?.currency)} per night, optional)`}
+                        type="number"
+                        min={1}
+                        value={editThreshold}
+                        onChange={(e) => setEditThreshold(e.target.value)}
+                    />
+                </div>
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={() => setEditTarget(null)} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button fullWidth onClick={handleSaveEdit} loading={saving} disabled={!editName.trim()}>
+                        Save
+                    </Button>
+                </div>
+            </Modal>
+
+            <ConfirmDialog
+                isOpen={!!removeTarget}
+                onClose={() => setRemoveTarget(null)}
+                onConfirm={handleRemove}
+                title="Remove Saved Search"
+                message={`Remove "${removeTarget?.name}"? You'll stop getting alerts for it.`}
+                confirmText="Remove"
+                loading={!!removeTarget && actionId === removeTarget.id}
+            />
+        </div>
+    );
+}
@@ -2,10 +2,15 @@ import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
+import { format } from 'date-fns';
+import type { FlexibleDates } from '../../types';
 import { useDebounce } from '../../hooks/useCustomHooks';
 import { getLocationSuggestions } from '../../services/geocodingService';
 import type { LocationSuggestion } from '../../services/geocodingService';
+import { formatFlexibleDates, setDateSearchParams } from '../../services/flexibleDatesService';
 import { usePropertyStore } from '../../store';
+import FlexibleDatesPanel from './FlexibleDatesPanel';
+import DateShiftOptions from './DateShiftOptions';
 
 interface SearchBarProps {
     compact?: boolean;
@@ -17,11 +22,14 @@ export default function SearchBar({ compact = false }: SearchBarProps) {
     const searchBarRef = useRef<HTMLDivElement>(null);
 
     const [isExpanded, setIsExpanded] = useState(!compact);
-    const [activeSection, setActiveSection] = useState<'location' | 'checkIn' | 'checkOut' | 'guests' | null>(null);
+    const [activeSection, setActiveSection] = useState<'location' | 'checkIn' | 'checkOut' | 'flexible' | 'guests' | null>(null);
 
     const [location, setLocation] = useState(filters.location || '');
     const [checkIn, setCheckIn] = useState<Date | null>(filters.checkIn || null);
     const [checkOut, setCheckOut] = useState<Date | null>(filters.checkOut || null);
+    const [dateShift, setDateShift] = useState(filters.dateShift || 0);
+    // Set while searching by trip length and month instead of exact dates
+    const [flexibleDates, setFlexibleDates] = useState<FlexibleDates | null>(filters.flexibleDates || null);
     const [guests, setGuests] = useState({
         adults: filters.guests?.adults || 1,
         children: filters.guests?.children || 0,
@@ -66,18 +74,22 @@ export default function SearchBar({ compact = false }: SearchBarProps) {
     }, [debouncedLocation]);
 
     const handleSearch = () => {
+        const dates = {
+            checkIn: (!flexibleDates && checkIn) || undefined,
+            checkOut: (!flexibleDates && checkOut) || undefined,
+            dateShift: (!flexibleDates && checkIn && checkOut && dateShift) || undefined,
+            flexibleDates: flexibleDates || undefined,
+        };
         setFilters({
             location: location || undefined,
-            checkIn: checkIn || undefined,
-            checkOut: checkOut || undefined,
+            ...dates,
             guests: guests.adults + guests.children > 0 ? guests : undefined,
         });
 
         // Build query params
         const params = new URLSearchParams();
         if (location) params.set('location', location);
-        if (checkIn) params.set('checkIn', checkIn.toISOString());
-        if (checkOut) params.set('checkOut', checkOut.toISOString());
+        setDateSearchParams(params, dates);
         if (guests.adults + guests.children > 0) {
             params.set('guests', String(guests.adults + guests.children));
         }
@@ -88,6 +100,20 @@ export default function SearchBar({ compact = false }: SearchBarProps) {
         }
     };
 
+    const switchToFlexibleDates = () => {
+        setFlexibleDates({ months: [format(checkIn || new Date(), 'yyyy-MM')], tripLength: 'weekend' });
+        setActiveSection('flexible');
+    };
+
+    const switchToExactDates = () => {
+        setFlexibleDates(null);
+        setActiveSection('checkIn');
+    };
+
+    const dateShiftOptions = (
+        <DateShiftOptions value={dateShift} onChange={setDateShift} onFlexible={switchToFlexibleDates} />
+    );
+
     const handleLocationSelect = (suggestion: LocationSuggestion) => {
         setLocation(suggestion.displayName.split(',')[0]);
         setShowSuggestions(false);
@@ -104,10 +130,12 @@ export default function SearchBar({ compact = false }: SearchBarProps) {
     const totalGuests = guests.adults + guests.children;
 
     const formatDateRange = () => {
+        if (flexibleDates) return formatFlexibleDates(flexibleDates);
         if (!checkIn && !checkOut) return 'Any week';
         if (checkIn && checkOut) {
             const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
-            return `${checkIn.toLocaleDateString('en-US', options)} - ${checkOut.toLocaleDateString('en-US', options)}`;
+            const range = `${checkIn.toLocaleDateString('en-US', options)} - ${checkOut.toLocaleDateString('en-US', options)}`;
+            return dateShift ? `${range} (±${dateShift})` : range;
         }
         if (checkIn) {
             const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
@@ -230,49 +258,75 @@ export default function SearchBar({ compact = false }: SearchBarProps) {
 
                         <div className="h-6 w-px bg-secondary-200 flex-shrink-0" />
 
-                        {/* Check In */}
-                        <div
-                            className={`flex-1 min-w-0 px-3 py-1 rounded-full cursor-pointer transition-colors ${activeSection === 'checkIn' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
-                            onClick={() => setActiveSection('checkIn')}
-                        >
-                            <label className="block text-xs font-semibold text-secondary-800">Check in</label>
-                            <DatePicker
-                                selected={checkIn}
-                                onChange={(date) => { setCheckIn(date); if (date) setActiveSection('checkOut'); }}
-                                onFocus={() => setActiveSection('checkIn')}
-                                selectsStart
-                                startDate={checkIn}
-                                endDate={checkOut}
-                                minDate={new Date()}
-                                placeholderText="Add dates"
-                                className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
-                                open={activeSection === 'checkIn'}
-                                onClickOutside={() => { }}
-                            />
-                        </div>
-
-                        <div className="h-6 w-px bg-secondary-200 flex-shrink-0" />
+                        {flexibleDates ? (
+                            /* When */
+                            <div
+                                className={`relative flex-[2] min-w-0 px-3 py-1 rounded-full cursor-pointer transition-colors ${activeSection === 'flexible' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
+                                onClick={() => setActiveSection(activeSection === 'flexible' ? null : 'flexible')}
+                            >
+                                <label className="block text-xs font-semibold text-secondary-800">When</label>
+                                <div className="text-sm text-secondary-600 truncate">{formatFlexibleDates(flexibleDates)}</div>
+
+                                {activeSection === 'flexible' && (
+                                    <FlexibleDatesPanel
+                                        value={flexibleDates}
+                                        onChange={setFlexibleDates}
+                                        onExactDates={switchToExactDates}
+                                        className="left-0"
+                                    />
+                                )}
+                            </div>
+                        ) : (
+                            <>
+                                {/* Check In */}
+                                <div
+                                    className={`flex-1 min-w-0 px-3 py-1 rounded-full cursor-pointer transition-colors ${activeSection === 'checkIn' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
+                                    onClick={() => setActiveSection('checkIn')}
+                                >
+                                    <label className="block text-xs font-semibold text-secondary-800">Check in</label>
+                                    <DatePicker
+                                        selected={checkIn}
+                                        onChange={(date) => { setCheckIn(date); if (date) setActiveSection('checkOut'); }}
+                                        onFocus={() => setActiveSection('checkIn')}
+                                        selectsStart
+                                        startDate={checkIn}
+                                        endDate={checkOut}
+                                        minDate={new Date()}
+                                        placeholderText="Add dates"
+                                        className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
+                                        open={activeSection === 'checkIn'}
+                                        onClickOutside={() => { }}
+                                    >
+                                        {dateShiftOptions}
+                                    </DatePicker>
+                                </div>
 
-                        {/* Check Out */}
-                        <div
-                            className={`flex-1 min-w-0 px-3 py-1 rounded-full cursor-pointer transition-colors ${activeSection === 'checkOut' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
-                            onClick={() => setActiveSection('checkOut')}
-                        >
-                            <label className="block text-xs font-semibold text-secondary-800">Check out</label>
-                            <DatePicker
-                                selected={checkOut}
-                                onChange={(date) => { setCheckOut(date); if (date) setActiveSection('guests'); }}
-                                onFocus={() => setActiveSection('checkOut')}
-                                selectsEnd
-                                startDate={checkIn}
-                                endDate={checkOut}
-                                minDate={checkIn || new Date()}
-                                placeholderText="Add dates"
-                                className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
-                                open={activeSection === 'checkOut'}
-                                onClickOutside={() => { }}
-                            />
-                        </div>
+                                <div className="h-6 w-px bg-secondary-200 flex-shrink-0" />
+
+                                {/* Check Out */}
+                                <div
+                                    className={`flex-1 min-w-0 px-3 py-1 rounded-full cursor-pointer transition-colors ${activeSection === 'checkOut' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
+                                    onClick={() => setActiveSection('checkOut')}
+                                >
+                                    <label className="block text-xs font-semibold text-secondary-800">Check out</label>
+                                    <DatePicker
+                                        selected={checkOut}
+                                        onChange={(date) => { setCheckOut(date); if (date) setActiveSection('guests'); }}
+                                        onFocus={() => setActiveSection('checkOut')}
+                                        selectsEnd
+                                        startDate={checkIn}
+                                        endDate={checkOut}
+                                        minDate={checkIn || new Date()}
+                                        placeholderText="Add dates"
+                                        className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
+                                        open={activeSection === 'checkOut'}
+                                        onClickOutside={() => { }}
+                                    >
+                                        {dateShiftOptions}
+                                    </DatePicker>
+                                </div>
+                            </>
+                        )}
 
                         <div className="h-6 w-px bg-secondary-200 flex-shrink-0" />
 
@@ -430,59 +484,85 @@ export default function SearchBar({ compact = false }: SearchBarProps) {
 
                     <div className="h-8 w-px bg-secondary-200 flex-shrink-0" />
 
-                    {/* Check In */}
-                    <div
-                        className={`flex-1 min-w-0 px-4 py-2 rounded-full cursor-pointer transition-colors ${activeSection === 'checkIn' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
-                        onClick={() => setActiveSection('checkIn')}
-                    >
-                        <label className="block text-xs font-semibold text-secondary-800">
-                            Check in
-                        </label>
-                        <DatePicker
-                            selected={checkIn}
-                            onChange={(date) => {
-                                setCheckIn(date);
-                                if (date) setActiveSection('checkOut');
-                            }}
-                            onFocus={() => setActiveSection('checkIn')}
-                            selectsStart
-                            startDate={checkIn}
-                            endDate={checkOut}
-                            minDate={new Date()}
-                            placeholderText="Add dates"
-                            className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
-                            open={activeSection === 'checkIn'}
-                            onClickOutside={() => { }}
-                        />
-                    </div>
-
-                    <div className="h-8 w-px bg-secondary-200 flex-shrink-0" />
+                    {flexibleDates ? (
+                        /* When */
+                        <div
+                            className={`relative flex-[2] min-w-0 px-4 py-2 rounded-full cursor-pointer transition-colors ${activeSection === 'flexible' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
+                            onClick={() => setActiveSection(activeSection === 'flexible' ? null : 'flexible')}
+                        >
+                            <label className="block text-xs font-semibold text-secondary-800">When</label>
+                            <div className="text-sm text-secondary-600 truncate">{formatFlexibleDates(flexibleDates)}</div>
+
+                            {activeSection === 'flexible' && (
+                                <FlexibleDatesPanel
+                                    value={flexibleDates}
+                                    onChange={setFlexibleDates}
+                                    onExactDates={switchToExactDates}
+                                    className="left-0"
+                                />
+                            )}
+                        </div>
+                    ) : (
+                        <>
+                            {/* Check In */}
+                            <div
+                                className={`flex-1 min-w-0 px-4 py-2 rounded-full cursor-pointer transition-colors ${activeSection === 'checkIn' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
+                                onClick={() => setActiveSection('checkIn')}
+                            >
+                                <label className="block text-xs font-semibold text-secondary-800">
+                                    Check in
+                                </label>
+                                <DatePicker
+                                    selected={checkIn}
+                                    onChange={(date) => {
+                                        setCheckIn(date);
+                                        if (date) setActiveSection('checkOut');
+                                    }}
+                                    onFocus={() => setActiveSection('checkIn')}
+                                    selectsStart
+                                    startDate={checkIn}
+                                    endDate={checkOut}
+                                    minDate={new Date()}
+                                    placeholderText="Add dates"
+                                    className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
+                                    open={activeSection === 'checkIn'}
+                                    onClickOutside={() => { }}
+                                >
+                                    {dateShiftOptions}
+                                </DatePicker>
+                            </div>
 
-                    {/* Check Out */}
-                    <div
-                        className={`flex-1 min-w-0 px-4 py-2 rounded-full cursor-pointer transition-colors ${activeSection === 'checkOut' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
-                        onClick={() => setActiveSection('checkOut')}
-                    >
-                        <label className="block text-xs font-semibold text-secondary-800">
-                            Check out
-                        </label>
-                        <DatePicker
-                            selected={checkOut}
-                            onChange={(date) => {
-                                setCheckOut(date);
-                                if (date) setActiveSection('guests');
-                            }}
-                            onFocus={() => setActiveSection('checkOut')}
-                            selectsEnd
-                            startDate={checkIn}
-                            endDate={checkOut}
-                            minDate={checkIn || new Date()}
-                            placeholderText="Add dates"
-                            className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
-                            open={activeSection === 'checkOut'}
-                            onClickOutside={() => { }}
-                        />
-                    </div>
+                            <div className="h-8 w-px bg-secondary-200 flex-shrink-0" />
+
+                            {/* Check Out */}
+                            <div
+                                className={`flex-1 min-w-0 px-4 py-2 rounded-full cursor-pointer transition-colors ${activeSection === 'checkOut' ? 'bg-secondary-100' : 'hover:bg-secondary-50'}`}
+                                onClick={() => setActiveSection('checkOut')}
+                            >
+                                <label className="block text-xs font-semibold text-secondary-800">
+                                    Check out
+                                </label>
+                                <DatePicker
+                                    selected={checkOut}
+                                    onChange={(date) => {
+                                        setCheckOut(date);
+                                        if (date) setActiveSection('guests');
+                                    }}
+                                    onFocus={() => setActiveSection('checkOut')}
+                                    selectsEnd
+                                    startDate={checkIn}
+                                    endDate={checkOut}
+                                    minDate={checkIn || new Date()}
+                                    placeholderText="Add dates"
+                                    className="w-full text-sm text-secondary-600 bg-transparent outline-none cursor-pointer placeholder:text-secondary-400"
+                                    open={activeSection === 'checkOut'}
+                                    onClickOutside={() => { }}
+                                >
+                                    {dateShiftOptions}
+                                </DatePicker>
+                            </div>
+                        </>
+                    )}
 
                     <div className="h-8 w-px bg-secondary-200 flex-shrink-0" />
 
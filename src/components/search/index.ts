@@ -1,2 +1,4 @@
 export { default as SearchBar } from './SearchBar';
 export { default as FilterSidebar } from './FilterSidebar';
+export { default as SaveSearchModal } from './SaveSearchModal';
+export { default as SavedSearchesSection } from './SavedSearchesSection';
@@ -345,6 +345,7 @@ interface ConfirmDialogProps {
     cancelText?: string;
     variant?: 'danger' | 'warning' | 'info';
     loading?: boolean;
+    children?: ReactNode;
 }
 
 export function ConfirmDialog({
@@ -357,6 +358,7 @@ export function ConfirmDialog({
     cancelText = 'Cancel',
     variant = 'danger',
     loading = false,
+    children,
 }: ConfirmDialogProps) {
     if (!isOpen) return null;
 
@@ -422,6 +424,9 @@ export function ConfirmDialog({
                             </p>
                         </div>
 
+                        {/* Extra content (e.g. a summary of the consequences) */}
+                        {children && <div className="mt-4">{children}</div>}
+
                         {/* Actions */}
                         <div className="mt-6 flex gap-3">
                             <button
@@ -1,3 +1,5 @@
+import type { TaxRule } from '../types';
+
 // Environment variables
 export const ENV = {
     FIREBASE_API_KEY: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -7,6 +9,7 @@ export const ENV = {
     FIREBASE_MESSAGING_SENDER_ID: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
     FIREBASE_APP_ID: import.meta.env.VITE_FIREBASE_APP_ID,
     STRIPE_PUBLISHABLE_KEY: import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY,
+    PAYMENT_PROVIDER: import.meta.env.VITE_PAYMENT_PROVIDER, // 'stripe' or 'mock'
     MAPBOX_ACCESS_TOKEN: import.meta.env.VITE_MAPBOX_ACCESS_TOKEN,
 };
 
@@ -21,8 +24,25 @@ export const APP_CONFIG = {
     DEFAULT_CURRENCY: 'PHP',
     SERVICE_FEE_GUEST_PERCENT: 0.12,
     SERVICE_FEE_HOST_PERCENT: 0.03,
-    TAX_RATE: 0.08,
     PAYOUT_DELAY_HOURS: 24,
+    // Hours after checkout a host has to file a damage claim before the deposit is released.
+    // Card holds lapse after about a week, so keep this short.
+    DAMAGE_CLAIM_WINDOW_HOURS: 48,
+    // Deposits are held the day before check-in, or later for long stays so the hold
+    // is at most this many days old when the claim window closes
+    SECURITY_DEPOSIT_HOLD_DAYS: 6,
+    // Days support has to settle a disputed damage claim before it's settled for the guest
+    DAMAGE_CLAIM_DISPUTE_DAYS: 14,
+    // How far ahead imported iCal calendars block nights
+    CALENDAR_IMPORT_MONTHS: 18,
+    // Listings per page of location search results
+    SEARCH_PAGE_SIZE: 24,
+    // Searches for a small place, such as an address, cover at least this radius around it
+    SEARCH_MIN_RADIUS_KM: 10,
+    // Top of the search price filter when the guest hasn't set one
+    SEARCH_MAX_PRICE: 100000,
+    // Hours a host has to answer a booking request before it expires
+    BOOKING_REQUEST_EXPIRY_HOURS: Number(import.meta.env.VITE_BOOKING_REQUEST_EXPIRY_HOURS) || 24,
 };
 
 // Map configuration
@@ -36,6 +56,38 @@ export const MAP_CONFIG = {
     NOMINATIM_URL: 'https://nominatim.openstreetmap.org',
 };
 
+// Currencies listings can be priced in and guests can browse in
+export const CURRENCIES = [
+    { code: 'PHP', name: 'Philippine peso' },
+    { code: 'USD', name: 'US dollar' },
+    { code: 'EUR', name: 'Euro' },
+    { code: 'GBP', name: 'British pound' },
+    { code: 'JPY', name: 'Japanese yen' },
+    { code: 'KRW', name: 'South Korean won' },
+    { code: 'CNY', name: 'Chinese yuan' },
+    { code: 'SGD', name: 'Singapore dollar' },
+    { code: 'AUD', name: 'Australian dollar' },
+    { code: 'CAD', name: 'Canadian dollar' },
+];
+
+// Alert frequencies guests can pick for a saved search
+export const SAVED_SEARCH_ALERT_FREQUENCIES = [
+    { id: 'instant', name: 'As they happen' },
+    { id: 'daily', name: 'Daily' },
+    { id: 'weekly', name: 'Weekly' },
+    { id: 'off', name: 'Off' },
+] as const;
+
+// Search result orders. Distance only applies when the location is a map area.
+export const SORT_OPTIONS = [
+    { id: 'relevance', name: 'Relevance' },
+    { id: 'distance', name: 'Distance' },
+    { id: 'price_low', name: 'Price: low to high' },
+    { id: 'price_high', name: 'Price: high to low' },
+    { id: 'rating', name: 'Top rated' },
+    { id: 'reviews', name: 'Most reviewed' },
+] as const;
+
 // Cancellation policies as array for ListingWizard dropdown
 export const CANCELLATION_POLICIES = [
     {
@@ -61,6 +113,61 @@ export const CANCELLATION_POLICIES = [
     },
 ];
 
+// Occupancy taxes by jurisdiction. A listing pays every rule for its country, plus the
+// rules for its state and city. Listings in a country with no rules here, or without a
+// location, pay DEFAULT_TAX_RULES instead.
+export const TAX_RULES: TaxRule[] = [
+    {
+        id: 'ph-occupancy',
+        name: 'Occupancy tax',
+        country: 'Philippines',
+        countryCode: 'PH',
+        type: 'percentage',
+        rate: 0.08,
+        exemptMinNights: 30,
+    },
+    {
+        id: 'ph-cebu-tourism',
+        name: 'Cebu tourism fee',
+        country: 'Philippines',
+        countryCode: 'PH',
+        state: 'Cebu',
+        type: 'per_guest_per_night',
+        rate: 20,
+        exemptMinNights: 30,
+    },
+    {
+        id: 'ph-lapu-lapu-environmental',
+        name: 'Lapu-Lapu environmental fee',
+        country: 'Philippines',
+        countryCode: 'PH',
+        state: 'Cebu',
+        city: 'Lapu-Lapu City',
+        type: 'per_night',
+        rate: 50,
+    },
+    {
+        id: 'ph-bohol-tourism',
+        name: 'Bohol tourism fee',
+        country: 'Philippines',
+        countryCode: 'PH',
+        state: 'Bohol',
+        type: 'per_guest_per_night',
+        rate: 25,
+        exemptMinNights: 30,
+    },
+];
+
+// The flat rate every stay paid before taxes were set by jurisdiction
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+    {
+        id: 'default-occupancy',
+        name: 'Taxes',
+        type: 'percentage',
+        rate: 0.08,
+    },
+];
+
 // Property type labels
 export const PROPERTY_TYPE_LABELS = {
     entire_place: 'Entire place',
@@ -81,6 +188,7 @@ export const BOOKING_STATUS_LABELS = {
     confirmed: 'Confirmed',
     cancelled: 'Cancelled',
     completed: 'Completed',
+    expired: 'Expired',
 };
 
 // Amenity Categories as array for ListingWizard
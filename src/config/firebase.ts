@@ -1,7 +1,7 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
-import { getStorage } from 'firebase/storage';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import { getFunctions } from 'firebase/functions';
 
 // Firebase configuration
@@ -25,6 +25,18 @@ export const db = getFirestore(app);
 export const storage = getStorage(app);
 export const functions = getFunctions(app);
 
+// Use the local Firestore emulator when configured (e.g. "127.0.0.1:8080")
+if (import.meta.env.VITE_FIRESTORE_EMULATOR_HOST) {
+    const [host, port] = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+}
+
+// Likewise for the Storage emulator (e.g. "127.0.0.1:9199")
+if (import.meta.env.VITE_STORAGE_EMULATOR_HOST) {
+    const [host, port] = import.meta.env.VITE_STORAGE_EMULATOR_HOST.split(':');
+    connectStorageEmulator(storage, host, Number(port));
+}
+
 // Auth providers
 export const googleProvider = new GoogleAuthProvider();
 googleProvider.setCustomParameters({
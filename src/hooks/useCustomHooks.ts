@@ -1,4 +1,11 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { useNavigationType } from 'react-router-dom';
+import { useCurrencyStore, useFeedStore } from '../store';
+import type { FeedSnapshot } from '../store';
+import type { Property, StayMatch } from '../types';
+import { convertMoney, formatMoney, getExchangeRates } from '../services/currencyService';
+import type { FormatMoneyOptions } from '../services/currencyService';
+import { APP_CONFIG } from '../config/constants';
 
 // Debounce hook
 export function useDebounce<T>(value: T, delay: number): T {
@@ -252,3 +259,202 @@ export function useKeyboardShortcut(
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [key, callback, modifiers]);
 }
+
+// Current time, refreshed on an interval (for countdowns)
+export function useNow(intervalMs: number = 60000): Date {
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), intervalMs);
+        return () => clearInterval(timer);
+    }, [intervalMs]);
+
+    return now;
+}
+
+// Format prices in the guest's display currency, converted with the stored rate table.
+// Falls back to the original currency until the rates load or if a rate is missing.
+export function useMoney() {
+    const { displayCurrency, rates, setRates } = useCurrencyStore();
+
+    useEffect(() => {
+        if (rates) return;
+        getExchangeRates()
+            .then((table) => table && setRates(table))
+            .catch((error) => console.error('Error loading exchange rates:', error));
+    }, [rates, setRates]);
+
+    const formatDisplay = useCallback(
+        (amount: number, fromCurrency: string = APP_CONFIG.DEFAULT_CURRENCY, options?: FormatMoneyOptions) => {
+            const converted = rates ? convertMoney(amount, fromCurrency, displayCurrency, rates) : null;
+            return converted === null
+                ? formatMoney(amount, fromCurrency, options)
+                : formatMoney(converted, displayCurrency, options);
+        },
+        [displayCurrency, rates]
+    );
+
+    return { displayCurrency, formatDisplay };
+}
+
+// One page of a listing feed
+export interface FeedPage<C, M = undefined> {
+    properties: Property[];
+    // Where the next page starts
+    cursor: C | null;
+    hasMore: boolean;
+    total?: number;
+    // Added to the feed's candidates
+    candidates?: Property[];
+    // Added to the feed's stays
+    stays?: Map<string, StayMatch>;
+    // Kept from the first page for the rest
+    meta?: M;
+}
+
+// How far ahead of the end of a feed the next page starts loading
+const FEED_OBSERVER_OPTIONS: IntersectionObserverInit = { rootMargin: '600px 0px' };
+
+// Listing feed loaded a page at a time as the guest scrolls; put sentinelRef on an element
+// after the last listing. Coming back to a feed (a back or forward navigation) restores
+// its loaded pages and scroll position instead of starting over. A new key starts a new feed.
+export function useInfiniteFeed<C, M = undefined>(
+    key: string,
+    loadPage: (cursor: C | null, meta: M | undefined) => Promise<FeedPage<C, M>>,
+    scrollContainer?: React.RefObject<HTMLElement | null>
+) {
+    const navigationType = useNavigationType();
+    const [feed, setFeed] = useState<FeedSnapshot<C, M> | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sentinelRef, isNearEnd] = useIntersectionObserver(FEED_OBSERVER_OPTIONS);
+
+    // Latest values for loads and cleanups that outlive a render
+    const loadPageRef = useRef(loadPage);
+    const navigationTypeRef = useRef(navigationType);
+    const feedRef = useRef(feed);
+    const scrollTopRef = useRef(0);
+    const pendingScrollRef = useRef<number | null>(null);
+    const requestRef = useRef(0);
+    useEffect(() => {
+        loadPageRef.current = loadPage;
+        navigationTypeRef.current = navigationType;
+        feedRef.current = feed;
+    });
+
+    // Track the scroll position, read back when the feed is left
+    useEffect(() => {
+        const target = scrollContainer?.current;
+        const handleScroll = () => {
+            scrollTopRef.current = target ? target.scrollTop : window.scrollY;
+        };
+        (target ?? window).addEventListener('scroll', handleScroll, { passive: true });
+        return () => (target ?? window).removeEventListener('scroll', handleScroll);
+    }, [scrollContainer]);
+
+    // Restore or load the first page whenever the feed changes, and remember it when left
+    useEffect(() => {
+        const request = ++requestRef.current;
+        const saved = navigationTypeRef.current === 'POP'
+            ? useFeedStore.getState().feeds[key] as FeedSnapshot<C, M> | undefined
+            : undefined;
+
+        const start = async () => {
+            if (saved) {
+                pendingScrollRef.current = saved.scrollTop;
+                setFeed(saved);
+                setError(null);
+                setLoading(false);
+                return;
+            }
+
+            setFeed(null);
+            setLoading(true);
+            setError(null);
+            try {
+                const page = await loadPageRef.current(null, undefined);
+                if (request !== requestRef.current) return;
+                scrollTopRef.current = 0;
+                setFeed({ ...page, candidates: page.candidates ?? [], scrollTop: 0 });
+            } catch (err: unknown) {
+                if (request !== requestRef.current) return;
+                console.error('Error loading feed:', err);
+                setError(err instanceof Error ? err.message : 'Failed to load properties');
+            } finally {
+                if (request === requestRef.current) setLoading(false);
+            }
+        };
+        start();
+
+        return () => {
+            const current = feedRef.current;
+            if (current) {
+                useFeedStore.getState().saveFeed(key, { ...current, scrollTop: scrollTopRef.current });
+            }
+        };
+    }, [key]);
+
+    // Put the scroll position back once restored listings are on screen
+    useLayoutEffect(() => {
+        if (pendingScrollRef.current === null || !feed) return;
+        const top = pendingScrollRef.current;
+        pendingScrollRef.current = null;
+        scrollTopRef.current = top;
+        if (scrollContainer?.current) {
+            scrollContainer.current.scrollTop = top;
+        } else {
+            window.scrollTo(0, top);
+        }
+    }, [feed, scrollContainer]);
+
+    const loadMore = useCallback(async () => {
+        const current = feedRef.current;
+        if (!current || !current.hasMore || loadingMore) return;
+
+        const request = requestRef.current;
+        setLoadingMore(true);
+        try {
+            const page = await loadPageRef.current(current.cursor, current.meta);
+            if (request !== requestRef.current) return;
+
+            setFeed((prev) => {
+                if (!prev) return prev;
+                const loaded = new Set(prev.properties.map((p) => p.id));
+                return {
+                    ...prev,
+                    properties: [...prev.properties, ...page.properties.filter((p) => !loaded.has(p.id))],
+                    cursor: page.cursor,
+                    hasMore: page.hasMore,
+                    total: page.total ?? prev.total,
+                    candidates: [...(prev.candidates ?? []), ...(page.candidates ?? [])],
+                    stays: page.stays ? new Map([...(prev.stays ?? []), ...page.stays]) : prev.stays,
+                };
+            });
+        } catch (err: unknown) {
+            console.error('Error loading more of feed:', err);
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [loadingMore]);
+
+    // Load the next page as the end of the feed comes into view
+    useEffect(() => {
+        if (isNearEnd && !loading && feed?.hasMore) {
+            loadMore();
+        }
+    }, [isNearEnd, loading, feed, loadMore]);
+
+    return {
+        properties: feed?.properties ?? [],
+        candidates: feed?.candidates ?? null,
+        stays: feed?.stays ?? null,
+        total: feed?.total,
+        meta: feed?.meta,
+        hasMore: feed?.hasMore ?? false,
+        loading,
+        loadingMore,
+        error,
+        sentinelRef,
+    };
+}
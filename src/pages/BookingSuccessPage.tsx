@@ -4,7 +4,10 @@ import { format } from 'date-fns';
 import type { Booking, Property } from '../types';
 import { getBooking } from '../services/bookingService';
 import { getPropertyById } from '../services/propertyService';
+import { canDownloadReceipt, downloadBookingReceipt } from '../services/receiptService';
+import { formatMoney, getPricingCurrency } from '../services/currencyService';
 import { Button, Spinner } from '../components/ui';
+import toast from 'react-hot-toast';
 
 export default function BookingSuccessPage() {
     const { bookingId } = useParams<{ bookingId: string }>();
@@ -41,12 +44,16 @@ export default function BookingSuccessPage() {
         fetchData();
     }, [bookingId, navigate]);
 
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'PHP',
-            minimumFractionDigits: 0,
-        }).format(price);
+    const formatPrice = (price: number) => formatMoney(price, getPricingCurrency(booking?.pricing));
+
+    const handleDownloadReceipt = () => {
+        if (!booking) return;
+        try {
+            downloadBookingReceipt(booking, property);
+        } catch (error) {
+            console.error('Error generating receipt:', error);
+            toast.error('Failed to generate receipt');
+        }
     };
 
     if (loading) {
@@ -147,6 +154,15 @@ export default function BookingSuccessPage() {
                         <p className="font-semibold text-base sm:text-lg">Total</p>
                         <p className="font-semibold text-base sm:text-lg">{formatPrice(booking.pricing.total)}</p>
                     </div>
+
+                    {canDownloadReceipt(booking) && (
+                        <button
+                            onClick={handleDownloadReceipt}
+                            className="text-sm text-secondary-600 hover:text-secondary-900 underline"
+                        >
+                            Download receipt (PDF)
+                        </button>
+                    )}
                 </div>
             </div>
 
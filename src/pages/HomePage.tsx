@@ -1,39 +1,25 @@
-import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import type { Property } from '../types';
-import { getAllProperties } from '../services/propertyService';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { PropertyType } from '../types';
+import { getPropertyFeed } from '../services/propertyService';
+import type { PropertyCursor } from '../services/propertyService';
 import { PropertyCard } from '../components/property';
 import { PROPERTY_TYPES } from '../config/constants';
+import { useInfiniteFeed } from '../hooks/useCustomHooks';
 import { Spinner } from '../components/ui';
 
 export default function HomePage() {
-    const [properties, setProperties] = useState<Property[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+    const [searchParams, setSearchParams] = useSearchParams();
+    // In the URL so going back to the feed keeps the category
+    const selectedCategory = (searchParams.get('category') as PropertyType | null) || null;
 
-    useEffect(() => {
-        const fetchProperties = async () => {
-            try {
-                setError(null);
-                const data = await getAllProperties();
-                console.log('Fetched properties:', data);
-                setProperties(data);
-            } catch (error: unknown) {
-                console.error('Error fetching properties:', error);
-                const errorMessage = error instanceof Error ? error.message : 'Failed to load properties';
-                setError(errorMessage);
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        fetchProperties();
-    }, []);
+    const { properties, loading, loadingMore, error, sentinelRef } = useInfiniteFeed<PropertyCursor>(
+        `home:${selectedCategory ?? 'all'}`,
+        (cursor) => getPropertyFeed(cursor, selectedCategory ?? undefined)
+    );
 
-    const filteredProperties = selectedCategory
-        ? properties.filter((p) => p.propertyType === selectedCategory)
-        : properties;
+    const setSelectedCategory = (category: PropertyType | null) => {
+        setSearchParams(category ? { category } : {}, { replace: true });
+    };
 
     return (
         <div className="w-full max-w-full overflow-x-hidden">
@@ -103,7 +89,7 @@ export default function HomePage() {
                             Try again
                         </button>
                     </div>
-                ) : filteredProperties.length === 0 ? (
+                ) : properties.length === 0 ? (
                     <div className="text-center py-20">
                         <svg
                             className="w-16 h-16 mx-auto text-secondary-300 mb-4"
@@ -137,11 +123,16 @@ export default function HomePage() {
                     </div>
                 ) : (
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                        {filteredProperties.map((property) => (
+                        {properties.map((property) => (
                             <PropertyCard key={property.id} property={property} />
                         ))}
                     </div>
                 )}
+
+                {/* Loads the next page as it scrolls into view */}
+                <div ref={sentinelRef} className="flex justify-center py-6">
+                    {loadingMore && <Spinner />}
+                </div>
             </main>
 
             {/* Show Map Toggle - Fixed bottom */}
@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { addDays, differenceInDays, format, startOfDay } from 'date-fns';
+import type { Booking, Property } from '../types';
+import { getHostProperties } from '../services/propertyService';
+import { getHostBookings, isBookingActive } from '../services/bookingService';
+import { setCustomPrice, setDatesBlocked, setMinimumStay } from '../services/hostCalendarService';
+import { formatMoney, getPricingCurrency } from '../services/currencyService';
+import { ROUTES } from '../config/constants';
+import { useAuth } from '../contexts/AuthContext';
+import { CalendarTimeline } from '../components/host';
+import type { TimelineSelection } from '../components/host/CalendarTimeline';
+import { Badge, Button, Input, Modal, Spinner } from '../components/ui';
+import toast from 'react-hot-toast';
+
+// Nights shown at once, and how far the arrows move the timeline
+const DAYS_SHOWN = 30;
+const DAYS_PER_STEP = 14;
+
+type CalendarEdit = 'price' | 'minimumStay';
+
+export default function HostCalendarPage() {
+    const { currentUser } = useAuth();
+    const [properties, setProperties] = useState<Property[]>([]);
+    const [bookings, setBookings] = useState<Booking[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [startDate, setStartDate] = useState(() => startOfDay(new Date()));
+    const [selection, setSelection] = useState<TimelineSelection | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [edit, setEdit] = useState<CalendarEdit | null>(null);
+    const [editValue, setEditValue] = useState('');
+    const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            if (!currentUser) return;
+
+            try {
+                const [propertiesData, bookingsData] = await Promise.all([
+                    getHostProperties(currentUser.uid),
+                    getHostBookings(currentUser.uid),
+                ]);
+                setProperties(propertiesData);
+                setBookings(bookingsData.filter((booking) => isBookingActive(booking)));
+            } catch (error) {
+                console.error('Error fetching calendar:', error);
+                toast.error('Failed to load calendar');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [currentUser]);
+
+    const selectedProperties = properties.filter((p) => selection?.propertyIds.includes(p.id));
+    const nightCount = selection?.dates.length ?? 0;
+
+    // Run a bulk edit on the selected listings and swap in the updated listings
+    const applyEdit = async (
+        run: (targets: Property[], dates: string[]) => Promise<Property[]>,
+        successMessage: string
+    ) => {
+        if (!selection) return;
+
+        setSaving(true);
+        try {
+            const updated = await run(selectedProperties, selection.dates);
+            setProperties((prev) => prev.map((p) => updated.find((u) => u.id === p.id) ?? p));
+            setSelection(null);
+            setEdit(null);
+            toast.success(successMessage);
+        } catch (error) {
+            console.error('Error updating calendar:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to update calendar');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const nightsLabel = `${nightCount} night${nightCount !== 1 ? 's' : ''}`;
+    const listingsLabel = `${selectedProperties.length} listing${selectedProperties.length !== 1 ? 's' : ''}`;
+
+    const handleBlock = (blocked: boolean) =>
+        applyEdit(
+            (targets, dates) => setDatesBlocked(targets, dates, blocked),
+            `${nightsLabel} ${blocked ? 'blocked' : 'unblocked'}`
+        );
+
+    const handleSavePrice = (clear: boolean) =>
+        applyEdit(
+            (targets, dates) => setCustomPrice(targets, dates, clear ? null : Number(editValue)),
+            clear ? 'Custom price removed' : 'Custom price saved'
+        );
+
+    const handleSaveMinimumStay = () =>
+        applyEdit(
+            (targets) => setMinimumStay(targets, Number(editValue)),
+            'Minimum stay updated'
+        );
+
+    const openEdit = (type: CalendarEdit) => {
+        // Start from the listing's current value when only one is selected
+        const [only] = selectedProperties.length === 1 ? selectedProperties : [];
+        setEditValue(type === 'minimumStay' && only ? String(only.minimumStay) : '');
+        setEdit(type);
+    };
+
+    const bookingProperty = selectedBooking
+        ? properties.find((p) => p.id === selectedBooking.propertyId)
+        : undefined;
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-24">
+                <Spinner size="lg" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 lg:px-8 py-4 sm:py-8 space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                <div>
+                    <Link to={ROUTES.HOST.DASHBOARD} className="text-sm text-secondary-600 hover:underline">
+                        ← Back to dashboard
+                    </Link>
+                    <h1 className="text-2xl sm:text-3xl font-semibold mt-2">Calendar</h1>
+                    <p className="text-secondary-500">
+                        Drag across nights and listings to block them or change prices
+                    </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                    <button
+                        onClick={() => setStartDate(addDays(startDate, -DAYS_PER_STEP))}
+                        className="p-2 hover:bg-secondary-100 rounded-full"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                        </svg>
+                    </button>
+                    <Button variant="outline" size="sm" onClick={() => setStartDate(startOfDay(new Date()))}>
+                        Today
+                    </Button>
+                    <button
+                        onClick={() => setStartDate(addDays(startDate, DAYS_PER_STEP))}
+                        className="p-2 hover:bg-secondary-100 rounded-full"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {properties.length === 0 ? (
+                <div className="text-center py-20">
+                    <h3 className="text-xl font-medium text-secondary-900 mb-2">No listings yet</h3>
+                    <p className="text-secondary-500 mb-6">Create a listing to manage its calendar</p>
+                    <Link to={ROUTES.HOST.LISTING_NEW}>
+                        <Button>Create your first listing</Button>
+                    </Link>
+                </div>
+            ) : (
+                <>
+                    {/* Legend */}
+                    <div className="flex flex-wrap items-center gap-4 text-sm">
+                        <div className="flex items-center">
+                            <span className="w-4 h-4 rounded bg-blue-500 mr-2" />
+                            Confirmed
+                        </div>
+                        <div className="flex items-center">
+                            <span className="w-4 h-4 rounded bg-yellow-200 mr-2" />
+                            Request
+                        </div>
+                        <div className="flex items-center">
+                            <span className="w-4 h-4 rounded bg-secondary-200 mr-2" />
+                            Blocked
+                        </div>
+                        <div className="flex items-center text-primary-600 font-semibold">
+                            Custom price
+                        </div>
+                    </div>
+
+                    <CalendarTimeline
+                        properties={properties}
+                        bookings={bookings}
+                        startDate={startDate}
+                        days={DAYS_SHOWN}
+                        selection={selection}
+                        onSelectionChange={setSelection}
+                        onBookingClick={setSelectedBooking}
+                    />
+                </>
+            )}
+
+            {/* Actions */}
+            {selection && (
+                <div className="sticky bottom-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-white border border-secondary-200 rounded-xl shadow-lg">
+                    <span className="text-sm">
+                        {nightsLabel} on {listingsLabel} selected
+                    </span>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setSelection(null)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleBlock(false)} disabled={saving}>
+                            Unblock
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => openEdit('price')} disabled={saving}>
+                            Set price
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => openEdit('minimumStay')} disabled={saving}>
+                            Minimum stay
+                        </Button>
+                        <Button variant="secondary" size="sm" onClick={() => handleBlock(true)} loading={saving && !edit}>
+                            Block
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {/* Custom Price Modal */}
+            <Modal isOpen={edit === 'price'} onClose={() => setEdit(null)} title="Set a custom price" size="sm">
+                <div className="space-y-4 mb-6">
+                    <p className="text-sm text-secondary-600">
+                        Overrides the nightly, weekend and seasonal price for {nightsLabel} on {listingsLabel}.
+                        Each listing keeps its own currency.
+                    </p>
+                    <Input
+                        label="Price per night"
+                        type="number"
+                        min={1}
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                    />
+                </div>
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={() => handleSavePrice(true)} disabled={saving}>
+                        Remove custom price
+                    </Button>
+                    <Button fullWidth onClick={() => handleSavePrice(false)} loading={saving} disabled={!editValue}>
+                        Save
+                    </Button>
+                </div>
+            </Modal>
+
+            {/* Minimum Stay Modal */}
+            <Modal isOpen={edit === 'minimumStay'} onClose={() => setEdit(null)} title="Minimum stay" size="sm">
+                <div className="space-y-4 mb-6">
+                    <p className="text-sm text-secondary-600">
+                        Applies to every stay at {selectedProperties.length === 1 ? 'this listing' : `these ${listingsLabel}`}, not only the selected nights.
+                    </p>
+                    <Input
+                        label="Nights"
+                        type="number"
+                        min={1}
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                    />
+                </div>
+                <div className="flex space-x-3">
+                    <Button variant="outline" fullWidth onClick={() => setEdit(null)} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button fullWidth onClick={handleSaveMinimumStay} loading={saving} disabled={!editValue}>
+                        Save
+                    </Button>
+                </div>
+            </Modal>
+
+            {/* Booking Details Modal */}
+            <Modal isOpen={!!selectedBooking} onClose={() => setSelectedBooking(null)} title="Reservation" size="sm">
+                {selectedBooking && (
+                    <div className="space-y-4">
+                        <div className="flex items-start justify-between gap-3">
+                            <div>
+                                <p className="font-medium">{selectedBooking.guestName ?? 'Guest'}</p>
+                                {bookingProperty && (
+                                    <p className="text-sm text-secondary-500">{bookingProperty.title}</p>
+                                )}
+                            </div>
+                            <Badge variant={selectedBooking.status === 'confirmed' ? 'success' : 'warning'}>
+                                {selectedBooking.status === 'confirmed' ? 'Confirmed' : 'Request'}
+                            </Badge>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4 text-sm">
+                            <div>
+                                <p className="text-secondary-500">Check-in</p>
+                                <p className="font-medium">{format(selectedBooking.checkIn.toDate(), 'EEE, MMM d')}</p>
+                            </div>
+                            <div>
+                                <p className="text-secondary-500">Checkout</p>
+                                <p className="font-medium">{format(selectedBooking.checkOut.toDate(), 'EEE, MMM d')}</p>
+                            </div>
+                            <div>
+                                <p className="text-secondary-500">Nights</p>
+                                <p className="font-medium">
+                                    {differenceInDays(selectedBooking.checkOut.toDate(), selectedBooking.checkIn.toDate())}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-secondary-500">Guests</p>
+                                <p className="font-medium">
+                                    {selectedBooking.guests.adults + selectedBooking.guests.children}
+                                    {selectedBooking.guests.infants > 0 && ` + ${selectedBooking.guests.infants} infant${selectedBooking.guests.infants !== 1 ? 's' : ''}`}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-secondary-500">Total</p>
+                                <p className="font-medium">
+                                    {formatMoney(selectedBooking.pricing.total, getPricingCurrency(selectedBooking.pricing))}
+                                </p>
+                            </div>
+                        </div>
+
+                        {selectedBooking.specialRequests && (
+                            <div className="text-sm">
+                                <p className="text-secondary-500">Special requests</p>
+                                <p>{selectedBooking.specialRequests}</p>
+                            </div>
+                        )}
+
+                        <Link to={ROUTES.HOST.RESERVATIONS} className="block">
+                            <Button variant="outline" fullWidth>
+                                Manage in reservations
+                            </Button>
+                        </Link>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+}
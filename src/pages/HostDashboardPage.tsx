@@ -1,17 +1,31 @@
 import { useState, useEffect } from 'react';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import type { Property, Booking } from '../types';
-import { getHostProperties, updateProperty, deleteProperty, getProperty } from '../services/propertyService';
-import { getHostBookings, updateBookingStatus } from '../services/bookingService';
+import { getHostProperties, updateProperty, deleteProperty } from '../services/propertyService';
+import {
+    BookingConflictError,
+    getHostBookings,
+    isBookingActive,
+    respondToBookingModification,
+} from '../services/bookingService';
 import { createNotification } from '../services/notificationService';
+import { InvalidBookingTransitionError, transitionBooking } from '../services/bookingLifecycleService';
+import { calculateHostPayout } from '../services/payoutService';
+import { formatMoney, getPricingCurrency } from '../services/currencyService';
+import { downloadBookingReceipt } from '../services/receiptService';
+import {
+    PayoutMethodRequiredError,
+    hasDefaultPayoutMethod,
+    requireDefaultPayoutMethod,
+} from '../services/payoutMethodService';
 import { useAuth } from '../contexts/AuthContext';
-import { ListingCard, EarningsSummary } from '../components/host';
-import { BookingCard } from '../components/booking';
+import { ListingCard, EarningsSummary, PromoCodesSection } from '../components/host';
+import { BookingCard, DamageClaimModal } from '../components/booking';
 import { Spinner, Button } from '../components/ui';
 import { ConfirmDialog } from '../components/ui/Modal';
 import toast from 'react-hot-toast';
 
-type TabType = 'overview' | 'listings' | 'reservations' | 'earnings';
+type TabType = 'overview' | 'listings' | 'reservations' | 'earnings' | 'promotions';
 
 type TimestampLike = Date | { toDate: () => Date } | { seconds: number } | string | number | null | undefined;
 
@@ -31,6 +45,7 @@ export default function HostDashboardPage() {
     const [activeTab, setActiveTab] = useState<TabType>(tabFromUrl || 'overview');
     const [properties, setProperties] = useState<Property[]>([]);
     const [bookings, setBookings] = useState<Booking[]>([]);
+    const [hasPayoutMethod, setHasPayoutMethod] = useState(true);
     const [loading, setLoading] = useState(true);
     const [dataFetched, setDataFetched] = useState(false);
     const [actionLoading, setActionLoading] = useState<string | null>(null);
@@ -46,11 +61,12 @@ export default function HostDashboardPage() {
         propertyTitle: string;
         currentStatus: string;
     }>({ isOpen: false, action: null, propertyId: null, propertyTitle: '', currentStatus: '' });
+    const [damageClaimBooking, setDamageClaimBooking] = useState<Booking | null>(null);
     const navigate = useNavigate();
 
     // Update active tab when URL changes
     useEffect(() => {
-        if (tabFromUrl && ['overview', 'listings', 'reservations', 'earnings'].includes(tabFromUrl)) {
+        if (tabFromUrl && ['overview', 'listings', 'reservations', 'earnings', 'promotions'].includes(tabFromUrl)) {
             setActiveTab(tabFromUrl);
         }
     }, [tabFromUrl]);
@@ -87,14 +103,16 @@ export default function HostDashboardPage() {
             setLoading(true);
 
             try {
-                const [propertiesData, bookingsData] = await Promise.all([
+                const [propertiesData, bookingsData, payoutMethodReady] = await Promise.all([
                     getHostProperties(currentUser.uid),
                     getHostBookings(currentUser.uid),
+                    hasDefaultPayoutMethod(currentUser.uid),
                 ]);
                 console.log('HostDashboard: Fetched properties:', propertiesData.length);
                 console.log('HostDashboard: Fetched bookings:', bookingsData.length);
                 setProperties(propertiesData);
                 setBookings(bookingsData);
+                setHasPayoutMethod(payoutMethodReady);
                 setDataFetched(true);
             } catch (error) {
                 console.error('Error fetching data:', error);
@@ -107,16 +125,19 @@ export default function HostDashboardPage() {
         fetchData();
     }, [currentUser, authLoading, dataFetched]);
 
-    const pendingBookings = bookings.filter((b) => b.status === 'pending');
+    const pendingBookings = bookings.filter((b) => b.status === 'pending' && isBookingActive(b));
     const upcomingBookings = bookings.filter(
         (b) => b.status === 'confirmed' && toDate(b.checkIn) > new Date()
     );
     const activeListings = properties.filter((p) => p.status === 'active');
 
+    // Hosts are paid in their listings' currency
+    const earningsCurrency = getPricingCurrency(properties[0]?.pricing);
+
     const calculateTotalEarnings = () => {
         return bookings
             .filter((b) => b.status === 'completed' || b.status === 'confirmed')
-            .reduce((sum, b) => sum + b.pricing.total, 0);
+            .reduce((sum, b) => sum + calculateHostPayout(b.pricing, b.refundBreakdown).amount, 0);
     };
 
     const handleBookingAction = async (action: string, bookingId: string) => {
@@ -124,85 +145,98 @@ export default function HostDashboardPage() {
             setConfirmDialog({ isOpen: true, action, bookingId });
         } else if (action === 'cancel') {
             setConfirmDialog({ isOpen: true, action: 'cancel', bookingId });
+        } else if (action === 'accept_modification' || action === 'decline_modification') {
+            await handleModificationResponse(bookingId, action === 'accept_modification');
+        } else if (action === 'invoice') {
+            const booking = bookings.find(b => b.id === bookingId);
+            if (!booking) return;
+            try {
+                downloadBookingReceipt(booking, properties.find((p) => p.id === booking.propertyId), 'invoice');
+            } catch (error) {
+                console.error('Error generating invoice:', error);
+                toast.error('Failed to generate invoice');
+            }
+        } else if (action === 'damage_claim') {
+            setDamageClaimBooking(bookings.find(b => b.id === bookingId) ?? null);
         }
     };
 
-    const handleConfirmAction = async () => {
-        const { action, bookingId } = confirmDialog;
-        if (!action || !bookingId) return;
+    const handleModificationResponse = async (bookingId: string, accept: boolean) => {
+        const booking = bookings.find(b => b.id === bookingId);
+        if (!booking) return;
 
         setActionLoading(bookingId);
         try {
-            // Find the booking to get guest info
-            const booking = bookings.find(b => b.id === bookingId);
+            const update = await respondToBookingModification(bookingId, accept);
+            setBookings(prev => prev.map(b =>
+                b.id === bookingId ? { ...b, ...update } : b
+            ));
+            toast.success(accept ? 'Change accepted' : 'Change declined');
 
-            if (action === 'accept') {
-                await updateBookingStatus(bookingId, 'confirmed');
-                setBookings(prev => prev.map(b =>
-                    b.id === bookingId ? { ...b, status: 'confirmed' as const } : b
-                ));
-                toast.success('Booking confirmed successfully!');
-
-                // Send notification to guest
-                if (booking) {
-                    try {
-                        // Get property details for the notification
-                        const property = await getProperty(booking.propertyId);
-                        const propertyName = property?.title || 'your booked property';
-                        const checkInDate = toDate(booking.checkIn).toLocaleDateString();
-                        const checkOutDate = toDate(booking.checkOut).toLocaleDateString();
-
-                        await createNotification(
-                            booking.guestId,
-                            'booking',
-                            'Booking Confirmed! 🎉',
-                            `Great news! Your reservation at "${propertyName}" from ${checkInDate} to ${checkOutDate} has been confirmed by the host.`,
-                            {
-                                bookingId: booking.id,
-                                propertyId: booking.propertyId,
-                                action: 'confirmed'
-                            }
-                        );
-                    } catch (notifError) {
-                        console.error('Failed to send notification:', notifError);
-                        // Don't show error to user - booking was still confirmed
-                    }
-                }
-            } else if (action === 'decline' || action === 'cancel') {
-                await updateBookingStatus(bookingId, 'cancelled', action === 'decline' ? 'Declined by host' : 'Cancelled by host');
-                setBookings(prev => prev.map(b =>
-                    b.id === bookingId ? { ...b, status: 'cancelled' as const } : b
-                ));
-                toast.success(action === 'decline' ? 'Booking declined' : 'Booking cancelled');
-
-                // Send notification to guest about declined/cancelled booking
-                if (booking) {
-                    try {
-                        const property = await getProperty(booking.propertyId);
-                        const propertyName = property?.title || 'the property';
-                        const checkInDate = toDate(booking.checkIn).toLocaleDateString();
-                        const checkOutDate = toDate(booking.checkOut).toLocaleDateString();
-                        const actionText = action === 'decline' ? 'declined' : 'cancelled';
-
-                        await createNotification(
-                            booking.guestId,
-                            'booking',
-                            `Booking ${action === 'decline' ? 'Declined' : 'Cancelled'}`,
-                            `Unfortunately, your reservation at "${propertyName}" from ${checkInDate} to ${checkOutDate} has been ${actionText} by the host. You can search for other available properties.`,
-                            {
-                                bookingId: booking.id,
-                                propertyId: booking.propertyId,
-                                action: actionText
-                            }
-                        );
-                    } catch (notifError) {
-                        console.error('Failed to send notification:', notifError);
+            try {
+                const property = properties.find((p) => p.id === booking.propertyId);
+                const propertyName = property?.title || 'the property';
+
+                await createNotification(
+                    booking.guestId,
+                    'booking',
+                    accept ? 'Change Request Accepted' : 'Change Request Declined',
+                    accept
+                        ? `Your requested changes to your reservation at "${propertyName}" have been accepted by the host.`
+                        : `The host declined your requested changes to your reservation at "${propertyName}". Your original reservation still stands.`,
+                    {
+                        bookingId: booking.id,
+                        propertyId: booking.propertyId,
+                        action: accept ? 'modification_accepted' : 'modification_declined'
                     }
-                }
+                );
+            } catch (notifError) {
+                console.error('Failed to send notification:', notifError);
             }
+        } catch (error) {
+            console.error('Error responding to change request:', error);
+            if (error instanceof BookingConflictError) {
+                toast.error('Those dates are no longer available. Please decline the change.');
+            } else {
+                toast.error(`Failed to ${accept ? 'accept' : 'decline'} change`);
+            }
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleConfirmAction = async () => {
+        const { action, bookingId } = confirmDialog;
+        if (!action || !bookingId) return;
+
+        const booking = bookings.find(b => b.id === bookingId);
+        if (!booking) return;
+
+        setActionLoading(bookingId);
+        try {
+            // Status changes, refunds and guest notifications go through the booking lifecycle
+            const update = await transitionBooking(booking, action, 'host', {
+                property: properties.find((p) => p.id === booking.propertyId),
+            });
+            setBookings(prev => prev.map(b =>
+                b.id === bookingId ? { ...b, ...update } : b
+            ));
+            toast.success(
+                action === 'accept'
+                    ? 'Booking confirmed successfully!'
+                    : action === 'decline'
+                        ? 'Booking declined'
+                        : 'Booking cancelled'
+            );
         } catch (error) {
             console.error('Error updating booking:', error);
-            toast.error(`Failed to ${action} booking`);
+            if (error instanceof InvalidBookingTransitionError) {
+                toast.error('This booking can no longer be changed');
+            } else if (error instanceof PayoutMethodRequiredError) {
+                toast.error('Add a payout method in your profile before accepting paid bookings');
+            } else {
+                toast.error(`Failed to ${action} booking`);
+            }
         } finally {
             setActionLoading(null);
             setConfirmDialog({ isOpen: false, action: null, bookingId: null });
@@ -246,6 +280,9 @@ export default function HostDashboardPage() {
                 toast.success('Property deleted successfully!');
             } else if (action === 'toggle') {
                 const newStatus = currentStatus === 'active' ? 'paused' : 'active';
+                if (newStatus === 'active' && currentUser) {
+                    await requireDefaultPayoutMethod(currentUser.uid);
+                }
                 await updateProperty(propertyId, { status: newStatus });
                 setProperties(prev => prev.map(p =>
                     p.id === propertyId ? { ...p, status: newStatus } : p
@@ -254,7 +291,11 @@ export default function HostDashboardPage() {
             }
         } catch (error) {
             console.error('Error updating property:', error);
-            toast.error(`Failed to ${action === 'delete' ? 'delete' : 'update'} property`);
+            if (error instanceof PayoutMethodRequiredError) {
+                toast.error('Add a payout method in your profile before publishing listings');
+            } else {
+                toast.error(`Failed to ${action === 'delete' ? 'delete' : 'update'} property`);
+            }
         } finally {
             setActionLoading(null);
             setPropertyConfirmDialog({ isOpen: false, action: null, propertyId: null, propertyTitle: '', currentStatus: '' });
@@ -266,6 +307,7 @@ export default function HostDashboardPage() {
         { id: 'listings', label: 'Listings' },
         { id: 'reservations', label: 'Reservations' },
         { id: 'earnings', label: 'Earnings' },
+        { id: 'promotions', label: 'Promotions' },
     ];
 
     // Show loading while auth is loading or data is being fetched
@@ -301,6 +343,18 @@ export default function HostDashboardPage() {
                 </Link>
             </div>
 
+            {/* Payout method reminder */}
+            {!hasPayoutMethod && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-xl">
+                    <p className="text-sm text-yellow-800">
+                        Add a payout method to publish listings and accept paid bookings.
+                    </p>
+                    <Link to="/profile" className="flex-shrink-0">
+                        <Button size="sm" variant="outline">Add payout method</Button>
+                    </Link>
+                </div>
+            )}
+
             {/* Tabs */}
             <div className="border-b border-secondary-200 mb-4 sm:mb-8 overflow-x-auto">
                 <div className="flex space-x-4 sm:space-x-8 min-w-max">
@@ -342,7 +396,7 @@ export default function HostDashboardPage() {
                         <div className="bg-white border border-secondary-200 rounded-xl p-6">
                             <p className="text-sm text-secondary-500">Total Earnings</p>
                             <p className="text-3xl font-bold mt-2 text-green-600">
-                                ₱{calculateTotalEarnings().toLocaleString()}
+                                {formatMoney(calculateTotalEarnings(), earningsCurrency)}
                             </p>
                         </div>
                     </div>
@@ -431,6 +485,7 @@ export default function HostDashboardPage() {
                                     property={property}
                                     bookings={bookings}
                                     onEdit={() => handleEditProperty(property.id)}
+                                    onCalendar={() => navigate(`/host/listings/${property.id}/calendar`)}
                                     onDelete={() => handleDeleteProperty(property)}
                                     onToggleStatus={() => handleTogglePropertyStatus(property)}
                                 />
@@ -482,6 +537,10 @@ export default function HostDashboardPage() {
 
             {activeTab === 'earnings' && <EarningsSummary />}
 
+            {activeTab === 'promotions' && currentUser && (
+                <PromoCodesSection hostId={currentUser.uid} properties={properties} />
+            )}
+
             {/* Confirmation Dialog for booking actions */}
             <ConfirmDialog
                 isOpen={confirmDialog.isOpen}
@@ -506,6 +565,19 @@ export default function HostDashboardPage() {
                 loading={!!actionLoading}
             />
 
+            {damageClaimBooking && (
+                <DamageClaimModal
+                    key={damageClaimBooking.id}
+                    isOpen
+                    onClose={() => setDamageClaimBooking(null)}
+                    booking={damageClaimBooking}
+                    propertyName={properties.find((p) => p.id === damageClaimBooking.propertyId)?.title || 'the property'}
+                    onFiled={(update) => setBookings(prev => prev.map(b =>
+                        b.id === damageClaimBooking.id ? { ...b, ...update } : b
+                    ))}
+                />
+            )}
+
             {/* Confirmation Dialog for property actions */}
             <ConfirmDialog
                 isOpen={propertyConfirmDialog.isOpen}
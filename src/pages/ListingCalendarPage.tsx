@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { parseISO } from 'date-fns';
+import type { Property } from '../types';
+import { getPropertyById, updateProperty } from '../services/propertyService';
+import { getAllBlockedDates } from '../services/calendarSyncService';
+import { toDateKey } from '../services/pricingService';
+import { useAuth } from '../contexts/AuthContext';
+import { AvailabilityCalendar, CalendarSyncSection } from '../components/host';
+import { Spinner } from '../components/ui';
+import toast from 'react-hot-toast';
+
+export default function ListingCalendarPage() {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { currentUser } = useAuth();
+    const [property, setProperty] = useState<Property | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchProperty = async () => {
+            if (!id || !currentUser) return;
+
+            try {
+                const propertyData = await getPropertyById(id);
+                if (!propertyData || propertyData.hostId !== currentUser.uid) {
+                    toast.error('Listing not found');
+                    navigate('/host?tab=listings');
+                    return;
+                }
+                setProperty(propertyData);
+            } catch (error) {
+                console.error('Error fetching property:', error);
+                toast.error('Failed to load listing');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchProperty();
+    }, [id, currentUser, navigate]);
+
+    const handleBlockDates = async (dates: Date[]) => {
+        if (!property) return;
+
+        const dateKeys = dates.map(toDateKey);
+        const blockedDates = [...new Set([...(property.blockedDates || []), ...dateKeys])].sort();
+        try {
+            await updateProperty(property.id, { blockedDates });
+            setProperty({ ...property, blockedDates });
+            toast.success(`${dates.length} date${dates.length !== 1 ? 's' : ''} blocked`);
+        } catch (error) {
+            console.error('Error blocking dates:', error);
+            toast.error('Failed to block dates');
+        }
+    };
+
+    if (loading || !property) {
+        return (
+            <div className="flex justify-center py-24">
+                <Spinner size="lg" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto px-3 sm:px-4 py-4 sm:py-8 space-y-6">
+            <div>
+                <Link to="/host?tab=listings" className="text-sm text-secondary-600 hover:underline">
+                    ← Back to listings
+                </Link>
+                <h1 className="text-2xl sm:text-3xl font-semibold mt-2">{property.title}</h1>
+                <p className="text-secondary-500">Calendar and sync</p>
+            </div>
+
+            <AvailabilityCalendar
+                propertyId={property.id}
+                blockedDates={getAllBlockedDates(property).map((date) => parseISO(date))}
+                onBlockDates={handleBlockDates}
+            />
+
+            <CalendarSyncSection
+                property={property}
+                onExternalDatesChange={(externalBlockedDates) =>
+                    setProperty((prev) => (prev ? { ...prev, externalBlockedDates } : prev))
+                }
+            />
+        </div>
+    );
+}
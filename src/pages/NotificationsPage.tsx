@@ -61,6 +61,13 @@ export default function NotificationsPage() {
             case 'review':
                 navigate('/host');
                 break;
+            case 'search':
+                if (notification.data?.propertyId) {
+                    navigate(`/property/${notification.data.propertyId}`);
+                } else if (notification.data?.searchQuery !== undefined) {
+                    navigate(`/search?${notification.data.searchQuery}`);
+                }
+                break;
             default:
                 break;
         }
@@ -103,6 +110,14 @@ export default function NotificationsPage() {
                         </svg>
                     </div>
                 );
+            case 'search':
+                return (
+                    <div className="w-12 h-12 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
+                        <svg className="w-6 h-6 text-primary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                        </svg>
+                    </div>
+                );
             case 'payout':
                 return (
                     <div className="w-12 h-12 rounded-full bg-purple-100 flex items-center justify-center flex-shrink-0">
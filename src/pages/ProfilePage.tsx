@@ -7,6 +7,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { uploadProfilePhoto } from '../services/storageService';
 import { Button, Input, Avatar, Spinner } from '../components/ui';
 import { Modal } from '../components/ui/Modal';
+import { PayoutMethodsSection } from '../components/host';
+import { SavedSearchesSection } from '../components/search';
 import toast from 'react-hot-toast';
 
 const profileSchema = z.object({
@@ -259,6 +261,12 @@ export default function ProfilePage() {
                 </form>
             </div>
 
+            {/* Saved Searches */}
+            <SavedSearchesSection userId={currentUser.uid} />
+
+            {/* Payout Methods */}
+            <PayoutMethodsSection userId={currentUser.uid} />
+
             {/* Account Settings */}
             <div className="bg-white border border-secondary-200 rounded-xl p-6">
                 <h2 className="text-xl font-semibold mb-4">Account Settings</h2>
@@ -1,17 +1,40 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import type { Property, SearchFilters as SearchFiltersType, PropertyType } from '../types';
-import { searchProperties } from '../services/propertyService';
+import type { MapPoint, SearchFilters as SearchFiltersType, PropertyType, SortOption } from '../types';
+import { searchPropertiesByBounds, searchPropertiesByText } from '../services/propertyService';
+import type { PropertyCursor } from '../services/propertyService';
+import { getSearchArea } from '../services/geocodingService';
+import type { SearchArea } from '../services/geocodingService';
+import { parseDateSearchParams } from '../services/flexibleDatesService';
+import {
+    getMapSearchArea,
+    hasPolygon,
+    parseMapSearchParams,
+    setMapSearchParams,
+    toSearchBounds,
+} from '../services/mapSearchService';
+import type { GeoBounds } from '../services/geohashService';
+import { APP_CONFIG, SORT_OPTIONS } from '../config/constants';
 import { PropertyCard } from '../components/property';
 import { PropertyMap } from '../components/map';
-import { FilterSidebar } from '../components/search';
-import { Button, Spinner } from '../components/ui';
+import { FilterSidebar, SaveSearchModal } from '../components/search';
+import { useAuth } from '../contexts/AuthContext';
+import { useInfiniteFeed } from '../hooks/useCustomHooks';
+import type { FeedPage } from '../hooks/useCustomHooks';
+import toast from 'react-hot-toast';
+import { Button, Select, Spinner } from '../components/ui';
+
+// Next page of results: a page number in a map area, or the last listing read in a text search
+type SearchCursor = number | PropertyCursor;
 
 export default function SearchPage() {
     const [searchParams, setSearchParams] = useSearchParams();
-    const [properties, setProperties] = useState<Property[]>([]);
-    const [loading, setLoading] = useState(true);
+    const listRef = useRef<HTMLDivElement>(null);
+    const { currentUser } = useAuth();
+    const [showSaveModal, setShowSaveModal] = useState(false);
     const [showMap, setShowMap] = useState(false);
+    // Re-search the map's view as the guest moves it; on when a shared link has a view
+    const [searchAsMapMoves, setSearchAsMapMoves] = useState(() => searchParams.has('bounds'));
     const [showFilters, setShowFilters] = useState(false);
     const [activePropertyId, setActivePropertyId] = useState<string | undefined>();
 
@@ -23,13 +46,13 @@ export default function SearchPage() {
 
     const parseFiltersFromParams = () => ({
         location: searchParams.get('location') || undefined,
-        checkIn: searchParams.get('checkIn') ? new Date(searchParams.get('checkIn')!) : undefined,
-        checkOut: searchParams.get('checkOut') ? new Date(searchParams.get('checkOut')!) : undefined,
+        ...parseDateSearchParams(searchParams),
+        ...parseMapSearchParams(searchParams),
         guests: parseGuests(searchParams.get('guests')),
         propertyType: (searchParams.get('types')?.split(',').filter(Boolean) || []) as PropertyType[],
         priceRange: {
             min: searchParams.get('minPrice') ? parseInt(searchParams.get('minPrice')!) : 0,
-            max: searchParams.get('maxPrice') ? parseInt(searchParams.get('maxPrice')!) : 100000,
+            max: searchParams.get('maxPrice') ? parseInt(searchParams.get('maxPrice')!) : APP_CONFIG.SEARCH_MAX_PRICE,
         },
         bedrooms: searchParams.get('bedrooms') ? parseInt(searchParams.get('bedrooms')!) : undefined,
         beds: searchParams.get('beds') ? parseInt(searchParams.get('beds')!) : undefined,
@@ -40,36 +63,171 @@ export default function SearchPage() {
 
     const [filters, setFilters] = useState<SearchFiltersType>(parseFiltersFromParams());
 
+    // Unset means the default order: nearest first in a map area, best match otherwise
+    const sortParam = searchParams.get('sort');
+    const sortBy = SORT_OPTIONS.some((option) => option.id === sortParam) ? sortParam as SortOption : undefined;
+
     // Update filters when URL search params change
     useEffect(() => {
         setFilters(parseFiltersFromParams());
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [searchParams]);
 
-    useEffect(() => {
-        const fetchProperties = async () => {
-            setLoading(true);
-            try {
-                const results = await searchProperties(filters);
-                setProperties(results);
-            } catch (error) {
-                console.error('Error searching properties:', error);
-            } finally {
-                setLoading(false);
+    const feedKey = `search:${JSON.stringify(filters)}:${sortBy ?? ''}`;
+
+    // The first page decides whether the location is a map area (kept as the feed's meta)
+    // or text to match against the listings
+    const loadSearchPage = async (
+        cursor: SearchCursor | null,
+        area: SearchArea | null | undefined
+    ): Promise<FeedPage<SearchCursor, SearchArea | null>> => {
+        if (cursor === null) {
+            // A map search covers the map view or drawn area, whatever it finds there
+            const mapArea = getMapSearchArea(filters);
+            if (mapArea) {
+                const result = await searchPropertiesByBounds(mapArea.bounds, filters, { center: mapArea.center, sortBy });
+                return { ...result, cursor: result.hasMore ? 1 : null, meta: mapArea };
+            }
+
+            const found = filters.location ? await getSearchArea(filters.location) : null;
+            if (found) {
+                const result = await searchPropertiesByBounds(found.bounds, filters, { center: found.center, sortBy });
+                if (result.candidates.length > 0) {
+                    return { ...result, cursor: result.hasMore ? 1 : null, meta: found };
+                }
             }
+        } else if (typeof cursor === 'number' && area) {
+            const result = await searchPropertiesByBounds(area.bounds, filters, {
+                center: area.center,
+                sortBy,
+                page: cursor,
+            });
+            // The area's candidates all came with the first page
+            return {
+                properties: result.properties,
+                total: result.total,
+                hasMore: result.hasMore,
+                cursor: result.hasMore ? cursor + 1 : null,
+            };
+        }
+
+        // Text the geocoder doesn't know, or that names a place with no listings
+        // (like "beach house"), is matched against the listings' own text
+        const result = await searchPropertiesByText(filters, {
+            sortBy: sortBy && sortBy !== 'distance' ? sortBy : 'relevance',
+            cursor: typeof cursor === 'number' ? null : cursor,
+        });
+        return {
+            properties: result.properties,
+            candidates: result.candidates,
+            stays: result.stays,
+            cursor: result.cursor,
+            hasMore: result.hasMore,
+            meta: null,
         };
+    };
 
-        fetchProperties();
-    }, [filters]);
+    const {
+        properties,
+        candidates,
+        stays,
+        total,
+        meta,
+        hasMore,
+        loading,
+        loadingMore,
+        sentinelRef,
+    } = useInfiniteFeed<SearchCursor, SearchArea | null>(
+        feedKey,
+        loadSearchPage,
+        listRef
+    );
+    // Set when the location geocodes, so results come from the map area rather than text
+    const searchArea = meta ?? null;
+    // Text searches don't know their total until every page is loaded
+    const resultCount = total ?? properties.length;
 
     const handleFilterChange = (newFilters: Partial<SearchFiltersType>) => {
         setFilters((prev) => ({ ...prev, ...newFilters }));
     };
 
+    // Sidebar refinements go in the URL, so they survive reloads and saved searches keep them
+    const handleApplyRefinements = (refinements: Partial<SearchFiltersType>) => {
+        setSearchParams((prev) => {
+            const setParam = (key: string, value: string | undefined) => {
+                if (value) {
+                    prev.set(key, value);
+                } else {
+                    prev.delete(key);
+                }
+            };
+            const { priceRange } = refinements;
+            setParam('types', refinements.propertyType?.join(','));
+            setParam('minPrice', priceRange && priceRange.min > 0 ? String(priceRange.min) : undefined);
+            setParam('maxPrice', priceRange && priceRange.max < APP_CONFIG.SEARCH_MAX_PRICE
+                ? String(priceRange.max)
+                : undefined);
+            setParam('bedrooms', refinements.bedrooms ? String(refinements.bedrooms) : undefined);
+            setParam('bathrooms', refinements.bathrooms ? String(refinements.bathrooms) : undefined);
+            setParam('amenities', refinements.amenities?.join(','));
+            setParam('instantBook', refinements.instantBook ? 'true' : undefined);
+            return prev;
+        });
+    };
+
     const handlePropertyHover = (propertyId: string) => {
         setActivePropertyId(propertyId);
     };
 
+    const handleSaveSearch = () => {
+        if (!currentUser) {
+            toast.error('Please log in to save searches');
+            return;
+        }
+        setShowSaveModal(true);
+    };
+
+    // Distance needs a map area to measure from
+    const sortOptions = SORT_OPTIONS.filter((option) => option.id !== 'distance' || searchArea);
+    const activeSort = sortOptions.some((option) => option.id === sortBy)
+        ? sortBy!
+        : searchArea ? 'distance' : 'relevance';
+
+    const handleSortChange = (value: SortOption) => {
+        setSearchParams((prev) => {
+            prev.set('sort', value);
+            return prev;
+        });
+    };
+
+    // The view replaces the last one in history, so Back leaves the map search
+    const handleMapMove = (bounds: GeoBounds) => {
+        // A drawn area stays the search area however the map moves
+        if (hasPolygon(filters)) return;
+        setSearchParams((prev) => {
+            setMapSearchParams(prev, { mapBounds: toSearchBounds(bounds) });
+            return prev;
+        }, { replace: true });
+    };
+
+    const handleSearchAsMapMovesChange = (enabled: boolean) => {
+        setSearchAsMapMoves(enabled);
+        if (!enabled && filters.mapBounds) {
+            // Back to searching by the location
+            setSearchParams((prev) => {
+                setMapSearchParams(prev, { polygon: filters.polygon });
+                return prev;
+            });
+        }
+    };
+
+    const handlePolygonChange = (polygon: MapPoint[] | null) => {
+        setSearchParams((prev) => {
+            setMapSearchParams(prev, { mapBounds: filters.mapBounds, polygon: polygon ?? undefined });
+            return prev;
+        });
+    };
+
     const toggleMap = () => {
         setShowMap(!showMap);
         setSearchParams((prev) => {
@@ -113,9 +271,25 @@ export default function SearchPage() {
                     </div>
 
                     <div className="flex items-center gap-2 sm:gap-3">
+                        <div className="hidden sm:block w-44">
+                            <Select
+                                aria-label="Sort by"
+                                value={activeSort}
+                                onChange={(e) => handleSortChange(e.target.value as SortOption)}
+                                className="py-1.5 text-sm"
+                                options={sortOptions.map((option) => ({ value: option.id, label: option.name }))}
+                            />
+                        </div>
                         <span className="text-xs sm:text-sm text-secondary-500 whitespace-nowrap">
-                            {properties.length} <span className="hidden sm:inline">{properties.length === 1 ? 'property' : 'properties'}</span>
+                            {resultCount}{total === undefined && hasMore ? '+' : ''}{' '}
+                            <span className="hidden sm:inline">{resultCount === 1 ? 'property' : 'properties'}</span>
                         </span>
+                        <Button variant="outline" size="sm" onClick={handleSaveSearch} className="px-2 sm:px-3 whitespace-nowrap">
+                            <svg className="w-4 h-4 sm:mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                            </svg>
+                            <span className="hidden sm:inline">Save search</span>
+                        </Button>
                         <Button variant="outline" size="sm" onClick={toggleMap} className="px-2 sm:px-3 whitespace-nowrap">
                             <svg className="w-4 h-4 sm:mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
@@ -138,6 +312,9 @@ export default function SearchPage() {
                         />
                         <div className="fixed left-0 top-0 h-full w-80 max-w-[85vw] border-r border-secondary-200 overflow-y-auto bg-white z-40 lg:relative lg:z-auto">
                             <FilterSidebar
+                                filters={filters}
+                                candidates={candidates}
+                                onApply={handleApplyRefinements}
                                 onClose={() => setShowFilters(false)}
                             />
                         </div>
@@ -145,7 +322,7 @@ export default function SearchPage() {
                 )}
 
                 {/* Properties List */}
-                <div className={`flex-1 overflow-y-auto transition-all duration-300 ${showMap ? 'hidden lg:block lg:w-1/2' : 'w-full'}`}>
+                <div ref={listRef} className={`flex-1 overflow-y-auto transition-all duration-300 ${showMap ? 'hidden lg:block lg:w-1/2' : 'w-full'}`}>
                     <div className="p-2 sm:p-4">
                         {loading ? (
                             <div className="flex justify-center py-20">
@@ -179,7 +356,7 @@ export default function SearchPage() {
                                     size="sm"
                                     onClick={() => {
                                         setFilters({
-                                            priceRange: { min: 0, max: 100000 },
+                                            priceRange: { min: 0, max: APP_CONFIG.SEARCH_MAX_PRICE },
                                             propertyType: [],
                                             amenities: [],
                                             location: undefined,
@@ -201,11 +378,21 @@ export default function SearchPage() {
                                         onMouseEnter={() => handlePropertyHover(property.id)}
                                         onMouseLeave={() => setActivePropertyId(undefined)}
                                     >
-                                        <PropertyCard property={property} />
+                                        <PropertyCard
+                                            property={property}
+                                            stay={stays?.has(property.id)
+                                                ? { ...stays.get(property.id)!, guests: filters.guests }
+                                                : undefined}
+                                        />
                                     </div>
                                 ))}
                             </div>
                         )}
+
+                        {/* Loads the next page as it scrolls into view */}
+                        <div ref={sentinelRef} className="flex justify-center py-6">
+                            {loadingMore && <Spinner />}
+                        </div>
                     </div>
                 </div>
 
@@ -215,8 +402,23 @@ export default function SearchPage() {
                         <PropertyMap
                             properties={properties}
                             activePropertyId={activePropertyId}
+                            fitBoundsKey={feedKey}
+                            fitToMarkers={!searchAsMapMoves}
+                            initialBounds={filters.mapBounds}
+                            onBoundsChange={searchAsMapMoves ? handleMapMove : undefined}
+                            polygon={filters.polygon}
+                            onPolygonChange={handlePolygonChange}
                             className="h-full w-full"
                         />
+                        <label className="absolute left-4 top-4 z-[1000] flex items-center gap-2 px-3 py-2 bg-white rounded-lg shadow-md text-sm font-medium cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={searchAsMapMoves}
+                                onChange={(e) => handleSearchAsMapMovesChange(e.target.checked)}
+                                className="w-4 h-4 rounded border-secondary-300 text-primary-500 focus:ring-primary-500"
+                            />
+                            Search as I move the map
+                        </label>
                         {/* Mobile: Show list button overlay */}
                         <button
                             onClick={toggleMap}
@@ -243,6 +445,16 @@ export default function SearchPage() {
                     </button>
                 )}
             </div>
+
+            {showSaveModal && currentUser && (
+                <SaveSearchModal
+                    isOpen
+                    onClose={() => setShowSaveModal(false)}
+                    userId={currentUser.uid}
+                    filters={filters}
+                    bounds={searchArea?.bounds}
+                />
+            )}
         </div>
     );
 }
@@ -1,10 +1,16 @@
 import { useState, useEffect } from 'react';
-import type { Booking, Property } from '../types';
-import { getGuestBookings, updateBookingStatus } from '../services/bookingService';
+import type { Booking, BookingModification, Property } from '../types';
+import { getGuestBookings } from '../services/bookingService';
+import { quoteBookingRefund } from '../services/refundService';
+import { transitionBooking } from '../services/bookingLifecycleService';
+import { respondToDamageClaim } from '../services/securityDepositService';
+import { formatMoney } from '../services/currencyService';
 import { getPropertyById } from '../services/propertyService';
+import { downloadBookingReceipt } from '../services/receiptService';
+import { createNotification } from '../services/notificationService';
 import { useAuth } from '../contexts/AuthContext';
-import { BookingCard } from '../components/booking';
-import { Spinner, Button, ConfirmDialog } from '../components/ui';
+import { BookingCard, ModifyBookingModal, RefundPreview } from '../components/booking';
+import { Spinner, Button, ConfirmDialog, Textarea } from '../components/ui';
 import toast from 'react-hot-toast';
 
 type TabType = 'upcoming' | 'past' | 'cancelled';
@@ -21,6 +27,14 @@ export default function TripsPage() {
     const [bookingToCancel, setBookingToCancel] = useState<string | null>(null);
     const [cancelling, setCancelling] = useState(false);
 
+    // Change request state
+    const [bookingToModify, setBookingToModify] = useState<string | null>(null);
+
+    // Damage claim response state
+    const [claimResponse, setClaimResponse] = useState<{ bookingId: string; accept: boolean } | null>(null);
+    const [disputeReason, setDisputeReason] = useState('');
+    const [respondingToClaim, setRespondingToClaim] = useState(false);
+
     useEffect(() => {
         const fetchBookings = async () => {
             if (!currentUser) return;
@@ -69,11 +83,11 @@ export default function TripsPage() {
 
             switch (tab) {
                 case 'upcoming':
-                    return checkOut >= now && booking.status !== 'cancelled';
+                    return checkOut >= now && booking.status !== 'cancelled' && booking.status !== 'expired';
                 case 'past':
-                    return checkOut < now && booking.status !== 'cancelled';
+                    return checkOut < now && booking.status !== 'cancelled' && booking.status !== 'expired';
                 case 'cancelled':
-                    return booking.status === 'cancelled';
+                    return booking.status === 'cancelled' || booking.status === 'expired';
                 default:
                     return true;
             }
@@ -82,10 +96,29 @@ export default function TripsPage() {
 
     const handleAction = async (action: string, bookingId: string) => {
         switch (action) {
+            case 'modify':
+                setBookingToModify(bookingId);
+                break;
             case 'cancel':
                 setBookingToCancel(bookingId);
                 setCancelDialogOpen(true);
                 break;
+            case 'receipt': {
+                const booking = bookings.find((b) => b.id === bookingId);
+                if (!booking) break;
+                try {
+                    downloadBookingReceipt(booking, properties[booking.propertyId]);
+                } catch (error) {
+                    console.error('Error generating receipt:', error);
+                    toast.error('Failed to generate receipt');
+                }
+                break;
+            }
+            case 'accept_claim':
+            case 'dispute_claim':
+                setClaimResponse({ bookingId, accept: action === 'accept_claim' });
+                setDisputeReason('');
+                break;
             case 'review':
                 // TODO: Open review modal
                 toast('Review feature coming soon');
@@ -93,15 +126,22 @@ export default function TripsPage() {
         }
     };
 
+    const bookingBeingCancelled = bookings.find((b) => b.id === bookingToCancel);
+    const refundQuote = bookingBeingCancelled
+        ? quoteBookingRefund(bookingBeingCancelled, properties[bookingBeingCancelled.propertyId])
+        : null;
+
     const handleConfirmCancel = async () => {
-        if (!bookingToCancel) return;
+        if (!bookingBeingCancelled) return;
 
         setCancelling(true);
         try {
-            await updateBookingStatus(bookingToCancel, 'cancelled', 'Cancelled by guest');
+            const update = await transitionBooking(bookingBeingCancelled, 'cancel', 'guest', {
+                property: properties[bookingBeingCancelled.propertyId],
+            });
             // Update local state
             setBookings(prev => prev.map(b =>
-                b.id === bookingToCancel ? { ...b, status: 'cancelled' as const } : b
+                b.id === bookingBeingCancelled.id ? { ...b, ...update } : b
             ));
             toast.success('Booking cancelled successfully');
             setCancelDialogOpen(false);
@@ -121,6 +161,68 @@ export default function TripsPage() {
         }
     };
 
+    const claimBooking = bookings.find((b) => b.id === claimResponse?.bookingId);
+    const claimAmount = claimBooking?.damageClaim && claimBooking.securityDeposit
+        ? formatMoney(claimBooking.damageClaim.amount, claimBooking.securityDeposit.currency)
+        : '';
+
+    const handleConfirmClaimResponse = async () => {
+        if (!claimResponse || !claimBooking) return;
+
+        if (!claimResponse.accept && !disputeReason.trim()) {
+            toast.error('Please tell us why you dispute the claim');
+            return;
+        }
+
+        setRespondingToClaim(true);
+        try {
+            const update = await respondToDamageClaim(
+                claimBooking,
+                claimResponse.accept,
+                properties[claimBooking.propertyId]?.title || 'the property',
+                disputeReason.trim() || undefined
+            );
+            setBookings(prev => prev.map(b =>
+                b.id === claimBooking.id ? { ...b, ...update } : b
+            ));
+            toast.success(claimResponse.accept ? 'Damage claim accepted' : 'Damage claim disputed');
+            setClaimResponse(null);
+        } catch (error) {
+            console.error('Error responding to damage claim:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to respond to damage claim');
+        } finally {
+            setRespondingToClaim(false);
+        }
+    };
+
+    const bookingBeingModified = bookings.find((b) => b.id === bookingToModify);
+
+    const handleModificationRequested = async (modification: BookingModification) => {
+        if (!bookingBeingModified) return;
+
+        setBookings(prev => prev.map(b =>
+            b.id === bookingBeingModified.id ? { ...b, modification } : b
+        ));
+
+        // Let the host know there is a change to review
+        try {
+            const propertyName = properties[bookingBeingModified.propertyId]?.title || 'your property';
+            await createNotification(
+                bookingBeingModified.hostId,
+                'booking',
+                'Change Request',
+                `A guest has requested changes to their reservation at "${propertyName}".`,
+                {
+                    bookingId: bookingBeingModified.id,
+                    propertyId: bookingBeingModified.propertyId,
+                    action: 'modification_requested'
+                }
+            );
+        } catch (notifError) {
+            console.error('Failed to send notification:', notifError);
+        }
+    };
+
     const filteredBookings = filterBookings(activeTab);
 
     const tabs: { id: TabType; label: string }[] = [
@@ -206,6 +308,18 @@ export default function TripsPage() {
                 </div>
             )}
 
+            {/* Change Request Modal */}
+            {bookingBeingModified && properties[bookingBeingModified.propertyId] && (
+                <ModifyBookingModal
+                    key={bookingBeingModified.id}
+                    isOpen
+                    onClose={() => setBookingToModify(null)}
+                    booking={bookingBeingModified}
+                    property={properties[bookingBeingModified.propertyId]}
+                    onRequested={handleModificationRequested}
+                />
+            )}
+
             {/* Cancel Confirmation Dialog */}
             <ConfirmDialog
                 isOpen={cancelDialogOpen}
@@ -217,7 +331,36 @@ export default function TripsPage() {
                 cancelText="Keep Booking"
                 variant="danger"
                 loading={cancelling}
-            />
+            >
+                {refundQuote && <RefundPreview quote={refundQuote} />}
+            </ConfirmDialog>
+
+            {/* Damage Claim Response Dialog */}
+            <ConfirmDialog
+                isOpen={!!claimResponse}
+                onClose={() => {
+                    if (!respondingToClaim) setClaimResponse(null);
+                }}
+                onConfirm={handleConfirmClaimResponse}
+                title={claimResponse?.accept ? 'Accept Damage Claim' : 'Dispute Damage Claim'}
+                message={
+                    claimResponse?.accept
+                        ? `${claimAmount} will be charged from your security deposit and the rest released.`
+                        : `${claimAmount} is kept from your security deposit while our support team reviews the claim with you and the host, and the rest is released.`
+                }
+                confirmText={claimResponse?.accept ? 'Accept Claim' : 'Dispute Claim'}
+                variant={claimResponse?.accept ? 'info' : 'danger'}
+                loading={respondingToClaim}
+            >
+                {claimResponse && !claimResponse.accept && (
+                    <Textarea
+                        label="Why do you dispute this claim?"
+                        value={disputeReason}
+                        onChange={(e) => setDisputeReason(e.target.value)}
+                        rows={3}
+                    />
+                )}
+            </ConfirmDialog>
         </div>
     );
 }
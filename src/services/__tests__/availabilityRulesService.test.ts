@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    getEarliestCheckIn,
+    getMinimumStay,
+    getPreparationNights,
+    getStayRuleViolation,
+    isCheckInAvailable,
+    isCheckOutAvailable,
+    isStayAvailable,
+} from '../availabilityRulesService';
+import type { StayRuleProperty } from '../availabilityRulesService';
+
+vi.mock('../../config/firebase', () => ({ db: {}, functions: {}, storage: {} }));
+
+// March 2027: the 1st is a Monday, the 5th a Friday
+const day = (date: number, hours = 0) => new Date(2027, 2, date, hours);
+const now = day(1, 12);
+
+const listing = (overrides: Partial<StayRuleProperty> = {}): StayRuleProperty => ({
+    minimumStay: 2,
+    maximumStay: 14,
+    advanceNotice: 0,
+    preparationTime: 0,
+    ...overrides,
+});
+
+describe('getMinimumStay', () => {
+    const property = listing({
+        availabilityRules: {
+            seasonalMinimumStays: [
+                { id: 'easter', name: 'Easter', startDate: '2027-03-25', endDate: '2027-03-29', minimumStay: 4 },
+            ],
+        },
+    });
+
+    it("uses the minimum of the season the stay checks in during, else the listing's", () => {
+        expect(getMinimumStay(property, day(26))).toBe(4);
+        expect(getMinimumStay(property, day(24))).toBe(2);
+        expect(getMinimumStay(listing({ minimumStay: 0 }), day(24))).toBe(1);
+    });
+});
+
+describe('getEarliestCheckIn', () => {
+    it('starts the day the advance notice ends', () => {
+        expect(getEarliestCheckIn(listing({ advanceNotice: 2 }), now)).toEqual(day(3));
+    });
+
+    it('closes same-day check-ins at the cutoff hour', () => {
+        const property = listing({ availabilityRules: { sameDayCutoffHour: 10 } });
+
+        expect(getEarliestCheckIn(property, day(1, 9))).toEqual(day(1));
+        expect(getEarliestCheckIn(property, day(1, 10))).toEqual(day(2));
+    });
+});
+
+describe('getStayRuleViolation', () => {
+    const violation = (property: StayRuleProperty, checkIn: Date, checkOut: Date) =>
+        getStayRuleViolation(property, checkIn, checkOut, now)?.violation ?? null;
+
+    it('checks the stay length', () => {
+        expect(violation(listing(), day(5), day(6))).toBe('too_short');
+        expect(violation(listing({ maximumStay: 3 }), day(5), day(9))).toBe('too_long');
+        expect(violation(listing(), day(5), day(7))).toBeNull();
+    });
+
+    it('checks the advance notice', () => {
+        expect(getStayRuleViolation(listing({ advanceNotice: 7 }), day(5), day(7), now)).toEqual({
+            violation: 'advance_notice',
+            message: 'The earliest available check-in is Mar 8',
+        });
+    });
+
+    it('checks the check-in and checkout days', () => {
+        const property = listing({ availabilityRules: { checkInDays: [5, 6], checkOutDays: [0, 1] } });
+
+        expect(getStayRuleViolation(property, day(4), day(7), now)).toEqual({
+            violation: 'check_in_day',
+            message: 'Check-in is only on Friday or Saturday',
+        });
+        expect(violation(property, day(5), day(9))).toBe('check_out_day');
+        expect(violation(property, day(5), day(8))).toBeNull();
+    });
+
+    it("skips the rules about a check-in that didn't move", () => {
+        // Mid-stay: the check-in is in the past, but the guest can still extend
+        const property = listing({ advanceNotice: 1, availabilityRules: { checkInDays: [5] } });
+        const previousStay = { checkIn: day(1), checkOut: day(3) };
+
+        expect(getStayRuleViolation(property, day(1), day(4), now, previousStay)).toBeNull();
+        expect(getStayRuleViolation(property, day(1), day(3), now, previousStay)).toBeNull();
+    });
+});
+
+describe('getPreparationNights', () => {
+    it('keeps nights free before check-in and after checkout', () => {
+        expect(getPreparationNights(listing({ preparationTime: 1 }), day(5), day(7)))
+            .toEqual(['2027-03-04', '2027-03-07']);
+        expect(getPreparationNights(listing(), day(5), day(7))).toEqual([]);
+    });
+});
+
+describe('isStayAvailable', () => {
+    const property = {
+        ...listing({ preparationTime: 1 }),
+        blockedDates: ['2027-03-10'],
+        externalBlockedDates: ['2027-03-15'],
+        bookedNights: ['2027-03-20'],
+    };
+
+    it('leaves out stays with a blocked or booked night', () => {
+        expect(isStayAvailable(property, day(9), day(11), now)).toBe(false);
+        expect(isStayAvailable(property, day(14), day(16), now)).toBe(false);
+        expect(isStayAvailable(property, day(5), day(7), now)).toBe(true);
+    });
+
+    it('leaves out stays whose preparation time runs into a booking', () => {
+        expect(isStayAvailable(property, day(18), day(20), now)).toBe(false);
+        expect(isStayAvailable(property, day(21), day(23), now)).toBe(false);
+        expect(isStayAvailable(property, day(17), day(19), now)).toBe(true);
+    });
+
+    it('leaves out stays that break the rules', () => {
+        expect(isStayAvailable(property, day(5), day(6), now)).toBe(false);
+    });
+});
+
+describe('isCheckInAvailable and isCheckOutAvailable', () => {
+    const property = listing({ preparationTime: 1 });
+    const taken = { blocked: ['2027-03-10'], booked: ['2027-03-20'] };
+
+    it('offers check-ins clear of taken nights and the last booking', () => {
+        expect(isCheckInAvailable(property, day(5), taken, now)).toBe(true);
+        expect(isCheckInAvailable(property, day(10), taken, now)).toBe(false);
+        expect(isCheckInAvailable(property, day(21), taken, now)).toBe(false);
+        expect(isCheckInAvailable(property, day(22), taken, now)).toBe(true);
+    });
+
+    it('offers checkouts that meet the stay length and clear the next booking', () => {
+        expect(isCheckOutAvailable(property, day(5), day(6), taken)).toBe(false);
+        expect(isCheckOutAvailable(property, day(5), day(7), taken)).toBe(true);
+        expect(isCheckOutAvailable(property, day(9), day(11), taken)).toBe(false);
+        expect(isCheckOutAvailable(property, day(17), day(20), taken)).toBe(false);
+        expect(isCheckOutAvailable(property, day(17), day(19), taken)).toBe(true);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { BOOKING_TRANSITIONS, canTransition } from '../bookingLifecycleService';
+import type { BookingEvent } from '../bookingLifecycleService';
+import type { Booking, BookingStatus } from '../../types';
+
+vi.mock('../../config/firebase', () => ({ db: {}, functions: {}, storage: {} }));
+
+const now = new Date(2027, 2, 10, 12);
+
+const booking = (status: BookingStatus, overrides: Partial<Booking> = {}): Booking => ({
+    id: 'booking-1',
+    status,
+    checkIn: Timestamp.fromDate(new Date(2027, 2, 20)),
+    checkOut: Timestamp.fromDate(new Date(2027, 2, 23)),
+    createdAt: Timestamp.fromDate(new Date(2027, 2, 10, 9)),
+    expiresAt: Timestamp.fromDate(new Date(2027, 2, 11, 9)),
+    ...overrides,
+} as Booking);
+
+describe('BOOKING_TRANSITIONS', () => {
+    it('ends every cancellation by freeing the nights and the deposit', () => {
+        for (const event of ['decline', 'cancel', 'expire'] as const) {
+            expect(BOOKING_TRANSITIONS[event].effects).toEqual(
+                expect.arrayContaining(['release_deposit', 'release_nights'])
+            );
+        }
+    });
+
+    it('only charges for a request once the host accepts it', () => {
+        expect(BOOKING_TRANSITIONS.accept.effects).toContain('capture_payment');
+        expect(BOOKING_TRANSITIONS.expire.effects).toContain('release_payment');
+        expect(BOOKING_TRANSITIONS.decline.effects).not.toContain('capture_payment');
+    });
+});
+
+describe('canTransition', () => {
+    it('lets the host answer a request that has not expired', () => {
+        expect(canTransition(booking('pending'), 'accept', 'host', now)).toBe(true);
+        expect(canTransition(booking('pending'), 'decline', 'host', now)).toBe(true);
+        expect(canTransition(booking('pending'), 'accept', 'guest', now)).toBe(false);
+    });
+
+    it("doesn't let the host accept a request past its expiry", () => {
+        const late = new Date(2027, 2, 11, 10);
+
+        expect(canTransition(booking('pending'), 'accept', 'host', late)).toBe(false);
+        expect(canTransition(booking('pending'), 'expire', 'system', late)).toBe(true);
+        expect(canTransition(booking('pending'), 'expire', 'system', now)).toBe(false);
+    });
+
+    it('lets either party cancel until checkout', () => {
+        expect(canTransition(booking('confirmed'), 'cancel', 'guest', now)).toBe(true);
+        expect(canTransition(booking('pending'), 'cancel', 'host', now)).toBe(true);
+        expect(canTransition(booking('confirmed'), 'cancel', 'guest', new Date(2027, 2, 23))).toBe(false);
+        expect(canTransition(booking('confirmed'), 'cancel', 'system', now)).toBe(false);
+    });
+
+    it('completes confirmed stays once checkout has passed', () => {
+        const afterCheckout = new Date(2027, 2, 23, 11);
+
+        expect(canTransition(booking('confirmed'), 'complete', 'system', afterCheckout)).toBe(true);
+        expect(canTransition(booking('confirmed'), 'complete', 'system', now)).toBe(false);
+        expect(canTransition(booking('pending'), 'complete', 'system', afterCheckout)).toBe(false);
+    });
+
+    it('moves finished bookings nowhere', () => {
+        for (const status of ['cancelled', 'completed', 'expired'] as BookingStatus[]) {
+            for (const event of Object.keys(BOOKING_TRANSITIONS) as BookingEvent[]) {
+                expect(canTransition(booking(status), event, 'host', now)).toBe(false);
+                expect(canTransition(booking(status), event, 'system', now)).toBe(false);
+            }
+        }
+    });
+});
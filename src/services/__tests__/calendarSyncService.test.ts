@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getImportedNights } from '../calendarSyncService';
+
+vi.mock('../../config/firebase', () => ({ db: {}, storage: {} }));
+
+// Nights are keyed by the host's local day; Manila is ahead of UTC all year
+process.env.TZ = 'Asia/Manila';
+
+const calendar = (...events: [string, string][]) => [
+    'BEGIN:VCALENDAR',
+    ...events.flatMap(([start, end], i) => [
+        'BEGIN:VEVENT',
+        `UID:event-${i}@example.com`,
+        `DTSTART;VALUE=DATE:${start}`,
+        `DTEND;VALUE=DATE:${end}`,
+        'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+].join('\r\n');
+
+describe('getImportedNights', () => {
+    it("imports from the host's today and through the last local day of the horizon", () => {
+        // 07:00 in Manila, still the evening before in UTC
+        const now = new Date(2026, 11, 20, 7);
+        const text = calendar(['20261218', '20261222'], ['20280619', '20280622']);
+
+        expect(getImportedNights(text, now)).toEqual(['2026-12-20', '2026-12-21', '2028-06-19', '2028-06-20']);
+    });
+});
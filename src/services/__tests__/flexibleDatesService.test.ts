@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    MAX_DATE_SHIFT,
+    MAX_FLEXIBLE_MONTHS,
+    MAX_TRIP_NIGHTS,
+    getCandidateStays,
+    parseDateSearchParams,
+    setDateSearchParams,
+} from '../flexibleDatesService';
+import type { SearchFilters } from '../../types';
+
+vi.mock('../../config/firebase', () => ({ db: {}, functions: {}, storage: {} }));
+
+const parse = (query: string) => parseDateSearchParams(new URLSearchParams(query));
+
+describe('parseDateSearchParams', () => {
+    it('reads flexible dates', () => {
+        expect(parse('months=2027-03,2027-04&trip=weekend')).toEqual({
+            flexibleDates: { months: ['2027-03', '2027-04'], tripLength: 'weekend' },
+        });
+        expect(parse('months=2027-03&trip=nights&nights=5')).toEqual({
+            flexibleDates: { months: ['2027-03'], tripLength: 'nights', nights: 5 },
+        });
+    });
+
+    it('keeps trip lengths within what the picker offers', () => {
+        expect(parse('months=2027-03&trip=nights&nights=100000').flexibleDates?.nights).toBe(MAX_TRIP_NIGHTS);
+        expect(parse('months=2027-03&trip=nights&nights=-3').flexibleDates?.nights).toBe(1);
+        expect(parse('months=2027-03&trip=nights&nights=lots').flexibleDates?.nights).toBe(1);
+    });
+
+    it('drops malformed and repeated months and keeps at most a year of them', () => {
+        const months = Array.from({ length: 30 }, (_, i) => `${2027 + Math.floor(i / 12)}-${String(i % 12 + 1).padStart(2, '0')}`);
+
+        expect(parse('months=2027-03,march,2027-3,2027-03&trip=week').flexibleDates?.months).toEqual(['2027-03']);
+        expect(parse(`months=${months.join(',')}&trip=week`).flexibleDates?.months)
+            .toEqual(months.slice(0, MAX_FLEXIBLE_MONTHS));
+    });
+
+    it('reads exact dates when the flexible dates are incomplete', () => {
+        expect(parse('months=2027-03&trip=fortnight&checkIn=2027-03-05T00:00:00.000Z&checkOut=2027-03-07T00:00:00.000Z'))
+            .toEqual({
+                checkIn: new Date('2027-03-05T00:00:00.000Z'),
+                checkOut: new Date('2027-03-07T00:00:00.000Z'),
+                dateShift: undefined,
+            });
+    });
+
+    it('keeps the date shift within range', () => {
+        expect(parse('dateShift=3').dateShift).toBe(3);
+        expect(parse('dateShift=30').dateShift).toBe(MAX_DATE_SHIFT);
+        expect(parse('dateShift=-2').dateShift).toBeUndefined();
+    });
+
+    it('reads back what setDateSearchParams writes', () => {
+        const filters: SearchFilters = {
+            checkIn: new Date(2027, 2, 5),
+            checkOut: new Date(2027, 2, 7),
+            dateShift: 2,
+        };
+        const params = new URLSearchParams();
+        setDateSearchParams(params, filters);
+
+        expect(parseDateSearchParams(params)).toEqual(filters);
+    });
+});
+
+describe('getCandidateStays', () => {
+    const now = new Date(2027, 2, 10, 12);
+
+    it('offers every weekend in the months from today on', () => {
+        const stays = getCandidateStays({ flexibleDates: { months: ['2027-03'], tripLength: 'weekend' } }, now);
+
+        expect(stays).toEqual([
+            { checkIn: new Date(2027, 2, 12), checkOut: new Date(2027, 2, 14) },
+            { checkIn: new Date(2027, 2, 19), checkOut: new Date(2027, 2, 21) },
+            { checkIn: new Date(2027, 2, 26), checkOut: new Date(2027, 2, 28) },
+        ]);
+    });
+
+    it('shifts exact dates by up to the date shift, keeping the trip length', () => {
+        const stays = getCandidateStays({ checkIn: new Date(2027, 2, 11), checkOut: new Date(2027, 2, 13), dateShift: 2 }, now);
+
+        expect(stays.map((stay) => stay.checkIn.getDate())).toEqual([10, 11, 12, 13]);
+        expect(stays.every((stay) => stay.checkOut.getDate() - stay.checkIn.getDate() === 2)).toBe(true);
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGeohash, getGeohashRanges, getRadiusBounds, isInBounds } from '../geohashService';
+import type { GeoBounds } from '../geohashService';
+
+// Whether one of the ranges takes in a point's stored geohash
+const covers = (ranges: [string, string][], lat: number, lng: number) => {
+    const hash = encodeGeohash(lat, lng);
+    return ranges.some(([start, end]) => hash >= start && hash <= end);
+};
+
+describe('encodeGeohash', () => {
+    it('encodes points to the stored precision', () => {
+        expect(encodeGeohash(57.64911, 10.40744)).toBe('u4pruydqqv');
+        expect(encodeGeohash(57.64911, 10.40744, 5)).toBe('u4pru');
+    });
+
+    it('gives nearby points a shared prefix', () => {
+        expect(encodeGeohash(10.3157, 123.8854).slice(0, 5)).toBe(encodeGeohash(10.3160, 123.8860).slice(0, 5));
+    });
+});
+
+describe('getGeohashRanges', () => {
+    const cebu: GeoBounds = { north: 10.45, south: 10.2, east: 124.05, west: 123.75 };
+
+    it('covers a box in a few ranges', () => {
+        const ranges = getGeohashRanges(cebu);
+
+        expect(ranges.length).toBeGreaterThan(0);
+        expect(ranges.length).toBeLessThanOrEqual(9);
+        for (const [lat, lng] of [[10.2, 123.75], [10.45, 124.05], [10.3157, 123.8854], [10.44, 123.76]]) {
+            expect(covers(ranges, lat, lng)).toBe(true);
+        }
+    });
+
+    it('splits a box across the antimeridian in two', () => {
+        const fiji: GeoBounds = { north: -16, south: -18, east: -179.5, west: 179.5 };
+        const ranges = getGeohashRanges(fiji);
+
+        expect(covers(ranges, -17, 179.8)).toBe(true);
+        expect(covers(ranges, -17, -179.8)).toBe(true);
+        expect(covers(ranges, -17, 0)).toBe(false);
+    });
+
+    it('queries everything for the whole world', () => {
+        expect(getGeohashRanges({ north: 90, south: -90, east: 180, west: -180 })).toEqual([['', '~']]);
+    });
+});
+
+describe('getRadiusBounds', () => {
+    it('spans the radius in degrees around the point', () => {
+        const bounds = getRadiusBounds({ lat: 0, lng: 0 }, 111.32);
+
+        expect(bounds.north).toBeCloseTo(1);
+        expect(bounds.south).toBeCloseTo(-1);
+        expect(bounds.east).toBeCloseTo(1);
+        expect(bounds.west).toBeCloseTo(-1);
+    });
+
+    it('wraps around the antimeridian and stops at the poles', () => {
+        const bounds = getRadiusBounds({ lat: 89.9, lng: 179.9 }, 50);
+
+        expect(bounds.north).toBe(90);
+        expect(bounds.west).toBeGreaterThan(bounds.east);
+    });
+});
+
+describe('isInBounds', () => {
+    it('checks boxes on either side of the antimeridian', () => {
+        const fiji: GeoBounds = { north: -16, south: -18, east: -179.5, west: 179.5 };
+
+        expect(isInBounds(-17, 179.8, fiji)).toBe(true);
+        expect(isInBounds(-17, -179.8, fiji)).toBe(true);
+        expect(isInBounds(-17, 0, fiji)).toBe(false);
+        expect(isInBounds(-15, 179.8, fiji)).toBe(false);
+    });
+});
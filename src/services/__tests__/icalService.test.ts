@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ICalParseError,
+    expandICalEvents,
+    generateICalendar,
+    getICalBlockedNights,
+    getOccurrenceNights,
+    groupConsecutiveDates,
+    parseICalendar,
+} from '../icalService';
+import airbnbCalendar from './fixtures/airbnb.ics?raw';
+import timeZonesCalendar from './fixtures/timezones.ics?raw';
+import recurringCalendar from './fixtures/recurring.ics?raw';
+
+const range = (start: string, end: string) => ({
+    start: new Date(`${start}T00:00:00Z`),
+    end: new Date(`${end}T00:00:00Z`),
+});
+
+describe('parseICalendar', () => {
+    it('reads events, unfolding long lines and unescaping text', () => {
+        const calendar = parseICalendar(airbnbCalendar);
+
+        expect(calendar.events.map((event) => event.uid)).toEqual([
+            '1418fb94e984-b9d1d4bde30fd7d9d0fb7e4c67d2a4ab@airbnb.com',
+            '7f5d0e6b5a1c-4b3e1c0fa7e0f1d2c3b4a59687766554@airbnb.com',
+            'owner-day@example.com',
+            'plain-dates@example.com',
+        ]);
+        expect(calendar.events[2].summary).toBe('Owner stay, garden only');
+        expect(calendar.events[0].start).toEqual({
+            wallTime: Date.UTC(2026, 11, 20),
+            allDay: true,
+            utc: false,
+        });
+    });
+
+    it('reads the calendar name and time zone', () => {
+        const calendar = parseICalendar(timeZonesCalendar);
+
+        expect(calendar.name).toBe('Beach house');
+        expect(calendar.timeZone).toBe('Europe/London');
+        // The DAYLIGHT and STANDARD rules inside VTIMEZONE aren't events
+        expect(calendar.events).toHaveLength(4);
+        expect(calendar.events[0].start.tzid).toBe('America/New_York');
+    });
+
+    it('reads recurrence rules, exceptions and edited instances', () => {
+        const [cleaning, moved, maintenance] = parseICalendar(recurringCalendar).events;
+
+        expect(cleaning.rrule).toEqual({
+            freq: 'WEEKLY',
+            interval: 1,
+            count: 6,
+            byDay: [{ weekday: 1 }, { weekday: 4 }],
+        });
+        expect(cleaning.exdates).toEqual([{ wallTime: Date.UTC(2026, 0, 12), allDay: true, utc: false }]);
+        expect(moved.recurrenceId?.wallTime).toBe(Date.UTC(2026, 0, 15));
+        expect(maintenance.rrule?.byDay).toEqual([{ weekday: 5, ordinal: -1 }]);
+    });
+
+    it('rejects files that are not calendars', () => {
+        expect(() => parseICalendar('<html><body>Not found</body></html>')).toThrow(ICalParseError);
+    });
+
+    it('rejects events with malformed dates', () => {
+        const text = 'BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:x\nDTSTART:next tuesday\nEND:VEVENT\nEND:VCALENDAR';
+        expect(() => parseICalendar(text)).toThrow('Invalid date "next tuesday"');
+    });
+});
+
+describe('getICalBlockedNights', () => {
+    it('blocks the nights of all-day events up to, but not including, checkout', () => {
+        expect(getICalBlockedNights(airbnbCalendar, { start: '2026-12-01', end: '2027-03-01' })).toEqual([
+            '2026-12-20', '2026-12-21', '2026-12-22', '2026-12-23',
+            '2026-12-31', '2027-01-01', '2027-01-02', '2027-01-03', '2027-01-04',
+            '2027-01-10',
+            '2027-01-15', '2027-01-16',
+        ]);
+    });
+
+    it('only returns nights within the range', () => {
+        expect(getICalBlockedNights(airbnbCalendar, { start: '2027-01-02', end: '2027-01-10' })).toEqual([
+            '2027-01-02', '2027-01-03', '2027-01-04', '2027-01-10',
+        ]);
+    });
+
+    it("converts zoned and UTC times to the calendar's time zone", () => {
+        expect(getICalBlockedNights(timeZonesCalendar, { start: '2026-10-01', end: '2026-12-31' })).toEqual([
+            // Over the clock change: two wall-clock days
+            '2026-10-24', '2026-10-25',
+            // 21:00 in New York is 02:00 the next day in London
+            '2026-11-06', '2026-11-07',
+            '2026-11-20', '2026-11-21',
+            // TZID behind a vendor prefix
+            '2026-12-01', '2026-12-02',
+        ]);
+    });
+
+    it('converts times to the time zone asked for', () => {
+        expect(getICalBlockedNights(timeZonesCalendar, { start: '2026-11-01', end: '2026-11-30' }, 'America/New_York'))
+            .toEqual(['2026-11-05', '2026-11-06', '2026-11-07', '2026-11-20', '2026-11-21']);
+
+        // 23:00 UTC is 08:00 the next morning in Tokyo, and checkout is on the 22nd
+        expect(getICalBlockedNights(timeZonesCalendar, { start: '2026-11-15', end: '2026-11-30' }, 'Asia/Tokyo'))
+            .toEqual(['2026-11-21']);
+    });
+
+    it('expands recurring events', () => {
+        expect(getICalBlockedNights(recurringCalendar, { start: '2026-01-01', end: '2026-06-03' })).toEqual([
+            // Runs into the range from the year before
+            '2026-01-01', '2026-01-02',
+            // Weekly on Mondays and Thursdays, six times, less the 12th, with the 15th moved to the 16th
+            '2026-01-05', '2026-01-08', '2026-01-16', '2026-01-19', '2026-01-22',
+            // Last Friday of the month until the end of April
+            '2026-01-30', '2026-02-27', '2026-03-27', '2026-04-24',
+            // Every third day, three times
+            '2026-03-01', '2026-03-04', '2026-03-07',
+            // Daily with no end, cut off at the range
+            '2026-06-01', '2026-06-02', '2026-06-03',
+        ].sort());
+    });
+
+    it('leaves out cancelled events', () => {
+        expect(getICalBlockedNights(recurringCalendar, { start: '2026-02-01', end: '2026-02-20' })).toEqual([]);
+    });
+});
+
+describe('expandICalEvents', () => {
+    it('counts occurrences before the range towards COUNT', () => {
+        const occurrences = expandICalEvents(parseICalendar(recurringCalendar), range('2026-01-21', '2026-02-28'))
+            .filter((occurrence) => occurrence.uid === 'cleaning@example.com');
+
+        expect(occurrences.map((occurrence) => occurrence.start)).toEqual([Date.UTC(2026, 0, 22)]);
+    });
+});
+
+describe('getOccurrenceNights', () => {
+    it('blocks the day of an event that starts and ends on it', () => {
+        const start = Date.UTC(2026, 4, 10, 9);
+        expect(getOccurrenceNights({ start, end: start + 3 * 60 * 60 * 1000 })).toEqual(['2026-05-10']);
+    });
+});
+
+describe('generateICalendar', () => {
+    const now = new Date('2026-10-19T08:30:00Z');
+
+    it('writes all-day events that parse back to the same nights', () => {
+        const text = generateICalendar('ShareSpace – Loft', [
+            { uid: 'booking-1@sharespace', summary: 'Reserved', startDate: '2026-12-20', endDate: '2026-12-23' },
+            { uid: 'blocked-1@sharespace', summary: 'Not available', startDate: '2026-12-28', endDate: '2026-12-29' },
+        ], now);
+
+        expect(text).toContain('DTSTART;VALUE=DATE:20261220\r\n');
+        expect(text).toContain('DTSTAMP:20261019T083000Z\r\n');
+        expect(getICalBlockedNights(text, { start: '2026-12-01', end: '2026-12-31' })).toEqual([
+            '2026-12-20', '2026-12-21', '2026-12-22', '2026-12-28',
+        ]);
+    });
+
+    it('escapes text and folds long lines', () => {
+        const name = `Sea view; sleeps 6, ${'very '.repeat(20)}close to the beach`;
+        const text = generateICalendar(name, [], now);
+
+        expect(text.split('\r\n').every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+        expect(parseICalendar(text).name).toBe(name);
+    });
+});
+
+describe('groupConsecutiveDates', () => {
+    it('groups nights into runs ending the day after the last night', () => {
+        expect(groupConsecutiveDates(['2026-12-31', '2026-12-30', '2027-01-01', '2027-01-03', '2027-01-01']))
+            .toEqual([
+                { startDate: '2026-12-30', endDate: '2027-01-02' },
+                { startDate: '2027-01-03', endDate: '2027-01-04' },
+            ]);
+    });
+});
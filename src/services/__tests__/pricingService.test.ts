@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { applyStayDiscount, calculateStayPrice, getNightlyBreakdown } from '../pricingService';
+import type { PricingRules } from '../../types';
+
+const guests = (adults: number, children = 0) => ({ adults, children, infants: 0 });
+const bookedAt = new Date(2027, 0, 1);
+const bohol = { country: 'Philippines', state: 'Bohol', city: 'Tagbilaran City' };
+
+describe('getNightlyBreakdown', () => {
+    it('prices weekend nights at the weekend rate', () => {
+        const pricing: PricingRules = { basePrice: 100, weekendPrice: 150, cleaningFee: 50 };
+        const nights = getNightlyBreakdown(pricing, new Date(2027, 2, 5), new Date(2027, 2, 8), guests(2), { bookedAt });
+
+        expect(nights.map(({ date, price }) => [date, price])).toEqual([
+            ['2027-03-05', 100],
+            ['2027-03-06', 150],
+            ['2027-03-07', 150],
+        ]);
+    });
+
+    it('prefers a custom price, then a season, to the weekend rate', () => {
+        const pricing: PricingRules = {
+            basePrice: 100,
+            weekendPrice: 150,
+            cleaningFee: 50,
+            customPricing: [{ date: '2027-03-06', price: 90 }],
+            seasons: [{
+                id: 'spring',
+                name: 'Spring',
+                startDate: '2027-03-01',
+                endDate: '2027-03-31',
+                nightlyPrice: 120,
+                weekendPrice: 160,
+            }],
+        };
+        const nights = getNightlyBreakdown(pricing, new Date(2027, 2, 5), new Date(2027, 2, 8), guests(2), { bookedAt });
+
+        expect(nights.map((night) => night.baseRate)).toEqual([120, 90, 160]);
+    });
+
+    it('charges extra guests before taking off the weekly discount', () => {
+        const pricing: PricingRules = {
+            basePrice: 100,
+            cleaningFee: 50,
+            weeklyDiscount: 10,
+            extraGuestFee: { baseOccupancy: 2, feePerGuest: 20 },
+        };
+        // Infants don't count towards the occupancy
+        const nights = getNightlyBreakdown(
+            pricing,
+            new Date(2027, 2, 1),
+            new Date(2027, 2, 8),
+            { adults: 3, children: 1, infants: 1 },
+            { bookedAt }
+        );
+
+        expect(nights).toHaveLength(7);
+        expect(nights[0]).toEqual({
+            date: '2027-03-01',
+            baseRate: 100,
+            price: 126,
+            adjustments: [
+                { label: 'Extra guests (2)', amount: 40 },
+                { label: 'Weekly discount', amount: -14 },
+            ],
+        });
+    });
+
+    it("doesn't let discounts take a night below the minimum price", () => {
+        const pricing: PricingRules = {
+            basePrice: 100,
+            cleaningFee: 50,
+            lastMinuteDiscount: { maxDaysInAdvance: 3, percent: 30 },
+            minimumNightlyPrice: 80,
+        };
+        const [night] = getNightlyBreakdown(pricing, new Date(2027, 2, 2), new Date(2027, 2, 3), guests(1), {
+            bookedAt: new Date(2027, 2, 1),
+        });
+
+        expect(night.price).toBe(80);
+        expect(night.adjustments).toEqual([
+            { label: 'Last-minute discount', amount: -30 },
+            { label: 'Minimum nightly price', amount: 10 },
+        ]);
+    });
+});
+
+describe('calculateStayPrice', () => {
+    const pricing: PricingRules = { basePrice: 100, cleaningFee: 50, currency: 'PHP' };
+
+    it("adds the cleaning fee, the service fee and the location's taxes", () => {
+        const price = calculateStayPrice(pricing, new Date(2027, 2, 1), new Date(2027, 2, 3), guests(2), {
+            bookedAt,
+            location: bohol,
+        });
+
+        expect(price).toMatchObject({
+            nightlyRate: 100,
+            nights: 2,
+            subtotal: 200,
+            cleaningFee: 50,
+            serviceFee: 24,
+            taxes: 121.92,
+            total: 395.92,
+            currency: 'PHP',
+        });
+        expect(price.taxLines?.map((line) => [line.ruleId, line.amount])).toEqual([
+            ['ph-occupancy', 21.92],
+            ['ph-bohol-tourism', 100],
+        ]);
+    });
+
+    it('charges the default tax without a location', () => {
+        const price = calculateStayPrice(pricing, new Date(2027, 2, 1), new Date(2027, 2, 3), guests(2), { bookedAt });
+
+        expect(price.taxLines?.map((line) => [line.ruleId, line.amount])).toEqual([['default-occupancy', 21.92]]);
+        expect(price.total).toBe(295.92);
+    });
+});
+
+describe('applyStayDiscount', () => {
+    const price = calculateStayPrice(
+        { basePrice: 100, cleaningFee: 50 },
+        new Date(2027, 2, 1),
+        new Date(2027, 2, 3),
+        guests(2),
+        { bookedAt, location: bohol }
+    );
+
+    it('takes the discount off the nights and re-prices the service fee and percentage taxes', () => {
+        expect(applyStayDiscount(price, 50)).toMatchObject({
+            subtotal: 200,
+            discount: 50,
+            serviceFee: 18,
+            taxes: 117.44,
+            total: 335.44,
+        });
+    });
+
+    it("doesn't discount more than the nights cost", () => {
+        expect(applyStayDiscount(price, 500)).toMatchObject({
+            discount: 200,
+            serviceFee: 0,
+            taxes: 104,
+            total: 154,
+        });
+    });
+});
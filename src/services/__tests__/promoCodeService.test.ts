@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { PromoCodeError, calculatePromoDiscount, checkPromoCode, normalizePromoCode } from '../promoCodeService';
+import type { PromoCodeRejection } from '../promoCodeService';
+import type { BookingPricing, PromoCode } from '../../types';
+
+vi.mock('../../config/firebase', () => ({ db: {}, functions: {}, storage: {} }));
+
+const now = new Date(2027, 2, 1, 12);
+
+const promo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+    id: 'SUMMER25',
+    code: 'SUMMER25',
+    discountType: 'percentage',
+    amount: 25,
+    usedCount: 0,
+    isActive: true,
+    createdAt: Timestamp.fromDate(new Date(2027, 0, 1)),
+    ...overrides,
+});
+
+const stay = {
+    property: { id: 'loft', hostId: 'host-1', location: { city: 'Cebu City' } },
+    nights: 3,
+} as Parameters<typeof checkPromoCode>[1];
+
+// The reason checkPromoCode rejects a code for, or null if it accepts it
+const rejection = (code: PromoCode, timesUsedByUser = 0): PromoCodeRejection | null => {
+    try {
+        checkPromoCode(code, stay, timesUsedByUser, now);
+        return null;
+    } catch (error) {
+        if (error instanceof PromoCodeError) return error.reason;
+        throw error;
+    }
+};
+
+describe('normalizePromoCode', () => {
+    it('uppercases and trims codes', () => {
+        expect(normalizePromoCode('  summer25 ')).toBe('SUMMER25');
+    });
+});
+
+describe('checkPromoCode', () => {
+    it('accepts a code within all its rules', () => {
+        expect(rejection(promo({
+            hostId: 'host-1',
+            propertyIds: ['loft'],
+            cities: [' cebu city'],
+            validFrom: Timestamp.fromDate(new Date(2027, 1, 1)),
+            validUntil: Timestamp.fromDate(new Date(2027, 2, 31)),
+            minNights: 3,
+            maxUses: 10,
+            maxUsesPerUser: 1,
+            usedCount: 9,
+        }))).toBeNull();
+    });
+
+    it('rejects paused codes and codes outside their dates', () => {
+        expect(rejection(promo({ isActive: false }))).toBe('inactive');
+        expect(rejection(promo({ validFrom: Timestamp.fromDate(new Date(2027, 2, 2)) }))).toBe('not_started');
+        expect(rejection(promo({ validUntil: Timestamp.fromDate(new Date(2027, 1, 28)) }))).toBe('expired');
+    });
+
+    it('rejects stays that are too short', () => {
+        expect(rejection(promo({ minNights: 4 }))).toBe('min_nights');
+    });
+
+    it("rejects listings the code isn't for", () => {
+        expect(rejection(promo({ hostId: 'host-2' }))).toBe('not_applicable');
+        expect(rejection(promo({ propertyIds: ['cabin'] }))).toBe('not_applicable');
+        expect(rejection(promo({ cities: ['Manila'] }))).toBe('not_applicable');
+    });
+
+    it('rejects codes used up overall or by the guest', () => {
+        expect(rejection(promo({ maxUses: 10, usedCount: 10 }))).toBe('usage_limit');
+        expect(rejection(promo({ maxUsesPerUser: 1 }), 1)).toBe('user_limit');
+    });
+
+    it('explains the rejection in its message', () => {
+        expect(() => checkPromoCode(promo({ isActive: false }), stay, 0, now))
+            .toThrow('This promo code is no longer active');
+    });
+});
+
+describe('calculatePromoDiscount', () => {
+    const pricing = { subtotal: 300 } as BookingPricing;
+
+    it('takes a percentage off the nights', () => {
+        expect(calculatePromoDiscount(promo({ amount: 12.5 }), pricing)).toBe(37.5);
+    });
+
+    it('caps a percentage discount at its maximum', () => {
+        expect(calculatePromoDiscount(promo({ maxDiscount: 50 }), pricing)).toBe(50);
+    });
+
+    it("doesn't take off more than the nights cost", () => {
+        expect(calculatePromoDiscount(promo({ discountType: 'fixed', amount: 500 }), pricing)).toBe(300);
+    });
+});
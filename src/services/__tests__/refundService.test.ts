@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { calculateRefund, getCheckInDateTime } from '../refundService';
+import type { BookingPricing } from '../../types';
+
+vi.mock('../../config/firebase', () => ({ db: {}, functions: {}, storage: {} }));
+
+// Four nights at 100, with an 8% tax on the nights and fees
+const pricing: BookingPricing = {
+    nightlyRate: 100,
+    nights: 4,
+    subtotal: 400,
+    cleaningFee: 50,
+    serviceFee: 48,
+    taxes: 39.84,
+    total: 537.84,
+};
+
+const checkInAt = new Date(2027, 2, 10, 15);
+
+describe('calculateRefund', () => {
+    it('refunds the policy share of the nights and service fee before the cutoff', () => {
+        const quote = calculateRefund(pricing, 'strict', checkInAt, new Date(2027, 2, 1));
+
+        expect(quote.cutoff).toEqual(new Date(2027, 2, 3, 15));
+        expect(quote.beforeCutoff).toBe(true);
+        expect(quote.nightlyRefundPercentage).toBe(50);
+        expect(quote.breakdown).toEqual({ nightly: 200, cleaningFee: 50, serviceFee: 24, taxes: 21.92, total: 295.92 });
+        expect(quote.paymentStatus).toBe('partial_refund');
+    });
+
+    it('only refunds the cleaning fee and its tax after the cutoff', () => {
+        const quote = calculateRefund(pricing, 'strict', checkInAt, new Date(2027, 2, 5));
+
+        expect(quote.beforeCutoff).toBe(false);
+        expect(quote.breakdown).toEqual({ nightly: 0, cleaningFee: 50, serviceFee: 0, taxes: 4, total: 54 });
+    });
+
+    it('refunds nothing once the stay has started', () => {
+        const quote = calculateRefund(pricing, 'flexible', checkInAt, new Date(2027, 2, 10, 16));
+
+        expect(quote.breakdown.total).toBe(0);
+        expect(quote.paymentStatus).toBeNull();
+    });
+
+    it('refunds everything when the host cancels', () => {
+        const quote = calculateRefund(pricing, 'strict', checkInAt, new Date(2027, 2, 10, 16), 'host');
+
+        expect(quote.breakdown.total).toBe(537.84);
+        expect(quote.paymentStatus).toBe('refunded');
+    });
+
+    it('refunds what the guest paid for the nights after a promo discount', () => {
+        const discounted: BookingPricing = { ...pricing, discount: 100, serviceFee: 36, taxes: 30.88, total: 416.88 };
+        const quote = calculateRefund(discounted, 'flexible', checkInAt, new Date(2027, 2, 1));
+
+        expect(quote.breakdown).toEqual({ nightly: 300, cleaningFee: 50, serviceFee: 36, taxes: 30.88, total: 416.88 });
+        expect(quote.paymentStatus).toBe('refunded');
+    });
+
+    it('falls back to the flexible policy for an unknown one', () => {
+        const quote = calculateRefund(pricing, 'unknown' as never, checkInAt, new Date(2027, 2, 1));
+
+        expect(quote.cutoff).toEqual(new Date(2027, 2, 9, 15));
+        expect(quote.nightlyRefundPercentage).toBe(100);
+    });
+});
+
+describe('getCheckInDateTime', () => {
+    it("sets the check-in date to the listing's check-in time", () => {
+        expect(getCheckInDateTime(new Date(2027, 2, 10), '15:30')).toEqual(new Date(2027, 2, 10, 15, 30));
+    });
+
+    it('uses midnight without a check-in time', () => {
+        expect(getCheckInDateTime(new Date(2027, 2, 10, 9), undefined)).toEqual(new Date(2027, 2, 10));
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTaxLines, getTaxRules, repriceTaxLines, sumTaxLines } from '../taxService';
+import type { TaxLocation } from '../taxService';
+
+const ruleIds = (location?: TaxLocation) => getTaxRules(location).map((rule) => rule.id);
+
+describe('getTaxRules', () => {
+    it("applies the country's, state's and city's rules", () => {
+        expect(ruleIds({ country: 'Philippines', state: 'Cebu', city: 'Lapu-Lapu City' })).toEqual([
+            'ph-occupancy',
+            'ph-cebu-tourism',
+            'ph-lapu-lapu-environmental',
+        ]);
+        expect(ruleIds({ country: 'Philippines', state: 'Cebu', city: 'Cebu City' })).toEqual([
+            'ph-occupancy',
+            'ph-cebu-tourism',
+        ]);
+    });
+
+    it('matches the country by name or code, in any case', () => {
+        expect(ruleIds({ country: ' philippines ', state: 'BOHOL', city: 'Panglao' })).toEqual(['ph-occupancy', 'ph-bohol-tourism']);
+        expect(ruleIds({ country: 'PH', state: 'Metro Manila', city: 'Makati' })).toEqual(['ph-occupancy']);
+        expect(ruleIds({ country: 'ph', state: 'Metro Manila', city: 'Makati' })).toEqual(['ph-occupancy']);
+    });
+
+    it('falls back to the default rules for other countries and missing locations', () => {
+        expect(ruleIds({ country: 'Japan', state: 'Tokyo', city: 'Shibuya' })).toEqual(['default-occupancy']);
+        expect(ruleIds({ country: '', state: '', city: '' })).toEqual(['default-occupancy']);
+        expect(ruleIds(undefined)).toEqual(['default-occupancy']);
+    });
+});
+
+describe('calculateTaxLines', () => {
+    const rules = getTaxRules({ country: 'Philippines', state: 'Cebu', city: 'Lapu-Lapu City' });
+
+    it('charges percentage, per-night and per-guest-per-night taxes', () => {
+        const lines = calculateTaxLines(rules, { nights: 3, guests: 2, taxableAmount: 1000 });
+
+        expect(lines.map((line) => [line.label, line.amount])).toEqual([
+            ['Occupancy tax', 80],
+            ['Cebu tourism fee', 120],
+            ['Lapu-Lapu environmental fee', 150],
+        ]);
+        expect(sumTaxLines(lines)).toBe(350);
+    });
+
+    it('leaves out taxes long stays are exempt from', () => {
+        const lines = calculateTaxLines(rules, { nights: 30, guests: 2, taxableAmount: 30000 });
+
+        expect(lines.map((line) => line.ruleId)).toEqual(['ph-lapu-lapu-environmental']);
+    });
+
+    it('leaves out taxes that come to nothing', () => {
+        expect(calculateTaxLines(getTaxRules(undefined), { nights: 2, guests: 1, taxableAmount: 0 })).toEqual([]);
+    });
+});
+
+describe('repriceTaxLines', () => {
+    it('re-prices only the percentage taxes', () => {
+        const rules = getTaxRules({ country: 'Philippines', state: 'Cebu', city: 'Cebu City' });
+        const lines = repriceTaxLines(calculateTaxLines(rules, { nights: 2, guests: 2, taxableAmount: 500 }), 250);
+
+        expect(lines.map((line) => line.amount)).toEqual([20, 80]);
+    });
+});
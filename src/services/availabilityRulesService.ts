@@ -0,0 +1,234 @@
+import { addDays, differenceInDays, format, startOfDay } from 'date-fns';
+import type { Booking, Property } from '../types';
+import { toDateKey } from './pricingService';
+import { getAllBlockedDates } from './calendarSyncService';
+
+// The listing fields a stay is checked against
+export type StayRuleProperty = Pick<
+    Property,
+    'minimumStay' | 'maximumStay' | 'advanceNotice' | 'preparationTime' | 'availabilityRules'
+>;
+
+export type StayRuleViolation =
+    | 'too_short'
+    | 'too_long'
+    | 'advance_notice'
+    | 'check_in_day'
+    | 'check_out_day';
+
+// Thrown when a stay breaks the listing's availability rules
+export class AvailabilityRuleError extends Error {
+    readonly violation: StayRuleViolation;
+
+    constructor(violation: StayRuleViolation, message: string) {
+        super(message);
+        this.name = 'AvailabilityRuleError';
+        this.violation = violation;
+    }
+}
+
+// Nights a listing's datepicker has to avoid: blocked by the host or held by bookings.
+// Preparation time only keeps clear of booked nights.
+export interface TakenNights {
+    blocked: string[];
+    booked: string[];
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Night keys from start up to, not including, end. Matches bookingService.getStayNights.
+function getNights(start: Date, end: Date): string[] {
+    const nights: string[] = [];
+    const currentDate = new Date(start);
+
+    for (let i = 0; i < differenceInDays(end, start); i++) {
+        nights.push(toDateKey(currentDate));
+        currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return nights;
+}
+
+// "Friday" or "Friday, Saturday or Sunday"
+function formatWeekdays(days: number[]): string {
+    const names = [...days].sort((a, b) => a - b).map((day) => WEEKDAY_NAMES[day]);
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+}
+
+// Minimum nights for a stay: the season the stay checks in during, else the listing's
+export function getMinimumStay(property: StayRuleProperty, checkIn: Date): number {
+    const dateKey = toDateKey(checkIn);
+    const season = property.availabilityRules?.seasonalMinimumStays?.find(
+        (s) => dateKey >= s.startDate && dateKey <= s.endDate
+    );
+    return season?.minimumStay ?? (property.minimumStay || 1);
+}
+
+// The first day a guest booking now can check in
+export function getEarliestCheckIn(property: StayRuleProperty, now: Date = new Date()): Date {
+    let days = property.advanceNotice || 0;
+
+    const cutoffHour = property.availabilityRules?.sameDayCutoffHour;
+    if (days === 0 && cutoffHour !== undefined && now.getHours() >= cutoffHour) {
+        days = 1;
+    }
+
+    return startOfDay(addDays(now, days));
+}
+
+export function isCheckInDay(property: StayRuleProperty, date: Date): boolean {
+    const days = property.availabilityRules?.checkInDays;
+    return !days || days.length === 0 || days.includes(date.getDay());
+}
+
+export function isCheckOutDay(property: StayRuleProperty, date: Date): boolean {
+    const days = property.availabilityRules?.checkOutDays;
+    return !days || days.length === 0 || days.includes(date.getDay());
+}
+
+// Nights that must stay free of other bookings around a stay
+export function getPreparationNights(
+    property: StayRuleProperty,
+    checkIn: Date,
+    checkOut: Date
+): string[] {
+    const preparationTime = property.preparationTime || 0;
+    if (preparationTime <= 0) return [];
+
+    return [
+        ...getNights(addDays(checkIn, -preparationTime), checkIn),
+        ...getNights(checkOut, addDays(checkOut, preparationTime)),
+    ];
+}
+
+// Nights held by the given bookings
+export function getBookedNights(bookings: Pick<Booking, 'checkIn' | 'checkOut'>[]): string[] {
+    return [...new Set(bookings.flatMap((b) => getNights(b.checkIn.toDate(), b.checkOut.toDate())))];
+}
+
+// The first rule a stay breaks, if any. When changing an existing stay, rules about a
+// check-in or checkout that didn't move are skipped, so guests mid-stay can still extend.
+export function getStayRuleViolation(
+    property: StayRuleProperty,
+    checkIn: Date,
+    checkOut: Date,
+    now: Date = new Date(),
+    previousStay?: { checkIn: Date; checkOut: Date }
+): { violation: StayRuleViolation; message: string } | null {
+    const checkInMoved = !previousStay || previousStay.checkIn.getTime() !== checkIn.getTime();
+    const checkOutMoved = !previousStay || previousStay.checkOut.getTime() !== checkOut.getTime();
+    if (!checkInMoved && !checkOutMoved) return null;
+
+    const nights = differenceInDays(checkOut, checkIn);
+    const minimumStay = getMinimumStay(property, checkIn);
+    if (nights < minimumStay) {
+        return { violation: 'too_short', message: `Minimum stay is ${minimumStay} nights for these dates` };
+    }
+    if (property.maximumStay && nights > property.maximumStay) {
+        return { violation: 'too_long', message: `Maximum stay is ${property.maximumStay} nights` };
+    }
+
+    if (checkInMoved) {
+        const earliestCheckIn = getEarliestCheckIn(property, now);
+        if (checkIn < earliestCheckIn) {
+            return {
+                violation: 'advance_notice',
+                message: `The earliest available check-in is ${format(earliestCheckIn, 'MMM d')}`,
+            };
+        }
+        if (!isCheckInDay(property, checkIn)) {
+            return {
+                violation: 'check_in_day',
+                message: `Check-in is only on ${formatWeekdays(property.availabilityRules!.checkInDays!)}`,
+            };
+        }
+    }
+
+    if (checkOutMoved && !isCheckOutDay(property, checkOut)) {
+        return {
+            violation: 'check_out_day',
+            message: `Checkout is only on ${formatWeekdays(property.availabilityRules!.checkOutDays!)}`,
+        };
+    }
+
+    return null;
+}
+
+// Throw AvailabilityRuleError if a stay breaks the listing's rules
+export function assertStayAllowed(
+    property: StayRuleProperty,
+    checkIn: Date,
+    checkOut: Date,
+    now: Date = new Date(),
+    previousStay?: { checkIn: Date; checkOut: Date }
+): void {
+    const result = getStayRuleViolation(property, checkIn, checkOut, now, previousStay);
+    if (result) {
+        throw new AvailabilityRuleError(result.violation, result.message);
+    }
+}
+
+// Whether a stay is open on the listing document alone: it meets the rules, no night is
+// blocked or booked, and no booking falls in its preparation time. Lets search check many
+// listings without querying their bookings.
+export function isStayAvailable(
+    property: StayRuleProperty & Pick<Property, 'blockedDates' | 'externalBlockedDates' | 'bookedNights'>,
+    checkIn: Date,
+    checkOut: Date,
+    now: Date = new Date()
+): boolean {
+    if (getStayRuleViolation(property, checkIn, checkOut, now)) return false;
+
+    const blocked = getAllBlockedDates(property);
+    const booked = property.bookedNights || [];
+    if (getNights(checkIn, checkOut).some((n) => blocked.includes(n) || booked.includes(n))) {
+        return false;
+    }
+
+    return !getPreparationNights(property, checkIn, checkOut).some((n) => booked.includes(n));
+}
+
+// Whether a datepicker should offer this day as a check-in
+export function isCheckInAvailable(
+    property: StayRuleProperty,
+    date: Date,
+    taken: TakenNights,
+    now: Date = new Date()
+): boolean {
+    if (date < getEarliestCheckIn(property, now) || !isCheckInDay(property, date)) {
+        return false;
+    }
+
+    const night = toDateKey(date);
+    if (taken.blocked.includes(night) || taken.booked.includes(night)) {
+        return false;
+    }
+
+    // Preparation before this check-in can't overlap the previous booking
+    const preparationNights = getPreparationNights(property, date, addDays(date, 1));
+    return !preparationNights.some((n) => n < night && taken.booked.includes(n));
+}
+
+// Whether a datepicker should offer this day as the checkout for a chosen check-in
+export function isCheckOutAvailable(
+    property: StayRuleProperty,
+    checkIn: Date,
+    date: Date,
+    taken: TakenNights
+): boolean {
+    const nights = differenceInDays(date, checkIn);
+    if (nights < getMinimumStay(property, checkIn)) return false;
+    if (property.maximumStay && nights > property.maximumStay) return false;
+    if (!isCheckOutDay(property, date)) return false;
+
+    const stayNights = getNights(checkIn, date);
+    if (stayNights.some((n) => taken.blocked.includes(n) || taken.booked.includes(n))) {
+        return false;
+    }
+
+    // Preparation after this checkout can't overlap the next booking
+    const checkOutKey = toDateKey(date);
+    return !getPreparationNights(property, checkIn, date).some(
+        (n) => n >= checkOutKey && taken.booked.includes(n)
+    );
+}
@@ -0,0 +1,440 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    runTransaction,
+    updateDoc,
+    Timestamp,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { Booking, BookingStatus, Property } from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { isBookingActive, releaseBookingLocks } from './bookingService';
+import { BookingNotCancellableError, cancelBookingWithRefund, retryFailedRefunds } from './refundService';
+import type { RefundQuote } from './refundService';
+import { createNotification } from './notificationService';
+import { getPaymentProvider } from './paymentService';
+import { getPricingCurrency } from './currencyService';
+import { createDuePayouts, createPayoutForBooking } from './payoutService';
+import { requireDefaultPayoutMethod } from './payoutMethodService';
+import {
+    placeDueDepositHolds,
+    releaseDueDeposits,
+    releaseSecurityDeposit,
+    settleStaleDisputes,
+} from './securityDepositService';
+import { getProperty } from './propertyService';
+
+const BOOKINGS_COLLECTION = 'bookings';
+
+export type BookingEvent = 'accept' | 'decline' | 'cancel' | 'expire' | 'complete';
+export type BookingActor = 'guest' | 'host' | 'system';
+
+// Side effects run after a transition is written
+export type BookingSideEffect =
+    | 'capture_payment'
+    | 'release_payment'
+    | 'release_deposit'
+    | 'refund'
+    | 'release_nights'
+    | 'notify_guest'
+    | 'notify_host'
+    | 'schedule_payout'
+    | 'open_review';
+
+interface BookingTransition {
+    from: BookingStatus[];
+    to: BookingStatus;
+    actors: BookingActor[];
+    effects: BookingSideEffect[];
+    // Extra condition on the booking itself, e.g. the stay must be over
+    guard?: (booking: Booking, now: Date) => boolean;
+}
+
+// Bookings a sweep moved on, and those it failed on and left for the next sweep
+export interface BookingSweepResult {
+    swept: string[];
+    failed: string[];
+}
+
+// Every allowed status change, who may trigger it and what happens afterwards
+export const BOOKING_TRANSITIONS: Record<BookingEvent, BookingTransition> = {
+    accept: {
+        from: ['pending'],
+        to: 'confirmed',
+        actors: ['host'],
+        effects: ['capture_payment', 'notify_guest'],
+        guard: (booking, now) => isBookingActive(booking, now),
+    },
+    decline: {
+        from: ['pending'],
+        to: 'cancelled',
+        actors: ['host'],
+        effects: ['refund', 'release_deposit', 'release_nights', 'notify_guest'],
+    },
+    cancel: {
+        from: ['pending', 'confirmed'],
+        to: 'cancelled',
+        actors: ['guest', 'host'],
+        effects: ['refund', 'release_deposit', 'release_nights', 'notify_guest', 'notify_host'],
+        guard: (booking, now) => booking.checkOut.toDate() > now,
+    },
+    expire: {
+        from: ['pending'],
+        to: 'expired',
+        actors: ['system'],
+        effects: ['release_payment', 'release_deposit', 'release_nights', 'notify_guest', 'notify_host'],
+        guard: (booking, now) => !isBookingActive(booking, now),
+    },
+    complete: {
+        from: ['confirmed'],
+        to: 'completed',
+        actors: ['system'],
+        effects: ['schedule_payout', 'open_review'],
+        guard: (booking, now) => booking.checkOut.toDate() <= now,
+    },
+};
+
+// Thrown when a booking can't move through the requested transition
+export class InvalidBookingTransitionError extends Error {
+    readonly event: BookingEvent;
+    readonly status: BookingStatus;
+
+    constructor(event: BookingEvent, status: BookingStatus, actor: BookingActor) {
+        super(`A ${status} booking can't be moved through "${event}" by ${actor}`);
+        this.name = 'InvalidBookingTransitionError';
+        this.event = event;
+        this.status = status;
+    }
+}
+
+// Check whether an actor may apply an event to a booking right now
+export function canTransition(
+    booking: Booking,
+    event: BookingEvent,
+    actor: BookingActor,
+    now: Date = new Date()
+): boolean {
+    const transition = BOOKING_TRANSITIONS[event];
+    return (
+        transition.from.includes(booking.status) &&
+        transition.actors.includes(actor) &&
+        (!transition.guard || transition.guard(booking, now))
+    );
+}
+
+// Claim a plain status change: re-checks the current status and the transition's guard
+// inside a transaction, so only one of two racing events (e.g. the host accepting while
+// the sweep expires the request) gets through. Returns the booking as it was claimed.
+async function writeStatusChange(
+    booking: Booking,
+    event: BookingEvent,
+    actor: BookingActor,
+    update: Partial<Booking>,
+    now: Date
+): Promise<Booking> {
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+
+    return runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        const current = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+        if (!canTransition(current, event, actor, now)) {
+            throw new InvalidBookingTransitionError(event, current.status, actor);
+        }
+
+        transaction.update(bookingRef, update);
+        return current;
+    });
+}
+
+// Notification copy for each transition
+function getNotification(
+    event: BookingEvent,
+    recipient: 'guest' | 'host',
+    actor: BookingActor,
+    booking: Booking,
+    propertyName: string
+): { title: string; body: string } | null {
+    const checkInDate = booking.checkIn.toDate().toLocaleDateString();
+    const checkOutDate = booking.checkOut.toDate().toLocaleDateString();
+    const dates = `from ${checkInDate} to ${checkOutDate}`;
+
+    switch (event) {
+        case 'accept':
+            return {
+                title: 'Booking Confirmed! 🎉',
+                body: `Great news! Your reservation at "${propertyName}" ${dates} has been confirmed by the host.`,
+            };
+        case 'decline':
+            return {
+                title: 'Booking Declined',
+                body: `Unfortunately, your reservation at "${propertyName}" ${dates} has been declined by the host. You can search for other available properties.`,
+            };
+        case 'cancel':
+            // Only tell the party who didn't cancel
+            if (recipient === actor) return null;
+            return recipient === 'guest'
+                ? {
+                    title: 'Booking Cancelled',
+                    body: `Unfortunately, your reservation at "${propertyName}" ${dates} has been cancelled by the host. You can search for other available properties.`,
+                }
+                : {
+                    title: 'Booking Cancelled',
+                    body: `${booking.guestName || 'A guest'} cancelled their reservation at "${propertyName}" ${dates}.`,
+                };
+        case 'expire':
+            return recipient === 'guest'
+                ? {
+                    title: 'Booking Request Expired',
+                    body: `The host did not respond to your booking request at "${propertyName}" in time, so it has expired. You can request different dates or search for another place.`,
+                }
+                : {
+                    title: 'Booking Request Expired',
+                    body: `A booking request from ${booking.guestName || 'a guest'} at "${propertyName}" expired because it was not answered within ${APP_CONFIG.BOOKING_REQUEST_EXPIRY_HOURS} hours.`,
+                };
+        default:
+            return null;
+    }
+}
+
+// Move a booking through a lifecycle event and run the transition's side effects.
+// Throws InvalidBookingTransitionError if the event isn't allowed, and PayoutMethodRequiredError
+// if a host without a payout method accepts a paid booking. Returns the fields written to the
+// booking so callers can update local state.
+export async function transitionBooking(
+    booking: Booking,
+    event: BookingEvent,
+    actor: BookingActor,
+    options: { property?: Property | null; reason?: string; now?: Date } = {}
+): Promise<Partial<Booking>> {
+    const now = options.now ?? new Date();
+    const transition = BOOKING_TRANSITIONS[event];
+
+    if (!canTransition(booking, event, actor, now)) {
+        throw new InvalidBookingTransitionError(event, booking.status, actor);
+    }
+
+    // Hosts can't take paid bookings until there's somewhere to send the payout
+    if (event === 'accept' && booking.pricing.total > 0) {
+        await requireDefaultPayoutMethod(booking.hostId);
+    }
+
+    const property = options.property ?? (await getProperty(booking.propertyId));
+    let update: Partial<Booking>;
+
+    if (transition.effects.includes('refund')) {
+        // Refunding writes the cancellation itself and releases the nights
+        const reason = options.reason
+            || (event === 'decline' ? 'Declined by host' : actor === 'guest' ? 'Cancelled by guest' : 'Cancelled by host');
+        let quote: RefundQuote;
+        try {
+            quote = await cancelBookingWithRefund(
+                booking,
+                property,
+                actor === 'guest' ? 'guest' : 'host',
+                reason,
+                transition.from
+            );
+        } catch (error) {
+            // Someone else moved the booking on since it was loaded
+            if (error instanceof BookingNotCancellableError) {
+                throw new InvalidBookingTransitionError(event, error.status, actor);
+            }
+            throw error;
+        }
+        update = {
+            status: transition.to,
+            cancelledAt: Timestamp.fromDate(now),
+            cancellationReason: reason,
+            refundAmount: quote.breakdown.total,
+            refundBreakdown: quote.breakdown,
+        };
+        if (quote.paymentStatus) {
+            update.paymentStatus = quote.paymentStatus;
+        }
+    } else {
+        update = {
+            status: transition.to,
+            updatedAt: Timestamp.fromDate(now),
+        };
+        if (event === 'expire') {
+            update.expiredAt = Timestamp.fromDate(now);
+        }
+
+        // Claim the transition before any money moves, then settle the payment
+        const claimed = await writeStatusChange(booking, event, actor, update, now);
+        const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+        const hold = claimed.paymentIntentId && claimed.paymentStatus === 'authorized'
+            ? claimed.paymentIntentId
+            : null;
+
+        // Request-to-book holds are only charged once the host accepts
+        if (transition.effects.includes('capture_payment') && hold) {
+            try {
+                await getPaymentProvider().capture(hold);
+            } catch (error) {
+                // Hand the request back to the host, unless something has moved it on since
+                await runTransaction(db, async (transaction) => {
+                    const bookingSnap = await transaction.get(bookingRef);
+                    if (bookingSnap.exists() && bookingSnap.data().status === transition.to) {
+                        transaction.update(bookingRef, { status: claimed.status, updatedAt: Timestamp.now() });
+                    }
+                });
+                throw error;
+            }
+            update.paymentStatus = 'paid';
+            await updateDoc(bookingRef, { paymentStatus: 'paid' });
+        }
+        if (transition.effects.includes('release_payment') && hold) {
+            try {
+                await getPaymentProvider().refund(
+                    hold,
+                    claimed.pricing.total,
+                    getPricingCurrency(claimed.pricing)
+                );
+                update.paymentStatus = 'refunded';
+                await updateDoc(bookingRef, { paymentStatus: 'refunded' });
+            } catch (error) {
+                // An uncaptured hold lapses by itself, so the booking still moves on
+                console.error('transitionBooking: Failed to release payment hold:', error);
+            }
+        }
+
+        // Normally created by the sweep after check-in; this catches any stay it missed
+        if (transition.effects.includes('schedule_payout')) {
+            await createPayoutForBooking({ ...booking, ...update } as Booking, now);
+        }
+
+        if (transition.effects.includes('release_nights')) {
+            await releaseBookingLocks(booking.id);
+        }
+    }
+
+    // A stay that won't happen can't be damaged
+    if (transition.effects.includes('release_deposit')) {
+        try {
+            const deposit = await releaseSecurityDeposit(booking, now);
+            if (deposit) {
+                update.securityDeposit = deposit;
+            }
+        } catch (error) {
+            // The transition has already been made; the deposit sweep retries the release
+            console.error('transitionBooking: Failed to release security deposit:', error);
+        }
+    }
+
+    // Notifications never fail the transition itself
+    const propertyName = property?.title || 'the property';
+    const data = { bookingId: booking.id, propertyId: booking.propertyId, action: transition.to };
+
+    try {
+        if (transition.effects.includes('notify_guest')) {
+            const notification = getNotification(event, 'guest', actor, booking, propertyName);
+            if (notification) {
+                await createNotification(booking.guestId, 'booking', notification.title, notification.body, data);
+            }
+        }
+        if (transition.effects.includes('notify_host')) {
+            const notification = getNotification(event, 'host', actor, booking, propertyName);
+            if (notification) {
+                await createNotification(booking.hostId, 'booking', notification.title, notification.body, data);
+            }
+        }
+        if (transition.effects.includes('open_review')) {
+            await createNotification(
+                booking.guestId,
+                'review',
+                'How was your stay?',
+                `Thanks for staying at "${propertyName}". You can now leave a review from your trips.`,
+                { ...data, action: 'review' }
+            );
+        }
+    } catch (notifError) {
+        console.error('transitionBooking: Failed to send notification:', notifError);
+    }
+
+    return update;
+}
+
+// Apply a system event to every booking in a status that qualifies for it. A booking
+// that fails is logged and the rest are still swept.
+async function sweepBookings(
+    status: BookingStatus,
+    event: BookingEvent,
+    now: Date
+): Promise<BookingSweepResult> {
+    const q = query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('status', '==', status)
+    );
+
+    const snapshot = await getDocs(q);
+    const due = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Booking)
+        .filter((booking) => canTransition(booking, event, 'system', now));
+
+    const swept: string[] = [];
+    const failed: string[] = [];
+
+    for (const booking of due) {
+        try {
+            await transitionBooking(booking, event, 'system', { now });
+            swept.push(booking.id);
+        } catch (error) {
+            // The host may have answered since the query ran
+            if (error instanceof InvalidBookingTransitionError) continue;
+            console.error(`sweepBookings: Failed to ${event} booking`, booking.id, error);
+            failed.push(booking.id);
+        }
+    }
+
+    return { swept, failed };
+}
+
+// Expire pending requests the host didn't answer in time
+export async function expirePendingBookings(now: Date = new Date()): Promise<BookingSweepResult> {
+    return sweepBookings('pending', 'expire', now);
+}
+
+// Complete confirmed stays whose checkout has passed
+export async function completePastBookings(now: Date = new Date()): Promise<BookingSweepResult> {
+    return sweepBookings('confirmed', 'complete', now);
+}
+
+// Scheduled sweep over all bookings. Runs locally with `npm run booking-sweep`.
+export async function runBookingSweep(
+    now: Date = new Date()
+): Promise<{
+    expired: string[];
+    completed: string[];
+    failed: string[];
+    payouts: string[];
+    depositHolds: string[];
+    deposits: string[];
+    disputes: string[];
+    refunds: string[];
+}> {
+    const expiry = await expirePendingBookings(now);
+    const completion = await completePastBookings(now);
+    const payouts = await createDuePayouts(now);
+    const depositHolds = await placeDueDepositHolds(now);
+    const deposits = await releaseDueDeposits(now);
+    const disputes = await settleStaleDisputes(now);
+    const refunds = await retryFailedRefunds();
+    return {
+        expired: expiry.swept,
+        completed: completion.swept,
+        failed: [...expiry.failed, ...completion.failed],
+        payouts,
+        depositHolds,
+        deposits,
+        disputes,
+        refunds,
+    };
+}
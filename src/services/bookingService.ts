@@ -3,71 +3,175 @@ import {
     doc,
     getDoc,
     getDocs,
-    addDoc,
-    updateDoc,
     query,
     where,
     orderBy,
+    runTransaction,
+    writeBatch,
+    arrayRemove,
     Timestamp,
 } from 'firebase/firestore';
+import type { Transaction } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { db, functions } from '../config/firebase';
-import type { Booking, BookingPricing, BookingStatus, Property } from '../types';
+import type {
+    Booking,
+    BookingModification,
+    BookingPricing,
+    BookingStatus,
+    BookingVersion,
+    Property,
+} from '../types';
+import { applyStayDiscount, calculateStayPrice, toDateKey } from './pricingService';
+import { redeemPromoCode } from './promoCodeService';
+import { getAllBlockedDates } from './calendarSyncService';
+import { assertStayAllowed, getPreparationNights } from './availabilityRulesService';
 import { APP_CONFIG } from '../config/constants';
-import { differenceInDays, isWeekend } from 'date-fns';
+import { addHours, differenceInDays } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
 
 const BOOKINGS_COLLECTION = 'bookings';
+const PROPERTIES_COLLECTION = 'properties';
+const BOOKING_LOCKS_COLLECTION = 'bookingLocks';
+const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed'];
+
+// Thrown when a booking overlaps an active booking or a blocked date
+export class BookingConflictError extends Error {
+    readonly conflictingDates: string[];
+
+    constructor(conflictingDates: string[]) {
+        super('Those dates were just taken. Please choose different dates.');
+        this.name = 'BookingConflictError';
+        this.conflictingDates = conflictingDates;
+    }
+}
 
-// Calculate booking price
-export function calculateBookingPrice(
+// Get the nights (YYYY-MM-DD) covered by a stay, excluding the checkout day
+export function getStayNights(checkIn: Date, checkOut: Date): string[] {
+    const nights: string[] = [];
+    const currentDate = new Date(checkIn);
+
+    for (let i = 0; i < differenceInDays(checkOut, checkIn); i++) {
+        nights.push(toDateKey(currentDate));
+        currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return nights;
+}
+
+// When a pending request stops holding its dates if the host hasn't answered
+export function getBookingExpiry(
+    booking: Pick<Booking, 'status' | 'expiresAt' | 'createdAt'>
+): Date | null {
+    if (booking.status !== 'pending') return null;
+    if (booking.expiresAt) return booking.expiresAt.toDate();
+    return booking.createdAt?.toDate
+        ? addHours(booking.createdAt.toDate(), APP_CONFIG.BOOKING_REQUEST_EXPIRY_HOURS)
+        : null;
+}
+
+// Whether a booking still holds its dates: confirmed, or pending within its response window
+export function isBookingActive(
+    booking: Pick<Booking, 'status' | 'expiresAt' | 'createdAt'>,
+    now: Date = new Date()
+): boolean {
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) return false;
+    const expiry = getBookingExpiry(booking);
+    return !expiry || expiry > now;
+}
+
+// One lock document per property night, so overlapping bookings contend on the same documents
+function getBookingLockRef(propertyId: string, night: string) {
+    return doc(db, BOOKING_LOCKS_COLLECTION, `${propertyId}_${night}`);
+}
+
+// A listing's bookedNights after a booking takes some nights and gives up others.
+// Past nights are dropped as it goes.
+function getUpdatedBookedNights(current: string[] = [], added: string[], removed: string[] = []): string[] {
+    const today = toDateKey(new Date());
+    return [...new Set([...current.filter((night) => !removed.includes(night)), ...added])]
+        .filter((night) => night >= today)
+        .sort();
+}
+
+// Read a property inside a transaction
+async function getPropertyInTransaction(transaction: Transaction, propertyId: string): Promise<Property> {
+    const propertySnap = await transaction.get(doc(db, PROPERTIES_COLLECTION, propertyId));
+    if (!propertySnap.exists()) {
+        throw new Error('Property not found');
+    }
+    return { id: propertySnap.id, ...propertySnap.data() } as Property;
+}
+
+// Read which nights of a stay are blocked by the host or held by another active booking,
+// along with any preparation nights around it that another booking holds. Only reads,
+// so it can run before the transaction's writes.
+async function findUnavailableNights(
+    transaction: Transaction,
     property: Property,
     checkIn: Date,
     checkOut: Date,
-    _guests: { adults: number; children: number; infants: number }
-): BookingPricing {
-    const nights = differenceInDays(checkOut, checkIn);
+    ignoreBookingId?: string
+): Promise<string[]> {
+    const nights = getStayNights(checkIn, checkOut);
+    const blockedDates = getAllBlockedDates(property);
+    const blockedNights = nights.filter((night) => blockedDates.includes(night));
+    if (blockedNights.length > 0) {
+        return blockedNights;
+    }
 
-    let subtotal = 0;
-    const currentDate = new Date(checkIn);
+    const heldNights = [...nights, ...getPreparationNights(property, checkIn, checkOut)];
+    const lockSnaps = await Promise.all(
+        heldNights.map((night) => transaction.get(getBookingLockRef(property.id, night)))
+    );
+    const takenNights: string[] = [];
 
-    for (let i = 0; i < nights; i++) {
-        // Check for custom pricing
-        const dateStr = currentDate.toISOString().split('T')[0];
-        const customPrice = property.pricing.customPricing?.find(
-            (cp) => cp.date === dateStr
-        );
+    for (let i = 0; i < lockSnaps.length; i++) {
+        const lockSnap = lockSnaps[i];
+        if (!lockSnap.exists() || lockSnap.data().bookingId === ignoreBookingId) continue;
 
-        if (customPrice) {
-            subtotal += customPrice.price;
-        } else if (isWeekend(currentDate) && property.pricing.weekendPrice) {
-            subtotal += property.pricing.weekendPrice;
-        } else {
-            subtotal += property.pricing.basePrice;
+        // A lock only counts while the booking holding it is still active
+        const holderSnap = await transaction.get(
+            doc(db, BOOKINGS_COLLECTION, lockSnap.data().bookingId)
+        );
+        if (holderSnap.exists() && isBookingActive(holderSnap.data() as Booking)) {
+            takenNights.push(heldNights[i]);
         }
-
-        currentDate.setDate(currentDate.getDate() + 1);
     }
 
-    // Apply length of stay discounts
-    if (nights >= 28 && property.pricing.monthlyDiscount) {
-        subtotal = subtotal * (1 - property.pricing.monthlyDiscount / 100);
-    } else if (nights >= 7 && property.pricing.weeklyDiscount) {
-        subtotal = subtotal * (1 - property.pricing.weeklyDiscount / 100);
-    }
+    return takenNights;
+}
+
+// Calculate booking price using the property's pricing rules and its location's taxes
+export function calculateBookingPrice(
+    property: Property,
+    checkIn: Date,
+    checkOut: Date,
+    guests: { adults: number; children: number; infants: number }
+): BookingPricing {
+    return calculateStayPrice(property.pricing, checkIn, checkOut, guests, { location: property.location });
+}
+
+// Re-price a booking for new dates or guests. A promo discount the guest already
+// redeemed carries over, up to the new nightly subtotal.
+export function calculateModifiedBookingPrice(
+    booking: Pick<Booking, 'pricing'>,
+    property: Property,
+    checkIn: Date,
+    checkOut: Date,
+    guests: { adults: number; children: number; infants: number }
+): BookingPricing {
+    const pricing = calculateBookingPrice(property, checkIn, checkOut, guests);
+    const { discount, promoCode, discountFundedBy } = booking.pricing;
 
-    const cleaningFee = property.pricing.cleaningFee;
-    const serviceFee = subtotal * APP_CONFIG.SERVICE_FEE_GUEST_PERCENT;
-    const taxes = (subtotal + cleaningFee + serviceFee) * APP_CONFIG.TAX_RATE;
-    const total = subtotal + cleaningFee + serviceFee + taxes;
+    if (!discount) {
+        return pricing;
+    }
 
     return {
-        nightlyRate: property.pricing.basePrice,
-        nights,
-        subtotal: Math.round(subtotal * 100) / 100,
-        cleaningFee,
-        serviceFee: Math.round(serviceFee * 100) / 100,
-        taxes: Math.round(taxes * 100) / 100,
-        total: Math.round(total * 100) / 100,
+        ...applyStayDiscount(pricing, discount),
+        ...(promoCode ? { promoCode } : {}),
+        ...(discountFundedBy ? { discountFundedBy } : {}),
     };
 }
 
@@ -168,34 +272,389 @@ export async function getHostBookings(hostId: string): Promise<Booking[]> {
     }
 }
 
-// Get bookings by property
+// Get a property's bookings that still hold their dates, by check-in.
+// Filtered and sorted client-side so the query needs no composite index.
 export async function getPropertyBookings(propertyId: string): Promise<Booking[]> {
     const q = query(
         collection(db, BOOKINGS_COLLECTION),
-        where('propertyId', '==', propertyId),
-        where('status', 'in', ['pending', 'confirmed']),
-        orderBy('checkIn', 'asc')
+        where('propertyId', '==', propertyId)
     );
 
     const snapshot = await getDocs(q);
-    return snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-    })) as Booking[];
+    return snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Booking)
+        .filter((booking) => isBookingActive(booking))
+        .sort((a, b) => a.checkIn.toMillis() - b.checkIn.toMillis());
 }
 
-// Create booking (client-side for instant book, or via Cloud Function)
+// Create booking atomically: checks the listing's availability rules, blocked dates and
+// night locks, redeems any promo code, then writes the booking and its locks in one
+// transaction. Throws AvailabilityRuleError if the stay breaks a rule, BookingConflictError
+// on overlap and PromoCodeError if the code can't be redeemed.
 export async function createBooking(
     bookingData: Omit<Booking, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<string> {
-    // For instant book, create directly
-    const docRef = await addDoc(collection(db, BOOKINGS_COLLECTION), {
-        ...bookingData,
+    const checkIn = bookingData.checkIn.toDate();
+    const checkOut = bookingData.checkOut.toDate();
+    const nights = getStayNights(checkIn, checkOut);
+    const bookingRef = doc(collection(db, BOOKINGS_COLLECTION));
+    const lockRefs = nights.map((night) => getBookingLockRef(bookingData.propertyId, night));
+
+    await runTransaction(db, async (transaction) => {
+        const property = await getPropertyInTransaction(transaction, bookingData.propertyId);
+        assertStayAllowed(property, checkIn, checkOut);
+
+        const unavailableNights = await findUnavailableNights(transaction, property, checkIn, checkOut);
+        if (unavailableNights.length > 0) {
+            throw new BookingConflictError(unavailableNights);
+        }
+
+        await redeemPromoCode(transaction, { id: bookingRef.id, ...bookingData });
+
+        const booking: Omit<Booking, 'id'> = {
+            ...bookingData,
+            createdAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+        };
+        if (bookingData.status === 'pending') {
+            booking.expiresAt = Timestamp.fromDate(
+                addHours(new Date(), APP_CONFIG.BOOKING_REQUEST_EXPIRY_HOURS)
+            );
+        }
+        transaction.set(bookingRef, booking);
+
+        lockRefs.forEach((ref, i) => {
+            transaction.set(ref, {
+                propertyId: bookingData.propertyId,
+                bookingId: bookingRef.id,
+                date: nights[i],
+                createdAt: Timestamp.now(),
+            });
+        });
+
+        transaction.update(doc(db, PROPERTIES_COLLECTION, bookingData.propertyId), {
+            bookedNights: getUpdatedBookedNights(property.bookedNights, nights),
+        });
+    });
+
+    return bookingRef.id;
+}
+
+// Release the night locks held by a booking and free its nights in search
+export async function releaseBookingLocks(bookingId: string): Promise<void> {
+    const q = query(
+        collection(db, BOOKING_LOCKS_COLLECTION),
+        where('bookingId', '==', bookingId)
+    );
+
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) return;
+
+    // Another booking may have taken a night since the query ran, so each lock is read
+    // again and only freed while this booking still holds it
+    await runTransaction(db, async (transaction) => {
+        const lockSnaps = await Promise.all(snapshot.docs.map((lockDoc) => transaction.get(lockDoc.ref)));
+
+        const releasedNights = new Map<string, string[]>();
+        lockSnaps.forEach((lockSnap) => {
+            if (!lockSnap.exists() || lockSnap.data().bookingId !== bookingId) return;
+
+            const { propertyId, date } = lockSnap.data();
+            releasedNights.set(propertyId, [...(releasedNights.get(propertyId) || []), date]);
+            transaction.delete(lockSnap.ref);
+        });
+        releasedNights.forEach((dates, propertyId) => {
+            transaction.update(doc(db, PROPERTIES_COLLECTION, propertyId), { bookedNights: arrayRemove(...dates) });
+        });
+    });
+}
+
+// Get every booking that still holds its dates
+async function getActiveBookings(now: Date = new Date()): Promise<Booking[]> {
+    const snapshot = await getDocs(query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('status', 'in', ACTIVE_BOOKING_STATUSES)
+    ));
+    return snapshot.docs
+        .map((bookingDoc) => ({ id: bookingDoc.id, ...bookingDoc.data() }) as Booking)
+        .filter((booking) => isBookingActive(booking, now));
+}
+
+// One-off migration: writes the night locks of active bookings made before createBooking
+// took them, so new bookings can't overlap them. The earliest booking keeps a contested
+// night; nights already held by another active booking are returned as conflicts for a
+// host to sort out. Safe to run again.
+export async function backfillBookingLocks(
+    now: Date = new Date()
+): Promise<{ locked: string[]; conflicts: string[] }> {
+    const today = toDateKey(now);
+    const [bookings, locksSnap] = await Promise.all([
+        getActiveBookings(now),
+        getDocs(query(collection(db, BOOKING_LOCKS_COLLECTION), where('date', '>=', today))),
+    ]);
+    const activeBookingIds = new Set(bookings.map((booking) => booking.id));
+
+    // Lock ID -> booking holding it, counting only locks of active bookings
+    const holders = new Map<string, string>();
+    locksSnap.docs.forEach((lockDoc) => {
+        const { bookingId } = lockDoc.data();
+        if (activeBookingIds.has(bookingId)) holders.set(lockDoc.id, bookingId);
+    });
+
+    const locked = new Set<string>();
+    const conflicts: string[] = [];
+    let batch = writeBatch(db);
+    let batchSize = 0;
+
+    const byCreation = [...bookings].sort(
+        (a, b) => (a.createdAt?.toMillis?.() ?? 0) - (b.createdAt?.toMillis?.() ?? 0)
+    );
+    for (const booking of byCreation) {
+        const nights = getStayNights(booking.checkIn.toDate(), booking.checkOut.toDate())
+            .filter((night) => night >= today);
+
+        for (const night of nights) {
+            const lockRef = getBookingLockRef(booking.propertyId, night);
+            const holder = holders.get(lockRef.id);
+            if (holder === booking.id) continue;
+            if (holder) {
+                conflicts.push(`${lockRef.id} (${holder}, ${booking.id})`);
+                continue;
+            }
+
+            batch.set(lockRef, {
+                propertyId: booking.propertyId,
+                bookingId: booking.id,
+                date: night,
+                createdAt: Timestamp.now(),
+            });
+            holders.set(lockRef.id, booking.id);
+            locked.add(booking.id);
+
+            // Firestore batches hold up to 500 writes
+            if (++batchSize === 500) {
+                await batch.commit();
+                batch = writeBatch(db);
+                batchSize = 0;
+            }
+        }
+    }
+
+    if (batchSize > 0) {
+        await batch.commit();
+    }
+
+    return { locked: [...locked], conflicts };
+}
+
+// Rebuild every listing's bookedNights from its active bookings, dropping past nights.
+// Backfills listings booked before search read it and repairs any that drifted.
+// Returns the IDs of listings that changed.
+export async function rebuildBookedNights(now: Date = new Date()): Promise<string[]> {
+    const [propertiesSnap, bookings] = await Promise.all([
+        getDocs(collection(db, PROPERTIES_COLLECTION)),
+        getActiveBookings(now),
+    ]);
+    const today = toDateKey(now);
+
+    const bookedNights = new Map<string, string[]>();
+    bookings.forEach((booking) => {
+        const nights = getStayNights(booking.checkIn.toDate(), booking.checkOut.toDate())
+            .filter((night) => night >= today);
+        bookedNights.set(booking.propertyId, [...(bookedNights.get(booking.propertyId) || []), ...nights]);
+    });
+
+    const updated: string[] = [];
+    let batch = writeBatch(db);
+    let batchSize = 0;
+
+    for (const propertyDoc of propertiesSnap.docs) {
+        const current = (propertyDoc.data() as Property).bookedNights || [];
+        const nights = [...new Set(bookedNights.get(propertyDoc.id) || [])].sort();
+        if (current.length === nights.length && current.every((night, i) => night === nights[i])) continue;
+
+        batch.update(propertyDoc.ref, { bookedNights: nights });
+        updated.push(propertyDoc.id);
+
+        // Firestore batches hold up to 500 writes
+        if (++batchSize === 500) {
+            await batch.commit();
+            batch = writeBatch(db);
+            batchSize = 0;
+        }
+    }
+
+    if (batchSize > 0) {
+        await batch.commit();
+    }
+
+    return updated;
+}
+
+// Propose new dates or guest count for a booking. The stay is re-priced and checked
+// against the listing's rules and other bookings now; the host still has to accept it.
+export async function requestBookingModification(
+    booking: Booking,
+    property: Property,
+    changes: {
+        checkIn: Date;
+        checkOut: Date;
+        guests: { adults: number; children: number; infants: number };
+    },
+    message?: string
+): Promise<BookingModification> {
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+        throw new Error('Only pending or confirmed bookings can be changed');
+    }
+    if (differenceInDays(changes.checkOut, changes.checkIn) < 1) {
+        throw new Error('Checkout must be after check-in');
+    }
+    if (changes.guests.adults + changes.guests.children > property.maxGuests) {
+        throw new Error(`Maximum ${property.maxGuests} guests allowed`);
+    }
+
+    const pricing = calculateModifiedBookingPrice(
+        booking,
+        property,
+        changes.checkIn,
+        changes.checkOut,
+        changes.guests
+    );
+    const modification: BookingModification = {
+        id: uuidv4(),
+        requestedBy: booking.guestId,
+        checkIn: Timestamp.fromDate(changes.checkIn),
+        checkOut: Timestamp.fromDate(changes.checkOut),
+        guests: changes.guests,
+        pricing,
+        priceDifference: Math.round((pricing.total - booking.pricing.total) * 100) / 100,
+        status: 'pending',
         createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+    };
+    if (message) {
+        modification.message = message;
+    }
+
+    await runTransaction(db, async (transaction) => {
+        const currentProperty = await getPropertyInTransaction(transaction, booking.propertyId);
+        assertStayAllowed(currentProperty, changes.checkIn, changes.checkOut, new Date(), {
+            checkIn: booking.checkIn.toDate(),
+            checkOut: booking.checkOut.toDate(),
+        });
+
+        const unavailableNights = await findUnavailableNights(
+            transaction,
+            currentProperty,
+            changes.checkIn,
+            changes.checkOut,
+            booking.id
+        );
+        if (unavailableNights.length > 0) {
+            throw new BookingConflictError(unavailableNights);
+        }
+
+        transaction.update(doc(db, BOOKINGS_COLLECTION, booking.id), {
+            modification,
+            updatedAt: Timestamp.now(),
+        });
     });
 
-    return docRef.id;
+    return modification;
+}
+
+// Host accepts or declines a pending modification. Accepting re-checks availability,
+// moves the night locks, applies the new stay and keeps the old one in versionHistory.
+// Returns the fields written to the booking.
+export async function respondToBookingModification(
+    bookingId: string,
+    accept: boolean
+): Promise<Partial<Booking>> {
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, bookingId);
+
+    return runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        const booking = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+        const modification = booking.modification;
+        if (!modification || modification.status !== 'pending') {
+            throw new Error('This booking has no pending change request');
+        }
+
+        if (!accept) {
+            const update: Partial<Booking> = {
+                modification: { ...modification, status: 'declined', respondedAt: Timestamp.now() },
+                updatedAt: Timestamp.now(),
+            };
+            transaction.update(bookingRef, update);
+            return update;
+        }
+
+        const oldNights = getStayNights(booking.checkIn.toDate(), booking.checkOut.toDate());
+        const newNights = getStayNights(modification.checkIn.toDate(), modification.checkOut.toDate());
+
+        // The rules were checked when the guest asked; the host accepting overrides them
+        const property = await getPropertyInTransaction(transaction, booking.propertyId);
+        const unavailableNights = await findUnavailableNights(
+            transaction,
+            property,
+            modification.checkIn.toDate(),
+            modification.checkOut.toDate(),
+            booking.id
+        );
+        if (unavailableNights.length > 0) {
+            throw new BookingConflictError(unavailableNights);
+        }
+
+        const droppedNights = oldNights.filter((night) => !newNights.includes(night));
+        const droppedLockSnaps = await Promise.all(
+            droppedNights.map((night) => transaction.get(getBookingLockRef(booking.propertyId, night)))
+        );
+        const releasedNights: string[] = [];
+
+        droppedLockSnaps.forEach((lockSnap, i) => {
+            if (lockSnap.exists() && lockSnap.data().bookingId === booking.id) {
+                transaction.delete(lockSnap.ref);
+                releasedNights.push(droppedNights[i]);
+            }
+        });
+
+        newNights.forEach((night) => {
+            transaction.set(getBookingLockRef(booking.propertyId, night), {
+                propertyId: booking.propertyId,
+                bookingId: booking.id,
+                date: night,
+                createdAt: Timestamp.now(),
+            });
+        });
+
+        transaction.update(doc(db, PROPERTIES_COLLECTION, booking.propertyId), {
+            bookedNights: getUpdatedBookedNights(property.bookedNights, newNights, releasedNights),
+        });
+
+        const previousVersion: BookingVersion = {
+            checkIn: booking.checkIn,
+            checkOut: booking.checkOut,
+            guests: booking.guests,
+            pricing: booking.pricing,
+            replacedAt: Timestamp.now(),
+        };
+
+        const update: Partial<Booking> = {
+            checkIn: modification.checkIn,
+            checkOut: modification.checkOut,
+            guests: modification.guests,
+            pricing: modification.pricing,
+            priceDifference: modification.priceDifference,
+            versionHistory: [...(booking.versionHistory || []), previousVersion],
+            modification: { ...modification, status: 'accepted', respondedAt: Timestamp.now() },
+            updatedAt: Timestamp.now(),
+        };
+        transaction.update(bookingRef, update);
+        return update;
+    });
 }
 
 // Create booking via Cloud Function (handles validation and notifications)
@@ -215,29 +674,6 @@ export async function createBookingWithValidation(bookingData: {
     return result.data;
 }
 
-// Update booking status
-export async function updateBookingStatus(
-    bookingId: string,
-    status: BookingStatus,
-    reason?: string
-): Promise<void> {
-    console.log('updateBookingStatus: Updating booking', bookingId, 'to status:', status);
-
-    const docRef = doc(db, BOOKINGS_COLLECTION, bookingId);
-    const updateData: Partial<Booking> = {
-        status,
-        updatedAt: Timestamp.now() as unknown as Timestamp,
-    };
-
-    if (status === 'cancelled' && reason) {
-        updateData.cancelledAt = Timestamp.now() as unknown as Timestamp;
-        updateData.cancellationReason = reason;
-    }
-
-    await updateDoc(docRef, updateData);
-    console.log('updateBookingStatus: Successfully updated booking', bookingId, 'to status:', status);
-}
-
 // Confirm booking (host accepts request)
 export async function confirmBooking(bookingId: string): Promise<void> {
     const confirmBookingFn = httpsCallable<
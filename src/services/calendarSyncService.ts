@@ -0,0 +1,344 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    addDoc,
+    setDoc,
+    updateDoc,
+    deleteDoc,
+    query,
+    where,
+    Timestamp,
+} from 'firebase/firestore';
+import { addMonths } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/firebase';
+import type { Booking, CalendarFeed, ExternalCalendar, Property } from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { toDateKey } from './pricingService';
+import { generateICalendar, getICalBlockedNights, groupConsecutiveDates } from './icalService';
+import type { ICalExportEvent } from './icalService';
+import { deleteCalendarFeed, getCalendarFeedUrl, uploadCalendarFeed } from './storageService';
+
+const PROPERTIES_COLLECTION = 'properties';
+const BOOKINGS_COLLECTION = 'bookings';
+const CALENDAR_FEEDS_COLLECTION = 'calendarFeeds';
+const EXTERNAL_CALENDARS_COLLECTION = 'externalCalendars';
+
+// Every night a property can't be booked: blocked by the host or taken on another platform
+export function getAllBlockedDates(
+    property: Pick<Property, 'blockedDates' | 'externalBlockedDates'>
+): string[] {
+    return [...new Set([...(property.blockedDates || []), ...(property.externalBlockedDates || [])])].sort();
+}
+
+// Get a property's iCal export, if the host has turned it on
+export async function getCalendarFeed(propertyId: string): Promise<CalendarFeed | null> {
+    const snap = await getDoc(doc(db, CALENDAR_FEEDS_COLLECTION, propertyId));
+    return snap.exists() ? (snap.data() as CalendarFeed) : null;
+}
+
+// Events for a property's feed: its upcoming confirmed bookings and the nights the host
+// blocked. Nights imported from other platforms are left out so calendars don't echo.
+export function buildCalendarFeed(property: Property, bookings: Booking[], now: Date = new Date()): string {
+    const today = toDateKey(now);
+
+    const bookingEvents: ICalExportEvent[] = bookings
+        .filter((booking) => booking.status === 'confirmed' && booking.checkOut.toDate() > now)
+        .map((booking) => ({
+            uid: `booking-${booking.id}@sharespace`,
+            summary: 'Reserved',
+            startDate: toDateKey(booking.checkIn.toDate()),
+            endDate: toDateKey(booking.checkOut.toDate()),
+        }));
+
+    const blockedEvents: ICalExportEvent[] = groupConsecutiveDates(
+        (property.blockedDates || []).filter((date) => date >= today)
+    ).map((run) => ({
+        uid: `blocked-${property.id}-${run.startDate}@sharespace`,
+        summary: 'Not available',
+        ...run,
+    }));
+
+    return generateICalendar(
+        `${APP_CONFIG.APP_NAME} – ${property.title}`,
+        [...bookingEvents, ...blockedEvents],
+        now
+    );
+}
+
+// A property and its bookings, everything its feed is built from
+async function getFeedSources(propertyId: string): Promise<{ property: Property; bookings: Booking[] }> {
+    const propertySnap = await getDoc(doc(db, PROPERTIES_COLLECTION, propertyId));
+    if (!propertySnap.exists()) {
+        throw new Error('Property not found');
+    }
+    const property = { id: propertySnap.id, ...propertySnap.data() } as Property;
+
+    const bookingsSnap = await getDocs(
+        query(collection(db, BOOKINGS_COLLECTION), where('propertyId', '==', propertyId))
+    );
+    const bookings = bookingsSnap.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Booking);
+
+    return { property, bookings };
+}
+
+// Rewrite a property's feed from its current bookings and blocked dates
+async function writeCalendarFeed(
+    feed: CalendarFeed,
+    property: Property,
+    bookings: Booking[],
+    now: Date
+): Promise<void> {
+    await uploadCalendarFeed(feed.propertyId, feed.token, buildCalendarFeed(property, bookings, now));
+    await updateDoc(doc(db, CALENDAR_FEEDS_COLLECTION, feed.propertyId), {
+        updatedAt: Timestamp.fromDate(now),
+    });
+}
+
+async function publishCalendarFeed(feed: CalendarFeed, now: Date = new Date()): Promise<void> {
+    const { property, bookings } = await getFeedSources(feed.propertyId);
+    await writeCalendarFeed(feed, property, bookings, now);
+}
+
+// Whether the property or one of its bookings changed since the feed was published
+function isCalendarFeedStale(feed: CalendarFeed, property: Property, bookings: Booking[]): boolean {
+    const publishedAt = feed.updatedAt.toMillis();
+    const changedAt = (updatedAt?: Timestamp) => (updatedAt?.toMillis?.() ?? 0) > publishedAt;
+    return changedAt(property.updatedAt) || bookings.some((booking) => changedAt(booking.updatedAt));
+}
+
+// Turn on a property's iCal export, or give it a new secret URL. The old URL stops working.
+export async function createCalendarFeed(property: Property): Promise<CalendarFeed> {
+    const existing = await getCalendarFeed(property.id);
+    const token = uuidv4().replace(/-/g, '');
+    const feed: CalendarFeed = {
+        propertyId: property.id,
+        hostId: property.hostId,
+        token,
+        url: getCalendarFeedUrl(property.id, token),
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+    };
+
+    await setDoc(doc(db, CALENDAR_FEEDS_COLLECTION, property.id), feed);
+    await publishCalendarFeed(feed);
+
+    if (existing) {
+        try {
+            await deleteCalendarFeed(property.id, existing.token);
+        } catch (error) {
+            console.error('createCalendarFeed: Failed to delete the old feed:', error);
+        }
+    }
+
+    return feed;
+}
+
+// Republish the feeds whose bookings or blocked dates changed since they were last
+// published. Run every few minutes by `npm run publish-calendar-feeds`, so guests'
+// browsers never need to read a feed's token or write to Storage.
+export async function publishChangedCalendarFeeds(now: Date = new Date()): Promise<string[]> {
+    const snapshot = await getDocs(collection(db, CALENDAR_FEEDS_COLLECTION));
+    const published: string[] = [];
+
+    for (const feedDoc of snapshot.docs) {
+        try {
+            const feed = feedDoc.data() as CalendarFeed;
+            const { property, bookings } = await getFeedSources(feed.propertyId);
+            if (isCalendarFeedStale(feed, property, bookings)) {
+                await writeCalendarFeed(feed, property, bookings, now);
+                published.push(feedDoc.id);
+            }
+        } catch (error) {
+            console.error(`publishChangedCalendarFeeds: Failed to publish ${feedDoc.id}:`, error);
+        }
+    }
+
+    return published;
+}
+
+// Republish every feed. Run by `npm run calendar-sync`.
+export async function publishAllCalendarFeeds(now: Date = new Date()): Promise<string[]> {
+    const snapshot = await getDocs(collection(db, CALENDAR_FEEDS_COLLECTION));
+    const published: string[] = [];
+
+    for (const feedDoc of snapshot.docs) {
+        try {
+            await publishCalendarFeed(feedDoc.data() as CalendarFeed, now);
+            published.push(feedDoc.id);
+        } catch (error) {
+            console.error(`publishAllCalendarFeeds: Failed to publish ${feedDoc.id}:`, error);
+        }
+    }
+
+    return published;
+}
+
+// Get the calendars a property imports from other platforms
+export async function getExternalCalendars(propertyId: string): Promise<ExternalCalendar[]> {
+    const q = query(
+        collection(db, EXTERNAL_CALENDARS_COLLECTION),
+        where('propertyId', '==', propertyId)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as ExternalCalendar)
+        .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+}
+
+// Nights an .ics file blocks from today until the import horizon, as local dates
+export function getImportedNights(text: string, now: Date): string[] {
+    return getICalBlockedNights(text, {
+        start: toDateKey(now),
+        end: toDateKey(addMonths(now, APP_CONFIG.CALENDAR_IMPORT_MONTHS)),
+    });
+}
+
+// Copy every external calendar's nights onto the property, where availability checks see them
+async function mergeExternalBlockedDates(propertyId: string): Promise<string[]> {
+    const calendars = await getExternalCalendars(propertyId);
+    const externalBlockedDates = [...new Set(calendars.flatMap((calendar) => calendar.blockedDates))].sort();
+
+    await updateDoc(doc(db, PROPERTIES_COLLECTION, propertyId), {
+        externalBlockedDates,
+        updatedAt: Timestamp.now(),
+    });
+
+    return externalBlockedDates;
+}
+
+// Calendar apps share feeds as webcal:// links, which are plain HTTPS
+function normalizeCalendarUrl(url: string): string {
+    const normalized = url.trim().replace(/^webcals?:\/\//i, 'https://');
+    let parsed: URL;
+    try {
+        parsed = new URL(normalized);
+    } catch {
+        throw new Error('Please enter a valid calendar URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        throw new Error('Please enter a valid calendar URL');
+    }
+    return parsed.toString();
+}
+
+// Fetch an external calendar and store the nights it blocks. A failed fetch keeps the
+// last good nights and records the error. Returns the calendar as stored.
+export async function syncExternalCalendar(
+    calendar: ExternalCalendar,
+    now: Date = new Date()
+): Promise<ExternalCalendar> {
+    if (calendar.source !== 'url' || !calendar.url) {
+        return calendar;
+    }
+
+    let update: Partial<ExternalCalendar>;
+    try {
+        const response = await fetch(calendar.url);
+        if (!response.ok) {
+            throw new Error(`The calendar responded with ${response.status}`);
+        }
+        update = {
+            blockedDates: getImportedNights(await response.text(), now),
+            lastSyncedAt: Timestamp.fromDate(now),
+            lastError: '',
+        };
+    } catch (error) {
+        // fetch() throws a TypeError for network and cross-origin failures
+        update = {
+            lastError: error instanceof TypeError
+                ? "Couldn't reach this calendar"
+                : error instanceof Error ? error.message : 'Sync failed',
+        };
+    }
+
+    await updateDoc(doc(db, EXTERNAL_CALENDARS_COLLECTION, calendar.id), update);
+    if (update.blockedDates) {
+        await mergeExternalBlockedDates(calendar.propertyId);
+    }
+
+    return { ...calendar, ...update };
+}
+
+// Subscribe a property to another platform's iCal feed
+export async function addExternalCalendar(
+    property: Property,
+    name: string,
+    url: string
+): Promise<ExternalCalendar> {
+    const calendar: Omit<ExternalCalendar, 'id'> = {
+        propertyId: property.id,
+        hostId: property.hostId,
+        name: name.trim() || 'External calendar',
+        source: 'url',
+        url: normalizeCalendarUrl(url),
+        blockedDates: [],
+        createdAt: Timestamp.now(),
+    };
+
+    const docRef = await addDoc(collection(db, EXTERNAL_CALENDARS_COLLECTION), calendar);
+    return syncExternalCalendar({ id: docRef.id, ...calendar });
+}
+
+// Import an .ics file once. Unlike a URL it doesn't update; upload it again to refresh.
+export async function importCalendarFile(
+    property: Property,
+    name: string,
+    file: File,
+    now: Date = new Date()
+): Promise<ExternalCalendar> {
+    // Throws ICalParseError for files that aren't calendars
+    const blockedDates = getImportedNights(await file.text(), now);
+
+    const calendar: Omit<ExternalCalendar, 'id'> = {
+        propertyId: property.id,
+        hostId: property.hostId,
+        name: name.trim() || file.name,
+        source: 'file',
+        blockedDates,
+        lastSyncedAt: Timestamp.fromDate(now),
+        createdAt: Timestamp.fromDate(now),
+    };
+
+    const docRef = await addDoc(collection(db, EXTERNAL_CALENDARS_COLLECTION), calendar);
+    await mergeExternalBlockedDates(property.id);
+
+    return { id: docRef.id, ...calendar };
+}
+
+// Stop importing a calendar and free the nights only it blocked
+export async function removeExternalCalendar(calendar: ExternalCalendar): Promise<string[]> {
+    await deleteDoc(doc(db, EXTERNAL_CALENDARS_COLLECTION, calendar.id));
+    return mergeExternalBlockedDates(calendar.propertyId);
+}
+
+// Re-fetch every subscribed calendar. Run by `npm run calendar-sync`.
+export async function syncAllExternalCalendars(
+    now: Date = new Date()
+): Promise<{ synced: string[]; failed: { id: string; error: string }[] }> {
+    const q = query(
+        collection(db, EXTERNAL_CALENDARS_COLLECTION),
+        where('source', '==', 'url')
+    );
+
+    const snapshot = await getDocs(q);
+    const synced: string[] = [];
+    const failed: { id: string; error: string }[] = [];
+
+    for (const calendarDoc of snapshot.docs) {
+        const calendar = await syncExternalCalendar(
+            { id: calendarDoc.id, ...calendarDoc.data() } as ExternalCalendar,
+            now
+        );
+        if (calendar.lastError) {
+            failed.push({ id: calendar.id, error: calendar.lastError });
+        } else {
+            synced.push(calendar.id);
+        }
+    }
+
+    return { synced, failed };
+}
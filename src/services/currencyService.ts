@@ -0,0 +1,102 @@
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { ExchangeRateTable } from '../types';
+import { APP_CONFIG, CURRENCIES } from '../config/constants';
+
+const EXCHANGE_RATES_COLLECTION = 'exchangeRates';
+const LATEST_RATES_DOC = 'latest';
+
+export interface FormatMoneyOptions {
+    // Short form for tight spaces such as map markers, e.g. ₱1.5K
+    compact?: boolean;
+    // ISO code instead of the symbol, e.g. "PHP 1,500"
+    display?: 'symbol' | 'code';
+    // Always show the currency's minor units, e.g. "PHP 1,500.00" on receipts
+    exact?: boolean;
+}
+
+// Format an amount of money. Every price in the app goes through here.
+export function formatMoney(
+    amount: number,
+    currency: string = APP_CONFIG.DEFAULT_CURRENCY,
+    options: FormatMoneyOptions = {}
+): string {
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+        currencyDisplay: options.display ?? 'symbol',
+        ...(options.exact ? {} : { minimumFractionDigits: 0 }),
+        ...(options.compact ? { notation: 'compact', maximumFractionDigits: 1 } : {}),
+    }).format(amount);
+}
+
+// Symbol for a currency on its own, e.g. next to a price input
+export function getCurrencySymbol(currency: string = APP_CONFIG.DEFAULT_CURRENCY): string {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+    return parts.find((part) => part.type === 'currency')?.value ?? currency;
+}
+
+export function isSupportedCurrency(currency: string): boolean {
+    return CURRENCIES.some((c) => c.code === currency);
+}
+
+// Currency a listing or a priced stay is in
+export function getPricingCurrency(pricing?: { currency?: string } | null): string {
+    return pricing?.currency || APP_CONFIG.DEFAULT_CURRENCY;
+}
+
+// Convert between currencies with a rate table. Returns null if either rate is missing.
+export function convertMoney(
+    amount: number,
+    from: string,
+    to: string,
+    table: Pick<ExchangeRateTable, 'base' | 'rates'>
+): number | null {
+    if (from === to) return amount;
+
+    const rateFrom = from === table.base ? 1 : table.rates[from];
+    const rateTo = to === table.base ? 1 : table.rates[to];
+    if (!rateFrom || !rateTo) return null;
+
+    return (amount / rateFrom) * rateTo;
+}
+
+let ratesRequest: Promise<ExchangeRateTable | null> | null = null;
+
+// Get the current rate table. Fetched once per session.
+export function getExchangeRates(): Promise<ExchangeRateTable | null> {
+    if (!ratesRequest) {
+        ratesRequest = getDoc(doc(db, EXCHANGE_RATES_COLLECTION, LATEST_RATES_DOC))
+            .then((snap) => (snap.exists() ? (snap.data() as ExchangeRateTable) : null))
+            .catch((error) => {
+                // Let the next caller try again
+                ratesRequest = null;
+                throw error;
+            });
+    }
+    return ratesRequest;
+}
+
+// Replace the rate table. Used by admins and `npm run update-exchange-rates`.
+export async function saveExchangeRates(
+    base: string,
+    rates: Record<string, number>,
+    source?: string
+): Promise<ExchangeRateTable> {
+    // Only keep currencies we support, and never a zero or negative rate
+    const supportedRates = Object.fromEntries(
+        Object.entries(rates).filter(([code, rate]) => isSupportedCurrency(code) && rate > 0)
+    );
+
+    const table: ExchangeRateTable = {
+        base,
+        rates: { ...supportedRates, [base]: 1 },
+        updatedAt: Timestamp.now(),
+        ...(source ? { source } : {}),
+    };
+
+    await setDoc(doc(db, EXCHANGE_RATES_COLLECTION, LATEST_RATES_DOC), table);
+    ratesRequest = Promise.resolve(table);
+
+    return table;
+}
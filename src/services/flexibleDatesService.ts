@@ -0,0 +1,172 @@
+import { addDays, eachDayOfInterval, endOfMonth, format, isValid, parse, startOfDay } from 'date-fns';
+import type { FlexibleDates, FlexibleTripLength, Property, SearchFilters, StayMatch } from '../types';
+import { isStayAvailable } from './availabilityRulesService';
+import { calculateBookingPrice } from './bookingService';
+
+// Dates searches can ask for: exact dates, exact dates give or take a few days, or any
+// stay of a trip length in some months. Each listing is matched to its cheapest open stay.
+
+const FRIDAY = 5;
+const WEEKEND_NIGHTS = 2;
+const WEEK_NIGHTS = 7;
+const TRIP_LENGTHS: FlexibleTripLength[] = ['weekend', 'week', 'nights'];
+
+// Largest "give or take" on exact dates
+export const MAX_DATE_SHIFT = 7;
+
+// Longest flexible trip, and how many months ahead one can fall in
+export const MAX_TRIP_NIGHTS = 28;
+export const MAX_FLEXIBLE_MONTHS = 12;
+
+// Nights in a flexible trip
+export function getTripNights(flexibleDates: FlexibleDates): number {
+    switch (flexibleDates.tripLength) {
+        case 'weekend':
+            return WEEKEND_NIGHTS;
+        case 'week':
+            return WEEK_NIGHTS;
+        default:
+            return Math.min(Math.max(flexibleDates.nights || 1, 1), MAX_TRIP_NIGHTS);
+    }
+}
+
+// Whether a search asks for particular dates
+export function hasDateFilter(filters: SearchFilters): boolean {
+    return !!filters.flexibleDates || !!(filters.checkIn && filters.checkOut);
+}
+
+// Every stay a search's dates allow, starting today or later
+export function getCandidateStays(
+    filters: SearchFilters,
+    now: Date = new Date()
+): { checkIn: Date; checkOut: Date }[] {
+    const today = startOfDay(now);
+
+    if (filters.flexibleDates) {
+        const { months, tripLength } = filters.flexibleDates;
+        const nights = getTripNights(filters.flexibleDates);
+
+        return [...new Set(months)].slice(0, MAX_FLEXIBLE_MONTHS).flatMap((month) => {
+            const start = parse(month, 'yyyy-MM', today);
+            if (!isValid(start)) return [];
+
+            return eachDayOfInterval({ start, end: endOfMonth(start) })
+                .filter((day) => day >= today && (tripLength !== 'weekend' || day.getDay() === FRIDAY))
+                .map((checkIn) => ({ checkIn, checkOut: addDays(checkIn, nights) }));
+        });
+    }
+
+    if (!filters.checkIn || !filters.checkOut) return [];
+
+    // Shifting moves the whole trip, so it keeps its length
+    const shift = filters.dateShift || 0;
+    const stays: { checkIn: Date; checkOut: Date }[] = [];
+    for (let days = -shift; days <= shift; days++) {
+        const checkIn = addDays(filters.checkIn, days);
+        if (checkIn >= today) {
+            stays.push({ checkIn, checkOut: addDays(filters.checkOut, days) });
+        }
+    }
+    return stays;
+}
+
+// The cheapest of the given stays a listing can take, or null if it can take none
+export function findCheapestStay(
+    property: Property,
+    stays: { checkIn: Date; checkOut: Date }[],
+    guests: { adults: number; children: number; infants: number },
+    now: Date = new Date()
+): StayMatch | null {
+    let cheapest: StayMatch | null = null;
+
+    for (const { checkIn, checkOut } of stays) {
+        if (!isStayAvailable(property, checkIn, checkOut, now)) continue;
+
+        const { total } = calculateBookingPrice(property, checkIn, checkOut, guests);
+        if (!cheapest || total < cheapest.total) {
+            cheapest = { checkIn, checkOut, total };
+        }
+    }
+
+    return cheapest;
+}
+
+// The cheapest open stay for each listing that has one, keyed by listing ID
+export function getStayMatches(
+    properties: Property[],
+    filters: SearchFilters,
+    now: Date = new Date()
+): Map<string, StayMatch> {
+    const stays = getCandidateStays(filters, now);
+    const guests = filters.guests ?? { adults: 1, children: 0, infants: 0 };
+    const matches = new Map<string, StayMatch>();
+
+    properties.forEach((property) => {
+        const match = findCheapestStay(property, stays, guests, now);
+        if (match) {
+            matches.set(property.id, match);
+        }
+    });
+
+    return matches;
+}
+
+// "Weekend in Dec", "Week in Dec or Jan", "5 nights in Dec"
+export function formatFlexibleDates(flexibleDates: FlexibleDates): string {
+    const trip = flexibleDates.tripLength === 'weekend'
+        ? 'Weekend'
+        : flexibleDates.tripLength === 'week'
+            ? 'Week'
+            : `${getTripNights(flexibleDates)} nights`;
+    const months = [...flexibleDates.months]
+        .sort()
+        .map((month) => format(parse(month, 'yyyy-MM', new Date()), 'MMM'));
+
+    if (months.length === 0) return `${trip}, any time`;
+    const monthList = months.length > 1
+        ? `${months.slice(0, -1).join(', ')} or ${months[months.length - 1]}`
+        : months[0];
+    return `${trip} in ${monthList}`;
+}
+
+// Write a search's dates to /search query params
+export function setDateSearchParams(params: URLSearchParams, filters: SearchFilters): void {
+    if (filters.flexibleDates) {
+        params.set('months', [...filters.flexibleDates.months].sort().join(','));
+        params.set('trip', filters.flexibleDates.tripLength);
+        if (filters.flexibleDates.tripLength === 'nights') {
+            params.set('nights', String(getTripNights(filters.flexibleDates)));
+        }
+        return;
+    }
+
+    if (filters.checkIn) params.set('checkIn', filters.checkIn.toISOString());
+    if (filters.checkOut) params.set('checkOut', filters.checkOut.toISOString());
+    if (filters.checkIn && filters.checkOut && filters.dateShift) {
+        params.set('dateShift', String(filters.dateShift));
+    }
+}
+
+// Read a search's dates back from /search query params
+export function parseDateSearchParams(
+    params: URLSearchParams
+): Pick<SearchFilters, 'checkIn' | 'checkOut' | 'dateShift' | 'flexibleDates'> {
+    const months = [...new Set(params.get('months')?.split(',').filter((month) => /^\d{4}-\d{2}$/.test(month)))]
+        .slice(0, MAX_FLEXIBLE_MONTHS);
+    const trip = params.get('trip') as FlexibleTripLength | null;
+
+    if (months.length > 0 && trip && TRIP_LENGTHS.includes(trip)) {
+        const flexibleDates: FlexibleDates = { months, tripLength: trip };
+        if (trip === 'nights') {
+            flexibleDates.nights = getTripNights({ ...flexibleDates, nights: parseInt(params.get('nights') || '1') });
+        }
+        return { flexibleDates };
+    }
+
+    const dateShift = Math.min(Math.max(parseInt(params.get('dateShift') || '0') || 0, 0), MAX_DATE_SHIFT);
+    return {
+        checkIn: params.get('checkIn') ? new Date(params.get('checkIn')!) : undefined,
+        checkOut: params.get('checkOut') ? new Date(params.get('checkOut')!) : undefined,
+        dateShift: dateShift || undefined,
+    };
+}
@@ -1,11 +1,15 @@
 
 
-import { MAP_CONFIG } from '../config/constants';
+import { APP_CONFIG, MAP_CONFIG } from '../config/constants';
+import { getRadiusBounds } from './geohashService';
+import type { GeoBounds } from './geohashService';
 
 export interface GeocodingResult {
     lat: number;
     lng: number;
     displayName: string;
+    // The place's extent, when the geocoder knows it
+    bounds?: GeoBounds;
     address: {
         city?: string;
         state?: string;
@@ -40,10 +44,20 @@ export async function geocodeAddress(address: string): Promise<GeocodingResult |
         }
 
         const result = data[0];
+        // Nominatim orders the box as [south, north, west, east]
+        const box: string[] | undefined = result.boundingbox;
         return {
             lat: parseFloat(result.lat),
             lng: parseFloat(result.lon),
             displayName: result.display_name,
+            ...(box ? {
+                bounds: {
+                    south: parseFloat(box[0]),
+                    north: parseFloat(box[1]),
+                    west: parseFloat(box[2]),
+                    east: parseFloat(box[3]),
+                },
+            } : {}),
             address: {
                 city: result.address?.city || result.address?.town || result.address?.village,
                 state: result.address?.state,
@@ -57,6 +71,37 @@ export async function geocodeAddress(address: string): Promise<GeocodingResult |
     }
 }
 
+// Where a location search looks: the place's extent, widened to cover at least
+// APP_CONFIG.SEARCH_MIN_RADIUS_KM around it so an address still finds nearby listings
+export interface SearchArea {
+    center: { lat: number; lng: number };
+    bounds: GeoBounds;
+}
+
+export async function getSearchArea(location: string): Promise<SearchArea | null> {
+    const result = await geocodeAddress(location);
+    if (!result) return null;
+
+    const center = { lat: result.lat, lng: result.lng };
+    const minimum = getRadiusBounds(center, APP_CONFIG.SEARCH_MIN_RADIUS_KM);
+    const place = result.bounds;
+
+    // Boxes across the antimeridian don't widen by min/max; use whichever is given
+    if (!place || place.west > place.east || minimum.west > minimum.east) {
+        return { center, bounds: place ?? minimum };
+    }
+
+    return {
+        center,
+        bounds: {
+            north: Math.max(place.north, minimum.north),
+            south: Math.min(place.south, minimum.south),
+            east: Math.max(place.east, minimum.east),
+            west: Math.min(place.west, minimum.west),
+        },
+    };
+}
+
 // Reverse geocode coordinates to address
 export async function reverseGeocode(
     lat: number,
@@ -0,0 +1,127 @@
+// Geohashes for location search. A geohash names a lat/lng cell; every point in a cell
+// shares its prefix, so an area can be queried as a few prefix ranges on one field.
+
+export interface GeoBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Stored precision: cells of about 1 m
+export const GEOHASH_PRECISION = 10;
+
+// An area is covered by at most this many cells, so one search runs at most this many queries
+const MAX_QUERY_CELLS = 9;
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+export function encodeGeohash(lat: number, lng: number, precision: number = GEOHASH_PRECISION): string {
+    let latRange: [number, number] = [-90, 90];
+    let lngRange: [number, number] = [-180, 180];
+    let hash = '';
+    let bits = 0;
+    let bitCount = 0;
+    let evenBit = true;
+
+    while (hash.length < precision) {
+        // Bits alternate between longitude and latitude, longitude first
+        const range = evenBit ? lngRange : latRange;
+        const value = evenBit ? lng : lat;
+        const mid = (range[0] + range[1]) / 2;
+
+        if (value >= mid) {
+            bits = bits * 2 + 1;
+            if (evenBit) lngRange = [mid, range[1]]; else latRange = [mid, range[1]];
+        } else {
+            bits = bits * 2;
+            if (evenBit) lngRange = [range[0], mid]; else latRange = [range[0], mid];
+        }
+
+        evenBit = !evenBit;
+        if (++bitCount === 5) {
+            hash += BASE32[bits];
+            bits = 0;
+            bitCount = 0;
+        }
+    }
+
+    return hash;
+}
+
+// Width and height in degrees of a cell at a precision
+function getCellSize(precision: number): { lat: number; lng: number } {
+    const totalBits = precision * 5;
+    const lngBits = Math.ceil(totalBits / 2);
+    const latBits = Math.floor(totalBits / 2);
+    return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+}
+
+// The cells at a precision that a box touches, found by sampling it one cell apart
+function getCoveringCells(bounds: GeoBounds, precision: number): Set<string> {
+    const size = getCellSize(precision);
+    const cells = new Set<string>();
+
+    for (let lat = bounds.south; ; lat = Math.min(lat + size.lat, bounds.north)) {
+        for (let lng = bounds.west; ; lng = Math.min(lng + size.lng, bounds.east)) {
+            cells.add(encodeGeohash(lat, lng, precision));
+            if (lng >= bounds.east || cells.size > MAX_QUERY_CELLS) break;
+        }
+        if (lat >= bounds.north || cells.size > MAX_QUERY_CELLS) break;
+    }
+
+    return cells;
+}
+
+// Prefix ranges [start, end] covering a box, for queries on a stored geohash field.
+// Ranges can include points outside the box; filter the results by their coordinates.
+export function getGeohashRanges(bounds: GeoBounds): [string, string][] {
+    // A box across the antimeridian is two boxes
+    if (bounds.west > bounds.east) {
+        return [
+            ...getGeohashRanges({ ...bounds, east: 180 }),
+            ...getGeohashRanges({ ...bounds, west: -180 }),
+        ];
+    }
+
+    const clamped: GeoBounds = {
+        north: Math.min(bounds.north, 90),
+        south: Math.max(bounds.south, -90),
+        east: Math.min(bounds.east, 180),
+        west: Math.max(bounds.west, -180),
+    };
+
+    // The most precise cells that still cover the box in a few queries
+    for (let precision = GEOHASH_PRECISION; precision >= 1; precision--) {
+        const cells = getCoveringCells(clamped, precision);
+        if (cells.size <= MAX_QUERY_CELLS) {
+            return [...cells].sort().map((cell) => [cell, `${cell}~`]);
+        }
+    }
+
+    // The whole world
+    return [['', '~']];
+}
+
+// The box around a point that contains a circle of the given radius
+export function getRadiusBounds(center: { lat: number; lng: number }, radiusKm: number): GeoBounds {
+    const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+    const lngDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos((center.lat * Math.PI) / 180), 0.01));
+
+    return {
+        north: Math.min(center.lat + latDelta, 90),
+        south: Math.max(center.lat - latDelta, -90),
+        east: lngDelta >= 180 ? 180 : ((center.lng + lngDelta + 540) % 360) - 180,
+        west: lngDelta >= 180 ? -180 : ((center.lng - lngDelta + 540) % 360) - 180,
+    };
+}
+
+// Whether a point lies in a box, including boxes across the antimeridian
+export function isInBounds(lat: number, lng: number, bounds: GeoBounds): boolean {
+    if (lat < bounds.south || lat > bounds.north) return false;
+    return bounds.west <= bounds.east
+        ? lng >= bounds.west && lng <= bounds.east
+        : lng >= bounds.west || lng <= bounds.east;
+}
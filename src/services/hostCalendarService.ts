@@ -0,0 +1,98 @@
+import { doc, writeBatch, Timestamp } from 'firebase/firestore';
+import { parseISO } from 'date-fns';
+import { db } from '../config/firebase';
+import type { Property } from '../types';
+import { getNightlyBaseRate } from './pricingService';
+
+const PROPERTIES_COLLECTION = 'properties';
+
+// Bulk edits from the host's multi-listing calendar. Dates are YYYY-MM-DD nights as shown on
+// the calendar, the same keys blockedDates and customPricing use.
+
+// The nightly rate a listing charges for a night before stay discounts and fees
+export function getNightRate(property: Property, date: string): number {
+    return getNightlyBaseRate(property.pricing, parseISO(date));
+}
+
+// Write the changed fields of several listings in one batch
+async function saveProperties(
+    updates: { propertyId: string; data: Record<string, unknown> }[]
+): Promise<void> {
+    const batch = writeBatch(db);
+    const now = Timestamp.now();
+
+    updates.forEach(({ propertyId, data }) => {
+        batch.update(doc(db, PROPERTIES_COLLECTION, propertyId), { ...data, updatedAt: now });
+    });
+
+    await batch.commit();
+}
+
+// Block or unblock the given nights on every listing. Nights imported from other
+// platforms stay blocked; they're freed by removing the external calendar.
+export async function setDatesBlocked(
+    properties: Property[],
+    dates: string[],
+    blocked: boolean
+): Promise<Property[]> {
+    const updated = properties.map((property) => {
+        const current = property.blockedDates || [];
+        const blockedDates = blocked
+            ? [...new Set([...current, ...dates])].sort()
+            : current.filter((date) => !dates.includes(date));
+        return { ...property, blockedDates };
+    });
+
+    await saveProperties(
+        updated.map((property) => ({ propertyId: property.id, data: { blockedDates: property.blockedDates } }))
+    );
+
+    return updated;
+}
+
+// Set a custom nightly price for the given nights on every listing, or clear it with null
+export async function setCustomPrice(
+    properties: Property[],
+    dates: string[],
+    price: number | null
+): Promise<Property[]> {
+    if (price !== null && !(price > 0)) {
+        throw new Error('Please enter a price greater than 0');
+    }
+
+    const updated = properties.map((property) => {
+        const customPricing = [
+            ...(property.pricing.customPricing || []).filter((cp) => !dates.includes(cp.date)),
+            ...(price !== null ? dates.map((date) => ({ date, price })) : []),
+        ].sort((a, b) => a.date.localeCompare(b.date));
+        return { ...property, pricing: { ...property.pricing, customPricing } };
+    });
+
+    await saveProperties(
+        updated.map((property) => ({
+            propertyId: property.id,
+            data: { 'pricing.customPricing': property.pricing.customPricing },
+        }))
+    );
+
+    return updated;
+}
+
+// Set the minimum number of nights on every listing
+export async function setMinimumStay(properties: Property[], nights: number): Promise<Property[]> {
+    if (!Number.isInteger(nights) || nights < 1) {
+        throw new Error('Minimum stay must be at least 1 night');
+    }
+
+    const tooLong = properties.find((property) => property.maximumStay && nights > property.maximumStay);
+    if (tooLong) {
+        throw new Error(`"${tooLong.title}" allows stays of up to ${tooLong.maximumStay} nights`);
+    }
+
+    const updated = properties.map((property) => ({ ...property, minimumStay: nights }));
+    await saveProperties(
+        updated.map((property) => ({ propertyId: property.id, data: { minimumStay: nights } }))
+    );
+
+    return updated;
+}
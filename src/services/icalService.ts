@@ -0,0 +1,635 @@
+// Reading and writing iCalendar (RFC 5545) files for calendar sync with other platforms.
+// Only what calendar sync needs: events, their dates and their recurrences.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop runaway recurrences (e.g. a daily event with no end)
+const MAX_OCCURRENCES = 1000;
+const MAX_RECURRENCE_PERIODS = 50000;
+
+// A date-time as the wall clock reads it, stored as if it were UTC so that day
+// arithmetic never crosses a DST change
+type WallTime = number;
+
+export interface ICalDate {
+    wallTime: WallTime;
+    allDay: boolean;
+    // True for times written in UTC (a trailing Z)
+    utc: boolean;
+    tzid?: string;
+}
+
+export interface ICalRecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+    interval: number;
+    count?: number;
+    until?: ICalDate;
+    byDay?: { weekday: number; ordinal?: number }[];
+    byMonthDay?: number[];
+    byMonth?: number[];
+}
+
+export interface ICalEvent {
+    uid: string;
+    summary?: string;
+    status?: string;
+    start: ICalDate;
+    end?: ICalDate;
+    duration?: number;
+    rrule?: ICalRecurrenceRule;
+    exdates: ICalDate[];
+    rdates: ICalDate[];
+    // Set on an edited instance of a recurring event
+    recurrenceId?: ICalDate;
+}
+
+export interface ICalCalendar {
+    name?: string;
+    timeZone?: string;
+    events: ICalEvent[];
+}
+
+export interface ICalOccurrence {
+    uid: string;
+    summary?: string;
+    start: WallTime;
+    end: WallTime;
+    allDay: boolean;
+}
+
+// Thrown when a file isn't an iCalendar at all
+export class ICalParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ICalParseError';
+    }
+}
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Lines longer than 75 octets are folded onto lines starting with a space or tab
+function unfoldLines(text: string): string[] {
+    return text
+        .replace(/\r\n|\r/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter((line) => line.trim() !== '');
+}
+
+function parseContentLine(line: string): ContentLine | null {
+    // The value starts after the first colon that isn't inside a quoted parameter
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon === -1) return null;
+
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+        const eq = part.indexOf('=');
+        if (eq !== -1) {
+            params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseDateValue(value: string, params: Record<string, string>): ICalDate {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) {
+        throw new ICalParseError(`Invalid date "${value}"`);
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const allDay = params.VALUE === 'DATE' || hour === undefined;
+
+    return {
+        wallTime: Date.UTC(
+            Number(year),
+            Number(month) - 1,
+            Number(day),
+            allDay ? 0 : Number(hour),
+            allDay ? 0 : Number(minute),
+            allDay ? 0 : Number(second ?? 0)
+        ),
+        allDay,
+        utc: !allDay && utc === 'Z',
+        ...(params.TZID && !allDay ? { tzid: params.TZID } : {}),
+    };
+}
+
+// Comma-separated dates, as in EXDATE and RDATE
+function parseDateList(value: string, params: Record<string, string>): ICalDate[] {
+    return value.split(',').filter(Boolean).map((part) => parseDateValue(part, params));
+}
+
+// ISO 8601 durations such as P1D, PT2H30M or P1W
+function parseDuration(value: string): number {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) {
+        throw new ICalParseError(`Invalid duration "${value}"`);
+    }
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 3600
+        + Number(hours ?? 0) * 3600
+        + Number(minutes ?? 0) * 60
+        + Number(seconds ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+}
+
+function parseRecurrenceRule(value: string): ICalRecurrenceRule | undefined {
+    const parts = Object.fromEntries(
+        value.split(';').map((part) => {
+            const [key, val = ''] = part.split('=');
+            return [key.toUpperCase(), val.toUpperCase()];
+        })
+    );
+
+    const freq = parts.FREQ as ICalRecurrenceRule['freq'];
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+        // Hourly and finer rules can't block whole nights sensibly
+        return undefined;
+    }
+
+    const numbers = (list?: string) => list?.split(',').map(Number).filter((n) => !Number.isNaN(n));
+
+    return {
+        freq,
+        interval: Math.max(1, Number(parts.INTERVAL) || 1),
+        ...(parts.COUNT ? { count: Number(parts.COUNT) } : {}),
+        ...(parts.UNTIL ? { until: parseDateValue(parts.UNTIL, {}) } : {}),
+        ...(parts.BYDAY
+            ? {
+                byDay: parts.BYDAY.split(',').flatMap((day: string) => {
+                    const dayMatch = day.match(/^([+-]?\d+)?([A-Z]{2})$/);
+                    const weekday = dayMatch ? WEEKDAYS.indexOf(dayMatch[2]) : -1;
+                    if (!dayMatch || weekday === -1) return [];
+                    return [{ weekday, ...(dayMatch[1] ? { ordinal: Number(dayMatch[1]) } : {}) }];
+                }),
+            }
+            : {}),
+        ...(parts.BYMONTHDAY ? { byMonthDay: numbers(parts.BYMONTHDAY) } : {}),
+        ...(parts.BYMONTH ? { byMonth: numbers(parts.BYMONTH) } : {}),
+    };
+}
+
+// Parse an .ics file into its events
+export function parseICalendar(text: string): ICalCalendar {
+    const lines = unfoldLines(text);
+    if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new ICalParseError('This is not an iCalendar file');
+    }
+
+    const calendar: ICalCalendar = { events: [] };
+    // Nesting of the components we're inside, e.g. VCALENDAR > VEVENT > VALARM
+    const stack: string[] = [];
+    let event: Partial<ICalEvent> | null = null;
+
+    for (const line of lines) {
+        const content = parseContentLine(line);
+        if (!content) continue;
+        const { name, params, value } = content;
+
+        if (name === 'BEGIN') {
+            stack.push(value.toUpperCase());
+            if (value.toUpperCase() === 'VEVENT') {
+                event = { exdates: [], rdates: [] };
+            }
+            continue;
+        }
+        if (name === 'END') {
+            const component = stack.pop();
+            if (component === 'VEVENT' && event) {
+                if (event.start) {
+                    calendar.events.push({
+                        uid: event.uid ?? `event-${calendar.events.length}`,
+                        ...event,
+                    } as ICalEvent);
+                }
+                event = null;
+            }
+            continue;
+        }
+
+        const current = stack[stack.length - 1];
+
+        if (current === 'VCALENDAR') {
+            if (name === 'X-WR-CALNAME') calendar.name = unescapeText(value);
+            if (name === 'X-WR-TIMEZONE') calendar.timeZone = value.trim();
+            continue;
+        }
+        if (current !== 'VEVENT' || !event) continue;
+
+        switch (name) {
+            case 'UID':
+                event.uid = value.trim();
+                break;
+            case 'SUMMARY':
+                event.summary = unescapeText(value);
+                break;
+            case 'STATUS':
+                event.status = value.trim().toUpperCase();
+                break;
+            case 'DTSTART':
+                event.start = parseDateValue(value, params);
+                break;
+            case 'DTEND':
+                event.end = parseDateValue(value, params);
+                break;
+            case 'DURATION':
+                event.duration = parseDuration(value);
+                break;
+            case 'RRULE':
+                event.rrule = parseRecurrenceRule(value);
+                break;
+            case 'EXDATE':
+                event.exdates!.push(...parseDateList(value, params));
+                break;
+            case 'RDATE':
+                // Periods (start/end) aren't supported; plain dates are
+                if (params.VALUE !== 'PERIOD') {
+                    event.rdates!.push(...parseDateList(value, params));
+                }
+                break;
+            case 'RECURRENCE-ID':
+                event.recurrenceId = parseDateValue(value, params);
+                break;
+        }
+    }
+
+    return calendar;
+}
+
+// Wall-clock time in a time zone at an instant. Returns null for unknown zones.
+function toZonedWallTime(instant: number, timeZone: string): WallTime | null {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(instant);
+        const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+        return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    } catch {
+        return null;
+    }
+}
+
+// Instant at which a time zone's wall clock reads the given time
+function fromZonedWallTime(wallTime: WallTime, timeZone: string): number | null {
+    const offsetAt = (instant: number) => {
+        const zoned = toZonedWallTime(instant, timeZone);
+        return zoned === null ? null : zoned - instant;
+    };
+
+    const firstOffset = offsetAt(wallTime);
+    if (firstOffset === null) return null;
+    const guess = wallTime - firstOffset;
+
+    // Around a DST change the offset at the guess can differ from the first one
+    const secondOffset = offsetAt(guess);
+    return secondOffset === null || secondOffset === firstOffset ? guess : wallTime - secondOffset;
+}
+
+// TZIDs come as IANA names, sometimes behind a vendor prefix such as /mozilla.org/20070129_1/Europe/London
+function resolveTimeZone(tzid: string): string | null {
+    const parts = tzid.replace(/^\/+/, '').split('/');
+    for (let i = 0; i < parts.length; i++) {
+        const candidate = parts.slice(i).join('/');
+        if (toZonedWallTime(0, candidate) !== null) return candidate;
+    }
+    return null;
+}
+
+// Bring a date onto the target time zone's wall clock. All-day dates have no zone.
+// Without a target zone, zoned times keep their own wall clock and UTC times stay in UTC.
+function toTargetWallTime(date: ICalDate, targetZone?: string): WallTime {
+    if (date.allDay) return date.wallTime;
+
+    const sourceZone = date.utc ? 'UTC' : date.tzid ? resolveTimeZone(date.tzid) : null;
+    // Floating times read the same everywhere
+    if (!sourceZone || !targetZone) return date.wallTime;
+
+    const instant = sourceZone === 'UTC' ? date.wallTime : fromZonedWallTime(date.wallTime, sourceZone);
+    if (instant === null) return date.wallTime;
+    return toZonedWallTime(instant, targetZone) ?? date.wallTime;
+}
+
+const getWeekday = (wallTime: WallTime) => new Date(wallTime).getUTCDay();
+
+function addMonths(wallTime: WallTime, months: number): { year: number; month: number } {
+    const date = new Date(wallTime);
+    const total = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+    return { year: Math.floor(total / 12), month: total % 12 };
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// The days of a month that a MONTHLY or YEARLY rule picks
+function monthDays(rule: ICalRecurrenceRule, year: number, month: number, startDay: number): number[] {
+    const length = daysInMonth(year, month);
+
+    if (rule.byMonthDay) {
+        return rule.byMonthDay
+            .map((day) => (day < 0 ? length + day + 1 : day))
+            .filter((day) => day >= 1 && day <= length);
+    }
+
+    if (rule.byDay) {
+        const days: number[] = [];
+        for (const { weekday, ordinal } of rule.byDay) {
+            const matching: number[] = [];
+            for (let day = 1; day <= length; day++) {
+                if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+            }
+            if (ordinal === undefined) {
+                days.push(...matching);
+            } else {
+                const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (day) days.push(day);
+            }
+        }
+        return days;
+    }
+
+    // Months without the start's day (e.g. the 31st) are skipped
+    return startDay <= length ? [startDay] : [];
+}
+
+// Start times of a recurring event within the range, in order. Earlier occurrences
+// still count towards the rule's COUNT.
+function expandRecurrence(
+    start: WallTime,
+    rule: ICalRecurrenceRule,
+    until: WallTime | null,
+    range: { start: WallTime; end: WallTime }
+): WallTime[] {
+    const starts: WallTime[] = [];
+    let occurrenceCount = 0;
+    const timeOfDay = start - Math.floor(start / DAY_MS) * DAY_MS;
+    const startDate = new Date(start);
+    const last = Math.min(range.end, until ?? Infinity);
+
+    // Candidates in each period, sorted; only those on or after the start count
+    const emit = (candidates: WallTime[]): boolean => {
+        for (const candidate of candidates.sort((a, b) => a - b)) {
+            if (candidate < start) continue;
+            if (candidate > last) return false;
+            if (rule.count !== undefined && occurrenceCount >= rule.count) return false;
+            if (starts.length >= MAX_OCCURRENCES) return false;
+            occurrenceCount++;
+            if (candidate >= range.start) starts.push(candidate);
+        }
+        return true;
+    };
+
+    for (let period = 0; ; period++) {
+        const step = period * rule.interval;
+        let candidates: WallTime[];
+
+        switch (rule.freq) {
+            case 'DAILY':
+                candidates = [start + step * DAY_MS];
+                break;
+            case 'WEEKLY': {
+                // Weeks start on Monday
+                const weekStart = start - ((getWeekday(start) + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+                candidates = rule.byDay
+                    ? rule.byDay.map(({ weekday }) => weekStart + ((weekday + 6) % 7) * DAY_MS)
+                    : [start + step * 7 * DAY_MS];
+                break;
+            }
+            case 'MONTHLY': {
+                const { year, month } = addMonths(start, step);
+                candidates = monthDays(rule, year, month, startDate.getUTCDate())
+                    .map((day) => Date.UTC(year, month, day) + timeOfDay);
+                break;
+            }
+            case 'YEARLY': {
+                const year = startDate.getUTCFullYear() + step;
+                const months = rule.byMonth?.map((m) => m - 1) ?? [startDate.getUTCMonth()];
+                candidates = months.flatMap((month) => monthDays(rule, year, month, startDate.getUTCDate())
+                    .map((day) => Date.UTC(year, month, day) + timeOfDay));
+                break;
+            }
+        }
+
+        if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+            // BYMONTH narrows daily and weekly rules to some months
+            candidates = candidates.filter((c) => !rule.byMonth || rule.byMonth.includes(new Date(c).getUTCMonth() + 1));
+        }
+
+        if (!emit(candidates)) break;
+        // Once a period starts past the end, every later one does too
+        if ((candidates.length > 0 && Math.min(...candidates) > last) || period > MAX_RECURRENCE_PERIODS) break;
+    }
+
+    return starts;
+}
+
+function getOccurrenceLength(event: ICalEvent, toWall: (date: ICalDate) => WallTime): number {
+    if (event.end) return toWall(event.end) - toWall(event.start);
+    if (event.duration !== undefined) return event.duration;
+    // All-day events without an end last a day; timed ones are an instant
+    return event.start.allDay ? DAY_MS : 0;
+}
+
+// Every occurrence of the calendar's events that overlaps the range, on the target
+// time zone's wall clock (the calendar's own zone if none is given).
+// Cancelled events and instances removed with EXDATE are left out.
+export function expandICalEvents(
+    calendar: ICalCalendar,
+    range: { start: Date; end: Date },
+    timeZone: string | undefined = calendar.timeZone
+): ICalOccurrence[] {
+    const targetZone = timeZone ? resolveTimeZone(timeZone) ?? undefined : undefined;
+    const toWall = (date: ICalDate) => toTargetWallTime(date, targetZone);
+    const rangeStart = Date.UTC(range.start.getUTCFullYear(), range.start.getUTCMonth(), range.start.getUTCDate());
+    const rangeEnd = Date.UTC(range.end.getUTCFullYear(), range.end.getUTCMonth(), range.end.getUTCDate()) + DAY_MS;
+
+    // Edited instances replace the occurrence they were made from
+    const overrides = new Map<string, ICalEvent>();
+    for (const event of calendar.events) {
+        if (event.recurrenceId) {
+            overrides.set(`${event.uid}|${toWall(event.recurrenceId)}`, event);
+        }
+    }
+
+    const occurrences: ICalOccurrence[] = [];
+    const addOccurrence = (event: ICalEvent, start: WallTime) => {
+        if (event.status === 'CANCELLED') return;
+
+        const end = start + Math.max(0, getOccurrenceLength(event, toWall));
+        if (end < rangeStart || start >= rangeEnd) return;
+        occurrences.push({ uid: event.uid, summary: event.summary, start, end, allDay: event.start.allDay });
+    };
+
+    for (const event of calendar.events) {
+        if (event.recurrenceId) {
+            addOccurrence(event, toWall(event.start));
+            continue;
+        }
+
+        const start = toWall(event.start);
+        if (!event.rrule && event.rdates.length === 0) {
+            addOccurrence(event, start);
+            continue;
+        }
+
+        const until = event.rrule?.until ? toWall(event.rrule.until) : null;
+        // Occurrences that start before the range can still run into it
+        const earliestStart = rangeStart - Math.max(0, getOccurrenceLength(event, toWall));
+        const starts = new Set(event.rrule
+            ? expandRecurrence(start, event.rrule, until, { start: earliestStart, end: rangeEnd })
+            : [start]);
+        event.rdates.forEach((rdate) => starts.add(toWall(rdate)));
+        event.exdates.forEach((exdate) => starts.delete(toWall(exdate)));
+
+        for (const occurrenceStart of [...starts].sort((a, b) => a - b)) {
+            if (overrides.has(`${event.uid}|${occurrenceStart}`)) continue;
+            addOccurrence(event, occurrenceStart);
+        }
+    }
+
+    return occurrences;
+}
+
+const toDateKey = (wallTime: WallTime) => new Date(wallTime).toISOString().split('T')[0];
+
+// Nights an occurrence takes: each date from its start up to, but not including, the day it
+// ends. Checkout days stay free for the next guest. Events within a single day block that day.
+export function getOccurrenceNights(occurrence: Pick<ICalOccurrence, 'start' | 'end'>): string[] {
+    const firstDay = Math.floor(occurrence.start / DAY_MS) * DAY_MS;
+    const endDay = Math.floor(occurrence.end / DAY_MS) * DAY_MS;
+    if (endDay <= firstDay) return [toDateKey(firstDay)];
+
+    const nights: string[] = [];
+    for (let day = firstDay; day < endDay; day += DAY_MS) {
+        nights.push(toDateKey(day));
+    }
+    return nights;
+}
+
+// Nights from the range's first to its last date key that an .ics file's events take, sorted
+export function getICalBlockedNights(
+    text: string,
+    range: { start: string; end: string },
+    timeZone?: string
+): string[] {
+    const calendar = parseICalendar(text);
+    const dates = { start: new Date(`${range.start}T00:00:00Z`), end: new Date(`${range.end}T00:00:00Z`) };
+
+    const nights = new Set<string>();
+    for (const occurrence of expandICalEvents(calendar, dates, timeZone ?? calendar.timeZone)) {
+        getOccurrenceNights(occurrence)
+            .filter((night) => night >= range.start && night <= range.end)
+            .forEach((night) => nights.add(night));
+    }
+    return [...nights].sort();
+}
+
+export interface ICalExportEvent {
+    uid: string;
+    summary: string;
+    // Date keys; the end is the day after the last night
+    startDate: string;
+    endDate: string;
+}
+
+function escapeText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+// Fold lines to 75 octets, as the spec requires
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const folded: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = folded.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            folded.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    folded.push(current);
+    return folded.join('\r\n ');
+}
+
+const toICalDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const toICalTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Write all-day events as an .ics file
+export function generateICalendar(
+    name: string,
+    events: ICalExportEvent[],
+    now: Date = new Date()
+): string {
+    const stamp = toICalTimestamp(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//ShareSpace//Calendar Sync//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.flatMap((event) => [
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toICalDate(event.startDate)}`,
+            `DTEND;VALUE=DATE:${toICalDate(event.endDate)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            'TRANSP:OPAQUE',
+            'END:VEVENT',
+        ]),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Group date keys into runs of consecutive nights, as [first night, day after the last]
+export function groupConsecutiveDates(dateKeys: string[]): { startDate: string; endDate: string }[] {
+    const days = [...new Set(dateKeys)].sort().map((key) => Date.parse(`${key}T00:00:00Z`));
+    const runs: { startDate: string; endDate: string }[] = [];
+
+    for (const day of days) {
+        const lastRun = runs[runs.length - 1];
+        if (lastRun && Date.parse(`${lastRun.endDate}T00:00:00Z`) === day) {
+            lastRun.endDate = toDateKey(day + DAY_MS);
+        } else {
+            runs.push({ startDate: toDateKey(day), endDate: toDateKey(day + DAY_MS) });
+        }
+    }
+    return runs;
+}
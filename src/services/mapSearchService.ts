@@ -0,0 +1,120 @@
+import type { MapPoint, SearchFilters } from '../types';
+import type { GeoBounds } from './geohashService';
+import type { SearchArea } from './geocodingService';
+
+// Searches by the map: the view a guest moved the map to, or an area they drew on it.
+// Both go in the URL so the search can be shared.
+
+// Fewest and most corners of a drawn area
+export const MIN_POLYGON_POINTS = 3;
+export const MAX_POLYGON_POINTS = 50;
+
+// Decimal places kept in the URL, about a metre
+const COORDINATE_DECIMALS = 5;
+
+const round = (value: number) => Number(value.toFixed(COORDINATE_DECIMALS));
+
+// Longitude wrapped into -180..180
+function wrapLng(lng: number): number {
+    return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+// A map view as search bounds, rounded and wrapped; a view wider than the world covers it all
+export function toSearchBounds(bounds: GeoBounds): GeoBounds {
+    const wholeWorld = bounds.east - bounds.west >= 360;
+    return {
+        north: round(Math.min(bounds.north, 90)),
+        south: round(Math.max(bounds.south, -90)),
+        east: wholeWorld ? 180 : round(wrapLng(bounds.east)),
+        west: wholeWorld ? -180 : round(wrapLng(bounds.west)),
+    };
+}
+
+// Smallest box around a drawn area
+export function getPolygonBounds(polygon: MapPoint[]): GeoBounds {
+    return {
+        north: Math.max(...polygon.map((p) => p.lat)),
+        south: Math.min(...polygon.map((p) => p.lat)),
+        east: Math.max(...polygon.map((p) => p.lng)),
+        west: Math.min(...polygon.map((p) => p.lng)),
+    };
+}
+
+// Ray casting: a point is inside when a ray from it crosses the edges an odd number of times
+export function isInPolygon(lat: number, lng: number, polygon: MapPoint[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.lat > lat) !== (b.lat > lat)
+            && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// Whether a search is restricted to a drawn area
+export function hasPolygon(filters: SearchFilters): filters is SearchFilters & { polygon: MapPoint[] } {
+    return !!filters.polygon && filters.polygon.length >= MIN_POLYGON_POINTS;
+}
+
+// The area a map search covers: the drawn area's box, else the map view. Null when the
+// search isn't by the map.
+export function getMapSearchArea(filters: SearchFilters): SearchArea | null {
+    const bounds = hasPolygon(filters) ? getPolygonBounds(filters.polygon) : filters.mapBounds;
+    if (!bounds) return null;
+
+    return {
+        bounds,
+        center: {
+            lat: (bounds.north + bounds.south) / 2,
+            lng: bounds.west <= bounds.east
+                ? (bounds.west + bounds.east) / 2
+                : wrapLng((bounds.west + bounds.east + 360) / 2),
+        },
+    };
+}
+
+// Write a search's map view and drawn area to URL params:
+// bounds=south,west,north,east and polygon=lat,lng;lat,lng;...
+export function setMapSearchParams(params: URLSearchParams, filters: SearchFilters): void {
+    params.delete('bounds');
+    params.delete('polygon');
+
+    if (filters.mapBounds) {
+        const { south, west, north, east } = filters.mapBounds;
+        params.set('bounds', [south, west, north, east].map(round).join(','));
+    }
+    if (hasPolygon(filters)) {
+        params.set('polygon', filters.polygon.map((p) => `${round(p.lat)},${round(p.lng)}`).join(';'));
+    }
+}
+
+// Read a search's map view and drawn area from URL params, dropping malformed values
+export function parseMapSearchParams(params: URLSearchParams): Pick<SearchFilters, 'mapBounds' | 'polygon'> {
+    const result: Pick<SearchFilters, 'mapBounds' | 'polygon'> = {};
+    const isLat = (value: number) => Number.isFinite(value) && Math.abs(value) <= 90;
+    const isLng = (value: number) => Number.isFinite(value) && Math.abs(value) <= 180;
+
+    const bounds = params.get('bounds')?.split(',').map(Number);
+    if (bounds && bounds.length === 4) {
+        const [south, west, north, east] = bounds;
+        if (isLat(south) && isLat(north) && isLng(west) && isLng(east) && south < north) {
+            result.mapBounds = { south, west, north, east };
+        }
+    }
+
+    const polygon = params.get('polygon')?.split(';').map((pair) => {
+        const [lat, lng] = pair.split(',').map(Number);
+        return { lat, lng };
+    });
+    if (polygon
+        && polygon.length >= MIN_POLYGON_POINTS
+        && polygon.length <= MAX_POLYGON_POINTS
+        && polygon.every((p) => isLat(p.lat) && isLng(p.lng))) {
+        result.polygon = polygon;
+    }
+
+    return result;
+}
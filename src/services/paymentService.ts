@@ -0,0 +1,485 @@
+import { collection, getDocs, query, updateDoc, where, Timestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { v4 as uuidv4 } from 'uuid';
+import { db, functions } from '../config/firebase';
+import type { Booking, PaymentStatus } from '../types';
+import { APP_CONFIG, ENV } from '../config/constants';
+
+const BOOKINGS_COLLECTION = 'bookings';
+const STRIPE_JS_URL = 'https://js.stripe.com/v3/';
+
+export type PaymentProviderName = 'stripe' | 'mock';
+
+export interface AuthorizePaymentRequest {
+    amount: number;
+    currency: string;
+    // Capture straight away (instant book) or only hold the funds until the host accepts
+    capture: boolean;
+    description: string;
+    metadata: Record<string, string>;
+    // Charge a card kept with saveCard instead of the card form, without the guest present
+    paymentMethodId?: string;
+}
+
+export interface PaymentResult {
+    paymentIntentId: string;
+    status: 'authorized' | 'captured' | 'cancelled';
+    amount: number;
+}
+
+export interface RefundResult {
+    refundId: string;
+    paymentIntentId: string;
+    amount: number;
+}
+
+// Provider-neutral webhook events
+export type PaymentWebhookEvent =
+    | { type: 'payment.captured'; paymentIntentId: string; amount: number }
+    | { type: 'payment.failed'; paymentIntentId: string; reason?: string }
+    | { type: 'payment.refunded'; paymentIntentId: string; amount: number };
+
+export interface PaymentProvider {
+    readonly name: PaymentProviderName;
+    // Render the provider's card form into a container. Resolves to a cleanup function.
+    mountCardForm: (container: HTMLElement) => Promise<() => void>;
+    authorize: (request: AuthorizePaymentRequest) => Promise<PaymentResult>;
+    // Keep the card in the form for later charges. Resolves to the saved card's ID.
+    saveCard: (metadata: Record<string, string>) => Promise<string>;
+    // Captures the full hold, or only `amount` of it with the rest released
+    capture: (paymentIntentId: string, amount?: number, currency?: string) => Promise<PaymentResult>;
+    // Refunds a captured payment, or releases the hold on an uncaptured one
+    refund: (paymentIntentId: string, amount: number, currency?: string) => Promise<RefundResult>;
+    // Map a (verified) provider webhook payload to a PaymentWebhookEvent
+    parseWebhook: (payload: unknown) => PaymentWebhookEvent | null;
+}
+
+export type PaymentErrorCode = 'card_declined' | 'authentication_required' | 'not_found' | 'provider_error';
+
+// Thrown when a payment can't be authorised, captured or refunded
+export class PaymentError extends Error {
+    readonly code: PaymentErrorCode;
+
+    constructor(code: PaymentErrorCode, message: string) {
+        super(message);
+        this.name = 'PaymentError';
+        this.code = code;
+    }
+}
+
+// Stripe works in the currency's minor unit (centavos for PHP), except for
+// zero-decimal currencies such as JPY which are sent as whole units
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW'];
+const minorUnitFactor = (currency: string) => (ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? 1 : 100);
+const toMinorUnits = (amount: number, currency: string) => Math.round(amount * minorUnitFactor(currency));
+const fromMinorUnits = (amount: number, currency: string) => amount / minorUnitFactor(currency);
+
+// Same test card Stripe uses for a generic decline
+export const MOCK_DECLINED_CARD = '4000000000000002';
+
+interface MockPaymentIntent {
+    id: string;
+    amount: number;
+    amountRefunded: number;
+    status: 'requires_capture' | 'succeeded' | 'canceled';
+}
+
+export type MockPaymentProvider = PaymentProvider & {
+    // Make the next authorize() call fail with the given code
+    failNextPayment: (code?: PaymentErrorCode) => void;
+    getIntent: (paymentIntentId: string) => MockPaymentIntent | undefined;
+};
+
+// In-memory provider for development and tests. Nothing leaves the browser.
+export function createMockPaymentProvider(): MockPaymentProvider {
+    const intents = new Map<string, MockPaymentIntent>();
+    let nextFailure: PaymentErrorCode | null = null;
+    let cardInput: HTMLInputElement | null = null;
+
+    // Intents created in another session (e.g. the guest's browser when the host
+    // accepts) are adopted as uncaptured holds on first use
+    const getIntentOrThrow = (paymentIntentId: string) => {
+        if (!paymentIntentId.startsWith('mock_pi_')) {
+            throw new PaymentError('not_found', `Unknown payment ${paymentIntentId}`);
+        }
+
+        let intent = intents.get(paymentIntentId);
+        if (!intent) {
+            intent = { id: paymentIntentId, amount: 0, amountRefunded: 0, status: 'requires_capture' };
+            intents.set(paymentIntentId, intent);
+        }
+        return intent;
+    };
+
+    return {
+        name: 'mock',
+
+        mountCardForm: async (container) => {
+            cardInput = document.createElement('input');
+            cardInput.type = 'text';
+            cardInput.value = '4242 4242 4242 4242';
+            cardInput.setAttribute('aria-label', 'Test card number');
+            cardInput.className = 'w-full px-4 py-3 border border-secondary-300 rounded-lg';
+
+            const hint = document.createElement('p');
+            hint.className = 'mt-2 text-xs text-secondary-500';
+            hint.textContent = 'Test mode – no real card is charged. Use 4000 0000 0000 0002 to simulate a decline.';
+
+            container.append(cardInput, hint);
+
+            return () => {
+                cardInput?.remove();
+                hint.remove();
+                cardInput = null;
+            };
+        },
+
+        authorize: async (request) => {
+            const failure = nextFailure;
+            nextFailure = null;
+
+            const cardNumber = request.paymentMethodId ? null : cardInput?.value.replace(/\s/g, '');
+            if (failure || cardNumber === MOCK_DECLINED_CARD) {
+                throw new PaymentError(failure ?? 'card_declined', 'Your card was declined.');
+            }
+
+            const intent: MockPaymentIntent = {
+                id: `mock_pi_${uuidv4()}`,
+                amount: request.amount,
+                amountRefunded: 0,
+                status: request.capture ? 'succeeded' : 'requires_capture',
+            };
+            intents.set(intent.id, intent);
+
+            return {
+                paymentIntentId: intent.id,
+                status: request.capture ? 'captured' : 'authorized',
+                amount: intent.amount,
+            };
+        },
+
+        saveCard: async () => {
+            const cardNumber = cardInput?.value.replace(/\s/g, '');
+            if (cardNumber === MOCK_DECLINED_CARD) {
+                throw new PaymentError('card_declined', 'Your card was declined.');
+            }
+            return `mock_pm_${uuidv4()}`;
+        },
+
+        capture: async (paymentIntentId, amount) => {
+            const intent = getIntentOrThrow(paymentIntentId);
+            if (intent.status === 'canceled') {
+                throw new PaymentError('provider_error', 'This payment was already released');
+            }
+
+            if (amount !== undefined) {
+                intent.amount = amount;
+            }
+            intent.status = 'succeeded';
+            return { paymentIntentId, status: 'captured', amount: intent.amount };
+        },
+
+        refund: async (paymentIntentId, amount) => {
+            const intent = getIntentOrThrow(paymentIntentId);
+
+            if (intent.status === 'requires_capture') {
+                intent.status = 'canceled';
+            } else {
+                intent.amountRefunded = Math.min(intent.amount, intent.amountRefunded + amount);
+            }
+
+            return { refundId: `mock_re_${uuidv4()}`, paymentIntentId, amount };
+        },
+
+        parseWebhook: (payload) => {
+            const event = payload as PaymentWebhookEvent | null;
+            if (!event?.type?.startsWith('payment.') || !event.paymentIntentId) return null;
+            return event;
+        },
+
+        failNextPayment: (code = 'card_declined') => {
+            nextFailure = code;
+        },
+
+        getIntent: (paymentIntentId) => intents.get(paymentIntentId),
+    };
+}
+
+interface StripeCardElement {
+    mount: (element: HTMLElement) => void;
+    destroy: () => void;
+}
+
+interface StripeJs {
+    elements: () => { create: (type: 'card', options?: Record<string, unknown>) => StripeCardElement };
+    confirmCardPayment: (
+        clientSecret: string,
+        data: { payment_method: { card: StripeCardElement } }
+    ) => Promise<{
+        paymentIntent?: { id: string; status: string; amount: number };
+        error?: { code?: string; message?: string };
+    }>;
+    confirmCardSetup: (
+        clientSecret: string,
+        data: { payment_method: { card: StripeCardElement } }
+    ) => Promise<{
+        setupIntent?: { id: string; payment_method: string };
+        error?: { code?: string; message?: string };
+    }>;
+}
+
+declare global {
+    interface Window {
+        Stripe?: (publishableKey: string) => StripeJs;
+    }
+}
+
+let stripeJsPromise: Promise<StripeJs> | null = null;
+
+// Load Stripe.js once from Stripe's CDN (it must not be bundled)
+function loadStripeJs(publishableKey: string): Promise<StripeJs> {
+    if (!stripeJsPromise) {
+        stripeJsPromise = new Promise((resolve, reject) => {
+            if (window.Stripe) {
+                resolve(window.Stripe(publishableKey));
+                return;
+            }
+
+            const script = document.createElement('script');
+            script.src = STRIPE_JS_URL;
+            script.async = true;
+            script.onload = () => {
+                if (window.Stripe) {
+                    resolve(window.Stripe(publishableKey));
+                } else {
+                    reject(new PaymentError('provider_error', 'Stripe failed to load'));
+                }
+            };
+            script.onerror = () => {
+                stripeJsPromise = null;
+                reject(new PaymentError('provider_error', 'Stripe failed to load'));
+            };
+            document.head.appendChild(script);
+        });
+    }
+    return stripeJsPromise;
+}
+
+// Card details go straight to Stripe.js; secret-key calls go through Cloud Functions
+// (createPaymentIntent, createSetupIntent, capturePaymentIntent, refundPayment)
+export function createStripePaymentProvider(publishableKey: string): PaymentProvider {
+    let cardElement: StripeCardElement | null = null;
+
+    // With a paymentMethodId the function confirms the intent off-session itself
+    const createPaymentIntentFn = httpsCallable<
+        {
+            amount: number;
+            currency: string;
+            captureMethod: 'automatic' | 'manual';
+            description: string;
+            metadata: Record<string, string>;
+            paymentMethodId?: string;
+        },
+        { paymentIntentId: string; clientSecret: string; status: string; amount: number }
+    >(functions, 'createPaymentIntent');
+    const createSetupIntentFn = httpsCallable<
+        { metadata: Record<string, string> },
+        { clientSecret: string }
+    >(functions, 'createSetupIntent');
+    const capturePaymentIntentFn = httpsCallable<
+        { paymentIntentId: string; amountToCapture?: number },
+        { paymentIntentId: string; amount: number; currency: string }
+    >(functions, 'capturePaymentIntent');
+    const refundPaymentFn = httpsCallable<
+        { paymentIntentId: string; amount: number },
+        { refundId: string; amount: number }
+    >(functions, 'refundPayment');
+
+    return {
+        name: 'stripe',
+
+        mountCardForm: async (container) => {
+            const stripe = await loadStripeJs(publishableKey);
+            cardElement = stripe.elements().create('card', { hidePostalCode: true });
+            cardElement.mount(container);
+
+            return () => {
+                cardElement?.destroy();
+                cardElement = null;
+            };
+        },
+
+        authorize: async (request) => {
+            if (request.paymentMethodId) {
+                const { data } = await createPaymentIntentFn({
+                    amount: toMinorUnits(request.amount, request.currency),
+                    currency: request.currency.toLowerCase(),
+                    captureMethod: request.capture ? 'automatic' : 'manual',
+                    description: request.description,
+                    metadata: request.metadata,
+                    paymentMethodId: request.paymentMethodId,
+                });
+                if (data.status !== 'requires_capture' && data.status !== 'succeeded') {
+                    throw new PaymentError('card_declined', 'The saved card was declined.');
+                }
+                return {
+                    paymentIntentId: data.paymentIntentId,
+                    status: data.status === 'requires_capture' ? 'authorized' : 'captured',
+                    amount: fromMinorUnits(data.amount, request.currency),
+                };
+            }
+
+            if (!cardElement) {
+                throw new PaymentError('provider_error', 'Card form is not ready');
+            }
+
+            const stripe = await loadStripeJs(publishableKey);
+            const { data } = await createPaymentIntentFn({
+                amount: toMinorUnits(request.amount, request.currency),
+                currency: request.currency.toLowerCase(),
+                captureMethod: request.capture ? 'automatic' : 'manual',
+                description: request.description,
+                metadata: request.metadata,
+            });
+
+            const result = await stripe.confirmCardPayment(data.clientSecret, {
+                payment_method: { card: cardElement },
+            });
+
+            if (result.error || !result.paymentIntent) {
+                throw new PaymentError(
+                    result.error?.code === 'authentication_required' ? 'authentication_required' : 'card_declined',
+                    result.error?.message || 'Your card was declined.'
+                );
+            }
+
+            return {
+                paymentIntentId: result.paymentIntent.id,
+                status: result.paymentIntent.status === 'requires_capture' ? 'authorized' : 'captured',
+                amount: fromMinorUnits(result.paymentIntent.amount, request.currency),
+            };
+        },
+
+        saveCard: async (metadata) => {
+            if (!cardElement) {
+                throw new PaymentError('provider_error', 'Card form is not ready');
+            }
+
+            const stripe = await loadStripeJs(publishableKey);
+            const { data } = await createSetupIntentFn({ metadata });
+            const result = await stripe.confirmCardSetup(data.clientSecret, {
+                payment_method: { card: cardElement },
+            });
+
+            if (result.error || !result.setupIntent) {
+                throw new PaymentError(
+                    result.error?.code === 'authentication_required' ? 'authentication_required' : 'card_declined',
+                    result.error?.message || 'Your card was declined.'
+                );
+            }
+            return result.setupIntent.payment_method;
+        },
+
+        capture: async (paymentIntentId, amount, currency = APP_CONFIG.DEFAULT_CURRENCY) => {
+            const { data } = await capturePaymentIntentFn({
+                paymentIntentId,
+                ...(amount !== undefined ? { amountToCapture: toMinorUnits(amount, currency) } : {}),
+            });
+            return { paymentIntentId, status: 'captured', amount: fromMinorUnits(data.amount, data.currency) };
+        },
+
+        refund: async (paymentIntentId, amount, currency = APP_CONFIG.DEFAULT_CURRENCY) => {
+            // The function cancels the intent instead when it was never captured
+            const { data } = await refundPaymentFn({ paymentIntentId, amount: toMinorUnits(amount, currency) });
+            return { refundId: data.refundId, paymentIntentId, amount: fromMinorUnits(data.amount, currency) };
+        },
+
+        parseWebhook: (payload) => {
+            const event = payload as {
+                type?: string;
+                data?: { object?: Record<string, unknown> };
+            } | null;
+            const object = event?.data?.object;
+            if (!object) return null;
+
+            switch (event.type) {
+                case 'payment_intent.succeeded':
+                    return {
+                        type: 'payment.captured',
+                        paymentIntentId: object.id as string,
+                        amount: fromMinorUnits(object.amount_received as number, object.currency as string),
+                    };
+                case 'payment_intent.payment_failed':
+                    return {
+                        type: 'payment.failed',
+                        paymentIntentId: object.id as string,
+                        reason: (object.last_payment_error as { message?: string } | undefined)?.message,
+                    };
+                case 'charge.refunded':
+                    return {
+                        type: 'payment.refunded',
+                        paymentIntentId: object.payment_intent as string,
+                        amount: fromMinorUnits(object.amount_refunded as number, object.currency as string),
+                    };
+                default:
+                    return null;
+            }
+        },
+    };
+}
+
+let activeProvider: PaymentProvider | null = null;
+
+// Stripe when a publishable key is configured, otherwise the mock
+export function getPaymentProvider(): PaymentProvider {
+    if (!activeProvider) {
+        activeProvider = ENV.PAYMENT_PROVIDER !== 'mock' && ENV.STRIPE_PUBLISHABLE_KEY
+            ? createStripePaymentProvider(ENV.STRIPE_PUBLISHABLE_KEY)
+            : createMockPaymentProvider();
+    }
+    return activeProvider;
+}
+
+// Swap the active provider (e.g. a mock in tests)
+export function setPaymentProvider(provider: PaymentProvider): void {
+    activeProvider = provider;
+}
+
+// Apply a provider webhook to the booking that owns the payment. Returns the parsed
+// event, or null when the payload isn't one we track.
+export async function handlePaymentWebhook(
+    payload: unknown,
+    provider: PaymentProvider = getPaymentProvider()
+): Promise<PaymentWebhookEvent | null> {
+    const event = provider.parseWebhook(payload);
+    if (!event) return null;
+
+    const q = query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('paymentIntentId', '==', event.paymentIntentId)
+    );
+    const snapshot = await getDocs(q);
+
+    await Promise.all(
+        snapshot.docs.map((bookingDoc) => {
+            const booking = bookingDoc.data() as Booking;
+            let paymentStatus: PaymentStatus;
+
+            switch (event.type) {
+                case 'payment.captured':
+                    paymentStatus = 'paid';
+                    break;
+                case 'payment.failed':
+                    paymentStatus = 'failed';
+                    break;
+                case 'payment.refunded':
+                    paymentStatus = event.amount >= booking.pricing.total ? 'refunded' : 'partial_refund';
+                    break;
+            }
+
+            return updateDoc(bookingDoc.ref, { paymentStatus, updatedAt: Timestamp.now() });
+        })
+    );
+
+    return event;
+}
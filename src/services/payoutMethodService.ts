@@ -0,0 +1,168 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    writeBatch,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { z } from 'zod';
+import { db, functions } from '../config/firebase';
+import type { PayoutMethod } from '../types';
+
+const PAYOUT_METHODS_COLLECTION = 'payoutMethods';
+
+// Strip the spaces and dashes people paste in with account numbers
+const digitsOnly = (value: string) => value.replace(/[\s-]/g, '');
+
+export const bankTransferSchema = z.object({
+    type: z.literal('bank_transfer'),
+    accountName: z.string().trim().min(2, 'Enter the name on the account'),
+    bankName: z.string().trim().min(2, 'Enter your bank name'),
+    accountNumber: z
+        .string()
+        .transform(digitsOnly)
+        .pipe(z.string().regex(/^\d{6,17}$/, 'Account number must be 6 to 17 digits')),
+    routingNumber: z
+        .string()
+        .transform(digitsOnly)
+        .pipe(z.string().regex(/^\d{9}$/, 'Routing number must be 9 digits')),
+});
+
+export const paypalSchema = z.object({
+    type: z.literal('paypal'),
+    paypalEmail: z.string().trim().email('Enter a valid PayPal email'),
+});
+
+export const payoutMethodSchema = z.discriminatedUnion('type', [bankTransferSchema, paypalSchema]);
+
+export type PayoutMethodInput = z.input<typeof payoutMethodSchema>;
+
+// Thrown when a host tries to publish or accept paid bookings without a default payout method
+export class PayoutMethodRequiredError extends Error {
+    constructor() {
+        super('Add and verify a payout method in your profile first');
+        this.name = 'PayoutMethodRequiredError';
+    }
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Get a user's payout methods, default first
+export async function getUserPayoutMethods(userId: string): Promise<PayoutMethod[]> {
+    const q = query(
+        collection(db, PAYOUT_METHODS_COLLECTION),
+        where('userId', '==', userId)
+    );
+
+    const snapshot = await getDocs(q);
+    const methods = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+    })) as PayoutMethod[];
+
+    // Sort client-side to avoid needing a composite index
+    return methods.sort((a, b) =>
+        Number(b.isDefault) - Number(a.isDefault) || a.createdAt.toMillis() - b.createdAt.toMillis()
+    );
+}
+
+// Get the method payouts are sent to, if the user has one
+export async function getDefaultPayoutMethod(userId: string): Promise<PayoutMethod | null> {
+    const methods = await getUserPayoutMethods(userId);
+    return methods.find((method) => method.isDefault) ?? null;
+}
+
+// Whether the user has a verified default method to receive payouts
+export async function hasDefaultPayoutMethod(userId: string): Promise<boolean> {
+    return (await getDefaultPayoutMethod(userId))?.status === 'verified';
+}
+
+// Throw PayoutMethodRequiredError unless the user can receive payouts
+export async function requireDefaultPayoutMethod(userId: string): Promise<void> {
+    if (!(await hasDefaultPayoutMethod(userId))) {
+        throw new PayoutMethodRequiredError();
+    }
+}
+
+// Validate a new payout method and hand it to the addPayoutMethod Cloud Function, which
+// tokenizes the account with the payout processor, sends the two micro-deposits and
+// saves the method with only the processor's reference and the account's last 4 digits.
+// The deposit amounts never reach the browser. Returns the new method's ID.
+export async function addPayoutMethod(input: PayoutMethodInput): Promise<string> {
+    const addPayoutMethodFn = httpsCallable<
+        z.output<typeof payoutMethodSchema>,
+        { payoutMethodId: string }
+    >(functions, 'addPayoutMethod');
+
+    const result = await addPayoutMethodFn(payoutMethodSchema.parse(input));
+    return result.data.payoutMethodId;
+}
+
+// Confirm the two micro-deposit amounts through the verifyPayoutMethod Cloud Function,
+// which checks them, counts attempts and marks the method verified. The first verified
+// method becomes the default. Throws with the function's message when they don't match.
+export async function verifyPayoutMethod(method: PayoutMethod, amounts: number[]): Promise<void> {
+    const verifyPayoutMethodFn = httpsCallable<
+        { payoutMethodId: string; amountsInCents: number[] },
+        { success: boolean }
+    >(functions, 'verifyPayoutMethod');
+
+    await verifyPayoutMethodFn({ payoutMethodId: method.id, amountsInCents: amounts.map(toCents) });
+}
+
+// Make a verified method the one payouts are sent to
+export async function setDefaultPayoutMethod(userId: string, methodId: string): Promise<void> {
+    const methods = await getUserPayoutMethods(userId);
+    const method = methods.find((m) => m.id === methodId);
+
+    if (!method) {
+        throw new Error('Payout method not found');
+    }
+    if (method.status !== 'verified') {
+        throw new Error('Verify this payout method before making it your default');
+    }
+
+    const batch = writeBatch(db);
+    methods.forEach((m) => {
+        if (m.isDefault !== (m.id === methodId)) {
+            batch.update(doc(db, PAYOUT_METHODS_COLLECTION, m.id), { isDefault: m.id === methodId });
+        }
+    });
+
+    await batch.commit();
+}
+
+// Remove a payout method. If it was the default, the next verified method takes over.
+export async function removePayoutMethod(userId: string, methodId: string): Promise<void> {
+    const methods = await getUserPayoutMethods(userId);
+    const method = methods.find((m) => m.id === methodId);
+
+    if (!method) {
+        throw new Error('Payout method not found');
+    }
+
+    const batch = writeBatch(db);
+    batch.delete(doc(db, PAYOUT_METHODS_COLLECTION, methodId));
+
+    if (method.isDefault) {
+        const replacement = methods.find((m) => m.id !== methodId && m.status === 'verified');
+        if (replacement) {
+            batch.update(doc(db, PAYOUT_METHODS_COLLECTION, replacement.id), { isDefault: true });
+        }
+    }
+
+    await batch.commit();
+}
+
+// Display name for a payout method that never shows the full account number or email
+export function maskPayoutMethod(method: Pick<PayoutMethod, 'type' | 'details'>): string {
+    if (method.type === 'paypal') {
+        const [name = '', domain = ''] = (method.details.paypalEmail || '').split('@');
+        return `PayPal ${name.charAt(0)}•••@${domain}`;
+    }
+
+    return `${method.details.bankName || 'Bank account'} •••• ${method.details.accountLast4 || ''}`;
+}
+
@@ -0,0 +1,181 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    runTransaction,
+    setDoc,
+    updateDoc,
+    Timestamp,
+} from 'firebase/firestore';
+import { addHours } from 'date-fns';
+import { db } from '../config/firebase';
+import type { Booking, BookingPricing, Payout, RefundBreakdown } from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { getPricingCurrency } from './currencyService';
+
+const BOOKINGS_COLLECTION = 'bookings';
+const PAYOUTS_COLLECTION = 'payouts';
+
+export interface HostPayoutBreakdown {
+    grossAmount: number;
+    hostServiceFee: number;
+    amount: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// The host's share of a booking: nights plus cleaning fee, less anything refunded,
+// less the host service fee. The guest service fee and taxes never reach the host.
+// Host promo codes come out of the nights; platform codes are covered by us.
+export function calculateHostPayout(
+    pricing: BookingPricing,
+    refund?: RefundBreakdown
+): HostPayoutBreakdown {
+    const discount = pricing.discount ?? 0;
+    const hostNights = pricing.subtotal - (pricing.discountFundedBy === 'host' ? discount : 0);
+    const nightsPaid = pricing.subtotal - discount;
+
+    // Refunds are of what the guest paid, so scale them back to the host's share of the nights
+    const refundedNights = refund && nightsPaid > 0 ? hostNights * (refund.nightly / nightsPaid) : 0;
+    const refunded = refund ? refundedNights + refund.cleaningFee : 0;
+    const grossAmount = roundMoney(Math.max(0, hostNights + pricing.cleaningFee - refunded));
+    const hostServiceFee = roundMoney(grossAmount * APP_CONFIG.SERVICE_FEE_HOST_PERCENT);
+
+    return {
+        grossAmount,
+        hostServiceFee,
+        amount: roundMoney(grossAmount - hostServiceFee),
+    };
+}
+
+// Payouts are released a fixed delay after check-in
+export function getPayoutDate(booking: Pick<Booking, 'checkIn'>): Date {
+    return addHours(booking.checkIn.toDate(), APP_CONFIG.PAYOUT_DELAY_HOURS);
+}
+
+// Whether a booking earns the host a payout
+function isPayable(booking: Booking): boolean {
+    return booking.status === 'confirmed' || booking.status === 'completed';
+}
+
+// Create the ledger entry for a booking once its payout date has passed.
+// Payouts use the booking ID as their ID, so calling this twice is harmless.
+export async function createPayoutForBooking(
+    booking: Booking,
+    now: Date = new Date()
+): Promise<Payout | null> {
+    if (!isPayable(booking) || getPayoutDate(booking) > now) {
+        return null;
+    }
+
+    const payoutRef = doc(db, PAYOUTS_COLLECTION, booking.id);
+    const breakdown = calculateHostPayout(booking.pricing, booking.refundBreakdown);
+
+    return runTransaction(db, async (transaction) => {
+        const payoutSnap = await transaction.get(payoutRef);
+        if (payoutSnap.exists()) {
+            return null;
+        }
+
+        const payout: Omit<Payout, 'id'> = {
+            hostId: booking.hostId,
+            bookingId: booking.id,
+            propertyId: booking.propertyId,
+            ...breakdown,
+            currency: getPricingCurrency(booking.pricing),
+            status: 'pending',
+            scheduledDate: Timestamp.fromDate(getPayoutDate(booking)),
+            createdAt: Timestamp.now(),
+        };
+
+        transaction.set(payoutRef, payout);
+        transaction.update(doc(db, BOOKINGS_COLLECTION, booking.id), { payoutId: payoutRef.id });
+
+        return { id: payoutRef.id, ...payout };
+    });
+}
+
+// Pay a host what was charged from a guest's security deposit for damage. Passed on
+// in full with no host service fee, and due straight away. One per booking, like payouts.
+export async function createDamageClaimPayout(
+    booking: Booking,
+    amount: number,
+    now: Date = new Date()
+): Promise<Payout> {
+    const payoutRef = doc(db, PAYOUTS_COLLECTION, `${booking.id}_damage`);
+    const payout: Omit<Payout, 'id'> = {
+        hostId: booking.hostId,
+        bookingId: booking.id,
+        propertyId: booking.propertyId,
+        grossAmount: amount,
+        hostServiceFee: 0,
+        amount,
+        currency: booking.securityDeposit?.currency ?? getPricingCurrency(booking.pricing),
+        status: 'pending',
+        scheduledDate: Timestamp.fromDate(now),
+        createdAt: Timestamp.fromDate(now),
+    };
+
+    await setDoc(payoutRef, payout);
+    return { id: payoutRef.id, ...payout };
+}
+
+// Create payouts for every active booking whose payout date has passed
+export async function createDuePayouts(now: Date = new Date()): Promise<string[]> {
+    const q = query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('status', 'in', ['confirmed', 'completed'])
+    );
+
+    const snapshot = await getDocs(q);
+    const due = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Booking)
+        .filter((booking) => !booking.payoutId && getPayoutDate(booking) <= now);
+
+    const createdIds: string[] = [];
+    for (const booking of due) {
+        const payout = await createPayoutForBooking(booking, now);
+        if (payout) {
+            createdIds.push(payout.id);
+        }
+    }
+
+    return createdIds;
+}
+
+// Get a host's payouts, newest first
+export async function getHostPayouts(hostId: string): Promise<Payout[]> {
+    const q = query(
+        collection(db, PAYOUTS_COLLECTION),
+        where('hostId', '==', hostId)
+    );
+
+    const snapshot = await getDocs(q);
+    const payouts = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+    })) as Payout[];
+
+    // Sort client-side to avoid needing a composite index
+    return payouts.sort((a, b) => b.scheduledDate.toMillis() - a.scheduledDate.toMillis());
+}
+
+// Track a payout through processing to completed (or failed)
+export async function updatePayoutStatus(
+    payoutId: string,
+    status: Payout['status'],
+    paymentMethod?: Payout['paymentMethod']
+): Promise<void> {
+    const update: Partial<Payout> = { status };
+
+    if (status === 'completed') {
+        update.paidDate = Timestamp.now();
+    }
+    if (paymentMethod) {
+        update.paymentMethod = paymentMethod;
+    }
+
+    await updateDoc(doc(db, PAYOUTS_COLLECTION, payoutId), update);
+}
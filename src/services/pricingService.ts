@@ -0,0 +1,240 @@
+import { differenceInCalendarDays, differenceInDays, format, isWeekend } from 'date-fns';
+import type { BookingPricing, NightlyPrice, PricingRules } from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { calculateTaxLines, getTaxRules, repriceTaxLines, sumTaxLines } from './taxService';
+import type { TaxLocation } from './taxService';
+
+export interface NightContext {
+    date: Date;
+    dateKey: string;
+    nights: number;
+    guests: number;
+    daysInAdvance: number;
+}
+
+// A pricing rule adjusts one night's price. Returning null leaves the price unchanged.
+export interface PricingRule {
+    id: string;
+    apply: (
+        price: number,
+        night: NightContext,
+        pricing: PricingRules
+    ) => { price: number; label: string } | null;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Date key used for customPricing, seasons, blockedDates and booking locks. Keys are
+// calendar days in local time, the same days the host and guest calendars show.
+export function toDateKey(date: Date): string {
+    return format(date, 'yyyy-MM-dd');
+}
+
+// Resolve the starting rate for a night: custom date price > season > weekend > base
+export function getNightlyBaseRate(pricing: PricingRules, date: Date): number {
+    const dateKey = toDateKey(date);
+
+    const customPrice = pricing.customPricing?.find((cp) => cp.date === dateKey);
+    if (customPrice) {
+        return customPrice.price;
+    }
+
+    const season = pricing.seasons?.find(
+        (s) => dateKey >= s.startDate && dateKey <= s.endDate
+    );
+    if (season) {
+        return isWeekend(date) && season.weekendPrice ? season.weekendPrice : season.nightlyPrice;
+    }
+
+    if (isWeekend(date) && pricing.weekendPrice) {
+        return pricing.weekendPrice;
+    }
+
+    return pricing.basePrice;
+}
+
+export const extraGuestFeeRule: PricingRule = {
+    id: 'extra_guest_fee',
+    apply: (price, night, pricing) => {
+        const fee = pricing.extraGuestFee;
+        if (!fee || night.guests <= fee.baseOccupancy) return null;
+
+        const extraGuests = night.guests - fee.baseOccupancy;
+        return {
+            price: price + extraGuests * fee.feePerGuest,
+            label: `Extra guests (${extraGuests})`,
+        };
+    },
+};
+
+export const lengthOfStayRule: PricingRule = {
+    id: 'length_of_stay',
+    apply: (price, night, pricing) => {
+        if (night.nights >= 28 && pricing.monthlyDiscount) {
+            return {
+                price: price * (1 - pricing.monthlyDiscount / 100),
+                label: 'Monthly discount',
+            };
+        }
+        if (night.nights >= 7 && pricing.weeklyDiscount) {
+            return {
+                price: price * (1 - pricing.weeklyDiscount / 100),
+                label: 'Weekly discount',
+            };
+        }
+        return null;
+    },
+};
+
+export const earlyBirdRule: PricingRule = {
+    id: 'early_bird',
+    apply: (price, night, pricing) => {
+        const discount = pricing.earlyBirdDiscount;
+        if (!discount?.percent || night.daysInAdvance < discount.minDaysInAdvance) return null;
+
+        return {
+            price: price * (1 - discount.percent / 100),
+            label: 'Early-bird discount',
+        };
+    },
+};
+
+export const lastMinuteRule: PricingRule = {
+    id: 'last_minute',
+    apply: (price, night, pricing) => {
+        const discount = pricing.lastMinuteDiscount;
+        if (!discount?.percent || night.daysInAdvance > discount.maxDaysInAdvance) return null;
+
+        return {
+            price: price * (1 - discount.percent / 100),
+            label: 'Last-minute discount',
+        };
+    },
+};
+
+// Runs last so no combination of discounts takes a night below the host's floor
+export const minimumPriceRule: PricingRule = {
+    id: 'minimum_price',
+    apply: (price, _night, pricing) => {
+        if (!pricing.minimumNightlyPrice || price >= pricing.minimumNightlyPrice) return null;
+
+        return {
+            price: pricing.minimumNightlyPrice,
+            label: 'Minimum nightly price',
+        };
+    },
+};
+
+// Default rules, applied in order to every night
+export const DEFAULT_PRICING_RULES: PricingRule[] = [
+    extraGuestFeeRule,
+    lengthOfStayRule,
+    earlyBirdRule,
+    lastMinuteRule,
+    minimumPriceRule,
+];
+
+// Price each night of a stay, with the adjustments each rule made
+export function getNightlyBreakdown(
+    pricing: PricingRules,
+    checkIn: Date,
+    checkOut: Date,
+    guests: { adults: number; children: number; infants: number },
+    options: { bookedAt?: Date; rules?: PricingRule[] } = {}
+): NightlyPrice[] {
+    const nights = differenceInDays(checkOut, checkIn);
+    const rules = options.rules ?? DEFAULT_PRICING_RULES;
+    const daysInAdvance = differenceInCalendarDays(checkIn, options.bookedAt ?? new Date());
+    const breakdown: NightlyPrice[] = [];
+    const currentDate = new Date(checkIn);
+
+    for (let i = 0; i < nights; i++) {
+        const night: NightContext = {
+            date: new Date(currentDate),
+            dateKey: toDateKey(currentDate),
+            nights,
+            guests: guests.adults + guests.children,
+            daysInAdvance,
+        };
+
+        const baseRate = getNightlyBaseRate(pricing, currentDate);
+        const adjustments: NightlyPrice['adjustments'] = [];
+        let price = baseRate;
+
+        for (const rule of rules) {
+            const result = rule.apply(price, night, pricing);
+            if (result && result.price !== price) {
+                adjustments.push({ label: result.label, amount: roundMoney(result.price - price) });
+                price = result.price;
+            }
+        }
+
+        breakdown.push({
+            date: night.dateKey,
+            baseRate,
+            price: roundMoney(price),
+            adjustments,
+        });
+
+        currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return breakdown;
+}
+
+// Price a full stay: nightly breakdown plus cleaning fee, service fee and the taxes
+// of the listing's location, or the default taxes without one.
+export function calculateStayPrice(
+    pricing: PricingRules,
+    checkIn: Date,
+    checkOut: Date,
+    guests: { adults: number; children: number; infants: number },
+    options: { bookedAt?: Date; rules?: PricingRule[]; location?: TaxLocation } = {}
+): BookingPricing {
+    const nightlyBreakdown = getNightlyBreakdown(pricing, checkIn, checkOut, guests, options);
+    const nights = nightlyBreakdown.length;
+
+    const subtotal = nightlyBreakdown.reduce((sum, night) => sum + night.price, 0);
+    const cleaningFee = pricing.cleaningFee;
+    const serviceFee = roundMoney(subtotal * APP_CONFIG.SERVICE_FEE_GUEST_PERCENT);
+    const taxLines = calculateTaxLines(getTaxRules(options.location), {
+        nights,
+        guests: guests.adults + guests.children,
+        taxableAmount: subtotal + cleaningFee + serviceFee,
+    });
+    const taxes = sumTaxLines(taxLines);
+    const total = subtotal + cleaningFee + serviceFee + taxes;
+
+    return {
+        nightlyRate: nights > 0 ? roundMoney(subtotal / nights) : pricing.basePrice,
+        nights,
+        subtotal: roundMoney(subtotal),
+        cleaningFee,
+        serviceFee,
+        taxes,
+        taxLines,
+        total: roundMoney(total),
+        nightlyBreakdown,
+        // Guests are charged in the listing's currency
+        currency: pricing.currency || APP_CONFIG.DEFAULT_CURRENCY,
+    };
+}
+
+// Take a discount off the nights and re-price the fees and taxes charged on them.
+// The discount can't exceed the nightly subtotal.
+export function applyStayDiscount(pricing: BookingPricing, discount: number): BookingPricing {
+    const appliedDiscount = roundMoney(Math.min(Math.max(discount, 0), pricing.subtotal));
+    const nightsTotal = pricing.subtotal - appliedDiscount;
+    const serviceFee = roundMoney(nightsTotal * APP_CONFIG.SERVICE_FEE_GUEST_PERCENT);
+    const taxLines = repriceTaxLines(pricing.taxLines ?? [], nightsTotal + pricing.cleaningFee + serviceFee);
+    const taxes = sumTaxLines(taxLines);
+
+    return {
+        ...pricing,
+        discount: appliedDiscount,
+        serviceFee,
+        taxes,
+        taxLines,
+        total: roundMoney(nightsTotal + pricing.cleaningFee + serviceFee + taxes),
+    };
+}
@@ -0,0 +1,317 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    updateDoc,
+    query,
+    where,
+    runTransaction,
+    arrayUnion,
+    increment,
+    Timestamp,
+} from 'firebase/firestore';
+import type { Transaction } from 'firebase/firestore';
+import { z } from 'zod';
+import { db } from '../config/firebase';
+import type { BookingPricing, Property, PromoCode, PromoRedemption } from '../types';
+import { applyStayDiscount } from './pricingService';
+
+const PROMO_CODES_COLLECTION = 'promoCodes';
+const PROMO_REDEMPTIONS_COLLECTION = 'promoRedemptions';
+const PROPERTIES_COLLECTION = 'properties';
+
+export type PromoCodeRejection =
+    | 'not_found'
+    | 'inactive'
+    | 'not_started'
+    | 'expired'
+    | 'min_nights'
+    | 'not_applicable'
+    | 'usage_limit'
+    | 'user_limit'
+    | 'changed';
+
+const REJECTION_MESSAGES: Record<PromoCodeRejection, string> = {
+    not_found: "That promo code doesn't exist",
+    inactive: 'This promo code is no longer active',
+    not_started: "This promo code isn't valid yet",
+    expired: 'This promo code has expired',
+    min_nights: 'Your stay is too short for this promo code',
+    not_applicable: "This promo code can't be used for this listing",
+    usage_limit: 'This promo code has been fully redeemed',
+    user_limit: "You've already used this promo code",
+    changed: 'This promo code has changed. Please review your total and try again.',
+};
+
+// Thrown when a promo code can't be applied to a stay
+export class PromoCodeError extends Error {
+    readonly reason: PromoCodeRejection;
+
+    constructor(reason: PromoCodeRejection) {
+        super(REJECTION_MESSAGES[reason]);
+        this.name = 'PromoCodeError';
+        this.reason = reason;
+    }
+}
+
+// Codes are stored and matched uppercase without surrounding spaces
+export function normalizePromoCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+// Form fields arrive as strings; blank ones are left out
+const optionalCount = z.preprocess(
+    (value) => (value === '' || value === undefined ? undefined : Number(value)),
+    z.number().int('Enter a whole number').min(1, 'Must be at least 1').optional()
+);
+const optionalDate = z.preprocess(
+    (value) => (value === '' || value === undefined ? undefined : value),
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter a valid date').optional()
+);
+
+// A host's new promo code as entered in the dashboard
+export const hostPromoCodeSchema = z.object({
+    code: z
+        .string()
+        .transform(normalizePromoCode)
+        .pipe(z.string().regex(/^[A-Z0-9]{3,20}$/, 'Use 3 to 20 letters and numbers')),
+    description: z.string().trim().max(120, 'Keep the description under 120 characters'),
+    discountType: z.enum(['percentage', 'fixed']),
+    amount: z.coerce.number().positive('Enter a discount above 0'),
+    maxDiscount: z.preprocess(
+        (value) => (value === '' || value === undefined ? undefined : Number(value)),
+        z.number().positive('Enter a cap above 0').optional()
+    ),
+    validFrom: optionalDate,
+    validUntil: optionalDate,
+    minNights: optionalCount,
+    maxUses: optionalCount,
+    maxUsesPerUser: optionalCount,
+    propertyIds: z.array(z.string()),
+})
+    .refine((input) => input.discountType !== 'percentage' || input.amount <= 100, {
+        message: "A percentage discount can't be over 100",
+        path: ['amount'],
+    })
+    .refine((input) => !input.validFrom || !input.validUntil || input.validFrom <= input.validUntil, {
+        message: 'The end date must be after the start date',
+        path: ['validUntil'],
+    });
+
+export type HostPromoCodeInput = z.input<typeof hostPromoCodeSchema>;
+
+const getRedemptionId = (code: string, userId: string) => `${code}_${userId}`;
+
+// Check a code's rules against a stay. Throws PromoCodeError for the first rule it breaks.
+export function checkPromoCode(
+    promo: PromoCode,
+    stay: { property: Pick<Property, 'id' | 'hostId' | 'location'>; nights: number },
+    timesUsedByUser: number,
+    now: Date = new Date()
+): void {
+    if (!promo.isActive) {
+        throw new PromoCodeError('inactive');
+    }
+    if (promo.validFrom && promo.validFrom.toDate() > now) {
+        throw new PromoCodeError('not_started');
+    }
+    if (promo.validUntil && promo.validUntil.toDate() < now) {
+        throw new PromoCodeError('expired');
+    }
+    if (promo.minNights && stay.nights < promo.minNights) {
+        throw new PromoCodeError('min_nights');
+    }
+
+    // Host codes only work on that host's listings, and may be narrowed further
+    const { property } = stay;
+    const city = property.location.city.trim().toLowerCase();
+    if (
+        (promo.hostId && promo.hostId !== property.hostId) ||
+        (promo.propertyIds?.length && !promo.propertyIds.includes(property.id)) ||
+        (promo.cities?.length && !promo.cities.some((c) => c.trim().toLowerCase() === city))
+    ) {
+        throw new PromoCodeError('not_applicable');
+    }
+
+    if (promo.maxUses !== undefined && promo.usedCount >= promo.maxUses) {
+        throw new PromoCodeError('usage_limit');
+    }
+    if (promo.maxUsesPerUser !== undefined && timesUsedByUser >= promo.maxUsesPerUser) {
+        throw new PromoCodeError('user_limit');
+    }
+}
+
+// How much a code takes off the nights
+export function calculatePromoDiscount(promo: PromoCode, pricing: BookingPricing): number {
+    let discount = promo.discountType === 'percentage'
+        ? pricing.subtotal * (promo.amount / 100)
+        : promo.amount;
+
+    if (promo.maxDiscount !== undefined) {
+        discount = Math.min(discount, promo.maxDiscount);
+    }
+
+    return Math.round(Math.min(discount, pricing.subtotal) * 100) / 100;
+}
+
+// Re-price a stay with a promo code applied
+export function applyPromoCode(pricing: BookingPricing, promo: PromoCode): BookingPricing {
+    return {
+        ...applyStayDiscount(pricing, calculatePromoDiscount(promo, pricing)),
+        promoCode: promo.code,
+        discountFundedBy: promo.hostId ? 'host' : 'platform',
+    };
+}
+
+// Validate a code a guest entered at checkout and return the discounted pricing.
+// The code is only redeemed when the booking is created.
+export async function validatePromoCode(
+    code: string,
+    userId: string,
+    property: Property,
+    pricing: BookingPricing,
+    now: Date = new Date()
+): Promise<{ promo: PromoCode; pricing: BookingPricing }> {
+    const normalized = normalizePromoCode(code);
+    if (!normalized) {
+        throw new PromoCodeError('not_found');
+    }
+
+    const [promoSnap, redemptionSnap] = await Promise.all([
+        getDoc(doc(db, PROMO_CODES_COLLECTION, normalized)),
+        getDoc(doc(db, PROMO_REDEMPTIONS_COLLECTION, getRedemptionId(normalized, userId))),
+    ]);
+
+    if (!promoSnap.exists()) {
+        throw new PromoCodeError('not_found');
+    }
+
+    const promo = { id: promoSnap.id, ...promoSnap.data() } as PromoCode;
+    const timesUsed = redemptionSnap.exists() ? (redemptionSnap.data() as PromoRedemption).count : 0;
+    checkPromoCode(promo, { property, nights: pricing.nights }, timesUsed, now);
+
+    return { promo, pricing: applyPromoCode(pricing, promo) };
+}
+
+// Redeem the promo code on a booking's pricing inside the booking's transaction.
+// Re-checks every rule against the latest usage counts and throws PromoCodeError if
+// the code no longer gives the discount the guest was quoted. Does all its reads
+// before its writes, so call it before the transaction writes anything else.
+export async function redeemPromoCode(
+    transaction: Transaction,
+    booking: { id: string; guestId: string; propertyId: string; pricing: BookingPricing },
+    now: Date = new Date()
+): Promise<void> {
+    const code = booking.pricing.promoCode;
+    if (!code) return;
+
+    const promoRef = doc(db, PROMO_CODES_COLLECTION, code);
+    const redemptionRef = doc(db, PROMO_REDEMPTIONS_COLLECTION, getRedemptionId(code, booking.guestId));
+
+    const promoSnap = await transaction.get(promoRef);
+    const redemptionSnap = await transaction.get(redemptionRef);
+    const propertySnap = await transaction.get(doc(db, PROPERTIES_COLLECTION, booking.propertyId));
+
+    if (!promoSnap.exists()) {
+        throw new PromoCodeError('not_found');
+    }
+    if (!propertySnap.exists()) {
+        throw new Error('Property not found');
+    }
+
+    const promo = { id: promoSnap.id, ...promoSnap.data() } as PromoCode;
+    const property = { id: propertySnap.id, ...propertySnap.data() } as Property;
+    const timesUsed = redemptionSnap.exists() ? (redemptionSnap.data() as PromoRedemption).count : 0;
+    checkPromoCode(promo, { property, nights: booking.pricing.nights }, timesUsed, now);
+
+    // The pricing was quoted before the transaction; make sure the code still gives the same discount
+    if (calculatePromoDiscount(promo, booking.pricing) !== booking.pricing.discount) {
+        throw new PromoCodeError('changed');
+    }
+
+    transaction.update(promoRef, { usedCount: increment(1) });
+    transaction.set(
+        redemptionRef,
+        {
+            code,
+            userId: booking.guestId,
+            count: increment(1),
+            bookingIds: arrayUnion(booking.id),
+            updatedAt: Timestamp.fromDate(now),
+        },
+        { merge: true }
+    );
+}
+
+// Create a promo code. Host codes pass a hostId; platform-wide codes leave it out.
+export async function createPromoCode(
+    promoData: Omit<PromoCode, 'id' | 'code' | 'usedCount' | 'createdAt'>,
+    code: string
+): Promise<string> {
+    const normalized = normalizePromoCode(code);
+    const promoRef = doc(db, PROMO_CODES_COLLECTION, normalized);
+
+    // Two hosts may pick the same name at once; only the first gets it
+    await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(promoRef);
+        if (existing.exists()) {
+            throw new Error('A promo code with that name already exists');
+        }
+
+        transaction.set(promoRef, {
+            ...promoData,
+            code: normalized,
+            usedCount: 0,
+            createdAt: Timestamp.now(),
+        });
+    });
+
+    return normalized;
+}
+
+// Validate and create a host's promo code from the dashboard form. The code is valid
+// from the start of its first day to the end of its last, in the host's time zone.
+export async function createHostPromoCode(hostId: string, input: HostPromoCodeInput): Promise<string> {
+    const parsed = hostPromoCodeSchema.parse(input);
+    const promoData: Omit<PromoCode, 'id' | 'code' | 'usedCount' | 'createdAt'> = {
+        hostId,
+        discountType: parsed.discountType,
+        amount: parsed.amount,
+        isActive: true,
+    };
+
+    // Firestore rejects undefined fields, so only set the ones filled in
+    if (parsed.description) promoData.description = parsed.description;
+    if (parsed.maxDiscount !== undefined) promoData.maxDiscount = parsed.maxDiscount;
+    if (parsed.validFrom) promoData.validFrom = Timestamp.fromDate(new Date(`${parsed.validFrom}T00:00:00`));
+    if (parsed.validUntil) promoData.validUntil = Timestamp.fromDate(new Date(`${parsed.validUntil}T23:59:59`));
+    if (parsed.minNights !== undefined) promoData.minNights = parsed.minNights;
+    if (parsed.maxUses !== undefined) promoData.maxUses = parsed.maxUses;
+    if (parsed.maxUsesPerUser !== undefined) promoData.maxUsesPerUser = parsed.maxUsesPerUser;
+    if (parsed.propertyIds.length > 0) promoData.propertyIds = parsed.propertyIds;
+
+    return createPromoCode(promoData, parsed.code);
+}
+
+// Pause a promo code or start it again
+export async function setPromoCodeActive(code: string, isActive: boolean): Promise<void> {
+    await updateDoc(doc(db, PROMO_CODES_COLLECTION, code), { isActive });
+}
+
+// Get the promo codes a host has created, newest first
+export async function getHostPromoCodes(hostId: string): Promise<PromoCode[]> {
+    const q = query(
+        collection(db, PROMO_CODES_COLLECTION),
+        where('hostId', '==', hostId)
+    );
+
+    const snapshot = await getDocs(q);
+    const codes = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+    })) as PromoCode[];
+
+    // Sort client-side to avoid needing a composite index
+    return codes.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
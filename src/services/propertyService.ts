@@ -11,15 +11,77 @@ import {
     orderBy,
     limit,
     startAfter,
+    startAt,
+    endAt,
+    writeBatch,
     Timestamp,
 } from 'firebase/firestore';
 import type { QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import type { Property, PropertyStatus, SearchFilters, User } from '../types';
+import type {
+    Booking,
+    Property,
+    PropertyLocation,
+    PropertyStatus,
+    PropertyType,
+    SearchFilters,
+    SearchResult,
+    SortOption,
+    StayMatch,
+    User,
+} from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { isBookingActive } from './bookingService';
+import { getAllBlockedDates } from './calendarSyncService';
+import { getStayMatches, hasDateFilter } from './flexibleDatesService';
+import { calculateDistance } from './geocodingService';
+import { encodeGeohash, getGeohashRanges, getRadiusBounds, isInBounds } from './geohashService';
+import type { GeoBounds } from './geohashService';
+import { getRelevanceScores } from './searchIndexService';
+import { matchesRefinements } from './searchFacetsService';
+import { hasPolygon, isInPolygon } from './mapSearchService';
+import { toDateKey } from './pricingService';
 
 const PROPERTIES_COLLECTION = 'properties';
 const USERS_COLLECTION = 'users';
 
+// Listings read per query while filling a page of a feed, and the most queries one page
+// may take before it's returned short
+const SCAN_BATCH_SIZE = 50;
+const MAX_SCAN_BATCHES = 10;
+
+// Field each sort pages through listings by. The text only decides which listings a
+// search matches, so best matches come newest first; distance needs a map area.
+const SEARCH_ORDER: Record<SortOption, { field: string; direction: 'asc' | 'desc' }> = {
+    relevance: { field: 'createdAt', direction: 'desc' },
+    distance: { field: 'createdAt', direction: 'desc' },
+    price_low: { field: 'pricing.basePrice', direction: 'asc' },
+    price_high: { field: 'pricing.basePrice', direction: 'desc' },
+    rating: { field: 'averageRating', direction: 'desc' },
+    reviews: { field: 'reviewCount', direction: 'desc' },
+};
+
+// Where the next page of a feed starts: the last listing document read
+export type PropertyCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface PropertyPage {
+    properties: Property[];
+    cursor: PropertyCursor | null;
+    hasMore: boolean;
+}
+
+export interface TextSearchResult extends SearchResult {
+    cursor: PropertyCursor | null;
+}
+
+// Stamp a location with the geohash location searches query on
+function withGeohash(location: PropertyLocation): PropertyLocation {
+    return {
+        ...location,
+        geohash: encodeGeohash(location.coordinates.latitude, location.coordinates.longitude),
+    };
+}
+
 // Get user by ID
 export async function getUserById(userId: string): Promise<User | null> {
     const docRef = doc(db, USERS_COLLECTION, userId);
@@ -138,10 +200,13 @@ export async function createProperty(
 ): Promise<string> {
     const dataToSave = {
         ...propertyData,
+        location: withGeohash(propertyData.location),
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
+        activatedAt: Timestamp.now(),
         views: 0,
         reviewCount: 0,
+        averageRating: 0,
         status: 'active' as PropertyStatus,
     };
 
@@ -161,6 +226,8 @@ export async function updateProperty(
     const docRef = doc(db, PROPERTIES_COLLECTION, propertyId);
     await updateDoc(docRef, {
         ...data,
+        ...(data.location ? { location: withGeohash(data.location) } : {}),
+        ...(data.status === 'active' ? { activatedAt: Timestamp.now() } : {}),
         updatedAt: Timestamp.now(),
     });
 }
@@ -182,43 +249,197 @@ export async function incrementPropertyViews(propertyId: string): Promise<void>
     }
 }
 
-// Search properties by location (using bounds)
-export async function searchPropertiesByBounds(
-    bounds: {
-        north: number;
-        south: number;
-        east: number;
-        west: number;
-    },
-    _filters?: SearchFilters
-): Promise<Property[]> {
-    // Note: Firestore doesn't support geospatial queries natively
-    // This is a simplified version - for production, use Geohashing or a service like Algolia
-    const q = query(
-        collection(db, PROPERTIES_COLLECTION),
-        where('status', '==', 'active' as PropertyStatus),
-        limit(100)
+// Paging and ordering for location searches
+export interface GeoSearchOptions {
+    // Point distances are measured from; the middle of the area if unset
+    center?: { lat: number; lng: number };
+    sortBy?: SortOption;
+    // Zero-based
+    page?: number;
+    pageSize?: number;
+}
+
+// Listings in recently searched boxes, most recent last. Later pages of a location
+// search page through the listings its first page read instead of reading them again.
+const MAX_CACHED_AREAS = 10;
+const areaListingsCache = new Map<string, Property[]>();
+
+// Active listings in a box, read through geohash prefix ranges. Filtering on status and
+// ordering on geohash needs the composite index (status, location.geohash) declared in
+// firestore.indexes.json.
+async function getPropertiesInBounds(bounds: GeoBounds, reuse: boolean = false): Promise<Property[]> {
+    const key = [bounds.north, bounds.south, bounds.east, bounds.west].join(',');
+    const cached = areaListingsCache.get(key);
+    if (reuse && cached) return cached;
+
+    const snapshots = await Promise.all(
+        getGeohashRanges(bounds).map(([start, end]) =>
+            getDocs(query(
+                collection(db, PROPERTIES_COLLECTION),
+                where('status', '==', 'active' as PropertyStatus),
+                orderBy('location.geohash'),
+                startAt(start),
+                endAt(end)
+            ))
+        )
     );
 
-    const snapshot = await getDocs(q);
-    const properties = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-    })) as Property[];
+    // Ranges can reach past the box, so check each listing's coordinates
+    const properties = snapshots
+        .flatMap((snapshot) => snapshot.docs)
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Property)
+        .filter((p) => isInBounds(p.location.coordinates.latitude, p.location.coordinates.longitude, bounds));
 
-    // Filter by bounds client-side
-    return properties.filter((p) => {
-        const lat = p.location.coordinates.latitude;
-        const lng = p.location.coordinates.longitude;
-        return (
-            lat >= bounds.south &&
-            lat <= bounds.north &&
-            lng >= bounds.west &&
-            lng <= bounds.east
-        );
+    areaListingsCache.delete(key);
+    areaListingsCache.set(key, properties);
+    if (areaListingsCache.size > MAX_CACHED_AREAS) {
+        areaListingsCache.delete(areaListingsCache.keys().next().value!);
+    }
+
+    return properties;
+}
+
+// Distance in km from a point to a listing
+function getPropertyDistance(property: Property, center: { lat: number; lng: number }): number {
+    const { latitude, longitude } = property.location.coordinates;
+    return calculateDistance(center.lat, center.lng, latitude, longitude);
+}
+
+// Order search results. Relevance needs text scores and distance needs a center;
+// without them the incoming order is kept, or distance breaks relevance ties.
+function sortSearchResults(
+    properties: Property[],
+    sortBy: SortOption,
+    context: { center?: { lat: number; lng: number }; scores?: Map<string, number> | null }
+): Property[] {
+    const { center, scores } = context;
+    const byDistance = (a: Property, b: Property) =>
+        center ? getPropertyDistance(a, center) - getPropertyDistance(b, center) : 0;
+
+    return [...properties].sort((a, b) => {
+        switch (sortBy) {
+            case 'price_low':
+                return a.pricing.basePrice - b.pricing.basePrice;
+            case 'price_high':
+                return b.pricing.basePrice - a.pricing.basePrice;
+            case 'rating':
+                return (b.averageRating ?? 0) - (a.averageRating ?? 0);
+            case 'reviews':
+                return (b.reviewCount ?? 0) - (a.reviewCount ?? 0);
+            case 'relevance':
+                return ((scores?.get(b.id) ?? 0) - (scores?.get(a.id) ?? 0)) || byDistance(a, b);
+            default:
+                return byDistance(a, b);
+        }
     });
 }
 
+// Refine, sort, then cut out one page
+function toSearchResult(
+    candidates: Property[],
+    filters: SearchFilters,
+    center: { lat: number; lng: number },
+    options: GeoSearchOptions
+): SearchResult {
+    const { sortBy = 'distance', page = 0, pageSize = APP_CONFIG.SEARCH_PAGE_SIZE } = options;
+    const properties = candidates.filter((p) => matchesRefinements(p, filters));
+
+    // In an area every listing counts; the text only ranks them
+    const scores = sortBy === 'relevance' && filters.location
+        ? getRelevanceScores(properties, filters.location)
+        : null;
+    const sorted = sortSearchResults(properties, sortBy, { center, scores });
+
+    const start = page * pageSize;
+    return {
+        properties: sorted.slice(start, start + pageSize),
+        total: sorted.length,
+        hasMore: start + pageSize < sorted.length,
+        candidates,
+    };
+}
+
+// Search active listings inside a map area. The location text doesn't filter: the area
+// is the location. It still ranks results sorted by relevance.
+export async function searchPropertiesByBounds(
+    bounds: GeoBounds,
+    filters: SearchFilters = {},
+    options: GeoSearchOptions = {}
+): Promise<SearchResult> {
+    const center = options.center ?? {
+        lat: (bounds.north + bounds.south) / 2,
+        lng: bounds.west <= bounds.east
+            ? (bounds.west + bounds.east) / 2
+            : (((bounds.west + bounds.east + 360) / 2 + 180) % 360) - 180,
+    };
+
+    const { properties, stays } = applyQueryFilters(await getPropertiesInBounds(bounds, !!options.page), filters);
+    return { ...toSearchResult(properties, filters, center, options), ...(stays ? { stays } : {}) };
+}
+
+// Search active listings within a radius of a point, nearest first by default
+export async function searchPropertiesNearby(
+    center: { lat: number; lng: number },
+    radiusKm: number,
+    filters: SearchFilters = {},
+    options: Omit<GeoSearchOptions, 'center'> = {}
+): Promise<SearchResult> {
+    const { properties, stays } = applyQueryFilters(
+        await getPropertiesInBounds(getRadiusBounds(center, radiusKm), !!options.page),
+        filters
+    );
+    const candidates = properties.filter((p) => getPropertyDistance(p, center) <= radiusKm);
+
+    return {
+        ...toSearchResult(candidates, { ...filters, location: undefined }, center, options),
+        ...(stays ? { stays } : {}),
+    };
+}
+
+// Store geohashes on listings saved before location search used them, or whose
+// coordinates changed outside the app. Also marks listings saved before listings had a
+// status as active and gives unrated ones a zero rating and review count, since search
+// only reads active listings and sorts skip listings without the field sorted on.
+// Returns the IDs updated.
+export async function backfillGeohashes(): Promise<string[]> {
+    const snapshot = await getDocs(collection(db, PROPERTIES_COLLECTION));
+    const updated: string[] = [];
+    let batch = writeBatch(db);
+    let batchSize = 0;
+
+    for (const propertyDoc of snapshot.docs) {
+        const { location, status, averageRating, reviewCount } = propertyDoc.data() as Property;
+        const update: Record<string, unknown> = {};
+
+        if (location?.coordinates) {
+            const geohash = encodeGeohash(location.coordinates.latitude, location.coordinates.longitude);
+            if (location.geohash !== geohash) update['location.geohash'] = geohash;
+        }
+        if (status === undefined || status === null) {
+            update.status = 'active' as PropertyStatus;
+        }
+        if (averageRating === undefined) update.averageRating = 0;
+        if (reviewCount === undefined) update.reviewCount = 0;
+        if (Object.keys(update).length === 0) continue;
+
+        batch.update(propertyDoc.ref, update);
+        updated.push(propertyDoc.id);
+
+        // Firestore batches hold up to 500 writes
+        if (++batchSize === 500) {
+            await batch.commit();
+            batch = writeBatch(db);
+            batchSize = 0;
+        }
+    }
+
+    if (batchSize > 0) {
+        await batch.commit();
+    }
+
+    return updated;
+}
+
 // Get featured properties
 export async function getFeaturedProperties(count: number = 10): Promise<Property[]> {
     const q = query(
@@ -248,10 +469,10 @@ export async function checkPropertyAvailability(
             return false;
         }
 
-        // Check blocked dates (handle undefined/null blockedDates)
-        const blockedDates = property.blockedDates || [];
-        const checkInStr = checkIn.toISOString().split('T')[0];
-        const checkOutStr = checkOut.toISOString().split('T')[0];
+        // Check blocked dates, including nights taken on other platforms
+        const blockedDates = getAllBlockedDates(property);
+        const checkInStr = toDateKey(checkIn);
+        const checkOutStr = toDateKey(checkOut);
 
         for (const blockedDate of blockedDates) {
             if (blockedDate >= checkInStr && blockedDate < checkOutStr) {
@@ -294,6 +515,12 @@ export async function checkPropertyAvailability(
                     continue;
                 }
 
+                // Unanswered requests stop holding dates once their response window passes
+                if (status === 'pending' && !isBookingActive(booking as Booking)) {
+                    console.log('SKIPPING - request past its response window');
+                    continue;
+                }
+
                 // Safely convert dates
                 let existingCheckIn: Date;
                 let existingCheckOut: Date;
@@ -343,132 +570,18 @@ export async function checkPropertyAvailability(
     }
 }
 
-// Get all properties (for home page)
-export async function getAllProperties(): Promise<Property[]> {
-    console.log('getAllProperties: Starting to fetch properties...');
-
-    try {
-        // First try with ordering (requires composite index)
-        const q = query(
-            collection(db, PROPERTIES_COLLECTION),
-            where('status', '==', 'active' as PropertyStatus),
-            orderBy('createdAt', 'desc'),
-            limit(50)
-        );
-
-        const snapshot = await getDocs(q);
-        console.log('getAllProperties: Fetched', snapshot.docs.length, 'properties with index');
-        return snapshot.docs.map((doc) => ({
-            id: doc.id,
-            ...doc.data(),
-        })) as Property[];
-    } catch (error: unknown) {
-        const err = error as { code?: string; message?: string };
-        console.warn('getAllProperties: First query failed:', err?.code, err?.message);
-
-        // If index error, try without ordering
-        if (err?.code === 'failed-precondition' || err?.message?.includes('index')) {
-            console.warn('Firestore index not found, fetching without order. Please create the required index.');
-            try {
-                const q = query(
-                    collection(db, PROPERTIES_COLLECTION),
-                    where('status', '==', 'active' as PropertyStatus),
-                    limit(50)
-                );
-                const snapshot = await getDocs(q);
-                console.log('getAllProperties: Fetched', snapshot.docs.length, 'properties without order');
-                const properties = snapshot.docs.map((doc) => ({
-                    id: doc.id,
-                    ...doc.data(),
-                })) as Property[];
-                // Sort client-side
-                return properties.sort((a, b) => {
-                    const dateA = a.createdAt?.toDate?.() || new Date(0);
-                    const dateB = b.createdAt?.toDate?.() || new Date(0);
-                    return dateB.getTime() - dateA.getTime();
-                });
-            } catch (innerError: unknown) {
-                const innerErr = innerError as { message?: string };
-                console.warn('getAllProperties: Status query also failed:', innerErr?.message);
-            }
-        }
-
-        // Final fallback: fetch all properties without any filter
-        console.warn('getAllProperties: Using final fallback - fetching all properties');
-        const q = query(
-            collection(db, PROPERTIES_COLLECTION),
-            limit(50)
-        );
-        const snapshot = await getDocs(q);
-        console.log('getAllProperties: Fetched', snapshot.docs.length, 'total properties (unfiltered)');
-
-        // Filter and sort client-side
-        const allProperties = snapshot.docs.map((doc) => ({
-            id: doc.id,
-            ...doc.data(),
-        })) as Property[];
-
-        // Only return active ones (or all if no status field exists)
-        return allProperties
-            .filter(p => !p.status || p.status === 'active')
-            .sort((a, b) => {
-                const dateA = a.createdAt?.toDate?.() || new Date(0);
-                const dateB = b.createdAt?.toDate?.() || new Date(0);
-                return dateB.getTime() - dateA.getTime();
-            });
-    }
-}
-
-// Search properties with filters
-export async function searchProperties(filters: SearchFilters): Promise<Property[]> {
-    // First, try to get properties with 'active' status
-    const q = query(
-        collection(db, PROPERTIES_COLLECTION),
-        orderBy('createdAt', 'desc'),
-        limit(100)
-    );
-
-    const snapshot = await getDocs(q);
-    let properties = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-    })) as Property[];
-
-    // Filter by status: include 'active' or properties without status (backwards compatibility)
-    properties = properties.filter(
-        (p) => p.status === 'active' || p.status === undefined || p.status === null
-    );
-
-    // Apply property type filter
-    if (filters.propertyType && filters.propertyType.length > 0) {
-        properties = properties.filter((p) =>
-            filters.propertyType!.includes(p.propertyType)
-        );
-    }
-
-    // Apply bedrooms filter
-    if (filters.bedrooms) {
-        properties = properties.filter((p) => p.bedrooms >= filters.bedrooms!);
-    }
-
-    // Apply instant book filter
-    if (filters.instantBook) {
-        properties = properties.filter((p) => p.instantBook === true);
-    }
-
-    // Apply client-side filters
-    if (filters.priceRange) {
-        properties = properties.filter(
-            (p) =>
-                p.pricing.basePrice >= (filters.priceRange?.min || 0) &&
-                p.pricing.basePrice <= (filters.priceRange?.max || Infinity)
-        );
-    }
-
-    if (filters.amenities && filters.amenities.length > 0) {
-        properties = properties.filter((p) =>
-            filters.amenities!.every((amenity) => p.amenities.includes(amenity))
-        );
+// Apply the filters that decide what a search is for, other than its location: a drawn
+// area, dates and guests. Refinements are applied on top, so facets can be counted from these.
+// Also returns the stays the dates matched, so results can show them.
+function applyQueryFilters(
+    properties: Property[],
+    filters: SearchFilters
+): { properties: Property[]; stays?: Map<string, StayMatch> } {
+    if (hasPolygon(filters)) {
+        properties = properties.filter((p) => {
+            const { latitude, longitude } = p.location.coordinates;
+            return isInPolygon(latitude, longitude, filters.polygon);
+        });
     }
 
     if (filters.guests) {
@@ -476,45 +589,101 @@ export async function searchProperties(filters: SearchFilters): Promise<Property
         properties = properties.filter((p) => p.maxGuests >= totalGuests);
     }
 
-    if (filters.bathrooms) {
-        properties = properties.filter((p) => p.bathrooms >= filters.bathrooms!);
+    // Apply dates filter - only listings with an open stay for the dates
+    if (hasDateFilter(filters)) {
+        const stays = getStayMatches(properties, filters);
+        return { properties: properties.filter((p) => stays.has(p.id)), stays };
     }
 
-    if (filters.beds) {
-        properties = properties.filter((p) => p.beds >= filters.beds!);
-    }
-
-    // Apply location filter - search in city, state, country, and address
-    if (filters.location && filters.location.trim() !== '') {
-        const searchTerm = filters.location.toLowerCase().trim();
-        console.log('Filtering by location:', searchTerm);
+    return { properties };
+}
 
-        properties = properties.filter((p) => {
-            const location = p.location;
-            if (!location) {
-                console.log('Property has no location:', p.id, p.title);
-                return false;
-            }
+// Read active listings in the given order from a cursor, in batches, until select has
+// passed a page of them. Each order needs the composite index (status, field) declared
+// in firestore.indexes.json.
+async function scanActiveProperties(
+    select: (batch: Property[]) => Property[],
+    cursor: PropertyCursor | null,
+    pageSize: number,
+    order: { field: string; direction: 'asc' | 'desc' } = SEARCH_ORDER.relevance
+): Promise<PropertyPage> {
+    const properties: Property[] = [];
+    let hasMore = true;
+
+    for (let batch = 0; batch < MAX_SCAN_BATCHES && hasMore && properties.length < pageSize; batch++) {
+        const snapshot = await getDocs(query(
+            collection(db, PROPERTIES_COLLECTION),
+            where('status', '==', 'active' as PropertyStatus),
+            orderBy(order.field, order.direction),
+            ...(cursor ? [startAfter(cursor)] : []),
+            limit(SCAN_BATCH_SIZE)
+        ));
+
+        properties.push(...select(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Property)));
+        cursor = snapshot.docs[snapshot.docs.length - 1] ?? cursor;
+        hasMore = snapshot.docs.length === SCAN_BATCH_SIZE;
+    }
 
-            const searchableFields = [
-                location.city,
-                location.state,
-                location.country,
-                location.address,
-            ].filter(Boolean);
+    return { properties, cursor: hasMore ? cursor : null, hasMore };
+}
 
-            const matches = searchableFields.some(field =>
-                field.toLowerCase().includes(searchTerm)
-            );
+// A page of the home feed, newest first, optionally of one property type
+export async function getPropertyFeed(
+    cursor: PropertyCursor | null = null,
+    propertyType?: PropertyType,
+    pageSize: number = APP_CONFIG.SEARCH_PAGE_SIZE
+): Promise<PropertyPage> {
+    return scanActiveProperties(
+        (batch) => (propertyType ? batch.filter((p) => p.propertyType === propertyType) : batch),
+        cursor,
+        pageSize
+    );
+}
 
-            console.log('Property:', p.title, '| Location:', location.city, location.state, '| Matches:', matches);
-            return matches;
-        });
+// Search properties with filters, a page at a time from a cursor. The location text is
+// matched against each listing's title, description, location and amenities. Listings
+// are read in the sort's order, so pages follow one order across the whole result.
+export async function searchPropertiesByText(
+    filters: SearchFilters,
+    options: { sortBy?: SortOption; cursor?: PropertyCursor | null; pageSize?: number } = {}
+): Promise<TextSearchResult> {
+    const { sortBy = 'relevance', cursor = null, pageSize = APP_CONFIG.SEARCH_PAGE_SIZE } = options;
+    const text = filters.location?.trim();
+
+    const candidates: Property[] = [];
+    const stays = hasDateFilter(filters) ? new Map<string, StayMatch>() : undefined;
+    const page = await scanActiveProperties((batch) => {
+        const filtered = applyQueryFilters(batch, filters);
+        filtered.stays?.forEach((stay, id) => stays!.set(id, stay));
+        let matches = filtered.properties;
+
+        // Full-text match of the location box against listing text
+        const scores = text ? getRelevanceScores(matches, text) : null;
+        if (scores) {
+            matches = matches.filter((p) => scores.has(p.id));
+        }
 
-        console.log('Properties after location filter:', properties.length);
-    }
+        candidates.push(...matches);
+        return matches.filter((p) => matchesRefinements(p, filters));
+    }, cursor, pageSize, SEARCH_ORDER[sortBy]);
+
+    return {
+        properties: page.properties,
+        total: page.properties.length,
+        hasMore: page.hasMore,
+        cursor: page.cursor,
+        candidates,
+        ...(stays ? { stays } : {}),
+    };
+}
 
-    return properties;
+// Search properties with filters, as a plain list of the first page
+export async function searchProperties(
+    filters: SearchFilters,
+    sortBy: SortOption = 'relevance',
+    pageSize: number = APP_CONFIG.SEARCH_PAGE_SIZE
+): Promise<Property[]> {
+    return (await searchPropertiesByText(filters, { sortBy, pageSize })).properties;
 }
 
 // Get host properties
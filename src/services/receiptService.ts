@@ -0,0 +1,257 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import type { Booking, BookingPricing, Property } from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { calculateHostPayout } from './payoutService';
+import { formatMoney, getPricingCurrency } from './currencyService';
+import { getTaxLineItems } from './taxService';
+
+export interface ReceiptLine {
+    label: string;
+    amount: number;
+    // 'detail' lines itemise the line above; 'total' lines are ruled off and bold
+    kind?: 'item' | 'detail' | 'total';
+}
+
+export interface BookingReceipt {
+    kind: 'receipt' | 'invoice';
+    title: string;
+    number: string;
+    issuedAt: Date;
+    billedTo: string;
+    propertyName: string;
+    propertyAddress: string;
+    checkIn: Date;
+    checkOut: Date;
+    guests: number;
+    lines: ReceiptLine[];
+    currency: string;
+}
+
+// Guests can download a receipt once they've actually been charged
+export function canDownloadReceipt(booking: Booking): boolean {
+    return ['paid', 'partial_refund', 'refunded'].includes(booking.paymentStatus);
+}
+
+// Hosts get an invoice for any booking that still earns them something
+export function canDownloadInvoice(booking: Booking): boolean {
+    return (booking.paymentStatus === 'paid' || booking.paymentStatus === 'partial_refund')
+        && calculateHostPayout(booking.pricing, booking.refundBreakdown).amount > 0;
+}
+
+export function formatReceiptAmount(amount: number, currency: string = APP_CONFIG.DEFAULT_CURRENCY): string {
+    // Currency codes rather than symbols, which the built-in PDF fonts can't draw
+    return formatMoney(amount, currency, { display: 'code', exact: true }).replace(/\u00a0/g, ' ');
+}
+
+// One line per night, with any seasonal or discount adjustments beneath it
+function getNightlyLines(booking: Booking): ReceiptLine[] {
+    const { pricing } = booking;
+    const nights = pricing.nights !== 1 ? 'nights' : 'night';
+    const lines: ReceiptLine[] = [
+        {
+            label: `${formatReceiptAmount(pricing.nightlyRate, getPricingCurrency(pricing))} x ${pricing.nights} ${nights}`,
+            amount: pricing.subtotal,
+        },
+    ];
+
+    (pricing.nightlyBreakdown ?? []).forEach((night) => {
+        const adjustments = night.adjustments.map((adjustment) => adjustment.label).join(', ');
+        lines.push({
+            label: `${format(parseISO(night.date), 'EEE, MMM d, yyyy')}${adjustments ? ` (${adjustments})` : ''}`,
+            amount: night.price,
+            kind: 'detail',
+        });
+    });
+
+    return lines;
+}
+
+function getDiscountLabel(pricing: BookingPricing): string {
+    return pricing.promoCode ? `Promo code ${pricing.promoCode}` : 'Discount';
+}
+
+function getStayDetails(booking: Booking, property?: Property | null) {
+    const location = property?.location;
+    return {
+        propertyName: property?.title || 'Property',
+        propertyAddress: location
+            ? [location.address, location.city, location.state, location.country].filter(Boolean).join(', ')
+            : '',
+        checkIn: booking.checkIn.toDate(),
+        checkOut: booking.checkOut.toDate(),
+        guests: booking.guests.adults + booking.guests.children,
+    };
+}
+
+// Itemised receipt of what the guest paid, including any refund
+export function buildGuestReceipt(booking: Booking, property?: Property | null): BookingReceipt {
+    const { pricing } = booking;
+    const lines: ReceiptLine[] = [...getNightlyLines(booking)];
+
+    if (pricing.discount) {
+        lines.push({ label: getDiscountLabel(pricing), amount: -pricing.discount });
+    }
+    lines.push({ label: 'Cleaning fee', amount: pricing.cleaningFee });
+    lines.push({ label: 'Service fee', amount: pricing.serviceFee });
+    getTaxLineItems(pricing).forEach((tax) => lines.push({ label: tax.label, amount: tax.amount }));
+    lines.push({ label: 'Total charged', amount: pricing.total, kind: 'total' });
+
+    const refund = booking.refundBreakdown;
+    const refundAmount = refund?.total ?? booking.refundAmount ?? 0;
+    if (refundAmount > 0) {
+        lines.push({ label: 'Refund', amount: -refundAmount });
+        if (refund) {
+            const parts: [string, number][] = [
+                ['Nights', refund.nightly],
+                ['Cleaning fee', refund.cleaningFee],
+                ['Service fee', refund.serviceFee],
+                ['Taxes', refund.taxes],
+            ];
+            parts
+                .filter(([, amount]) => amount > 0)
+                .forEach(([label, amount]) => lines.push({ label, amount: -amount, kind: 'detail' }));
+        }
+        lines.push({ label: 'Net paid', amount: pricing.total - refundAmount, kind: 'total' });
+    }
+
+    return {
+        kind: 'receipt',
+        title: 'Payment Receipt',
+        number: `R-${booking.id.slice(0, 8).toUpperCase()}`,
+        issuedAt: new Date(),
+        billedTo: booking.guestName || 'Guest',
+        ...getStayDetails(booking, property),
+        lines,
+        currency: getPricingCurrency(pricing),
+    };
+}
+
+// Invoice of what the host earns from a booking, after refunds and the host service fee
+export function buildHostInvoice(booking: Booking, property?: Property | null): BookingReceipt {
+    const { pricing } = booking;
+    const payout = calculateHostPayout(pricing, booking.refundBreakdown);
+    const lines: ReceiptLine[] = [...getNightlyLines(booking)];
+
+    // Only host promo codes reduce what the host earns
+    const hostDiscount = pricing.discountFundedBy === 'host' ? pricing.discount ?? 0 : 0;
+    if (hostDiscount > 0) {
+        lines.push({ label: getDiscountLabel(pricing), amount: -hostDiscount });
+    }
+    lines.push({ label: 'Cleaning fee', amount: pricing.cleaningFee });
+
+    const refunded = pricing.subtotal - hostDiscount + pricing.cleaningFee - payout.grossAmount;
+    if (refunded > 0.005) {
+        lines.push({ label: 'Refunded to guest', amount: -refunded });
+    }
+    lines.push({ label: 'Gross earnings', amount: payout.grossAmount, kind: 'total' });
+    lines.push({
+        label: `Host service fee (${Math.round(APP_CONFIG.SERVICE_FEE_HOST_PERCENT * 100)}%)`,
+        amount: -payout.hostServiceFee,
+    });
+    lines.push({ label: 'Payout', amount: payout.amount, kind: 'total' });
+
+    return {
+        kind: 'invoice',
+        title: 'Host Invoice',
+        number: `INV-${booking.id.slice(0, 8).toUpperCase()}`,
+        issuedAt: new Date(),
+        billedTo: booking.guestName || 'Guest',
+        ...getStayDetails(booking, property),
+        lines,
+        currency: getPricingCurrency(pricing),
+    };
+}
+
+// Render a receipt to PDF. Runs entirely in the browser, so it works offline.
+export function renderReceiptPdf(receipt: BookingReceipt): jsPDF {
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 56;
+    const right = pageWidth - margin;
+    let y = margin;
+
+    const nextLine = (height: number) => {
+        y += height;
+        if (y > pageHeight - margin) {
+            pdf.addPage();
+            y = margin;
+        }
+    };
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(20);
+    pdf.text(APP_CONFIG.APP_NAME, margin, y);
+    pdf.setFontSize(14);
+    pdf.text(receipt.title, right, y, { align: 'right' });
+    nextLine(28);
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.setTextColor(100);
+    pdf.text(`${receipt.kind === 'invoice' ? 'Invoice' : 'Receipt'} no. ${receipt.number}`, margin, y);
+    pdf.text(`Issued ${format(receipt.issuedAt, 'MMM d, yyyy')}`, right, y, { align: 'right' });
+    nextLine(32);
+
+    // Stay details
+    pdf.setTextColor(0);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(12);
+    pdf.text(receipt.propertyName, margin, y);
+    nextLine(16);
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    const details = [
+        receipt.propertyAddress,
+        `${format(receipt.checkIn, 'EEE, MMM d, yyyy')} - ${format(receipt.checkOut, 'EEE, MMM d, yyyy')}`,
+        `${receipt.guests} guest${receipt.guests !== 1 ? 's' : ''}`,
+        `${receipt.kind === 'invoice' ? 'Guest' : 'Billed to'}: ${receipt.billedTo}`,
+    ].filter(Boolean);
+    details.forEach((detail) => {
+        pdf.text(detail, margin, y);
+        nextLine(14);
+    });
+    nextLine(18);
+
+    // Line items
+    receipt.lines.forEach((line) => {
+        const isDetail = line.kind === 'detail';
+        const isTotal = line.kind === 'total';
+
+        if (isTotal) {
+            pdf.setDrawColor(200);
+            pdf.line(margin, y - 10, right, y - 10);
+            nextLine(4);
+        }
+
+        pdf.setFont('helvetica', isTotal ? 'bold' : 'normal');
+        pdf.setFontSize(isDetail ? 9 : 11);
+        pdf.setTextColor(isDetail ? 110 : 0);
+        pdf.text(line.label, isDetail ? margin + 14 : margin, y);
+        pdf.text(formatReceiptAmount(line.amount, receipt.currency), right, y, { align: 'right' });
+        nextLine(isDetail ? 14 : isTotal ? 24 : 18);
+    });
+
+    nextLine(12);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(120);
+    pdf.text(`All amounts in ${receipt.currency}.`, margin, y);
+
+    return pdf;
+}
+
+// Build and save the PDF for a booking
+export function downloadBookingReceipt(
+    booking: Booking,
+    property: Property | null | undefined,
+    kind: BookingReceipt['kind'] = 'receipt'
+): void {
+    const receipt = kind === 'invoice'
+        ? buildHostInvoice(booking, property)
+        : buildGuestReceipt(booking, property);
+
+    renderReceiptPdf(receipt).save(`${receipt.number}.pdf`);
+}
@@ -0,0 +1,283 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    orderBy,
+    runTransaction,
+    updateDoc,
+    writeBatch,
+    Timestamp,
+} from 'firebase/firestore';
+import { subHours } from 'date-fns';
+import { db } from '../config/firebase';
+import type {
+    Booking,
+    BookingPricing,
+    BookingStatus,
+    CancellationPolicy,
+    PaymentStatus,
+    Property,
+    Refund,
+    RefundBreakdown,
+} from '../types';
+import { CANCELLATION_POLICIES } from '../config/constants';
+import { releaseBookingLocks } from './bookingService';
+import { getPaymentProvider } from './paymentService';
+import { getPricingCurrency } from './currencyService';
+
+const BOOKINGS_COLLECTION = 'bookings';
+const REFUNDS_COLLECTION = 'refunds';
+
+export interface RefundQuote {
+    breakdown: RefundBreakdown;
+    nightlyRefundPercentage: number;
+    cutoff: Date;
+    beforeCutoff: boolean;
+    paymentStatus: PaymentStatus | null;
+    currency: string;
+}
+
+// Thrown when a booking has already been cancelled, or otherwise can't be any more
+export class BookingNotCancellableError extends Error {
+    readonly status: BookingStatus;
+
+    constructor(status: BookingStatus) {
+        super(status === 'cancelled' ? 'This booking has already been cancelled' : `A ${status} booking can't be cancelled`);
+        this.name = 'BookingNotCancellableError';
+        this.status = status;
+    }
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Combine the booking's check-in date with the property's check-in time (e.g. "15:00")
+export function getCheckInDateTime(checkIn: Date, checkInTime?: string): Date {
+    const result = new Date(checkIn);
+    const [hours, minutes] = (checkInTime || '00:00').split(':').map(Number);
+    result.setHours(hours || 0, minutes || 0, 0, 0);
+    return result;
+}
+
+// Work out what a cancellation refunds, line by line.
+// Before the policy cutoff nights and the service fee are refunded at the policy
+// percentage; after it only the cleaning fee is. Nothing is refunded once the stay
+// has started. Taxes follow the lines they were charged on. Hosts cancelling always
+// refund in full.
+export function calculateRefund(
+    pricing: BookingPricing,
+    policyId: CancellationPolicy,
+    checkInAt: Date,
+    cancelledAt: Date,
+    cancelledBy: 'guest' | 'host' = 'guest'
+): RefundQuote {
+    const policy = CANCELLATION_POLICIES.find((p) => p.id === policyId) ?? CANCELLATION_POLICIES[0];
+    const cutoff = subHours(checkInAt, policy.cutoffHours);
+    const beforeCutoff = cancelledAt <= cutoff;
+    const stayStarted = cancelledAt >= checkInAt;
+
+    let nightlyShare = 0;
+    let cleaningShare = 0;
+
+    if (cancelledBy === 'host') {
+        nightlyShare = 1;
+        cleaningShare = 1;
+    } else if (!stayStarted) {
+        nightlyShare = beforeCutoff ? policy.refundPercentage / 100 : 0;
+        cleaningShare = 1;
+    }
+
+    // Refund what the guest actually paid for the nights, after any promo discount
+    const nightsPaid = pricing.subtotal - (pricing.discount ?? 0);
+    const nightly = roundMoney(nightsPaid * nightlyShare);
+    const cleaningFee = roundMoney(pricing.cleaningFee * cleaningShare);
+    const serviceFee = roundMoney(pricing.serviceFee * nightlyShare);
+
+    const taxableBase = nightsPaid + pricing.cleaningFee + pricing.serviceFee;
+    const taxes = taxableBase > 0
+        ? roundMoney(pricing.taxes * ((nightly + cleaningFee + serviceFee) / taxableBase))
+        : 0;
+
+    const total = roundMoney(nightly + cleaningFee + serviceFee + taxes);
+
+    let paymentStatus: PaymentStatus | null = null;
+    if (total > 0) {
+        paymentStatus = total >= pricing.total ? 'refunded' : 'partial_refund';
+    }
+
+    return {
+        breakdown: { nightly, cleaningFee, serviceFee, taxes, total },
+        nightlyRefundPercentage: nightlyShare * 100,
+        cutoff,
+        beforeCutoff,
+        paymentStatus,
+        currency: getPricingCurrency(pricing),
+    };
+}
+
+// Quote the refund for cancelling a booking now under its property's policy
+export function quoteBookingRefund(
+    booking: Booking,
+    property: Property | null | undefined,
+    cancelledBy: 'guest' | 'host' = 'guest',
+    cancelledAt: Date = new Date()
+): RefundQuote {
+    // A hold that was never captured is released in full whoever cancels
+    const fullRefund = cancelledBy === 'host' || booking.paymentStatus === 'authorized';
+
+    return calculateRefund(
+        booking.pricing,
+        property?.cancellationPolicy ?? 'flexible',
+        getCheckInDateTime(booking.checkIn.toDate(), property?.checkInTime),
+        cancelledAt,
+        fullRefund ? 'host' : cancelledBy
+    );
+}
+
+// Whether a booking's payment can still be refunded through the provider
+function isRefundable(booking: Booking): boolean {
+    return !!booking.paymentIntentId && (
+        booking.paymentStatus === 'authorized'
+        || booking.paymentStatus === 'paid'
+        || booking.paymentStatus === 'partial_refund'
+    );
+}
+
+// Send a pending ledger refund through the provider and record the outcome on the
+// entry and the booking. Returns false if the provider refused it.
+async function sendRefund(refund: Refund, booking: Booking, paymentStatus: PaymentStatus | null): Promise<boolean> {
+    const refundRef = doc(db, REFUNDS_COLLECTION, refund.id);
+
+    try {
+        const providerRefund = await getPaymentProvider().refund(
+            booking.paymentIntentId!,
+            refund.amount,
+            getPricingCurrency(booking.pricing)
+        );
+
+        const batch = writeBatch(db);
+        batch.update(refundRef, { status: 'completed', providerRefundId: providerRefund.refundId });
+        if (paymentStatus) {
+            batch.update(doc(db, BOOKINGS_COLLECTION, booking.id), { paymentStatus, updatedAt: Timestamp.now() });
+        }
+        await batch.commit();
+        return true;
+    } catch (error) {
+        console.error('sendRefund: Provider refund failed for', refund.id, error);
+        await updateDoc(refundRef, { status: 'failed' });
+        return false;
+    }
+}
+
+// Cancel a booking, store the refund on it and append an entry to the refund ledger.
+// The cancellation is claimed in a transaction before any money moves, so a booking
+// cancelled twice (by both parties, or a double click) is only refunded once. A refund
+// the provider refuses is left failed on the ledger for the booking sweep to retry.
+export async function cancelBookingWithRefund(
+    booking: Booking,
+    property: Property | null | undefined,
+    cancelledBy: 'guest' | 'host',
+    reason: string,
+    cancellableStatuses: BookingStatus[] = ['pending', 'confirmed']
+): Promise<RefundQuote> {
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+    const refundRef = doc(collection(db, REFUNDS_COLLECTION));
+
+    const { current, quote, refund } = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        const current = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+        if (!cancellableStatuses.includes(current.status)) {
+            throw new BookingNotCancellableError(current.status);
+        }
+
+        const quote = quoteBookingRefund(current, property, cancelledBy);
+        transaction.update(bookingRef, {
+            status: 'cancelled',
+            cancelledAt: Timestamp.now(),
+            cancellationReason: reason,
+            refundAmount: quote.breakdown.total,
+            refundBreakdown: quote.breakdown,
+            updatedAt: Timestamp.now(),
+        });
+
+        // Nothing was captured on a legacy or unpaid booking, so there's nothing to refund
+        if (quote.breakdown.total > 0 && isRefundable(current)) {
+            const refund: Omit<Refund, 'id'> = {
+                bookingId: booking.id,
+                guestId: current.guestId,
+                hostId: current.hostId,
+                amount: quote.breakdown.total,
+                breakdown: quote.breakdown,
+                policy: property?.cancellationPolicy ?? 'flexible',
+                cancelledBy,
+                reason,
+                status: 'pending',
+                createdAt: Timestamp.now(),
+            };
+            transaction.set(refundRef, refund);
+            return { current, quote, refund: { id: refundRef.id, ...refund } };
+        }
+
+        return { current, quote, refund: null };
+    });
+
+    await releaseBookingLocks(booking.id);
+
+    if (refund) {
+        await sendRefund(refund, current, quote.paymentStatus);
+    }
+
+    return quote;
+}
+
+// Retry ledger refunds the provider refused. Returns the IDs of refunds sent.
+export async function retryFailedRefunds(): Promise<string[]> {
+    const snapshot = await getDocs(query(
+        collection(db, REFUNDS_COLLECTION),
+        where('status', '==', 'failed')
+    ));
+
+    const sent: string[] = [];
+    for (const refundDoc of snapshot.docs) {
+        const bookingSnap = await getDoc(doc(db, BOOKINGS_COLLECTION, refundDoc.data().bookingId));
+        if (!bookingSnap.exists()) continue;
+
+        // Claim the entry so two sweeps can't send the same refund
+        const refund = await runTransaction(db, async (transaction) => {
+            const refundSnap = await transaction.get(refundDoc.ref);
+            if (!refundSnap.exists() || refundSnap.data().status !== 'failed') return null;
+            transaction.update(refundDoc.ref, { status: 'pending' });
+            return { id: refundSnap.id, ...refundSnap.data() } as Refund;
+        });
+        if (!refund) continue;
+
+        const booking = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+        const paymentStatus: PaymentStatus = refund.amount >= booking.pricing.total ? 'refunded' : 'partial_refund';
+        if (await sendRefund(refund, booking, paymentStatus)) {
+            sent.push(refund.id);
+        }
+    }
+
+    return sent;
+}
+
+// Get refund ledger entries for a booking
+export async function getBookingRefunds(bookingId: string): Promise<Refund[]> {
+    const q = query(
+        collection(db, REFUNDS_COLLECTION),
+        where('bookingId', '==', bookingId),
+        orderBy('createdAt', 'desc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+    })) as Refund[];
+}
@@ -0,0 +1,263 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    addDoc,
+    updateDoc,
+    deleteDoc,
+    deleteField,
+    query,
+    where,
+    Timestamp,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type {
+    Property,
+    SavedSearch,
+    SavedSearchAlertFrequency,
+    SearchFilters,
+    StoredSearchFilters,
+} from '../types';
+import { convertMoney, getExchangeRates, getPricingCurrency } from './currencyService';
+import { setDateSearchParams } from './flexibleDatesService';
+import { setMapSearchParams } from './mapSearchService';
+import { searchProperties, searchPropertiesByBounds } from './propertyService';
+import { createNotification } from './notificationService';
+import type { GeoBounds } from './geohashService';
+
+const SAVED_SEARCHES_COLLECTION = 'savedSearches';
+
+// Hours between checks of a saved search, by alert frequency
+const CHECK_INTERVAL_HOURS: Record<Exclude<SavedSearchAlertFrequency, 'off'>, number> = {
+    instant: 0,
+    daily: 24,
+    weekly: 24 * 7,
+};
+
+// Most listings one saved search is checked against
+const MAX_MATCHES = 500;
+
+// Firestore rejects undefined fields and stores Dates as Timestamps
+function toStoredFilters(filters: SearchFilters): StoredSearchFilters {
+    const { checkIn, checkOut, ...rest } = filters;
+    const stored = JSON.parse(JSON.stringify(rest)) as StoredSearchFilters;
+    if (checkIn) stored.checkIn = Timestamp.fromDate(checkIn);
+    if (checkOut) stored.checkOut = Timestamp.fromDate(checkOut);
+    return stored;
+}
+
+export function getSavedSearchFilters(search: Pick<SavedSearch, 'filters'>): SearchFilters {
+    const { checkIn, checkOut, ...rest } = search.filters;
+    return {
+        ...rest,
+        ...(checkIn ? { checkIn: checkIn.toDate() } : {}),
+        ...(checkOut ? { checkOut: checkOut.toDate() } : {}),
+    };
+}
+
+// The /search query string for a set of filters, in the params SearchPage reads
+export function getSearchQuery(filters: SearchFilters): string {
+    const params = new URLSearchParams();
+    if (filters.location) params.set('location', filters.location);
+    setDateSearchParams(params, filters);
+    if (filters.guests && filters.guests.adults + filters.guests.children > 0) {
+        params.set('guests', String(filters.guests.adults + filters.guests.children));
+    }
+    if (filters.propertyType?.length) params.set('types', filters.propertyType.join(','));
+    if (filters.priceRange?.min) params.set('minPrice', String(filters.priceRange.min));
+    if (filters.priceRange?.max) params.set('maxPrice', String(filters.priceRange.max));
+    if (filters.bedrooms) params.set('bedrooms', String(filters.bedrooms));
+    if (filters.beds) params.set('beds', String(filters.beds));
+    if (filters.bathrooms) params.set('bathrooms', String(filters.bathrooms));
+    if (filters.amenities?.length) params.set('amenities', filters.amenities.join(','));
+    if (filters.instantBook) params.set('instantBook', 'true');
+    setMapSearchParams(params, filters);
+    return params.toString();
+}
+
+// Save a search under a name. Listings matching it now are recorded so only later
+// changes trigger alerts.
+export async function saveSearch(
+    userId: string,
+    name: string,
+    filters: SearchFilters,
+    options: {
+        bounds?: GeoBounds;
+        alertFrequency: SavedSearchAlertFrequency;
+        priceThreshold?: number;
+        currency: string;
+    }
+): Promise<string> {
+    if (!name.trim()) {
+        throw new Error('Give your search a name');
+    }
+    if (options.priceThreshold !== undefined && !(options.priceThreshold > 0)) {
+        throw new Error('Price alert must be greater than 0');
+    }
+
+    const search: Omit<SavedSearch, 'id'> = {
+        userId,
+        name: name.trim(),
+        filters: toStoredFilters(filters),
+        alertFrequency: options.alertFrequency,
+        currency: options.currency,
+        knownPrices: {},
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+    };
+    if (options.bounds) {
+        search.bounds = options.bounds;
+    }
+    if (options.priceThreshold !== undefined) {
+        search.priceThreshold = options.priceThreshold;
+    }
+
+    const matches = await getMatchingProperties(search);
+    search.knownPrices = Object.fromEntries(matches.map((p) => [p.id, p.pricing.basePrice]));
+    search.lastCheckedAt = Timestamp.now();
+
+    const docRef = await addDoc(collection(db, SAVED_SEARCHES_COLLECTION), search);
+    return docRef.id;
+}
+
+// Get a user's saved searches, newest first
+export async function getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const q = query(
+        collection(db, SAVED_SEARCHES_COLLECTION),
+        where('userId', '==', userId)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as SavedSearch)
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
+
+// Rename a saved search or change its alerts. A null price threshold turns price alerts off.
+export async function updateSavedSearch(
+    searchId: string,
+    changes: {
+        name?: string;
+        alertFrequency?: SavedSearchAlertFrequency;
+        priceThreshold?: number | null;
+    }
+): Promise<void> {
+    if (changes.name !== undefined && !changes.name.trim()) {
+        throw new Error('Give your search a name');
+    }
+    if (typeof changes.priceThreshold === 'number' && !(changes.priceThreshold > 0)) {
+        throw new Error('Price alert must be greater than 0');
+    }
+
+    const update: Record<string, unknown> = { updatedAt: Timestamp.now() };
+    if (changes.name !== undefined) update.name = changes.name.trim();
+    if (changes.alertFrequency) update.alertFrequency = changes.alertFrequency;
+    if (changes.priceThreshold !== undefined) {
+        update.priceThreshold = changes.priceThreshold ?? deleteField();
+    }
+
+    await updateDoc(doc(db, SAVED_SEARCHES_COLLECTION, searchId), update);
+}
+
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+    await deleteDoc(doc(db, SAVED_SEARCHES_COLLECTION, searchId));
+}
+
+// Active listings a saved search matches now
+async function getMatchingProperties(search: Omit<SavedSearch, 'id'>): Promise<Property[]> {
+    const filters = getSavedSearchFilters(search);
+
+    if (search.bounds) {
+        const result = await searchPropertiesByBounds(search.bounds, filters, { pageSize: MAX_MATCHES });
+        return result.properties;
+    }
+    return (await searchProperties(filters, 'relevance', MAX_MATCHES)).slice(0, MAX_MATCHES);
+}
+
+// Whether a saved search is due for another check
+function isCheckDue(search: SavedSearch, now: Date): boolean {
+    if (search.alertFrequency === 'off') return false;
+    if (!search.lastCheckedAt) return true;
+
+    const hoursSince = (now.getTime() - search.lastCheckedAt.toMillis()) / (60 * 60 * 1000);
+    return hoursSince >= CHECK_INTERVAL_HOURS[search.alertFrequency];
+}
+
+// Check saved searches that are due and notify their owners of listings that went live
+// since the last check, and of matching listings whose price dropped below the search's
+// price alert. Meant to run on a schedule; returns the IDs of searches that sent alerts.
+export async function runSavedSearchAlerts(now: Date = new Date()): Promise<string[]> {
+    const snapshot = await getDocs(collection(db, SAVED_SEARCHES_COLLECTION));
+    const due = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as SavedSearch)
+        .filter((search) => isCheckDue(search, now));
+    if (due.length === 0) return [];
+
+    const rates = await getExchangeRates();
+    const notified: string[] = [];
+
+    for (const search of due) {
+        try {
+            const matches = await getMatchingProperties(search);
+            const lastCheckedAt = search.lastCheckedAt?.toMillis() ?? search.createdAt.toMillis();
+
+            const newListings = matches.filter((p) => {
+                const wentLive = p.activatedAt ?? p.createdAt;
+                return !(p.id in search.knownPrices) && !!wentLive && wentLive.toMillis() > lastCheckedAt;
+            });
+
+            // Prices are compared in the search's currency
+            const toSearchCurrency = (amount: number, property: Property) => {
+                const currency = getPricingCurrency(property.pricing);
+                if (currency === search.currency) return amount;
+                return rates ? convertMoney(amount, currency, search.currency, rates) : null;
+            };
+            const priceDrops = search.priceThreshold === undefined ? [] : matches.filter((p) => {
+                const previous = search.knownPrices[p.id];
+                if (previous === undefined || p.pricing.basePrice >= previous) return false;
+
+                const price = toSearchCurrency(p.pricing.basePrice, p);
+                const previousPrice = toSearchCurrency(previous, p);
+                return price !== null && previousPrice !== null
+                    && price < search.priceThreshold! && previousPrice >= search.priceThreshold!;
+            });
+
+            const data = { savedSearchId: search.id, searchQuery: getSearchQuery(getSavedSearchFilters(search)) };
+            if (newListings.length > 0) {
+                await createNotification(
+                    search.userId,
+                    'search',
+                    newListings.length === 1 ? 'New listing for your search' : 'New listings for your search',
+                    newListings.length === 1
+                        ? `"${newListings[0].title}" now matches "${search.name}".`
+                        : `${newListings.length} new listings match "${search.name}".`,
+                    newListings.length === 1 ? { ...data, propertyId: newListings[0].id } : data
+                );
+            }
+            if (priceDrops.length > 0) {
+                await createNotification(
+                    search.userId,
+                    'search',
+                    'Price drop for your search',
+                    priceDrops.length === 1
+                        ? `"${priceDrops[0].title}" from "${search.name}" dropped its price.`
+                        : `${priceDrops.length} listings from "${search.name}" dropped their prices.`,
+                    priceDrops.length === 1 ? { ...data, propertyId: priceDrops[0].id } : data
+                );
+            }
+            if (newListings.length > 0 || priceDrops.length > 0) {
+                notified.push(search.id);
+            }
+
+            // Only listings that still match are remembered
+            await updateDoc(doc(db, SAVED_SEARCHES_COLLECTION, search.id), {
+                knownPrices: Object.fromEntries(matches.map((p) => [p.id, p.pricing.basePrice])),
+                lastCheckedAt: Timestamp.fromDate(now),
+            });
+        } catch (error) {
+            console.error('runSavedSearchAlerts: Failed to check search', search.id, error);
+        }
+    }
+
+    return notified;
+}
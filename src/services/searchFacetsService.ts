@@ -0,0 +1,90 @@
+import type { PriceHistogramBucket, Property, PropertyType, SearchFacets, SearchFilters } from '../types';
+import { AMENITY_LABELS } from '../config/constants';
+
+// Refinements narrow a search's matches (its location, dates and guests) down.
+// Facets count what each refinement option would leave, given the others.
+
+type Refinement = 'propertyType' | 'price' | 'bedrooms' | 'bathrooms' | 'beds' | 'amenities' | 'instantBook';
+
+const PROPERTY_TYPES: PropertyType[] = ['entire_place', 'private_room', 'shared_room'];
+
+// Room counts the sidebar offers; the last means "or more"
+export const ROOM_COUNT_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const PRICE_HISTOGRAM_BUCKETS = 20;
+
+// Whether a listing passes a search's refinements, optionally leaving one out
+export function matchesRefinements(property: Property, filters: SearchFilters, except?: Refinement): boolean {
+    if (except !== 'propertyType' && filters.propertyType && filters.propertyType.length > 0
+        && !filters.propertyType.includes(property.propertyType)) {
+        return false;
+    }
+    if (except !== 'price' && filters.priceRange) {
+        const price = property.pricing.basePrice;
+        if (price < (filters.priceRange.min || 0) || price > (filters.priceRange.max || Infinity)) {
+            return false;
+        }
+    }
+    if (except !== 'bedrooms' && filters.bedrooms && property.bedrooms < filters.bedrooms) return false;
+    if (except !== 'bathrooms' && filters.bathrooms && property.bathrooms < filters.bathrooms) return false;
+    if (except !== 'beds' && filters.beds && property.beds < filters.beds) return false;
+    if (except !== 'amenities' && filters.amenities && filters.amenities.length > 0
+        && !filters.amenities.every((amenity) => property.amenities.includes(amenity))) {
+        return false;
+    }
+    if (except !== 'instantBook' && filters.instantBook && property.instantBook !== true) return false;
+    return true;
+}
+
+// Evenly sized price buckets from the cheapest listing to the dearest
+function getPriceHistogram(prices: number[]): PriceHistogramBucket[] {
+    if (prices.length === 0) return [];
+
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    if (min === max) return [{ min, max, count: prices.length }];
+
+    const width = (max - min) / PRICE_HISTOGRAM_BUCKETS;
+    const buckets = Array.from({ length: PRICE_HISTOGRAM_BUCKETS }, (_, i) => ({
+        min: Math.round(min + i * width),
+        max: Math.round(min + (i + 1) * width),
+        count: 0,
+    }));
+    for (const price of prices) {
+        buckets[Math.min(Math.floor((price - min) / width), PRICE_HISTOGRAM_BUCKETS - 1)].count++;
+    }
+    return buckets;
+}
+
+// Facet counts for a search's candidates under the given filters. A type adds to the
+// types picked, so it's counted without the type filter; an amenity or room count
+// narrows further, so it's counted on top of everything else.
+export function getSearchFacets(candidates: Property[], filters: SearchFilters): SearchFacets {
+    const byType = candidates.filter((p) => matchesRefinements(p, filters, 'propertyType'));
+    const byBedrooms = candidates.filter((p) => matchesRefinements(p, filters, 'bedrooms'));
+    const byBathrooms = candidates.filter((p) => matchesRefinements(p, filters, 'bathrooms'));
+    const byInstantBook = candidates.filter((p) => matchesRefinements(p, filters, 'instantBook'));
+    const byPrice = candidates.filter((p) => matchesRefinements(p, filters, 'price'));
+    const matches = candidates.filter((p) => matchesRefinements(p, filters));
+
+    return {
+        propertyTypes: Object.fromEntries(PROPERTY_TYPES.map((type) => [
+            type,
+            byType.filter((p) => p.propertyType === type).length,
+        ])) as Record<PropertyType, number>,
+        amenities: Object.fromEntries(Object.keys(AMENITY_LABELS).map((amenity) => [
+            amenity,
+            matches.filter((p) => p.amenities.includes(amenity)).length,
+        ])),
+        bedrooms: Object.fromEntries(ROOM_COUNT_OPTIONS.map((count) => [
+            count,
+            byBedrooms.filter((p) => p.bedrooms >= count).length,
+        ])),
+        bathrooms: Object.fromEntries(ROOM_COUNT_OPTIONS.map((count) => [
+            count,
+            byBathrooms.filter((p) => p.bathrooms >= count).length,
+        ])),
+        instantBook: byInstantBook.filter((p) => p.instantBook === true).length,
+        priceHistogram: getPriceHistogram(byPrice.map((p) => p.pricing.basePrice)),
+    };
+}
@@ -0,0 +1,250 @@
+import type { Property } from '../types';
+import { AMENITY_LABELS, PROPERTY_TYPE_LABELS } from '../config/constants';
+
+// Full-text listing search: listings are broken into words per field, and a query
+// matches a listing when every query word is found in it, exactly, through a synonym,
+// as the start of a longer word or within a typo or two.
+
+type SearchField = 'title' | 'city' | 'state' | 'country' | 'address' | 'propertyType' | 'amenities' | 'description';
+
+// How much a query word found in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 5,
+    city: 4,
+    state: 3,
+    country: 3,
+    propertyType: 2,
+    amenities: 2,
+    address: 2,
+    description: 1,
+};
+
+// How much each kind of match counts, relative to the exact word
+const SYNONYM_MATCH = 0.8;
+const PREFIX_MATCH = 0.6;
+const FUZZY_MATCH = 0.5;
+
+// Shortest query word matched as the start of longer words
+const MIN_PREFIX_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'at', 'by', 'for', 'in', 'near', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+// Query words and the listing words they also stand for. Amenities and property types
+// are indexed under their ID with the underscores dropped, e.g. "hottub".
+const SYNONYMS: Record<string, string[]> = {
+    beach: ['beachfront', 'seaside', 'oceanfront'],
+    sea: ['beachfront', 'seaside', 'oceanfront', 'ocean'],
+    ocean: ['oceanfront', 'beachfront', 'sea'],
+    seaside: ['beachfront', 'sea'],
+    lake: ['waterfront', 'lakeside', 'lakefront'],
+    river: ['waterfront', 'riverside'],
+    water: ['waterfront'],
+    ski: ['skiinout'],
+    jacuzzi: ['hottub'],
+    spa: ['hottub'],
+    ac: ['airconditioning', 'aircon'],
+    aircon: ['airconditioning'],
+    internet: ['wifi'],
+    parking: ['freeparking', 'garage'],
+    garage: ['freeparking'],
+    bbq: ['bbqgrill'],
+    barbecue: ['bbqgrill', 'bbq'],
+    fireplace: ['indoorfireplace'],
+    swimming: ['pool'],
+    house: ['entireplace', 'home'],
+    home: ['entireplace', 'house'],
+    apartment: ['entireplace', 'condo', 'flat'],
+    condo: ['entireplace', 'apartment'],
+    flat: ['entireplace', 'apartment'],
+    villa: ['entireplace'],
+    cabin: ['entireplace'],
+    room: ['privateroom'],
+    hostel: ['sharedroom'],
+    dorm: ['sharedroom'],
+};
+
+// Words of a listing and the heaviest field each appears in
+type ListingWords = Map<string, number>;
+
+export interface SearchIndex {
+    // Word -> listing ID -> heaviest field the word appears in for that listing
+    postings: Map<string, Map<string, number>>;
+    size: number;
+}
+
+// Indexed words per listing, reused until the listing changes
+const listingWordsCache = new Map<string, { version: number; words: ListingWords }>();
+
+// Drop plural endings so "beaches" finds "beach"
+function stem(word: string): string {
+    if (word.length > 4 && /(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+// Lowercase words without accents, plurals or stop words
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word && !STOP_WORDS.has(word))
+        .map(stem);
+}
+
+function getListingWords(property: Property): ListingWords {
+    const version = property.updatedAt?.toMillis?.() ?? 0;
+    const cached = listingWordsCache.get(property.id);
+    if (cached && cached.version === version) return cached.words;
+
+    const words: ListingWords = new Map();
+    const add = (field: SearchField, text: string | undefined) => {
+        if (!text) return;
+        for (const word of tokenize(text)) {
+            words.set(word, Math.max(words.get(word) ?? 0, FIELD_WEIGHTS[field]));
+        }
+    };
+
+    add('title', property.title);
+    add('description', property.description);
+    add('city', property.location?.city);
+    add('state', property.location?.state);
+    add('country', property.location?.country);
+    add('address', property.location?.address);
+    add('propertyType', PROPERTY_TYPE_LABELS[property.propertyType]);
+    add('propertyType', property.propertyType?.replace(/_/g, ''));
+    for (const amenity of property.amenities ?? []) {
+        add('amenities', AMENITY_LABELS[amenity]);
+        add('amenities', amenity.replace(/_/g, ''));
+    }
+
+    listingWordsCache.set(property.id, { version, words });
+    return words;
+}
+
+// Build an index over a set of listing snapshots
+export function buildSearchIndex(properties: Property[]): SearchIndex {
+    const postings = new Map<string, Map<string, number>>();
+
+    for (const property of properties) {
+        for (const [word, weight] of getListingWords(property)) {
+            let listings = postings.get(word);
+            if (!listings) {
+                listings = new Map();
+                postings.set(word, listings);
+            }
+            listings.set(property.id, weight);
+        }
+    }
+
+    return { postings, size: properties.length };
+}
+
+// Typos allowed for a query word of this length
+function getMaxEdits(length: number): number {
+    if (length <= 3) return 0;
+    return length <= 6 ? 1 : 2;
+}
+
+// Levenshtein distance, giving up once it exceeds max
+function getEditDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Indexed words a query word matches, with how good each match is
+function getMatchingWords(index: SearchIndex, term: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const consider = (word: string, quality: number) => {
+        if (index.postings.has(word) && quality > (matches.get(word) ?? 0)) {
+            matches.set(word, quality);
+        }
+    };
+
+    consider(term, 1);
+    for (const synonym of SYNONYMS[term] ?? []) {
+        consider(synonym, SYNONYM_MATCH);
+    }
+
+    const maxEdits = getMaxEdits(term.length);
+    if (maxEdits > 0) {
+        // A misspelt synonym, like "bech" for "beach"
+        for (const [word, synonyms] of Object.entries(SYNONYMS)) {
+            if (word !== term && getEditDistance(term, word, maxEdits) <= maxEdits) {
+                synonyms.forEach((synonym) => consider(synonym, FUZZY_MATCH * SYNONYM_MATCH));
+            }
+        }
+    }
+    for (const word of index.postings.keys()) {
+        if (word === term) continue;
+        if (term.length >= MIN_PREFIX_LENGTH && word.startsWith(term)) {
+            consider(word, PREFIX_MATCH);
+        } else if (maxEdits > 0 && getEditDistance(term, word, maxEdits) <= maxEdits) {
+            consider(word, FUZZY_MATCH);
+        }
+    }
+
+    return matches;
+}
+
+// Relevance of each listing matching the query, by listing ID. Rarer words and heavier
+// fields count for more. Null when the query has no words to search by.
+export function searchIndex(index: SearchIndex, text: string): Map<string, number> | null {
+    const terms = [...new Set(tokenize(text))];
+    if (terms.length === 0) return null;
+
+    let scores: Map<string, number> | null = null;
+
+    for (const term of terms) {
+        // Best match of this term in each listing
+        const termScores = new Map<string, number>();
+        for (const [word, quality] of getMatchingWords(index, term)) {
+            const listings = index.postings.get(word)!;
+            const rarity = Math.log(1 + index.size / listings.size);
+            for (const [id, weight] of listings) {
+                const score = weight * quality * rarity;
+                if (score > (termScores.get(id) ?? 0)) {
+                    termScores.set(id, score);
+                }
+            }
+        }
+
+        // Every term has to match
+        const previous: Map<string, number> | null = scores;
+        scores = new Map();
+        for (const [id, score] of termScores) {
+            if (previous === null) {
+                scores.set(id, score);
+            } else if (previous.has(id)) {
+                scores.set(id, previous.get(id)! + score);
+            }
+        }
+        if (scores.size === 0) break;
+    }
+
+    return scores;
+}
+
+// Relevance of each listing to a query, indexing the listings given
+export function getRelevanceScores(properties: Property[], text: string): Map<string, number> | null {
+    return searchIndex(buildSearchIndex(properties), text);
+}
@@ -0,0 +1,510 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    where,
+    runTransaction,
+    updateDoc,
+    Timestamp,
+} from 'firebase/firestore';
+import { addDays, addHours, max, subDays } from 'date-fns';
+import { db } from '../config/firebase';
+import type { Booking, DamageClaim, Property, SecurityDeposit } from '../types';
+import { APP_CONFIG } from '../config/constants';
+import { PaymentError, getPaymentProvider } from './paymentService';
+import type { PaymentResult } from './paymentService';
+import { formatMoney, getPricingCurrency } from './currencyService';
+import { createDamageClaimPayout } from './payoutService';
+import { createNotification } from './notificationService';
+import { uploadDamageClaimPhoto } from './storageService';
+
+const BOOKINGS_COLLECTION = 'bookings';
+
+// Hosts have until this long after checkout to file a damage claim
+export function getDamageClaimDeadline(booking: Pick<Booking, 'checkOut'>): Date {
+    return addHours(booking.checkOut.toDate(), APP_CONFIG.DAMAGE_CLAIM_WINDOW_HOURS);
+}
+
+// Whether the host can still file a claim against the deposit
+export function canFileDamageClaim(booking: Booking, now: Date = new Date()): boolean {
+    return booking.securityDeposit?.status === 'held'
+        && !booking.damageClaim
+        && (booking.status === 'confirmed' || booking.status === 'completed')
+        && booking.checkOut.toDate() <= now
+        && now < getDamageClaimDeadline(booking);
+}
+
+// When a stay's deposit is held. Card holds lapse after about a week, so the hold is
+// placed the day before check-in, or later for a long stay so it lasts until the claim
+// window closes.
+export function getDepositHoldDate(checkIn: Date, checkOut: Date): Date {
+    const claimDeadline = addHours(checkOut, APP_CONFIG.DAMAGE_CLAIM_WINDOW_HOURS);
+    return max([subDays(checkIn, 1), subDays(claimDeadline, APP_CONFIG.SECURITY_DEPOSIT_HOLD_DAYS)]);
+}
+
+// Set up a listing's security deposit on the guest's card at checkout. Holds it now if
+// the stay is close; otherwise keeps the card and leaves the hold to the sweep.
+// Returns null when the listing doesn't ask for one.
+export async function holdSecurityDeposit(
+    property: Property,
+    stay: { checkIn: Date; checkOut: Date },
+    metadata: Record<string, string>,
+    now: Date = new Date()
+): Promise<SecurityDeposit | null> {
+    const amount = property.pricing.securityDeposit ?? 0;
+    if (amount <= 0) {
+        return null;
+    }
+
+    const currency = getPricingCurrency(property.pricing);
+    const holdAt = getDepositHoldDate(stay.checkIn, stay.checkOut);
+
+    if (holdAt > now) {
+        const paymentMethodId = await getPaymentProvider().saveCard(metadata);
+        return {
+            amount,
+            currency,
+            status: 'scheduled',
+            paymentMethodId,
+            holdAt: Timestamp.fromDate(holdAt),
+        };
+    }
+
+    const hold = await getPaymentProvider().authorize({
+        amount,
+        currency,
+        capture: false,
+        description: `${APP_CONFIG.APP_NAME} security deposit – ${property.title}`,
+        metadata,
+    });
+
+    return {
+        amount,
+        currency,
+        status: 'held',
+        paymentIntentId: hold.paymentIntentId,
+        heldAt: Timestamp.fromDate(now),
+    };
+}
+
+// Hold one scheduled deposit on the saved card. Returns whether it's now held.
+async function placeDepositHold(booking: Booking, now: Date): Promise<boolean> {
+    const deposit = booking.securityDeposit!;
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+
+    let hold: PaymentResult;
+    try {
+        hold = await getPaymentProvider().authorize({
+            amount: deposit.amount,
+            currency: deposit.currency,
+            capture: false,
+            description: `${APP_CONFIG.APP_NAME} security deposit`,
+            metadata: { bookingId: booking.id, propertyId: booking.propertyId, guestId: booking.guestId },
+            paymentMethodId: deposit.paymentMethodId,
+        });
+    } catch (error) {
+        if (!(error instanceof PaymentError)) throw error;
+
+        await updateDoc(bookingRef, {
+            securityDeposit: { ...deposit, status: 'failed' },
+            updatedAt: Timestamp.fromDate(now),
+        });
+        await notifyDepositHoldFailed(booking, deposit);
+        return false;
+    }
+
+    // The booking may have been cancelled while the card was charged
+    const held = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists() || (bookingSnap.data() as Booking).securityDeposit?.status !== 'scheduled') {
+            return false;
+        }
+        transaction.update(bookingRef, {
+            securityDeposit: {
+                ...deposit,
+                status: 'held',
+                paymentIntentId: hold.paymentIntentId,
+                heldAt: Timestamp.fromDate(now),
+            },
+            updatedAt: Timestamp.fromDate(now),
+        });
+        return true;
+    });
+
+    if (!held) {
+        await getPaymentProvider().refund(hold.paymentIntentId, deposit.amount, deposit.currency);
+    }
+    return held;
+}
+
+// Hold the deposits of upcoming stays whose hold date has come, on the card the guest
+// saved at checkout. A declined card leaves the deposit failed and tells both parties.
+export async function placeDueDepositHolds(now: Date = new Date()): Promise<string[]> {
+    const q = query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('securityDeposit.status', '==', 'scheduled')
+    );
+
+    const snapshot = await getDocs(q);
+    const due = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Booking)
+        .filter((booking) => (booking.status === 'confirmed' || booking.status === 'pending')
+            && booking.securityDeposit!.holdAt!.toDate() <= now);
+
+    const heldIds: string[] = [];
+    for (const booking of due) {
+        try {
+            if (await placeDepositHold(booking, now)) {
+                heldIds.push(booking.id);
+            }
+        } catch (error) {
+            console.error('placeDueDepositHolds: Failed to hold deposit for', booking.id, error);
+        }
+    }
+
+    return heldIds;
+}
+
+// Tell the guest and host that the saved card refused the deposit hold
+async function notifyDepositHoldFailed(booking: Booking, deposit: SecurityDeposit): Promise<void> {
+    const amount = formatMoney(deposit.amount, deposit.currency);
+    const data = { bookingId: booking.id, propertyId: booking.propertyId, action: 'deposit_failed' };
+
+    try {
+        await createNotification(
+            booking.guestId,
+            'booking',
+            'Security Deposit Declined',
+            `We couldn't hold the ${amount} security deposit for your upcoming stay on your saved card. Please contact the host or our support team before check-in.`,
+            data
+        );
+        await createNotification(
+            booking.hostId,
+            'booking',
+            'Security Deposit Declined',
+            `The ${amount} security deposit for ${booking.guestName || 'a guest'}'s upcoming stay couldn't be held on their card.`,
+            data
+        );
+    } catch (notifError) {
+        console.error('placeDueDepositHolds: Failed to send notification:', notifError);
+    }
+}
+
+// Release a booking's deposit hold in full. Does nothing if nothing is held, or while a
+// damage claim is waiting on the guest.
+export async function releaseSecurityDeposit(
+    booking: Booking,
+    now: Date = new Date()
+): Promise<SecurityDeposit | null> {
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+
+    // Claim the release first so a claim filed meanwhile can't be refunded away, and
+    // the hold is only refunded once
+    const deposit = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        const current = bookingSnap.data() as Booking;
+        const deposit = current.securityDeposit;
+        if (!deposit || (deposit.status !== 'scheduled' && deposit.status !== 'held') || current.damageClaim) {
+            return null;
+        }
+
+        transaction.update(bookingRef, {
+            securityDeposit: { ...deposit, status: 'released', releasedAt: Timestamp.fromDate(now) },
+            updatedAt: Timestamp.fromDate(now),
+        });
+        return deposit;
+    });
+
+    if (!deposit) {
+        return null;
+    }
+
+    // A deposit not held yet only needs its hold called off
+    if (deposit.status === 'held') {
+        await getPaymentProvider().refund(deposit.paymentIntentId!, deposit.amount, deposit.currency);
+    }
+
+    return { ...deposit, status: 'released', releasedAt: Timestamp.fromDate(now) };
+}
+
+// File a damage claim against the deposit, with photos of the damage.
+// Returns the fields written to the booking.
+export async function fileDamageClaim(
+    booking: Booking,
+    claim: { amount: number; description: string; photos: File[] },
+    propertyName: string,
+    now: Date = new Date()
+): Promise<Partial<Booking>> {
+    const deposit = booking.securityDeposit;
+    if (!deposit || !canFileDamageClaim(booking, now)) {
+        throw new Error('A damage claim can no longer be filed for this booking');
+    }
+    if (claim.amount <= 0 || claim.amount > deposit.amount) {
+        throw new Error(`A claim can be for up to ${formatMoney(deposit.amount, deposit.currency)}`);
+    }
+    if (!claim.description.trim()) {
+        throw new Error('Please describe the damage');
+    }
+    if (claim.photos.length === 0) {
+        throw new Error('Please add at least one photo of the damage');
+    }
+
+    const photos: string[] = [];
+    for (const file of claim.photos) {
+        photos.push(await uploadDamageClaimPhoto(booking.id, file));
+    }
+
+    const damageClaim: DamageClaim = {
+        amount: claim.amount,
+        description: claim.description.trim(),
+        photos,
+        status: 'pending',
+        createdAt: Timestamp.fromDate(now),
+    };
+    const update: Partial<Booking> = { damageClaim, updatedAt: Timestamp.fromDate(now) };
+
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+    await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        // The sweep may have released the deposit while the photos uploaded
+        const current = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+        if (!canFileDamageClaim(current, now)) {
+            throw new Error('A damage claim can no longer be filed for this booking');
+        }
+
+        transaction.update(bookingRef, update);
+    });
+
+    try {
+        await createNotification(
+            booking.guestId,
+            'booking',
+            'Damage Claim Filed',
+            `The host of "${propertyName}" has claimed ${formatMoney(claim.amount, deposit.currency)} from your security deposit. Please accept or dispute it from your trips.`,
+            { bookingId: booking.id, propertyId: booking.propertyId, action: 'damage_claim' }
+        );
+    } catch (notifError) {
+        console.error('fileDamageClaim: Failed to send notification:', notifError);
+    }
+
+    return update;
+}
+
+// The guest accepts or disputes a claim. Either way the claimed amount is charged from
+// the deposit and the rest released, since the hold would lapse before a dispute is
+// settled. Accepting pays it to the host; a disputed amount is kept until support
+// settles it with resolveDamageClaim. Returns the fields written to the booking.
+export async function respondToDamageClaim(
+    booking: Booking,
+    accept: boolean,
+    propertyName: string,
+    response?: string,
+    now: Date = new Date()
+): Promise<Partial<Booking>> {
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, booking.id);
+
+    // Claim the response first so the deposit is only captured once
+    const { deposit, claim, update } = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        const current = bookingSnap.data() as Booking;
+        const deposit = current.securityDeposit;
+        const claim = current.damageClaim;
+        if (!deposit || deposit.status !== 'held' || claim?.status !== 'pending') {
+            throw new Error('This booking has no open damage claim');
+        }
+
+        const update: Partial<Booking> = {
+            damageClaim: {
+                ...claim,
+                status: accept ? 'accepted' : 'disputed',
+                respondedAt: Timestamp.fromDate(now),
+                ...(response ? { guestResponse: response } : {}),
+            },
+            updatedAt: Timestamp.fromDate(now),
+        };
+        transaction.update(bookingRef, update);
+        return { deposit, claim, update };
+    });
+
+    await getPaymentProvider().capture(deposit.paymentIntentId!, claim.amount, deposit.currency);
+    update.securityDeposit = {
+        ...deposit,
+        status: 'charged',
+        chargedAmount: claim.amount,
+        releasedAt: Timestamp.fromDate(now),
+    };
+
+    await updateDoc(bookingRef, {
+        securityDeposit: update.securityDeposit,
+        updatedAt: Timestamp.fromDate(now),
+    });
+
+    if (accept) {
+        await createDamageClaimPayout(booking, claim.amount, now);
+    }
+
+    try {
+        const amount = formatMoney(claim.amount, deposit.currency);
+        await createNotification(
+            booking.hostId,
+            'booking',
+            accept ? 'Damage Claim Accepted' : 'Damage Claim Disputed',
+            accept
+                ? `${booking.guestName || 'The guest'} accepted your ${amount} damage claim for "${propertyName}". It will be added to your payouts.`
+                : `${booking.guestName || 'The guest'} disputed your ${amount} damage claim for "${propertyName}". Our support team will be in touch.`,
+            { bookingId: booking.id, propertyId: booking.propertyId, action: accept ? 'claim_accepted' : 'claim_disputed' }
+        );
+    } catch (notifError) {
+        console.error('respondToDamageClaim: Failed to send notification:', notifError);
+    }
+
+    return update;
+}
+
+// Settle a disputed claim: the host is paid the awarded amount and the rest of what was
+// charged goes back to the guest. Run by support with `npm run resolve-damage-claim`.
+// Returns the fields written to the booking.
+export async function resolveDamageClaim(
+    bookingId: string,
+    awardedAmount: number,
+    note: string,
+    now: Date = new Date()
+): Promise<Partial<Booking>> {
+    const bookingRef = doc(db, BOOKINGS_COLLECTION, bookingId);
+
+    // Claim the resolution first so the money only moves once
+    const { booking, update } = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        if (!bookingSnap.exists()) {
+            throw new Error('Booking not found');
+        }
+
+        const booking = { id: bookingSnap.id, ...bookingSnap.data() } as Booking;
+        const deposit = booking.securityDeposit;
+        const claim = booking.damageClaim;
+        if (!deposit || deposit.status !== 'charged' || claim?.status !== 'disputed') {
+            throw new Error('This booking has no disputed damage claim');
+        }
+        if (awardedAmount < 0 || awardedAmount > claim.amount) {
+            throw new Error(`The award must be between 0 and ${formatMoney(claim.amount, deposit.currency)}`);
+        }
+
+        const update: Partial<Booking> = {
+            damageClaim: {
+                ...claim,
+                status: 'resolved',
+                awardedAmount,
+                resolvedAt: Timestamp.fromDate(now),
+                ...(note ? { resolutionNote: note } : {}),
+            },
+            securityDeposit: { ...deposit, chargedAmount: awardedAmount },
+            updatedAt: Timestamp.fromDate(now),
+        };
+        transaction.update(bookingRef, update);
+        return { booking, update };
+    });
+
+    const deposit = booking.securityDeposit!;
+    const claim = booking.damageClaim!;
+    const refundAmount = Math.round((claim.amount - awardedAmount) * 100) / 100;
+
+    if (refundAmount > 0) {
+        await getPaymentProvider().refund(deposit.paymentIntentId!, refundAmount, deposit.currency);
+    }
+    if (awardedAmount > 0) {
+        await createDamageClaimPayout(booking, awardedAmount, now);
+    }
+
+    try {
+        const awarded = formatMoney(awardedAmount, deposit.currency);
+        const refunded = formatMoney(refundAmount, deposit.currency);
+        const data = { bookingId: booking.id, propertyId: booking.propertyId, action: 'claim_resolved' };
+        await createNotification(
+            booking.guestId,
+            'booking',
+            'Damage Claim Resolved',
+            refundAmount > 0
+                ? `Your disputed damage claim has been settled. ${refunded} of your security deposit is on its way back to you.`
+                : 'Your disputed damage claim has been settled in the host\'s favour.',
+            data
+        );
+        await createNotification(
+            booking.hostId,
+            'booking',
+            'Damage Claim Resolved',
+            awardedAmount > 0
+                ? `Your disputed damage claim has been settled. ${awarded} will be added to your payouts.`
+                : 'Your disputed damage claim has been settled in the guest\'s favour.',
+            data
+        );
+    } catch (notifError) {
+        console.error('resolveDamageClaim: Failed to send notification:', notifError);
+    }
+
+    return update;
+}
+
+// Settle disputes support hasn't resolved in time in the guest's favour
+export async function settleStaleDisputes(now: Date = new Date()): Promise<string[]> {
+    const q = query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('damageClaim.status', '==', 'disputed')
+    );
+
+    const snapshot = await getDocs(q);
+    const stale = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Booking)
+        .filter((booking) => booking.damageClaim?.respondedAt
+            && addDays(booking.damageClaim.respondedAt.toDate(), APP_CONFIG.DAMAGE_CLAIM_DISPUTE_DAYS) <= now);
+
+    const settledIds: string[] = [];
+    for (const booking of stale) {
+        try {
+            await resolveDamageClaim(booking.id, 0, 'Not settled in time', now);
+            settledIds.push(booking.id);
+        } catch (error) {
+            console.error('settleStaleDisputes: Failed to settle dispute for', booking.id, error);
+        }
+    }
+
+    return settledIds;
+}
+
+// Release every deposit whose claim window closed without a claim
+export async function releaseDueDeposits(now: Date = new Date()): Promise<string[]> {
+    const q = query(
+        collection(db, BOOKINGS_COLLECTION),
+        where('securityDeposit.status', '==', 'held')
+    );
+
+    const snapshot = await getDocs(q);
+    const due = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Booking)
+        .filter((booking) => !booking.damageClaim && getDamageClaimDeadline(booking) <= now);
+
+    const releasedIds: string[] = [];
+    for (const booking of due) {
+        try {
+            if (await releaseSecurityDeposit(booking, now)) {
+                releasedIds.push(booking.id);
+            }
+        } catch (error) {
+            console.error('releaseDueDeposits: Failed to release deposit for', booking.id, error);
+        }
+    }
+
+    return releasedIds;
+}
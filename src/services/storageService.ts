@@ -196,6 +196,54 @@ export async function uploadReviewPhoto(
     return getDownloadURL(storageRef);
 }
 
+// Upload damage claim photo
+export async function uploadDamageClaimPhoto(
+    bookingId: string,
+    file: File
+): Promise<string> {
+    const validation = validateImage(file);
+    if (!validation.valid) {
+        throw new Error(validation.error);
+    }
+
+    const compressedFile = await compressImage(file);
+    const photoId = uuidv4();
+    const storageRef = ref(storage, `damageClaims/${bookingId}/${photoId}.jpg`);
+
+    await uploadBytes(storageRef, compressedFile);
+    return getDownloadURL(storageRef);
+}
+
+// Publish a property's iCal feed. storage.rules let anyone get a feed by its exact path but
+// not list calendarFeeds/, so the feed has a stable URL calendar apps can poll; the token in
+// its path is the secret.
+export async function uploadCalendarFeed(
+    propertyId: string,
+    token: string,
+    content: string
+): Promise<void> {
+    const storageRef = ref(storage, getCalendarFeedPath(propertyId, token));
+    await uploadBytes(storageRef, new Blob([content], { type: 'text/calendar' }), {
+        contentType: 'text/calendar; charset=utf-8',
+        cacheControl: 'public, max-age=300',
+    });
+}
+
+// Public URL of a property's iCal feed
+export function getCalendarFeedUrl(propertyId: string, token: string): string {
+    const storageRef = ref(storage, getCalendarFeedPath(propertyId, token));
+    return `https://firebasestorage.googleapis.com/v0/b/${storageRef.bucket}/o/${encodeURIComponent(storageRef.fullPath)}?alt=media`;
+}
+
+// Delete a feed, e.g. when its URL is replaced
+export async function deleteCalendarFeed(propertyId: string, token: string): Promise<void> {
+    await deleteObject(ref(storage, getCalendarFeedPath(propertyId, token)));
+}
+
+function getCalendarFeedPath(propertyId: string, token: string): string {
+    return `calendarFeeds/${propertyId}/${token}.ics`;
+}
+
 // Get file size formatted
 export function formatFileSize(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
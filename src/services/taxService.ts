@@ -0,0 +1,84 @@
+import type { BookingPricing, PropertyLocation, TaxLine, TaxRule } from '../types';
+import { DEFAULT_TAX_RULES, TAX_RULES } from '../config/constants';
+
+export type TaxLocation = Pick<PropertyLocation, 'country' | 'state' | 'city'>;
+
+export interface TaxableStay {
+    nights: number;
+    // Adults and children; infants don't count towards per-guest taxes
+    guests: number;
+    // Nights after any discount, plus the cleaning and service fees
+    taxableAmount: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Places are typed in by hosts, so match them loosely
+const normalizePlace = (place?: string) => (place ?? '').trim().toLowerCase();
+
+// Every rule that applies at a location: its country's, its state's and its city's. The
+// country can be given by name or code. A country with no rules, or no location at all,
+// gets the default rules.
+export function getTaxRules(
+    location: TaxLocation | undefined,
+    rules: TaxRule[] = TAX_RULES,
+    defaults: TaxRule[] = DEFAULT_TAX_RULES
+): TaxRule[] {
+    const country = normalizePlace(location?.country);
+    const countryRules = rules.filter((rule) => !!country
+        && (normalizePlace(rule.country) === country || normalizePlace(rule.countryCode) === country));
+    if (!location || countryRules.length === 0) {
+        return defaults;
+    }
+
+    return countryRules.filter((rule) =>
+        (!rule.state || normalizePlace(rule.state) === normalizePlace(location.state))
+        && (!rule.city || normalizePlace(rule.city) === normalizePlace(location.city))
+    );
+}
+
+function calculateTaxAmount(type: TaxLine['type'], rate: number, stay: TaxableStay): number {
+    switch (type) {
+        case 'percentage':
+            return roundMoney(stay.taxableAmount * rate);
+        case 'per_night':
+            return roundMoney(rate * stay.nights);
+        case 'per_guest_per_night':
+            return roundMoney(rate * stay.guests * stay.nights);
+    }
+}
+
+// One line per tax the stay pays. Rules the stay is exempt from are left out.
+export function calculateTaxLines(rules: TaxRule[], stay: TaxableStay): TaxLine[] {
+    return rules
+        .filter((rule) => !rule.exemptMinNights || stay.nights < rule.exemptMinNights)
+        .map((rule) => ({
+            ruleId: rule.id,
+            label: rule.name,
+            type: rule.type,
+            rate: rule.rate,
+            amount: calculateTaxAmount(rule.type, rule.rate, stay),
+        }))
+        .filter((line) => line.amount > 0);
+}
+
+// Re-price percentage taxes on a new taxable amount, e.g. after a discount.
+// Flat taxes depend only on nights and guests, so they stay the same.
+export function repriceTaxLines(lines: TaxLine[], taxableAmount: number): TaxLine[] {
+    return lines.map((line) => line.type === 'percentage'
+        ? { ...line, amount: roundMoney(taxableAmount * line.rate) }
+        : line
+    );
+}
+
+export function sumTaxLines(lines: TaxLine[]): number {
+    return roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+}
+
+// Tax lines to show for a stay. Bookings priced before per-tax lines have a single total.
+export function getTaxLineItems(pricing: BookingPricing): { label: string; amount: number }[] {
+    if (pricing.taxLines) {
+        return pricing.taxLines;
+    }
+    return pricing.taxes > 0 ? [{ label: 'Taxes', amount: pricing.taxes }] : [];
+}
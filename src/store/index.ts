@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { Property, SearchFilters, SortOption, Booking, Conversation, Wishlist, Notification } from '../types';
+import type { Property, SearchFilters, SortOption, Booking, Conversation, Wishlist, Notification, ExchangeRateTable, StayMatch } from '../types';
+import { APP_CONFIG } from '../config/constants';
 
 // Property Store
 interface PropertyState {
@@ -190,3 +191,53 @@ export const useUIStore = create<UIState>((set) => ({
     closeSignupModal: () => set({ isSignupModalOpen: false }),
     setModalContent: (content) => set({ modalContent: content }),
 }));
+
+// Currency Store
+interface CurrencyState {
+    displayCurrency: string;
+    rates: ExchangeRateTable | null;
+    setDisplayCurrency: (currency: string) => void;
+    setRates: (rates: ExchangeRateTable | null) => void;
+}
+
+const DISPLAY_CURRENCY_KEY = 'displayCurrency';
+
+export const useCurrencyStore = create<CurrencyState>((set) => ({
+    displayCurrency: localStorage.getItem(DISPLAY_CURRENCY_KEY) || APP_CONFIG.DEFAULT_CURRENCY,
+    rates: null,
+    setDisplayCurrency: (displayCurrency) => {
+        localStorage.setItem(DISPLAY_CURRENCY_KEY, displayCurrency);
+        set({ displayCurrency });
+    },
+    setRates: (rates) => set({ rates }),
+}));
+
+// Feed Store - loaded pages of listing feeds, so going back to a feed shows it as it was left
+export interface FeedSnapshot<C = unknown, M = unknown> {
+    properties: Property[];
+    // Where the next page starts
+    cursor: C | null;
+    hasMore: boolean;
+    total?: number;
+    candidates?: Property[];
+    stays?: Map<string, StayMatch>;
+    meta?: M;
+    scrollTop: number;
+}
+
+interface FeedState {
+    feeds: Record<string, FeedSnapshot>;
+    saveFeed: (key: string, feed: FeedSnapshot) => void;
+}
+
+// Feeds remembered at once; the least recently saved go first
+const MAX_SAVED_FEEDS = 5;
+
+export const useFeedStore = create<FeedState>((set) => ({
+    feeds: {},
+    saveFeed: (key, feed) =>
+        set((state) => {
+            const others = Object.entries(state.feeds).filter(([k]) => k !== key);
+            return { feeds: Object.fromEntries([...others.slice(-(MAX_SAVED_FEEDS - 1)), [key, feed]]) };
+        }),
+}));
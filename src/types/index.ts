@@ -22,6 +22,8 @@ export interface User {
     responseTime?: string;
     languages?: string[];
     reviewCount?: number;
+    // Currency prices are shown in while browsing
+    preferredCurrency?: string;
 }
 
 export interface UserProfile extends Omit<User, 'id'> {
@@ -40,10 +42,16 @@ export interface PropertyLocation {
     country: string;
     zipCode: string;
     coordinates: GeoPoint;
+    // Geohash of the coordinates, set on save; location searches query its prefixes
+    geohash?: string;
 }
 
 export interface PricingRules {
+    // Currency the listing is priced and charged in; APP_CONFIG.DEFAULT_CURRENCY if unset
+    currency?: string;
     basePrice: number;
+    // Held on the guest's card from booking until after checkout; never part of the total
+    securityDeposit?: number;
     weekendPrice?: number;
     cleaningFee: number;
     weeklyDiscount?: number;
@@ -52,6 +60,29 @@ export interface PricingRules {
         date: string;
         price: number;
     }[];
+    seasons?: SeasonalPricing[];
+    earlyBirdDiscount?: {
+        minDaysInAdvance: number;
+        percent: number;
+    };
+    lastMinuteDiscount?: {
+        maxDaysInAdvance: number;
+        percent: number;
+    };
+    extraGuestFee?: {
+        baseOccupancy: number;
+        feePerGuest: number;
+    };
+    minimumNightlyPrice?: number;
+}
+
+export interface SeasonalPricing {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    nightlyPrice: number;
+    weekendPrice?: number;
 }
 
 export interface Property {
@@ -75,12 +106,22 @@ export interface Property {
     instantBook: boolean;
     minimumStay: number;
     maximumStay?: number;
+    // Days between booking and check-in; 0 allows same-day check-in
     advanceNotice: number;
+    // Nights kept free before and after each booking
     preparationTime: number;
+    availabilityRules?: AvailabilityRules;
     blockedDates: string[];
+    // Nights taken on other platforms, merged from the host's external calendars
+    externalBlockedDates?: string[];
+    // Nights held by active bookings, mirrored from the night locks so search can leave
+    // out listings taken for a guest's dates without querying bookings
+    bookedNights?: string[];
     createdAt: Timestamp;
     updatedAt: Timestamp;
     status: PropertyStatus;
+    // When the listing last went live, for new-listing alerts on saved searches
+    activatedAt?: Timestamp;
     views: number;
     averageRating?: number;
     reviewCount: number;
@@ -89,6 +130,25 @@ export interface Property {
     occupancyRate?: number;
 }
 
+// Stay restrictions beyond the listing-wide minimum and maximum stay
+export interface AvailabilityRules {
+    // Minimum nights for stays checking in during a date range; replaces minimumStay there
+    seasonalMinimumStays?: SeasonalMinimumStay[];
+    // Weekdays guests may arrive or leave on (0 = Sunday); any day if unset
+    checkInDays?: number[];
+    checkOutDays?: number[];
+    // With no advance notice, same-day check-ins close at this hour (0-23)
+    sameDayCutoffHour?: number;
+}
+
+export interface SeasonalMinimumStay {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    minimumStay: number;
+}
+
 // Helper to get rating info from property
 export const getPropertyRating = (property: Property) => ({
     average: property.averageRating ?? 0,
@@ -104,8 +164,8 @@ export interface PropertyPhoto {
 }
 
 // Booking Types
-export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
-export type PaymentStatus = 'pending' | 'paid' | 'refunded' | 'partial_refund';
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'expired';
+export type PaymentStatus = 'pending' | 'authorized' | 'paid' | 'failed' | 'refunded' | 'partial_refund';
 
 export interface Booking {
     id: string;
@@ -128,10 +188,87 @@ export interface Booking {
     specialRequests?: string;
     createdAt: Timestamp;
     updatedAt: Timestamp;
+    expiresAt?: Timestamp;
+    expiredAt?: Timestamp;
+    payoutId?: string;
     cancelledAt?: Timestamp;
     cancellationReason?: string;
     refundAmount?: number;
+    refundBreakdown?: RefundBreakdown;
+    modification?: BookingModification | null;
+    priceDifference?: number;
+    versionHistory?: BookingVersion[];
     hasReview?: boolean;
+    securityDeposit?: SecurityDeposit;
+    damageClaim?: DamageClaim;
+}
+
+// Security Deposit Types
+export type SecurityDepositStatus = 'scheduled' | 'held' | 'failed' | 'released' | 'charged';
+
+// Refundable deposit held on the guest's card (an uncaptured payment) against damage.
+// Stays booked well ahead keep the card and are held by the sweep nearer the stay.
+export interface SecurityDeposit {
+    amount: number;
+    currency: string;
+    status: SecurityDepositStatus;
+    paymentIntentId?: string;
+    paymentMethodId?: string;
+    holdAt?: Timestamp;
+    heldAt?: Timestamp;
+    releasedAt?: Timestamp;
+    chargedAmount?: number;
+}
+
+export type DamageClaimStatus = 'pending' | 'accepted' | 'disputed' | 'resolved';
+
+// A host's claim against the deposit, filed after checkout
+export interface DamageClaim {
+    amount: number;
+    description: string;
+    photos: string[];
+    status: DamageClaimStatus;
+    createdAt: Timestamp;
+    respondedAt?: Timestamp;
+    guestResponse?: string;
+    // How much of a disputed claim support awarded the host
+    awardedAmount?: number;
+    resolvedAt?: Timestamp;
+    resolutionNote?: string;
+}
+
+export type ModificationStatus = 'pending' | 'accepted' | 'declined';
+
+// A guest's proposed change to dates or guest count, awaiting the host
+export interface BookingModification {
+    id: string;
+    requestedBy: string;
+    checkIn: Timestamp;
+    checkOut: Timestamp;
+    guests: {
+        adults: number;
+        children: number;
+        infants: number;
+    };
+    pricing: BookingPricing;
+    priceDifference: number;
+    message?: string;
+    status: ModificationStatus;
+    createdAt: Timestamp;
+    respondedAt?: Timestamp;
+}
+
+// Snapshot of a booking's stay details before a modification replaced them
+export interface BookingVersion {
+    checkIn: Timestamp;
+    checkOut: Timestamp;
+    guests: {
+        adults: number;
+        children: number;
+        infants: number;
+    };
+    pricing: BookingPricing;
+    replacedAt: Timestamp;
 }
 
 export interface BookingPricing {
@@ -140,11 +277,115 @@ export interface BookingPricing {
     subtotal: number;
     cleaningFee: number;
     serviceFee: number;
-    taxes: number;
+    taxes: number; // Sum of taxLines
+    taxLines?: TaxLine[];
     discount?: number;
+    promoCode?: string;
+    // Who absorbs the discount: host codes come out of the payout, platform codes don't
+    discountFundedBy?: 'host' | 'platform';
+    total: number;
+    // Charge currency, taken from the listing when the stay is priced
+    currency?: string;
+    nightlyBreakdown?: NightlyPrice[];
+}
+
+export interface NightlyPrice {
+    date: string;
+    baseRate: number;
+    price: number;
+    adjustments: {
+        label: string;
+        amount: number;
+    }[];
+}
+
+// Tax Types
+// percentage: a fraction of the nights (after discounts), cleaning fee and service fee
+// per_night / per_guest_per_night: a flat amount in the listing's currency
+export type TaxType = 'percentage' | 'per_night' | 'per_guest_per_night';
+
+export interface TaxRule {
+    id: string;
+    name: string; // Shown as the line label, e.g. "Cebu tourism fee"
+    country?: string; // Unset for the default rules
+    countryCode?: string; // ISO 3166 code, e.g. "PH"; matched like the name
+    state?: string; // Applies across the country when unset
+    city?: string; // Applies across the state (or country) when unset
+    type: TaxType;
+    rate: number;
+    exemptMinNights?: number; // Stays at least this long don't pay it
+}
+
+// One tax charged on a stay. Keeps the rule's type and rate so the line can be
+// re-priced when a discount changes the taxable amount.
+export interface TaxLine {
+    ruleId: string;
+    label: string;
+    type: TaxType;
+    rate: number;
+    amount: number;
+}
+
+// Promo Code Types
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+export interface PromoCode {
+    id: string; // The normalised code itself, e.g. "SUMMER25"
+    code: string;
+    description?: string;
+    hostId?: string; // Host-specific codes; platform-wide codes have none
+    discountType: PromoDiscountType;
+    amount: number; // Percent off the nights, or a fixed amount in the listing's currency
+    maxDiscount?: number;
+    validFrom?: Timestamp;
+    validUntil?: Timestamp;
+    minNights?: number;
+    maxUses?: number;
+    maxUsesPerUser?: number;
+    usedCount: number;
+    propertyIds?: string[];
+    cities?: string[];
+    isActive: boolean;
+    createdAt: Timestamp;
+}
+
+// A guest's uses of one promo code
+export interface PromoRedemption {
+    id: string; // `${code}_${userId}`
+    code: string;
+    userId: string;
+    count: number;
+    bookingIds: string[];
+    updatedAt: Timestamp;
+}
+
+// Refund Types
+export interface RefundBreakdown {
+    nightly: number;
+    cleaningFee: number;
+    serviceFee: number;
+    taxes: number;
     total: number;
 }
 
+// Pending until the provider has returned the money; failed refunds are retried by the sweep
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+export interface Refund {
+    id: string;
+    bookingId: string;
+    guestId: string;
+    hostId: string;
+    amount: number;
+    breakdown: RefundBreakdown;
+    policy: CancellationPolicy;
+    cancelledBy: 'guest' | 'host';
+    reason: string;
+    providerRefundId?: string;
+    status?: RefundStatus;
+    createdAt: Timestamp;
+}
+
 // Helper to get total price from booking
 export const getBookingTotalPrice = (booking: Booking): number => booking.pricing.total;
 export const getBookingNightlyRate = (booking: Booking): number => booking.pricing.nightlyRate;
@@ -226,6 +467,10 @@ export interface SearchFilters {
     location?: string;
     checkIn?: Date;
     checkOut?: Date;
+    // Days the exact dates may move earlier or later, keeping the trip length
+    dateShift?: number;
+    // Any stay of a trip length in some months; replaces checkIn and checkOut
+    flexibleDates?: FlexibleDates;
     guests?: {
         adults: number;
         children: number;
@@ -241,51 +486,181 @@ export interface SearchFilters {
     beds?: number;
     amenities?: string[];
     instantBook?: boolean;
+    // Map view searched instead of the location ("search as I move the map")
+    mapBounds?: {
+        north: number;
+        south: number;
+        east: number;
+        west: number;
+    };
+    // Area drawn on the map; only listings inside it match
+    polygon?: MapPoint[];
+}
+
+// A corner of an area drawn on the search map
+export interface MapPoint {
+    lat: number;
+    lng: number;
+}
+
+// How often a saved search is checked for new listings and price drops
+export type SavedSearchAlertFrequency = 'instant' | 'daily' | 'weekly' | 'off';
+
+// Search filters as stored in Firestore, with dates as Timestamps
+export type StoredSearchFilters = Omit<SearchFilters, 'checkIn' | 'checkOut'> & {
+    checkIn?: Timestamp;
+    checkOut?: Timestamp;
+};
+
+export interface SavedSearch {
+    id: string;
+    userId: string;
+    name: string;
+    filters: StoredSearchFilters;
+    // Map area the search covered, if the location was found on the map
+    bounds?: { north: number; south: number; east: number; west: number };
+    alertFrequency: SavedSearchAlertFrequency;
+    // Alert when a matching listing's nightly price drops below this, in the search's currency
+    priceThreshold?: number;
+    currency: string;
+    // Nightly price of each matching listing when last checked
+    knownPrices: Record<string, number>;
+    lastCheckedAt?: Timestamp;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+// Trip lengths for flexible-date searches. A weekend is Friday to Sunday.
+export type FlexibleTripLength = 'weekend' | 'week' | 'nights';
+
+export interface FlexibleDates {
+    // YYYY-MM
+    months: string[];
+    tripLength: FlexibleTripLength;
+    // Trip length when tripLength is 'nights'
+    nights?: number;
+}
+
+// A stay a listing can take for a search's dates, with its total price
+export interface StayMatch {
+    checkIn: Date;
+    checkOut: Date;
+    total: number;
 }
 
 export interface SearchResult {
     properties: Property[];
     total: number;
     hasMore: boolean;
+    // Every listing the search matches before its refinements (type, price, rooms,
+    // amenities, instant book), for facet counts
+    candidates: Property[];
+    // The cheapest open stay of each candidate, when the search has dates
+    stays?: Map<string, StayMatch>;
+}
+
+export interface PriceHistogramBucket {
+    min: number;
+    max: number;
+    count: number;
 }
 
-export type SortOption = 'price_low' | 'price_high' | 'rating' | 'reviews';
+// Listings each filter option would show, given the other filters
+export interface SearchFacets {
+    propertyTypes: Record<PropertyType, number>;
+    amenities: Record<string, number>;
+    // Keyed by minimum count
+    bedrooms: Record<number, number>;
+    bathrooms: Record<number, number>;
+    instantBook: number;
+    // Base prices of listings matching everything but the price range
+    priceHistogram: PriceHistogramBucket[];
+}
+
+export type SortOption = 'relevance' | 'price_low' | 'price_high' | 'rating' | 'reviews' | 'distance';
+
+// Currency Types
+// Units of each currency per one unit of the base currency
+export interface ExchangeRateTable {
+    base: string;
+    rates: Record<string, number>;
+    source?: string;
+    updatedAt: Timestamp;
+}
 
 // Payout Types
 export interface Payout {
     id: string;
     hostId: string;
     bookingId: string;
+    propertyId: string;
+    grossAmount: number;
+    hostServiceFee: number;
     amount: number;
+    currency: string;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     scheduledDate: Timestamp;
     paidDate?: Timestamp;
-    paymentMethod: {
+    // Filled in when the payout is sent
+    paymentMethod?: {
         type: 'bank_transfer' | 'paypal';
         details: string;
     };
+    createdAt: Timestamp;
 }
 
+export type PayoutMethodStatus = 'pending_verification' | 'verified';
+
 export interface PayoutMethod {
     id: string;
     userId: string;
     type: 'bank_transfer' | 'paypal';
     isDefault: boolean;
+    status: PayoutMethodStatus;
+    verifiedAt?: Timestamp;
+    // Full account numbers stay with the payout processor; only its reference is kept
     details: {
         accountName?: string;
-        accountNumber?: string;
-        routingNumber?: string;
+        accountLast4?: string;
         bankName?: string;
         paypalEmail?: string;
+        processorAccountId?: string;
     };
     createdAt: Timestamp;
 }
 
+// Calendar Sync Types
+// A property's iCal export. The token in the feed's URL is its secret.
+export interface CalendarFeed {
+    propertyId: string;
+    hostId: string;
+    token: string;
+    url: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export type ExternalCalendarSource = 'url' | 'file';
+
+// A calendar from another platform whose events block the property's nights
+export interface ExternalCalendar {
+    id: string;
+    propertyId: string;
+    hostId: string;
+    name: string;
+    source: ExternalCalendarSource;
+    url?: string;
+    blockedDates: string[];
+    lastSyncedAt?: Timestamp;
+    lastError?: string;
+    createdAt: Timestamp;
+}
+
 // Notification Types
 export interface Notification {
     id: string;
     userId: string;
-    type: 'booking' | 'message' | 'review' | 'payout' | 'system';
+    type: 'booking' | 'message' | 'review' | 'payout' | 'search' | 'system';
     title: string;
     body: string;
     data?: Record<string, unknown>;